@@ -0,0 +1,74 @@
+// Freezes finalized days into the day snapshot store through a running dashboard's /api/snapshots.
+//
+//   npm run snapshots:backfill                                  the latest finalized day (run it daily)
+//   npm run snapshots:backfill -- --from 2025-01-01 --to 2025-06-30
+//   npm run snapshots:backfill -- --from 2025-01-01 --url https://dashboard.example.com --tz Europe/Amsterdam
+//
+// Ranges are sent a month at a time; a throttled month stops the run, so run it again later to go on.
+
+type Options = { from?: string; to?: string; url: string; tz?: string };
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { url: process.env.DASHBOARD_URL || 'http://localhost:5173' };
+  for (let i = 0; i < args.length; i += 2) {
+    const [name, value] = [args[i], args[i + 1]];
+    if (!value) throw new Error(`Missing value for ${name}`);
+    if (name === '--from') options.from = value;
+    else if (name === '--to') options.to = value;
+    else if (name === '--url') options.url = value.replace(/\/$/, '');
+    else if (name === '--tz') options.tz = value;
+    else throw new Error(`Unknown option ${name}`);
+  }
+  return options;
+}
+
+function lastDayOfMonth(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+}
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().split('T')[0];
+}
+
+async function freeze(options: Options, range: { from?: string; to?: string }): Promise<boolean> {
+  const query = options.tz ? `?tz=${encodeURIComponent(options.tz)}` : '';
+  const response = await fetch(`${options.url}/api/snapshots${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(range)
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    console.error(`${range.from ?? 'latest'}..${range.to ?? ''}: ${result.error}`);
+    return false;
+  }
+  for (const day of result.days) {
+    console.log(`${day.date}  ${day.frozen ? 'frozen  ' : 'not frozen'}  ${day.quality ?? day.error}`);
+  }
+  return !result.days.some((day: { error?: string }) => day.error?.startsWith('Throttled'));
+}
+
+async function backfillSnapshots() {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    if (!options.from && !options.to) {
+      process.exitCode = (await freeze(options, {})) ? 0 : 1;
+      return;
+    }
+    const to = options.to ?? options.from!;
+    for (let from = options.from ?? to; from <= to; from = nextDay(lastDayOfMonth(from))) {
+      const monthEnd = lastDayOfMonth(from);
+      if (!(await freeze(options, { from, to: monthEnd < to ? monthEnd : to }))) {
+        process.exitCode = 1;
+        return;
+      }
+    }
+  } catch (err) {
+    console.error('Snapshot backfill failed:', err);
+    process.exitCode = 1;
+  }
+}
+
+backfillSnapshots();
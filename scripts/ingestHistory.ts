@@ -0,0 +1,62 @@
+// Feeds the history store through a running dashboard's /api/history, until every
+// configured pipeline is ingested through the latest finalized day.
+//
+//   npm run history:ingest                                      carry on from the last day ingested (run it daily)
+//   npm run history:ingest -- --from 2025-01-01                 ingest again from that day on
+//   npm run history:ingest -- --pipeline 101 --url https://dashboard.example.com --tz Europe/Amsterdam
+
+type Options = { from?: string; pipelineId?: string; url: string; tz?: string };
+
+type IngestResult = { pipelineId: string; days: number; runs: number; ingestedThrough: string | null; error?: string };
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { url: process.env.DASHBOARD_URL || 'http://localhost:5173' };
+  for (let i = 0; i < args.length; i += 2) {
+    const [name, value] = [args[i], args[i + 1]];
+    if (!value) throw new Error(`Missing value for ${name}`);
+    if (name === '--from') options.from = value;
+    else if (name === '--pipeline') options.pipelineId = value;
+    else if (name === '--url') options.url = value.replace(/\/$/, '');
+    else if (name === '--tz') options.tz = value;
+    else throw new Error(`Unknown option ${name}`);
+  }
+  return options;
+}
+
+async function ingest(options: Options, pipelineId: string | undefined, from: string | undefined): Promise<IngestResult[]> {
+  const query = options.tz ? `?tz=${encodeURIComponent(options.tz)}` : '';
+  const response = await fetch(`${options.url}/api/history${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ pipelineId, from })
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error);
+  return result.pipelines;
+}
+
+async function ingestHistory() {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    // Each request adds at most a month per pipeline; ask again for the ones that are not done
+    let pending: Array<string | undefined> = [options.pipelineId];
+    let from = options.from;
+    while (pending.length > 0) {
+      const next: string[] = [];
+      for (const pipelineId of pending) {
+        for (const result of await ingest(options, pipelineId, from)) {
+          console.log(`${result.pipelineId}  +${result.days} days, +${result.runs} runs, through ${result.ingestedThrough ?? '-'}${result.error ? `  (${result.error})` : ''}`);
+          if (result.days > 0 && !result.error) next.push(result.pipelineId);
+          if (result.error) process.exitCode = 1;
+        }
+      }
+      pending = next;
+      from = undefined;
+    }
+  } catch (err) {
+    console.error('History ingest failed:', err);
+    process.exitCode = 1;
+  }
+}
+
+ingestHistory();
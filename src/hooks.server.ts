@@ -0,0 +1,38 @@
+import type { ServerInit } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { FilePipelineConfigStore, getPipelineConfigService } from '$lib/server/pipelineConfig';
+import { getAdoConnection, getNamedAdoConnections } from '$lib/server/ado';
+import { getFixturePipelineConfigFile, getFixturesDir, installFixtures } from '$lib/server/fixtures';
+
+// Load the pipeline config once at startup so mistakes show up in the logs
+// before the first request, with every problem listed (see PipelineConfigError)
+export const init: ServerInit = async () => {
+    const fixtureMode = installFixtures(env);
+    if (fixtureMode !== 'off') {
+        console.log(`[fixtures] ${fixtureMode === 'replay' ? 'Replaying' : 'Recording'} Azure DevOps, Azure OpenAI, PTA and storage answers in ${getFixturesDir(env)}`);
+    }
+
+    const service = getPipelineConfigService();
+    try {
+        const { source, config } = await service.load('daily');
+        const from = source === 'store' ? service.store?.description : 'PUBLIC_AZURE_PIPELINE_CONFIG';
+        console.log(`[pipelineConfig] ${config.pipelines.length} pipeline(s) configured, from ${from}`);
+        // A recording replays with the pipelines it was made for
+        if (fixtureMode === 'record') {
+            await new FilePipelineConfigStore(getFixturePipelineConfigFile(env)).write('daily', config);
+        }
+    } catch (e) {
+        console.error(`[pipelineConfig] ${e instanceof Error ? e.message : e}`);
+    }
+    try {
+        console.log(`[connections] Azure DevOps auth: ${getAdoConnection(env).credential.kind}`);
+    } catch (e) {
+        console.error(`[connections] ${e instanceof Error ? e.message : e}`);
+    }
+    try {
+        const names = Object.keys(getNamedAdoConnections(env));
+        if (names.length > 0) console.log(`[connections] Azure DevOps connections besides the default: ${names.join(', ')}`);
+    } catch (e) {
+        console.error(`[connections] ${e instanceof Error ? e.message : e}`);
+    }
+};
@@ -0,0 +1 @@
+export { default as PipelineSettings } from './PipelineSettings.svelte';
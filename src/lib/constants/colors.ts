@@ -7,6 +7,7 @@ export const BUILD_STATUS_COLORS = {
   bad: "bg-[var(--failure)] text-white",
   inProgress: "bg-[var(--in-progress)] text-white",
   interrupted: "bg-[var(--interrupted)] text-white",
+  incomplete: "bg-[var(--incomplete)] text-white",
   unknown: "bg-zinc-700 text-white",
   default: "bg-zinc-700 text-white"
 } as const;
@@ -27,6 +28,7 @@ export const HEADER_STATUS_COLORS = {
   bad: "bg-[var(--failure)] text-white",
   "inProgress": "bg-[var(--in-progress)] text-white",
   interrupted: "bg-[var(--interrupted)] text-white",
+  incomplete: "bg-[var(--incomplete)] text-white",
   unknown: "bg-zinc-700 text-white",
   default: "bg-zinc-700 text-white"
 } as const;
@@ -51,6 +53,7 @@ export const PIPELINE_BADGE_COLORS = {
   inProgress: "bg-[var(--in-progress)] text-white",
   "in progress": "bg-[var(--in-progress)] text-white",
   interrupted: "bg-[var(--interrupted)] text-white",
+  incomplete: "bg-[var(--incomplete)] text-white",
   unknown: "bg-zinc-700 text-white",
   default: "bg-zinc-700 text-white"
 } as const;
@@ -81,6 +84,8 @@ export function getPipelineBadgeText(status: string): string {
       return 'In Progress';
     case 'interrupted':
       return 'Interrupted';
+    case 'incomplete':
+      return 'Incomplete';
     case 'unknown':
     default:
       return 'Unknown';
@@ -95,7 +100,8 @@ export const TEST_RESULT_COLORS = {
   fail: "bg-[var(--failure)]",
   noData: "bg-zinc-400",
   inProgress: "bg-[var(--in-progress)]",
-  interrupted: "bg-[var(--interrupted)]"
+  interrupted: "bg-[var(--interrupted)]",
+  incomplete: "bg-[var(--incomplete)]"
 } as const;
 
 /**
@@ -128,4 +134,7 @@ export function getTestInProgressColor(): string {
 
 export function getTestInterruptedColor(): string {
   return TEST_RESULT_COLORS.interrupted;
-}
\ No newline at end of file
+}
+export function getTestIncompleteColor(): string {
+  return TEST_RESULT_COLORS.incomplete;
+}
@@ -5,10 +5,15 @@ export const PIPELINE_TEST_THRESHOLDS = {
 
 export const PIPELINE_ENV_NOT_STARTED_THRESHOLD = 0.3; // 30% or more environments not started is considered 'not started'
 
-export function getTestQuality(passPercentage: number): 'good' | 'ok' | 'bad' {
-    if (passPercentage >= PIPELINE_TEST_THRESHOLDS.good) {
+export const PIPELINE_MIN_TEST_VOLUME = 0.5; // Fewer than half the usual number of tests is considered 'incomplete'
+
+export const PIPELINE_MAX_NOT_RUN = 0.1; // Under the 'cap' policy, more than 10% of tests not run caps a run at 'ok'
+
+// Pipelines may override these in their config entry (see $lib/utils/statusScoring)
+export function getTestQuality(passPercentage: number, thresholds: { good: number; ok: number } = PIPELINE_TEST_THRESHOLDS): 'good' | 'ok' | 'bad' {
+    if (passPercentage >= thresholds.good) {
         return 'good';
-    } else if (passPercentage >= PIPELINE_TEST_THRESHOLDS.ok) {
+    } else if (passPercentage >= thresholds.ok) {
         return 'ok';
     } else {
         return 'bad';
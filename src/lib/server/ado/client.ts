@@ -0,0 +1,355 @@
+import { getAdoConnection } from './connections';
+import { PatCredential, type AdoCredential } from './credentials';
+import { AdoRequestError } from './errors';
+import { ConcurrencyLimiter, DEFAULT_MAX_CONCURRENCY, getPatLimiter } from './limiter';
+import {
+    DEFAULT_RETRY_POLICY,
+    backoffDelayMs,
+    getThrottleDelayMs,
+    isRetryableNetworkError,
+    isRetryableStatus,
+    sleep,
+    type RetryPolicy
+} from './retry';
+import type {
+    AdoBuild,
+    AdoBuildListQuery,
+    AdoClassificationNode,
+    AdoDefinition,
+    AdoDefinitionSearch,
+    AdoListResponse,
+    AdoRelease,
+    AdoReleaseListQuery,
+    AdoSuiteTestCase,
+    AdoTestResult,
+    AdoTestRun,
+    AdoTestRunListQuery,
+    AdoTestSuite,
+    AdoTimeline
+} from './types';
+
+/** Where to send requests and how to authenticate them; a bare `pat` is short for a PatCredential */
+export type AdoConnection = {
+    organization: string;
+    project: string;
+} & ({ credential: AdoCredential } | { pat: string });
+
+function connectionCredential(connection: AdoConnection): AdoCredential {
+    return 'credential' in connection ? connection.credential : new PatCredential(connection.pat);
+}
+
+/**
+ * api-version pinned per service area. Release Management still only ships a preview
+ * of 7.1, everything else uses the GA version.
+ */
+export const ADO_API_VERSIONS = {
+    build: '7.1',
+    release: '7.1-preview.8',
+    test: '7.1',
+    testPlan: '7.1',
+    wit: '7.1'
+} as const;
+
+export type AdoArea = keyof typeof ADO_API_VERSIONS;
+
+export type AdoClientOptions = {
+    fetch?: typeof fetch;
+    retry?: Partial<RetryPolicy>;
+    /** Defaults to the shared limiter for the connection's credential */
+    limiter?: ConcurrencyLimiter;
+    /** Injection points for tests */
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+};
+
+type QueryValue = string | number | boolean | null | undefined;
+
+/** Page size used when walking test results with $top/$skip */
+export const TEST_RESULTS_PAGE_SIZE = 1000;
+
+/**
+ * Builds a query string in insertion order. Keys are left as-is because Azure DevOps
+ * expects a literal `$top`/`$skip`, values are URI-encoded, empty values are dropped.
+ */
+function toQueryString(query: Record<string, QueryValue>): string {
+    return Object.entries(query)
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+        .join('&');
+}
+
+/**
+ * Thin typed wrapper around the Azure DevOps REST API.
+ * Owns URL construction, authentication, api-version pinning, continuation tokens,
+ * throttling retries and mapping non-2xx answers to AdoRequestError, so routes only
+ * deal with payloads.
+ */
+export class AdoClient {
+    readonly organization: string;
+    readonly project: string;
+    private readonly credential: AdoCredential;
+    private readonly fetchFn?: typeof fetch;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly limiter: ConcurrencyLimiter;
+    private readonly sleep: (ms: number) => Promise<void>;
+    private readonly random: () => number;
+
+    constructor(connection: AdoConnection, options: AdoClientOptions = {}) {
+        this.organization = connection.organization;
+        this.project = connection.project;
+        this.credential = connectionCredential(connection);
+        this.fetchFn = options.fetch;
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+        this.limiter = options.limiter ?? getPatLimiter(this.credential.limiterKey);
+        this.sleep = options.sleep ?? sleep;
+        this.random = options.random ?? Math.random;
+    }
+
+    //#region Request plumbing
+    private baseUrl(area: AdoArea): string {
+        const host = area === 'release' ? 'vsrm.dev.azure.com' : 'dev.azure.com';
+        return `https://${host}/${this.organization}/${this.project}/_apis`;
+    }
+
+    url(area: AdoArea, path: string, query: Record<string, QueryValue> = {}): string {
+        const qs = toQueryString({ ...query, 'api-version': ADO_API_VERSIONS[area] });
+        return `${this.baseUrl(area)}/${path}?${qs}`;
+    }
+
+    private async fetchOnce(url: string): Promise<Response> {
+        // Resolve fetch lazily so a stubbed global is honoured
+        const doFetch = this.fetchFn ?? fetch;
+        // Outside the limiter, so a token refresh does not hold a request slot
+        const authorization = await this.credential.getAuthorizationHeader();
+        return this.limiter.run(() => doFetch(url, {
+            headers: {
+                'Authorization': authorization,
+                'Content-Type': 'application/json'
+            }
+        }));
+    }
+
+    /**
+     * Sends a GET, retrying 429/5xx gateway answers and dropped connections with
+     * jittered exponential backoff. Retry-After and X-RateLimit-* are honoured and
+     * also pause the shared limiter, so queued requests back off together.
+     * A requested wait longer than the policy allows fails fast instead.
+     * A 401 for a cached token is retried once with a fresh token.
+     */
+    private async send(url: string): Promise<Response> {
+        const { maxRetries, maxDelayMs } = this.retryPolicy;
+        let reauthenticated = false;
+
+        for (let attempt = 0; ; attempt++) {
+            let res: Response;
+            try {
+                res = await this.fetchOnce(url);
+            } catch (error) {
+                if (!isRetryableNetworkError(error) || attempt >= maxRetries) throw error;
+                await this.sleep(backoffDelayMs(attempt, this.retryPolicy, this.random));
+                continue;
+            }
+
+            const throttleDelay = getThrottleDelayMs(res.headers);
+            if (throttleDelay !== null && throttleDelay > 0) {
+                this.limiter.pauseUntil(Date.now() + Math.min(throttleDelay, maxDelayMs));
+            }
+
+            if (res.ok) return res;
+
+            if (res.status === 401 && !reauthenticated && this.credential.invalidate()) {
+                reauthenticated = true;
+                continue;
+            }
+
+            const retryable = isRetryableStatus(res.status)
+                && attempt < maxRetries
+                && (throttleDelay === null || throttleDelay <= maxDelayMs);
+            if (retryable) {
+                await this.sleep(throttleDelay ?? backoffDelayMs(attempt, this.retryPolicy, this.random));
+                continue;
+            }
+
+            let details = '';
+            try {
+                details = typeof res.text === 'function' ? await res.text() : '';
+            } catch {
+                // body is best effort only
+            }
+            throw new AdoRequestError(res.status, res.statusText ?? '', url, details, throttleDelay, attempt + 1);
+        }
+    }
+
+    async get<T>(area: AdoArea, path: string, query: Record<string, QueryValue> = {}): Promise<T> {
+        const res = await this.send(this.url(area, path, query));
+        return (await res.json()) as T;
+    }
+
+    /**
+     * Fetches every page of a list endpoint, following the continuation token from
+     * either the `x-ms-continuationtoken` header or the response body.
+     */
+    async getAll<T>(area: AdoArea, path: string, query: Record<string, QueryValue> = {}): Promise<T[]> {
+        const items: T[] = [];
+        let continuationToken: string | null = null;
+
+        do {
+            const res = await this.send(this.url(area, path, { ...query, continuationToken }));
+            const body = (await res.json()) as AdoListResponse<T>;
+            if (Array.isArray(body?.value)) {
+                items.push(...body.value);
+            }
+            continuationToken = res.headers?.get('x-ms-continuationtoken') || body?.continuationToken || null;
+        } while (continuationToken);
+
+        return items;
+    }
+    //#endregion
+
+    //#region Definitions
+    /** Build definitions whose name contains `query.name`; a single page is enough for a lookup */
+    async listBuildDefinitions(query: AdoDefinitionSearch): Promise<AdoDefinition[]> {
+        const page = await this.get<AdoListResponse<AdoDefinition>>('build', 'build/definitions', {
+            name: `*${query.name}*`,
+            $top: query.top
+        });
+        return page?.value ?? [];
+    }
+
+    /** Release definitions whose name contains `query.name` */
+    async listReleaseDefinitions(query: AdoDefinitionSearch): Promise<AdoDefinition[]> {
+        const page = await this.get<AdoListResponse<AdoDefinition>>('release', 'release/definitions', {
+            searchText: query.name,
+            $top: query.top
+        });
+        return page?.value ?? [];
+    }
+    //#endregion
+
+    //#region Builds
+    listBuilds(query: AdoBuildListQuery): Promise<AdoBuild[]> {
+        return this.getAll<AdoBuild>('build', 'build/builds', {
+            definitions: query.definitions,
+            minTime: query.minTime,
+            maxTime: query.maxTime,
+            queryOrder: query.queryOrder,
+            $top: query.top,
+            branchName: query.branchName,
+            reasonFilter: query.reasonFilter,
+            tagFilters: query.tagFilters
+        });
+    }
+
+    getBuild(buildId: number | string): Promise<AdoBuild> {
+        return this.get<AdoBuild>('build', `build/builds/${buildId}`);
+    }
+
+    getBuildTimeline(buildId: number | string): Promise<AdoTimeline> {
+        return this.get<AdoTimeline>('build', `build/builds/${buildId}/timeline`);
+    }
+
+    /** A timeline record's log (the record's `log.id`) as plain text */
+    async getBuildLog(buildId: number | string, logId: number | string): Promise<string> {
+        const res = await this.send(this.url('build', `build/builds/${buildId}/logs/${logId}`));
+        return res.text();
+    }
+
+    buildLink(definitionId: number | string, buildId: number | string): string {
+        return `https://dev.azure.com/${this.organization}/${this.project}/_build?definitionId=${definitionId}&view=mine&_a=summary&buildId=${buildId}`;
+    }
+    //#endregion
+
+    //#region Releases
+    listReleases(query: AdoReleaseListQuery): Promise<AdoRelease[]> {
+        return this.getAll<AdoRelease>('release', 'release/releases', {
+            definitionId: query.definitionId,
+            minCreatedTime: query.minCreatedTime,
+            maxCreatedTime: query.maxCreatedTime,
+            $top: query.top,
+            $expand: query.expand
+        });
+    }
+
+    getRelease(releaseId: number | string): Promise<AdoRelease> {
+        return this.get<AdoRelease>('release', `release/releases/${releaseId}`);
+    }
+
+    releaseLink(releaseId: number | string): string {
+        return `https://dev.azure.com/${this.organization}/${this.project}/_releaseProgress?_a=release-pipeline-progress&releaseId=${releaseId}`;
+    }
+    //#endregion
+
+    //#region Test runs and results
+    listTestRuns(query: AdoTestRunListQuery): Promise<AdoTestRun[]> {
+        return this.getAll<AdoTestRun>('test', 'test/runs', { ...query });
+    }
+
+    getTestRun(runId: number | string): Promise<AdoTestRun> {
+        return this.get<AdoTestRun>('test', `test/runs/${runId}`);
+    }
+
+    /**
+     * Returns every result of a test run. The results endpoint pages with $top/$skip
+     * rather than continuation tokens, so keep asking until a short page comes back.
+     */
+    async listTestResults(runId: number | string): Promise<AdoTestResult[]> {
+        const results: AdoTestResult[] = [];
+        let skip = 0;
+
+        while (true) {
+            const page = await this.get<AdoListResponse<AdoTestResult>>('test', `test/Runs/${runId}/results`, {
+                $top: TEST_RESULTS_PAGE_SIZE,
+                $skip: skip
+            });
+            if (!Array.isArray(page?.value)) break;
+            results.push(...page.value);
+            if (page.value.length < TEST_RESULTS_PAGE_SIZE) break;
+            skip += TEST_RESULTS_PAGE_SIZE;
+        }
+
+        return results;
+    }
+    //#endregion
+
+    //#region Test plans and suites
+    listTestSuites(planId: number | string): Promise<AdoTestSuite[]> {
+        return this.getAll<AdoTestSuite>('testPlan', `testplan/Plans/${planId}/suites`);
+    }
+
+    listSuiteTestCases(planId: number | string, suiteId: number | string): Promise<AdoSuiteTestCase[]> {
+        return this.getAll<AdoSuiteTestCase>('testPlan', `testplan/Plans/${planId}/Suites/${suiteId}/TestCase`);
+    }
+    //#endregion
+
+    //#region Iterations
+    getIterations(depth = 2): Promise<AdoClassificationNode> {
+        return this.get<AdoClassificationNode>('wit', 'wit/classificationnodes/iterations', { $depth: depth });
+    }
+    //#endregion
+}
+
+function parseIntAtLeast(value: unknown, min: number): number | undefined {
+    const parsed = parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) && parsed >= min ? parsed : undefined;
+}
+
+export type GetAdoClientOptions = AdoClientOptions & {
+    /** Named connection of AZURE_DEVOPS_CONNECTIONS; the AZURE_DEVOPS_* one when omitted */
+    connection?: string | null;
+};
+
+/**
+ * Creates a client from the AZURE_DEVOPS_* variables of the given env object, or from
+ * the named connection. Throws the same error as getAzureDevOpsEnvVars when any of the
+ * default variables is missing, and an AdoConnectionError for an unknown connection.
+ * AZURE_DEVOPS_MAX_CONCURRENCY and AZURE_DEVOPS_MAX_RETRIES tune the request budget.
+ */
+export function getAdoClient(env: Record<string, any>, { connection: name, ...options }: GetAdoClientOptions = {}): AdoClient {
+    const connection = getAdoConnection(env, name);
+    const maxRetries = parseIntAtLeast(env.AZURE_DEVOPS_MAX_RETRIES, 0);
+    return new AdoClient(connection, {
+        limiter: getPatLimiter(connectionCredential(connection).limiterKey, parseIntAtLeast(env.AZURE_DEVOPS_MAX_CONCURRENCY, 1) ?? DEFAULT_MAX_CONCURRENCY),
+        ...options,
+        retry: { ...(maxRetries !== undefined && { maxRetries }), ...options.retry }
+    });
+}
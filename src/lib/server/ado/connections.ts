@@ -0,0 +1,161 @@
+import { getAzureDevOpsAuthKind, getAzureDevOpsEnvVars, type AzureDevOpsAuthKind } from '$lib/utils';
+import { DEFAULT_CONNECTION, isConnectionName, isDefaultConnection } from '$lib/utils/connections';
+import { withFixtureAdoEnv } from '$lib/server/fixtures/mode';
+import type { AdoConnection } from './client';
+import { createAdoCredential, parseExpiresOn, type AdoCredential } from './credentials';
+
+/** Thrown for a malformed AZURE_DEVOPS_CONNECTIONS or a connection name it does not define */
+export class AdoConnectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AdoConnectionError';
+    }
+}
+
+export function isAdoConnectionError(error: unknown): error is AdoConnectionError {
+    return error instanceof AdoConnectionError;
+}
+
+/** A connection as configured in env, always with a credential object */
+export type ConfiguredAdoConnection = AdoConnection & { credential: AdoCredential };
+
+type ConnectionSpec = {
+    organization?: unknown;
+    project?: unknown;
+    auth?: unknown;
+    patEnv?: unknown;
+    tenantId?: unknown;
+    clientId?: unknown;
+    clientSecretEnv?: unknown;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function nonEmpty(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+type CredentialSettings = {
+    kind: AzureDevOpsAuthKind;
+    pat?: string;
+    patEnv: string;
+    tenantId?: string;
+    clientId?: string;
+    clientSecretEnv: string;
+};
+
+/**
+ * Builds the credential of a connection. Secrets are read from the env vars the
+ * settings name, and an optional `<that var>_EXPIRES_ON` date lets the health
+ * endpoint warn before a PAT or client secret runs out.
+ */
+function connectionCredential(env: Record<string, any>, label: string, settings: CredentialSettings): AdoCredential {
+    const { kind, pat, patEnv, tenantId, clientId, clientSecretEnv } = settings;
+    if (kind === 'pat') {
+        if (!pat) {
+            throw new AdoConnectionError(`${label}: ${patEnv} is not set`);
+        }
+        return createAdoCredential(env, { kind, pat, expiresOn: parseExpiresOn(env[`${patEnv}_EXPIRES_ON`], `${patEnv}_EXPIRES_ON`) });
+    }
+    if (kind === 'servicePrincipal') {
+        const clientSecret = nonEmpty(env[clientSecretEnv]);
+        if (!tenantId || !clientId || !clientSecret) {
+            throw new AdoConnectionError(`${label}: servicePrincipal auth needs a tenant id, a client id and ${clientSecretEnv}`);
+        }
+        const expiresOn = parseExpiresOn(env[`${clientSecretEnv}_EXPIRES_ON`], `${clientSecretEnv}_EXPIRES_ON`);
+        return createAdoCredential(env, { kind, tenantId, clientId, clientSecret, expiresOn });
+    }
+    return createAdoCredential(env, { kind, clientId });
+}
+
+/**
+ * The named connections of AZURE_DEVOPS_CONNECTIONS, a JSON object such as
+ *   {"partner": {"organization": "contoso", "project": "Shop", "patEnv": "PARTNER_ADO_PAT"}}
+ * The PAT is read from the env var named by patEnv, or AZURE_DEVOPS_PAT when omitted,
+ * so projects of the same organization can share one credential. `auth` switches a
+ * connection to "servicePrincipal" (tenantId, clientId, clientSecretEnv) or
+ * "managedIdentity" (clientId for a user-assigned identity); ids default to
+ * AZURE_TENANT_ID/AZURE_CLIENT_ID and the secret to AZURE_CLIENT_SECRET.
+ */
+export function getNamedAdoConnections(env: Record<string, any>): Record<string, ConfiguredAdoConnection> {
+    const raw = env.AZURE_DEVOPS_CONNECTIONS;
+    if (!raw || !String(raw).trim()) return {};
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        throw new AdoConnectionError('Failed to parse AZURE_DEVOPS_CONNECTIONS');
+    }
+    if (!isPlainObject(parsed)) {
+        throw new AdoConnectionError('AZURE_DEVOPS_CONNECTIONS must be an object of connections by name');
+    }
+
+    const connections: Record<string, ConfiguredAdoConnection> = {};
+    for (const [name, spec] of Object.entries(parsed as Record<string, ConnectionSpec>)) {
+        if (!isConnectionName(name) || isDefaultConnection(name)) {
+            throw new AdoConnectionError(`AZURE_DEVOPS_CONNECTIONS: "${name}" is not a usable connection name`);
+        }
+        const organization = nonEmpty(spec?.organization);
+        const project = nonEmpty(spec?.project);
+        if (!organization || !project) {
+            throw new AdoConnectionError(`AZURE_DEVOPS_CONNECTIONS.${name}: organization and project are required`);
+        }
+        let kind: AzureDevOpsAuthKind;
+        try {
+            kind = getAzureDevOpsAuthKind(spec.auth, `AZURE_DEVOPS_CONNECTIONS.${name}.auth`);
+        } catch (e) {
+            throw new AdoConnectionError((e as Error).message);
+        }
+        const patEnv = nonEmpty(spec.patEnv) ?? 'AZURE_DEVOPS_PAT';
+        const credential = connectionCredential(env, `AZURE_DEVOPS_CONNECTIONS.${name}`, {
+            kind,
+            pat: nonEmpty(env[patEnv]),
+            patEnv,
+            tenantId: nonEmpty(spec.tenantId) ?? nonEmpty(env.AZURE_TENANT_ID),
+            clientId: nonEmpty(spec.clientId) ?? nonEmpty(env.AZURE_CLIENT_ID),
+            clientSecretEnv: nonEmpty(spec.clientSecretEnv) ?? 'AZURE_CLIENT_SECRET'
+        });
+        connections[name] = { organization, project, credential };
+    }
+    return connections;
+}
+
+/**
+ * The connection with the given name; the AZURE_DEVOPS_* one for no name or "default".
+ * Throws the getAzureDevOpsEnvVars error when the default connection is not configured,
+ * and an AdoConnectionError for names AZURE_DEVOPS_CONNECTIONS does not define. While
+ * replaying fixtures the default connection needs no settings (see withFixtureAdoEnv).
+ */
+export function getAdoConnection(env: Record<string, any>, name?: string | null): ConfiguredAdoConnection {
+    if (isDefaultConnection(name)) {
+        const { AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT, AZURE_DEVOPS_AUTH } = getAzureDevOpsEnvVars(withFixtureAdoEnv(env));
+        const credential = connectionCredential(env, 'AZURE_DEVOPS_AUTH', {
+            kind: AZURE_DEVOPS_AUTH ?? 'pat',
+            pat: AZURE_DEVOPS_PAT,
+            patEnv: 'AZURE_DEVOPS_PAT',
+            tenantId: nonEmpty(env.AZURE_TENANT_ID),
+            clientId: nonEmpty(env.AZURE_CLIENT_ID),
+            clientSecretEnv: 'AZURE_CLIENT_SECRET'
+        });
+        return { organization: AZURE_DEVOPS_ORGANIZATION, project: AZURE_DEVOPS_PROJECT, credential };
+    }
+    const connection = getNamedAdoConnections(env)[name!];
+    if (!connection) {
+        throw new AdoConnectionError(`Unknown Azure DevOps connection "${name}"`);
+    }
+    return connection;
+}
+
+/** Names of every usable connection, the default one first when it is configured */
+export function listAdoConnectionNames(env: Record<string, any>): string[] {
+    const names = Object.keys(getNamedAdoConnections(env));
+    try {
+        getAzureDevOpsEnvVars(withFixtureAdoEnv(env));
+        return [DEFAULT_CONNECTION, ...names];
+    } catch {
+        return names;
+    }
+}
@@ -0,0 +1,312 @@
+import { createHash } from 'crypto';
+import type { AzureDevOpsAuthKind } from '$lib/utils';
+
+/** Microsoft Entra resource id of Azure DevOps, the audience of every token we request */
+export const AZURE_DEVOPS_RESOURCE = '499b84ac-1321-427f-aa17-267ca6975798';
+
+export const DEFAULT_AUTHORITY_HOST = 'https://login.microsoftonline.com';
+const IMDS_ENDPOINT = 'http://169.254.169.254/metadata/identity/oauth2/token';
+
+/** Tokens are refreshed this long before they expire, so a request never carries a dying token */
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/** A PAT or client secret expiring within this window is reported as expiring soon */
+export const DEFAULT_EXPIRY_WARNING_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** Thrown when a credential is misconfigured or Microsoft Entra ID refuses to issue a token */
+export class AdoCredentialError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AdoCredentialError';
+    }
+}
+
+export function isAdoCredentialError(error: unknown): error is AdoCredentialError {
+    return error instanceof AdoCredentialError;
+}
+
+export type AdoCredentialStatus = {
+    kind: AzureDevOpsAuthKind;
+    /** False once the credential expired or the last token request failed */
+    healthy: boolean;
+    /** When the PAT or client secret expires, as far as configured */
+    expiresOn: string | null;
+    expiresSoon: boolean;
+    /** Expiry of the cached access token, for token based credentials */
+    tokenExpiresOn: string | null;
+    lastError: string | null;
+};
+
+/**
+ * Something that can authenticate requests to Azure DevOps. Implementations own
+ * any token caching, so a single instance should be shared per identity.
+ */
+export interface AdoCredential {
+    readonly kind: AzureDevOpsAuthKind;
+    /** Identifies the credential for the shared request limiter; hashed before use */
+    readonly limiterKey: string;
+    getAuthorizationHeader(): Promise<string>;
+    /** Drops a cached token after Azure DevOps rejected it; false when there is nothing to retry with */
+    invalidate(): boolean;
+    status(now?: number): AdoCredentialStatus;
+}
+
+type CredentialTiming = {
+    /** When the PAT or client secret expires, as configured */
+    expiresOn?: Date | null;
+    expiryWarningMs?: number;
+    now?: () => number;
+};
+
+function expiryStatus({ expiresOn, expiryWarningMs = DEFAULT_EXPIRY_WARNING_MS }: CredentialTiming, now: number) {
+    const expiresAt = expiresOn?.getTime() ?? null;
+    return {
+        expiresOn: expiresOn ? expiresOn.toISOString() : null,
+        expired: expiresAt !== null && expiresAt <= now,
+        expiresSoon: expiresAt !== null && expiresAt - now <= expiryWarningMs
+    };
+}
+
+//#region PAT
+export class PatCredential implements AdoCredential {
+    readonly kind = 'pat';
+    readonly limiterKey: string;
+    private readonly header: string;
+
+    constructor(pat: string, private readonly timing: CredentialTiming = {}) {
+        this.limiterKey = pat;
+        this.header = `Basic ${Buffer.from(`:${pat}`).toString('base64')}`;
+    }
+
+    async getAuthorizationHeader(): Promise<string> {
+        return this.header;
+    }
+
+    invalidate(): boolean {
+        return false;
+    }
+
+    status(now = (this.timing.now ?? Date.now)()): AdoCredentialStatus {
+        const { expiresOn, expired, expiresSoon } = expiryStatus(this.timing, now);
+        return { kind: this.kind, healthy: !expired, expiresOn, expiresSoon, tokenExpiresOn: null, lastError: null };
+    }
+}
+//#endregion
+
+//#region Tokens
+type AccessToken = { token: string; expiresOnMs: number };
+
+type TokenCredentialOptions = CredentialTiming & {
+    fetch?: typeof fetch;
+};
+
+/**
+ * Reads the token of a Microsoft Entra ID answer. The v2 endpoint reports `expires_in`
+ * seconds, the managed identity endpoints an `expires_on` epoch (as a string).
+ */
+function parseTokenResponse(body: any, now: number): AccessToken | null {
+    const token = typeof body?.access_token === 'string' ? body.access_token : '';
+    if (!token) return null;
+    const expiresOn = Number(body.expires_on);
+    if (Number.isFinite(expiresOn) && expiresOn > 0) return { token, expiresOnMs: expiresOn * 1000 };
+    const expiresIn = Number(body.expires_in);
+    return { token, expiresOnMs: now + (Number.isFinite(expiresIn) ? expiresIn : 0) * 1000 };
+}
+
+/**
+ * Bearer token credential with caching: a token is reused until it is within
+ * TOKEN_REFRESH_MARGIN_MS of expiring, and concurrent callers share one refresh.
+ * A failed refresh falls back to the cached token while it is still valid.
+ */
+abstract class TokenCredential implements AdoCredential {
+    abstract readonly kind: AzureDevOpsAuthKind;
+    abstract readonly limiterKey: string;
+    private cached: AccessToken | null = null;
+    private pending: Promise<AccessToken> | null = null;
+    private lastError: string | null = null;
+
+    constructor(protected readonly options: TokenCredentialOptions = {}) {}
+
+    protected abstract requestToken(doFetch: typeof fetch): Promise<Response>;
+
+    private now(): number {
+        return (this.options.now ?? Date.now)();
+    }
+
+    async getAuthorizationHeader(): Promise<string> {
+        const now = this.now();
+        if (this.cached && this.cached.expiresOnMs - TOKEN_REFRESH_MARGIN_MS > now) {
+            return `Bearer ${this.cached.token}`;
+        }
+        this.pending ??= this.refresh().finally(() => {
+            this.pending = null;
+        });
+        try {
+            return `Bearer ${(await this.pending).token}`;
+        } catch (error) {
+            if (this.cached && this.cached.expiresOnMs > this.now()) return `Bearer ${this.cached.token}`;
+            throw error;
+        }
+    }
+
+    private async refresh(): Promise<AccessToken> {
+        // Resolve fetch lazily so a stubbed global is honoured
+        const doFetch = this.options.fetch ?? fetch;
+        try {
+            let res: Response;
+            try {
+                res = await this.requestToken(doFetch);
+            } catch (error) {
+                throw new AdoCredentialError(`Token request failed: ${error instanceof Error ? error.message : error}`);
+            }
+            if (!res.ok) {
+                // Entra answers with an error/error_description body; never log the request itself
+                const details = await res.text().catch(() => '');
+                throw new AdoCredentialError(`Token request failed: ${res.status} ${res.statusText ?? ''} ${details}`.trim());
+            }
+            const token = parseTokenResponse(await res.json().catch(() => null), this.now());
+            if (!token) throw new AdoCredentialError('Token response did not contain an access_token');
+            this.cached = token;
+            this.lastError = null;
+            return token;
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            throw error;
+        }
+    }
+
+    invalidate(): boolean {
+        if (!this.cached) return false;
+        this.cached = null;
+        return true;
+    }
+
+    status(now = this.now()): AdoCredentialStatus {
+        const { expiresOn, expired, expiresSoon } = expiryStatus(this.options, now);
+        return {
+            kind: this.kind,
+            healthy: !expired && this.lastError === null,
+            expiresOn,
+            expiresSoon,
+            tokenExpiresOn: this.cached ? new Date(this.cached.expiresOnMs).toISOString() : null,
+            lastError: this.lastError
+        };
+    }
+}
+
+/** Client-credentials flow of a service principal (app registration) against Microsoft Entra ID */
+export class ClientCredentialsCredential extends TokenCredential {
+    readonly kind = 'servicePrincipal';
+    readonly limiterKey: string;
+
+    constructor(
+        private readonly tenantId: string,
+        private readonly clientId: string,
+        private readonly clientSecret: string,
+        private readonly authorityHost = DEFAULT_AUTHORITY_HOST,
+        options: TokenCredentialOptions = {}
+    ) {
+        super(options);
+        this.limiterKey = `servicePrincipal:${tenantId}:${clientId}`;
+    }
+
+    protected requestToken(doFetch: typeof fetch): Promise<Response> {
+        return doFetch(`${this.authorityHost.replace(/\/+$/, '')}/${encodeURIComponent(this.tenantId)}/oauth2/v2.0/token`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'client_credentials',
+                client_id: this.clientId,
+                client_secret: this.clientSecret,
+                scope: `${AZURE_DEVOPS_RESOURCE}/.default`
+            }).toString()
+        });
+    }
+}
+
+type ManagedIdentityEndpoint = {
+    /** IDENTITY_ENDPOINT of App Service, Functions and Container Apps; IMDS when omitted */
+    endpoint?: string;
+    /** IDENTITY_HEADER that has to accompany requests to `endpoint` */
+    secretHeader?: string;
+};
+
+/**
+ * Managed identity of the host: the App Service style IDENTITY_ENDPOINT when there is
+ * one, otherwise the instance metadata service of VMs and AKS. `clientId` selects a
+ * user-assigned identity.
+ */
+export class ManagedIdentityCredential extends TokenCredential {
+    readonly kind = 'managedIdentity';
+    readonly limiterKey: string;
+
+    constructor(
+        private readonly clientId: string | undefined,
+        private readonly identity: ManagedIdentityEndpoint = {},
+        options: TokenCredentialOptions = {}
+    ) {
+        super(options);
+        this.limiterKey = `managedIdentity:${clientId ?? 'system'}`;
+    }
+
+    protected requestToken(doFetch: typeof fetch): Promise<Response> {
+        const { endpoint, secretHeader } = this.identity;
+        const query = new URLSearchParams({
+            'api-version': endpoint ? '2019-08-01' : '2018-02-01',
+            resource: AZURE_DEVOPS_RESOURCE,
+            ...(this.clientId && { client_id: this.clientId })
+        });
+        const headers: Record<string, string> = endpoint ? { 'X-IDENTITY-HEADER': secretHeader ?? '' } : { Metadata: 'true' };
+        return doFetch(`${endpoint ?? IMDS_ENDPOINT}?${query}`, { headers });
+    }
+}
+//#endregion
+
+//#region From env
+export type AdoCredentialSpec =
+    | { kind: 'pat'; pat: string; expiresOn?: Date | null }
+    | { kind: 'servicePrincipal'; tenantId: string; clientId: string; clientSecret: string; expiresOn?: Date | null }
+    | { kind: 'managedIdentity'; clientId?: string };
+
+/** Parses an optional *_EXPIRES_ON date; throws for values that are set but unreadable */
+export function parseExpiresOn(value: unknown, name: string): Date | null {
+    if (value === undefined || value === null || String(value).trim() === '') return null;
+    const date = new Date(String(value).trim());
+    if (Number.isNaN(date.getTime())) {
+        throw new AdoCredentialError(`${name} is not a date`);
+    }
+    return date;
+}
+
+const tokenCredentials = new Map<string, AdoCredential>();
+
+/**
+ * The credential for a spec, with the process-wide settings of env: AZURE_AUTHORITY_HOST,
+ * IDENTITY_ENDPOINT/IDENTITY_HEADER and AZURE_DEVOPS_CREDENTIAL_WARNING_DAYS.
+ * Token credentials are shared per identity so their cached tokens survive across requests.
+ */
+export function createAdoCredential(env: Record<string, any>, spec: AdoCredentialSpec): AdoCredential {
+    const warningDays = parseFloat(String(env.AZURE_DEVOPS_CREDENTIAL_WARNING_DAYS ?? ''));
+    const expiryWarningMs = Number.isFinite(warningDays) && warningDays >= 0 ? warningDays * 24 * 60 * 60 * 1000 : undefined;
+
+    if (spec.kind === 'pat') {
+        return new PatCredential(spec.pat, { expiresOn: spec.expiresOn, expiryWarningMs });
+    }
+
+    const authorityHost = env.AZURE_AUTHORITY_HOST?.trim() || DEFAULT_AUTHORITY_HOST;
+    const identityEndpoint = env.IDENTITY_ENDPOINT?.trim() || undefined;
+    const key = spec.kind === 'servicePrincipal'
+        ? [spec.kind, authorityHost, spec.tenantId, spec.clientId, createHash('sha256').update(spec.clientSecret).digest('hex'), spec.expiresOn?.getTime(), expiryWarningMs]
+        : [spec.kind, identityEndpoint, spec.clientId];
+    const cacheKey = JSON.stringify(key);
+
+    let credential = tokenCredentials.get(cacheKey);
+    if (!credential) {
+        credential = spec.kind === 'servicePrincipal'
+            ? new ClientCredentialsCredential(spec.tenantId, spec.clientId, spec.clientSecret, authorityHost, { expiresOn: spec.expiresOn, expiryWarningMs })
+            : new ManagedIdentityCredential(spec.clientId, { endpoint: identityEndpoint, secretHeader: env.IDENTITY_HEADER?.trim() });
+        tokenCredentials.set(cacheKey, credential);
+    }
+    return credential;
+}
+//#endregion
@@ -0,0 +1,44 @@
+/**
+ * Raised for any non-2xx answer from Azure DevOps.
+ * `url` never contains credentials, so the error is safe to log.
+ */
+export class AdoRequestError extends Error {
+    readonly status: number;
+    readonly url: string;
+    readonly details: string;
+    /** How long Azure DevOps asked us to wait, when it said so */
+    readonly retryAfterMs: number | null;
+    /** Number of attempts made before giving up */
+    readonly attempts: number;
+
+    constructor(status: number, statusText: string, url: string, details = '', retryAfterMs: number | null = null, attempts = 1) {
+        super(`Azure DevOps request failed: ${status} ${statusText}`.trim());
+        this.name = 'AdoRequestError';
+        this.status = status;
+        this.url = url;
+        this.details = details;
+        this.retryAfterMs = retryAfterMs;
+        this.attempts = attempts;
+    }
+
+    get isNotFound(): boolean {
+        return this.status === 404;
+    }
+
+    get isUnauthorized(): boolean {
+        return this.status === 401 || this.status === 403;
+    }
+
+    /** 429 or 503: the service is shedding load rather than rejecting the request */
+    get isThrottled(): boolean {
+        return this.status === 429 || this.status === 503;
+    }
+}
+
+export function isAdoRequestError(error: unknown): error is AdoRequestError {
+    return error instanceof AdoRequestError;
+}
+
+export function isThrottlingError(error: unknown): error is AdoRequestError {
+    return isAdoRequestError(error) && error.isThrottled;
+}
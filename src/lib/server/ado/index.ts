@@ -0,0 +1,21 @@
+export { AdoClient, getAdoClient, ADO_API_VERSIONS, TEST_RESULTS_PAGE_SIZE } from './client';
+export type { AdoConnection, AdoArea, AdoClientOptions, GetAdoClientOptions } from './client';
+export type { ConfiguredAdoConnection } from './connections';
+export { AdoConnectionError, isAdoConnectionError, getAdoConnection, getNamedAdoConnections, listAdoConnectionNames } from './connections';
+export {
+    AdoCredentialError,
+    isAdoCredentialError,
+    createAdoCredential,
+    PatCredential,
+    ClientCredentialsCredential,
+    ManagedIdentityCredential,
+    AZURE_DEVOPS_RESOURCE,
+    TOKEN_REFRESH_MARGIN_MS
+} from './credentials';
+export type { AdoCredential, AdoCredentialSpec, AdoCredentialStatus } from './credentials';
+export { AdoRequestError, isAdoRequestError, isThrottlingError } from './errors';
+export { ConcurrencyLimiter, getPatLimiter, DEFAULT_MAX_CONCURRENCY } from './limiter';
+export { DEFAULT_RETRY_POLICY, parseRetryAfter, getThrottleDelayMs, backoffDelayMs } from './retry';
+export type { RetryPolicy } from './retry';
+export type * from './types';
+export { throttledResponse, throttlingErrorFromResponse } from './responses';
@@ -0,0 +1,83 @@
+import { createHash } from 'node:crypto';
+import { sleep } from './retry';
+
+export const DEFAULT_MAX_CONCURRENCY = 8;
+
+/**
+ * Counting semaphore shared by every client that uses the same PAT, so a month
+ * heatmap fanning out hundreds of route calls still only keeps a handful of
+ * requests in flight against Azure DevOps. It can also be paused when the
+ * service tells us to back off, which holds every queued request for that PAT.
+ */
+export class ConcurrencyLimiter {
+    private active = 0;
+    private readonly queue: Array<() => void> = [];
+    private pausedUntil = 0;
+
+    constructor(
+        readonly maxConcurrency: number = DEFAULT_MAX_CONCURRENCY,
+        private readonly wait: (ms: number) => Promise<void> = sleep
+    ) {}
+
+    get inFlight(): number {
+        return this.active;
+    }
+
+    get pending(): number {
+        return this.queue.length;
+    }
+
+    /** Delays every request that has not started yet until `until` (epoch ms) */
+    pauseUntil(until: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, until);
+    }
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            const remaining = this.pausedUntil - Date.now();
+            if (remaining > 0) {
+                await this.wait(remaining);
+            }
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.active < this.maxConcurrency) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => {
+            this.queue.push(() => {
+                this.active++;
+                resolve();
+            });
+        });
+    }
+
+    private release(): void {
+        this.active--;
+        const next = this.queue.shift();
+        if (next) next();
+    }
+}
+
+const limiters = new Map<string, ConcurrencyLimiter>();
+
+/**
+ * Returns the process-wide limiter for a PAT, or the limiterKey of another credential.
+ * The key is hashed so a raw token is not kept around as a map key. The budget is
+ * fixed by the first caller.
+ */
+export function getPatLimiter(pat: string, maxConcurrency = DEFAULT_MAX_CONCURRENCY): ConcurrencyLimiter {
+    const key = createHash('sha256').update(pat).digest('hex');
+    let limiter = limiters.get(key);
+    if (!limiter) {
+        limiter = new ConcurrencyLimiter(maxConcurrency);
+        limiters.set(key, limiter);
+    }
+    return limiter;
+}
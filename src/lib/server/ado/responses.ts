@@ -0,0 +1,35 @@
+import { json } from '@sveltejs/kit';
+import { AdoRequestError } from './errors';
+import { parseRetryAfter } from './retry';
+
+/** Fallback wait advertised to callers when Azure DevOps did not send one */
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+/**
+ * Response for a request Azure DevOps throttled even after retries.
+ * Passes the status and Retry-After through so callers back off too.
+ */
+export function throttledResponse(error: AdoRequestError): Response {
+    const retryAfterSeconds = error.retryAfterMs !== null
+        ? Math.max(1, Math.ceil(error.retryAfterMs / 1000))
+        : DEFAULT_RETRY_AFTER_SECONDS;
+    return json(
+        { error: 'Azure DevOps is throttling requests, try again shortly', throttled: true, retryAfterSeconds },
+        { status: error.status, headers: { 'Retry-After': String(retryAfterSeconds) } }
+    );
+}
+
+/**
+ * Turns a throttled answer from one of our own routes back into an AdoRequestError,
+ * so aggregating routes propagate it instead of caching a degraded result.
+ */
+export function throttlingErrorFromResponse(response: Response, url: string): AdoRequestError | null {
+    if (response.status !== 429 && response.status !== 503) return null;
+    return new AdoRequestError(
+        response.status,
+        response.statusText ?? '',
+        url,
+        '',
+        parseRetryAfter(response.headers?.get('retry-after'))
+    );
+}
@@ -0,0 +1,69 @@
+export type RetryPolicy = {
+    /** Retries after the first attempt, so a request is sent at most maxRetries + 1 times */
+    maxRetries: number;
+    baseDelayMs: number;
+    /** Longest wait we accept; a longer Retry-After fails fast instead of holding the request open */
+    maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 4,
+    baseDelayMs: 500,
+    maxDelayMs: 30_000
+};
+
+/** 429 and the gateway errors Azure DevOps returns while shedding load */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export function isRetryableStatus(status: number | undefined): boolean {
+    return status !== undefined && RETRYABLE_STATUSES.has(status);
+}
+
+/** undici rejects with a TypeError for connection resets and DNS hiccups */
+export function isRetryableNetworkError(error: unknown): boolean {
+    return error instanceof TypeError;
+}
+
+type HeaderReader = { get(name: string): string | null } | undefined;
+
+/**
+ * Parses a Retry-After value, which is either delta-seconds or an HTTP date.
+ * Returns the wait in milliseconds, or null when absent or unreadable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000);
+    }
+    const date = Date.parse(trimmed);
+    if (Number.isNaN(date)) return null;
+    return Math.max(0, date - now);
+}
+
+/**
+ * Works out how long Azure DevOps asked us to hold off, from Retry-After first and
+ * then the X-RateLimit-* family (Remaining hits 0 until the epoch-seconds Reset).
+ */
+export function getThrottleDelayMs(headers: HeaderReader, now = Date.now()): number | null {
+    const retryAfter = parseRetryAfter(headers?.get('retry-after'), now);
+    if (retryAfter !== null) return retryAfter;
+
+    const remaining = headers?.get('x-ratelimit-remaining');
+    const reset = headers?.get('x-ratelimit-reset');
+    if (remaining !== null && remaining !== undefined && Number(remaining) <= 0 && reset) {
+        const resetMs = Number(reset) * 1000;
+        if (Number.isFinite(resetMs)) return Math.max(0, resetMs - now);
+    }
+    return null;
+}
+
+/** Exponential backoff with full jitter: a random wait in [0, min(max, base * 2^attempt)] */
+export function backoffDelayMs(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,200 @@
+/**
+ * Typed subsets of the Azure DevOps REST payloads the dashboard consumes.
+ * Only fields that are actually read somewhere are declared here.
+ */
+
+export interface AdoListResponse<T> {
+    count?: number;
+    value: T[];
+    continuationToken?: string | null;
+}
+
+export interface AdoDefinitionRef {
+    id: number;
+    name: string;
+}
+
+/** Build or release definition as returned by the definition list endpoints */
+export interface AdoDefinition extends AdoDefinitionRef {
+    /** Folder the definition lives in, e.g. "\\Nightly" */
+    path?: string;
+}
+
+export interface AdoDefinitionSearch {
+    /** Part of the definition name to look for */
+    name: string;
+    top?: number;
+}
+
+//#region Builds
+export type AdoBuildStatus = 'none' | 'inProgress' | 'completed' | 'cancelling' | 'postponed' | 'notStarted' | 'all';
+export type AdoBuildResult = 'none' | 'succeeded' | 'partiallySucceeded' | 'failed' | 'canceled';
+
+export interface AdoBuild {
+    id: number;
+    buildNumber: string;
+    status: AdoBuildStatus;
+    result?: AdoBuildResult;
+    reason: string;
+    sourceBranch?: string;
+    queueTime?: string;
+    startTime?: string;
+    finishTime?: string;
+    lastChangedDate?: string;
+    definition?: AdoDefinitionRef;
+    tags?: string[];
+}
+
+export interface AdoBuildListQuery {
+    definitions: number | string;
+    minTime?: string;
+    maxTime?: string;
+    branchName?: string;
+    /** Comma separated BuildReason values */
+    reasonFilter?: string;
+    /** Comma separated tags; a build must carry all of them */
+    tagFilters?: string;
+    queryOrder?: 'finishTimeAscending' | 'finishTimeDescending' | 'queueTimeAscending' | 'queueTimeDescending' | 'startTimeAscending' | 'startTimeDescending';
+    top?: number;
+}
+
+export interface AdoTimelineIssue {
+    type: 'error' | 'warning';
+    category?: string;
+    message: string;
+}
+
+export interface AdoTimelineRecord {
+    id: string;
+    parentId?: string | null;
+    type: string;
+    name: string;
+    state: 'pending' | 'inProgress' | 'completed';
+    result?: 'succeeded' | 'succeededWithIssues' | 'failed' | 'canceled' | 'skipped' | 'abandoned' | null;
+    startTime?: string | null;
+    finishTime?: string | null;
+    order?: number;
+    attempt?: number;
+    errorCount?: number;
+    issues?: AdoTimelineIssue[] | null;
+    log?: { id: number; url?: string } | null;
+}
+
+export interface AdoTimeline {
+    id: string;
+    records: AdoTimelineRecord[];
+}
+//#endregion
+
+//#region Releases
+export interface AdoReleaseDeployJob {
+    job?: { finishTime?: string; dateEnded?: string };
+    tasks?: Array<{ name?: string; status?: string; finishTime?: string; dateEnded?: string }>;
+}
+
+export interface AdoReleaseDeployStep {
+    attempt?: number;
+    status?: string;
+    queuedOn?: string;
+    lastModifiedOn?: string;
+    releaseDeployPhases?: Array<{ deploymentJobs?: AdoReleaseDeployJob[] }>;
+}
+
+export interface AdoReleaseEnvironment {
+    id: number;
+    name: string;
+    status: string;
+    rank?: number;
+    deploySteps?: AdoReleaseDeployStep[];
+}
+
+export interface AdoReleaseArtifact {
+    alias?: string;
+    type?: string;
+    isPrimary?: boolean;
+    /** For build artifacts `definition` is the build definition and `version` the build */
+    definitionReference?: Record<string, { id?: string; name?: string }>;
+}
+
+export interface AdoRelease {
+    id: number;
+    name: string;
+    status: string;
+    createdOn: string;
+    modifiedOn: string;
+    releaseDefinition?: AdoDefinitionRef;
+    environments?: AdoReleaseEnvironment[];
+    artifacts?: AdoReleaseArtifact[];
+}
+
+export interface AdoReleaseListQuery {
+    definitionId: number | string;
+    minCreatedTime?: string;
+    maxCreatedTime?: string;
+    top?: number;
+    /** Release lists leave out artifacts unless asked for them */
+    expand?: 'artifacts';
+}
+//#endregion
+
+//#region Tests
+export interface AdoTestRun {
+    id: number;
+    name: string;
+    state: string;
+    createdDate?: string;
+    startedDate?: string;
+    completedDate?: string;
+    lastUpdatedDate?: string;
+    totalTests: number;
+    passedTests: number;
+    failedTests?: number;
+    incompleteTests?: number;
+    notApplicableTests?: number;
+    unanalyzedTests?: number;
+    notExecutedTests?: number;
+    build?: { id: string | number };
+    release?: { id?: number; environmentId?: number; attempt?: number };
+}
+
+export interface AdoTestRunListQuery {
+    buildIds?: number | string;
+    releaseIds?: number | string;
+    planIds?: number | string;
+    /** Legacy list filter; unlike the others it does not require a date window */
+    planId?: number | string;
+    minLastUpdatedDate?: string;
+    maxLastUpdatedDate?: string;
+}
+
+export interface AdoTestResult {
+    id: number;
+    outcome?: string;
+    testCaseTitle?: string;
+    testCase?: { id?: string; name?: string };
+    associatedBugs?: Array<{ id: number | string }>;
+    startedDate?: string;
+    completedDate?: string;
+}
+
+export interface AdoTestSuite {
+    id: number;
+    name: string;
+    suiteType?: string;
+    parentSuite?: { id: number; name?: string };
+}
+
+export interface AdoSuiteTestCase {
+    workItem: { id: number; name: string };
+}
+//#endregion
+
+//#region Work item tracking
+export interface AdoClassificationNode {
+    id: number;
+    name: string;
+    path?: string;
+    attributes?: { startDate?: string; finishDate?: string };
+    children?: AdoClassificationNode[];
+}
+//#endregion
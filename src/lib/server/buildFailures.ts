@@ -0,0 +1,48 @@
+import { readFile } from 'fs/promises';
+import { env } from '$env/dynamic/private';
+import defaultRules from '$lib/constants/failureRules.json';
+import { isThrottlingError, type AdoClient, type AdoTimeline } from '$lib/server/ado';
+import type { BuildFailure, FailureRule } from '$lib/types/buildFailure';
+import { classifyBuildFailure, failingLogId, logTail, parseFailureRules } from '$lib/utils/buildFailures';
+
+let rules: Promise<FailureRule[]> | null = null;
+
+async function loadFailureRules(path: string | undefined): Promise<FailureRule[]> {
+    if (!path) return parseFailureRules(defaultRules);
+    try {
+        return parseFailureRules(JSON.parse(await readFile(path, 'utf-8')));
+    } catch (e) {
+        console.error(`[buildFailures] Could not load the failure rules from ${path}, using the default ones: ${e instanceof Error ? e.message : e}`);
+        return parseFailureRules(defaultRules);
+    }
+}
+
+/** The rules file for this deployment (FAILURE_RULES_FILE, the bundled defaults without it), read once */
+export function getFailureRules(): Promise<FailureRule[]> {
+    rules ??= loadFailureRules(env.FAILURE_RULES_FILE?.trim() || undefined);
+    return rules;
+}
+
+/**
+ * Why a build failed, from its timeline (fetched unless given). The failing task's log is
+ * only read when no rule matches the timeline's issues. Null when nothing failed or the
+ * timeline cannot be read; throttling errors escape so they are never cached.
+ */
+export async function getBuildFailure(ado: AdoClient, buildId: number | string, timeline?: AdoTimeline): Promise<BuildFailure | null> {
+    try {
+        const records = (timeline ?? await ado.getBuildTimeline(buildId))?.records ?? [];
+        const failureRules = await getFailureRules();
+        const failure = classifyBuildFailure(records, failureRules);
+        const logId = failingLogId(records);
+        if (failure?.source !== 'result' || logId === null) return failure;
+        try {
+            return classifyBuildFailure(records, failureRules, logTail(await ado.getBuildLog(buildId, logId)));
+        } catch (e) {
+            if (isThrottlingError(e)) throw e;
+            return failure;
+        }
+    } catch (e) {
+        if (isThrottlingError(e)) throw e;
+        return null;
+    }
+}
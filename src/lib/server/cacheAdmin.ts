@@ -0,0 +1,108 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type Redis from 'ioredis';
+import { CACHE_NAMESPACES, DATED_CACHE_NAMESPACES, recentCacheDates } from '$lib/utils/cacheKeys';
+
+/** `admin` carries CACHE_ADMIN_TOKEN and may invalidate any cached answer; `dashboard` only the recent days' */
+export type CacheAdminRole = 'admin' | 'dashboard';
+
+// Learned test volumes can be reset too, but only on purpose
+const ADMIN_NAMESPACES: readonly string[] = [...CACHE_NAMESPACES, 'testvolume'];
+
+// Keys per SCAN step and per DEL
+const SCAN_COUNT = 500;
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/** `Authorization: Bearer <CACHE_ADMIN_TOKEN>` makes an admin; without a configured token nobody is one */
+export function cacheAdminRole(request: Request, adminToken: string | undefined): CacheAdminRole {
+    const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!adminToken || !bearer) return 'dashboard';
+    // Compare digests, which have the same length whatever was sent, in constant time
+    return timingSafeEqual(digest(bearer), digest(adminToken)) ? 'admin' : 'dashboard';
+}
+
+/**
+ * Why a request may not use an admin-only route (saving the pipeline config, backfills), with
+ * the status to answer: 401 without a bearer token, 403 with a wrong one or none configured.
+ * Null when it carries CACHE_ADMIN_TOKEN.
+ */
+export function adminTokenProblem(request: Request, adminToken: string | undefined): { status: 401 | 403; error: string } | null {
+    if (!adminToken) return { status: 403, error: 'Disabled until CACHE_ADMIN_TOKEN is configured' };
+    if (!request.headers.get('authorization')) return { status: 401, error: 'Authorization: Bearer <CACHE_ADMIN_TOKEN> required' };
+    return cacheAdminRole(request, adminToken) === 'admin' ? null : { status: 403, error: 'Invalid admin token' };
+}
+
+/** A cache key as a SCAN pattern that matches only that key */
+export function escapeCachePattern(key: string): string {
+    return key.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+const escapeRegExp = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** A SCAN pattern as a RegExp: * and ? with backslash escapes, which is all the cache admin API sends */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\' && i + 1 < pattern.length) source += escapeRegExp(pattern[++i]);
+        else if (char === '*') source += '.*';
+        else if (char === '?') source += '.';
+        else source += escapeRegExp(char);
+    }
+    return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Why the role may not invalidate what a pattern matches, or null when it may. Patterns
+ * name a namespace (`dayquality:*`, `build:2026-10-*`); without the admin token the date
+ * that follows must be written out and recent, so only answers that can still change go.
+ */
+export function cachePatternProblem(pattern: string, role: CacheAdminRole, now: Date = new Date()): string | null {
+    const [namespace, date] = pattern.split(':');
+    if (!ADMIN_NAMESPACES.includes(namespace) || pattern === namespace) {
+        return `expected a pattern in one of the namespaces ${ADMIN_NAMESPACES.join(', ')}, like dayquality:*`;
+    }
+    if (role === 'admin') return null;
+    if (!(DATED_CACHE_NAMESPACES as readonly string[]).includes(namespace) || !recentCacheDates(now).includes(date)) {
+        return `only ${recentCacheDates(now).join(', ')} can be invalidated without the cache admin token`;
+    }
+    return null;
+}
+
+/**
+ * Deletes the keys a pattern matches, walking the keyspace with SCAN so Redis never blocks.
+ * With dryRun the keys are only counted.
+ */
+export async function invalidateCachePattern(redis: Redis, pattern: string, dryRun: boolean): Promise<{ matched: number; deleted: number }> {
+    let matched = 0;
+    let deleted = 0;
+    let cursor = '0';
+    do {
+        const [next, keys] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_COUNT);
+        cursor = next;
+        matched += keys.length;
+        if (!dryRun && keys.length > 0) deleted += await redis.del(...keys);
+    } while (cursor !== '0');
+    return { matched, deleted };
+}
+
+export interface CacheAdminAuditEntry {
+    role: CacheAdminRole;
+    /** Caller address, as the adapter sees it */
+    client: string;
+    patterns: string[];
+    dryRun: boolean;
+    matched: number;
+    deleted: number;
+    /** Why the request was refused, when it was */
+    refused?: string;
+    /** Why it failed part way, when it did */
+    error?: string;
+}
+
+/** One log line per request, refused ones included, so who cleared what can be looked up */
+export function auditCacheAdmin(entry: CacheAdminAuditEntry): void {
+    console.info(`[cacheAdmin] ${JSON.stringify({ at: new Date().toISOString(), ...entry })}`);
+}
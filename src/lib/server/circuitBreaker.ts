@@ -0,0 +1,114 @@
+/**
+ * Circuit breaker for a dependency that may go away (Redis): after a few failures in a row
+ * calls fail at once instead of waiting on it, and one trial call is let through after a
+ * backoff that doubles with every failed trial.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+export interface CircuitBreakerOptions {
+    /** Failures in a row that open the circuit */
+    failureThreshold?: number;
+    /** Wait before the first trial call, doubled after every failed one up to maxBackoffMs */
+    baseBackoffMs?: number;
+    maxBackoffMs?: number;
+    now?: () => number;
+}
+
+export interface CircuitStatus {
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** When the next trial call is let through, while open */
+    retryAt: string | null;
+    lastError: string | null;
+    /** How often the circuit opened since the process started */
+    opened: number;
+}
+
+/** Thrown instead of calling through while the circuit is open */
+export class CircuitOpenError extends Error {
+    constructor(circuit: string, readonly retryAt: number) {
+        super(`${circuit} is unavailable; retrying after ${new Date(retryAt).toISOString()}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+export class CircuitBreaker {
+    private consecutiveFailures = 0;
+    private backoffMs: number;
+    private retryAt: number | null = null;
+    private trialRunning = false;
+    private lastError: string | null = null;
+    private opened = 0;
+
+    private readonly failureThreshold: number;
+    private readonly baseBackoffMs: number;
+    private readonly maxBackoffMs: number;
+    private readonly now: () => number;
+
+    constructor(readonly name: string, options: CircuitBreakerOptions = {}) {
+        this.failureThreshold = options.failureThreshold ?? 3;
+        this.baseBackoffMs = options.baseBackoffMs ?? 1_000;
+        this.maxBackoffMs = options.maxBackoffMs ?? 30_000;
+        this.now = options.now ?? Date.now;
+        this.backoffMs = this.baseBackoffMs;
+    }
+
+    get state(): CircuitState {
+        if (this.retryAt === null) return 'closed';
+        return this.now() < this.retryAt ? 'open' : 'halfOpen';
+    }
+
+    /** Calls fn unless the circuit is open (or a trial call is already running); throws CircuitOpenError then */
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+        const state = this.state;
+        if (state === 'open' || (state === 'halfOpen' && this.trialRunning)) {
+            throw new CircuitOpenError(this.name, this.retryAt!);
+        }
+
+        const trial = state === 'halfOpen';
+        if (trial) this.trialRunning = true;
+        try {
+            const result = await fn();
+            this.succeeded();
+            return result;
+        } catch (e) {
+            this.failed(e, trial);
+            throw e;
+        } finally {
+            if (trial) this.trialRunning = false;
+        }
+    }
+
+    status(): CircuitStatus {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            retryAt: this.retryAt === null ? null : new Date(this.retryAt).toISOString(),
+            lastError: this.lastError,
+            opened: this.opened
+        };
+    }
+
+    private succeeded(): void {
+        if (this.retryAt !== null) console.info(`[circuit] ${this.name} is available again`);
+        this.consecutiveFailures = 0;
+        this.retryAt = null;
+        this.backoffMs = this.baseBackoffMs;
+    }
+
+    private failed(e: unknown, trial: boolean): void {
+        this.consecutiveFailures++;
+        this.lastError = e instanceof Error ? e.message : String(e);
+        if (trial) {
+            this.backoffMs = Math.min(this.backoffMs * 2, this.maxBackoffMs);
+            this.retryAt = this.now() + this.backoffMs;
+            return;
+        }
+        // Calls that were already running when it opened change nothing
+        if (this.consecutiveFailures < this.failureThreshold || this.retryAt !== null) return;
+        this.opened++;
+        this.retryAt = this.now() + this.backoffMs;
+        console.error(`[circuit] ${this.name} failed ${this.consecutiveFailures} times in a row (${this.lastError}); calls fail fast for ${this.backoffMs}ms`);
+    }
+}
@@ -0,0 +1,29 @@
+import { env } from '$env/dynamic/private';
+import { DEFAULT_CONNECTION, isConnectionName, isDefaultConnection } from '$lib/utils/connections';
+import { getNamedAdoConnections, listAdoConnectionNames } from '$lib/server/ado';
+
+/**
+ * Azure DevOps connection a request asked for via `?connection=`, or the default one when absent.
+ * Returns null when the name is not a connection AZURE_DEVOPS_CONNECTIONS defines.
+ */
+export function getRequestConnection(url: URL): string | null {
+    const requested = url.searchParams.get('connection');
+    if (isDefaultConnection(requested)) return DEFAULT_CONNECTION;
+    if (!isConnectionName(requested!)) return null;
+    try {
+        return requested! in getNamedAdoConnections(env) ? requested : null;
+    } catch (e) {
+        console.error('[connection] AZURE_DEVOPS_CONNECTIONS is invalid:', e);
+        return null;
+    }
+}
+
+/** Names of the configured connections, for pickers; only the default one when AZURE_DEVOPS_CONNECTIONS is invalid */
+export function getConnectionNames(): string[] {
+    try {
+        return listAdoConnectionNames(env);
+    } catch (e) {
+        console.error('[connection] AZURE_DEVOPS_CONNECTIONS is invalid:', e);
+        return [DEFAULT_CONNECTION];
+    }
+}
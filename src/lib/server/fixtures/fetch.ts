@@ -0,0 +1,122 @@
+import { fixtureKeyFor, isTokenRequest, scrubBody, type FixtureKey, type FixtureTargets } from './requests';
+import type { Fixture, FixtureStore } from './store';
+
+export type FixtureFetchOptions = {
+    mode: 'replay' | 'record';
+    store: FixtureStore;
+    targets: FixtureTargets;
+    /** Values blanked from recordings, see collectSecrets */
+    secrets: string[];
+};
+
+// Only these answer headers matter to the dashboard; cookies and tracing ids are not kept
+const RECORDED_HEADERS = ['content-type', 'x-ms-continuationtoken'];
+
+async function readBody(body: unknown): Promise<string> {
+    if (body === undefined || body === null) return '';
+    if (typeof body === 'string') return body;
+    if (body instanceof URLSearchParams) return body.toString();
+    return new Response(body as BodyInit).text();
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+/**
+ * A fallback fixture answers requests it was not recorded for, so it must not send the
+ * client after a next page: that page would be the same fixture again.
+ */
+function withoutContinuation(fixture: Fixture): Fixture['response'] {
+    const { 'x-ms-continuationtoken': _, ...headers } = fixture.response.headers;
+    const body = fixture.response.body;
+    if (body && typeof body === 'object' && !Array.isArray(body) && 'continuationToken' in body) {
+        const { continuationToken: __, ...rest } = body as Record<string, unknown>;
+        return { ...fixture.response, headers, body: rest };
+    }
+    return { ...fixture.response, headers };
+}
+
+function toResponse({ status, headers, body }: Fixture['response']): Response {
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, headers });
+}
+
+async function replay(store: FixtureStore, key: FixtureKey): Promise<Response> {
+    const found = await store.find(key);
+    if (!found) {
+        console.warn(`[fixtures] No fixture for ${key.service} ${key.path} (${key.url})`);
+        return jsonResponse({ message: `No fixture recorded for ${key.service}/${key.path}` }, 404);
+    }
+    return toResponse(found.exact ? found.fixture.response : withoutContinuation(found.fixture));
+}
+
+async function record(realFetch: typeof fetch, options: FixtureFetchOptions, key: FixtureKey, method: string, url: string, init: RequestInit): Promise<Response> {
+    const res = await realFetch(url, init);
+    // The whole answer is read before it is handed on, so streamed PTA answers arrive at once while recording
+    const text = await res.text();
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+        const value = res.headers.get(name);
+        if (value) headers[name] = value;
+    }
+
+    // Failures other than a plain 404 say more about the session than about the data
+    if (res.ok || res.status === 404) {
+        let body: unknown = text;
+        if (headers['content-type']?.includes('json')) {
+            try {
+                body = JSON.parse(text);
+            } catch {
+                // keep the text
+            }
+        }
+        try {
+            await options.store.save(key, {
+                request: { method, url: key.url },
+                response: { status: res.status, headers, body: scrubBody(body, options.secrets) }
+            });
+        } catch (e) {
+            console.error(`[fixtures] Could not save ${key.service}/${key.path}: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    const passOn = new Headers(res.headers);
+    passOn.delete('content-encoding');
+    passOn.delete('content-length');
+    return new Response(text, { status: res.status, statusText: res.statusText, headers: passOn });
+}
+
+/**
+ * Wraps fetch so requests to Azure DevOps, Azure OpenAI and PTA are answered from
+ * fixtures (replay) or passed through and saved (record). Token requests get a dummy
+ * token while replaying and are never recorded. Everything else, such as the API
+ * routes calling each other, goes to the real fetch untouched.
+ */
+export function createFixtureFetch(realFetch: typeof fetch, options: FixtureFetchOptions): typeof fetch {
+    return async (input: RequestInfo | URL, init: RequestInit = {}) => {
+        const request = input instanceof Request ? input : null;
+        const url = new URL(request ? request.url : String(input));
+        const method = (init.method ?? request?.method ?? 'GET').toUpperCase();
+
+        if (isTokenRequest(url, options.targets)) {
+            return options.mode === 'replay'
+                ? jsonResponse({ token_type: 'Bearer', access_token: 'fixture-token', expires_in: 3600 })
+                : realFetch(input, init);
+        }
+
+        // Bodies are read up front (the variant depends on them); streams become text
+        const body = await readBody(init.body ?? (request && method !== 'GET' && method !== 'HEAD' ? await request.clone().text() : undefined));
+        const { duplex: _, ...rest } = init as RequestInit & { duplex?: string };
+        const key = fixtureKeyFor(method, url, body, options.targets);
+        if (!key) {
+            const consumed = init.body !== undefined && init.body !== null && typeof init.body !== 'string';
+            return realFetch(input, consumed ? { ...rest, body: body || undefined } : init);
+        }
+
+        if (options.mode === 'replay') return replay(options.store, key);
+
+        const headers = new Headers(request?.headers);
+        new Headers(init.headers).forEach((value, name) => headers.set(name, value));
+        return record(realFetch, options, key, method, url.href, { ...rest, method, headers, body: body || undefined });
+    };
+}
@@ -0,0 +1,77 @@
+import { DEFAULT_AUTHORITY_HOST } from '$lib/server/ado/credentials';
+import { createFixtureFetch } from './fetch';
+import { getFixtureMode, getFixturesDir, type FixtureMode } from './mode';
+import { collectSecrets, scrubBody, type FixtureKey } from './requests';
+import { DEFAULT_VARIANT, FixtureStore } from './store';
+
+export {
+    DEFAULT_FIXTURES_DIR,
+    FIXTURE_OPENAI_ENDPOINT,
+    FIXTURE_PTA_API_BASE,
+    fixtureClientEnv,
+    getFixtureMode,
+    getFixturesDir,
+    getFixturePipelineConfigFile,
+    withFixtureAdoEnv
+} from './mode';
+export type { FixtureMode } from './mode';
+export { createFixtureFetch } from './fetch';
+export type { FixtureFetchOptions } from './fetch';
+export { FixtureStore, DEFAULT_VARIANT } from './store';
+export type { Fixture } from './store';
+export { fixtureKeyFor, isTokenRequest, collectSecrets, scrubBody } from './requests';
+export type { FixtureKey, FixtureService, FixtureTargets } from './requests';
+export { MemoryRedis } from './memoryRedis';
+
+let installed = false;
+
+/**
+ * Puts the fixture fetch in front of the global fetch for FIXTURES_MODE=replay|record.
+ * Azure DevOps, token and Azure OpenAI clients resolve fetch per call, so this covers them
+ * without any wiring. Does nothing when fixtures are off or already installed.
+ */
+export function installFixtures(env: Record<string, any>): FixtureMode {
+    const mode = getFixtureMode(env);
+    if (mode === 'off' || installed) return mode;
+
+    globalThis.fetch = createFixtureFetch(globalThis.fetch.bind(globalThis), {
+        mode,
+        store: new FixtureStore(getFixturesDir(env)),
+        targets: {
+            ptaBase: env.PTA_API_BASE ?? 'http://localhost:8000',
+            authorityHost: env.AZURE_AUTHORITY_HOST?.trim() || DEFAULT_AUTHORITY_HOST,
+            identityEndpoint: env.IDENTITY_ENDPOINT?.trim() || undefined
+        },
+        secrets: collectSecrets(env)
+    });
+    installed = true;
+    return mode;
+}
+
+/**
+ * For services reached through an SDK rather than fetch (Azure Table and Blob storage):
+ * replays `storage/<path>/default.json`, or `fallback` when nothing was recorded, and
+ * records what `live` returned. With fixtures off this is just `live()`.
+ */
+export async function withStorageFixture<T>(env: Record<string, any>, path: string, live: () => Promise<T>, fallback: T): Promise<T> {
+    const mode = getFixtureMode(env);
+    if (mode === 'off') return live();
+
+    const store = new FixtureStore(getFixturesDir(env));
+    const key: FixtureKey = { service: 'storage', path, variant: DEFAULT_VARIANT, url: `storage:${path}` };
+    if (mode === 'replay') {
+        const found = await store.find(key);
+        return found ? (found.fixture.response.body as T) : fallback;
+    }
+
+    const value = await live();
+    try {
+        await store.save(key, {
+            request: { method: 'GET', url: key.url },
+            response: { status: 200, headers: { 'content-type': 'application/json' }, body: scrubBody(value, collectSecrets(env)) }
+        });
+    } catch (e) {
+        console.error(`[fixtures] Could not save storage/${path}: ${e instanceof Error ? e.message : e}`);
+    }
+    return value;
+}
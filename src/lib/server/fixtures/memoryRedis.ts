@@ -0,0 +1,104 @@
+import { globToRegExp } from '$lib/server/cacheAdmin';
+
+/**
+ * In-process stand-in for the handful of Redis commands the cache uses, so fixture
+ * sessions need no Redis server. Values live until their TTL passes or the process ends.
+ */
+export class MemoryRedis {
+    private readonly entries = new Map<string, { value: string | Set<string> | Map<string, string>; expiresAt: number | null }>();
+
+    constructor(private readonly now: () => number = Date.now) {}
+
+    private live(key: string) {
+        const entry = this.entries.get(key);
+        if (entry && entry.expiresAt !== null && entry.expiresAt <= this.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    async get(key: string): Promise<string | null> {
+        const value = this.live(key)?.value;
+        return typeof value === 'string' ? value : null;
+    }
+
+    /** SET key value [EX seconds | PX milliseconds] [NX]; null when NX finds the key */
+    async set(key: string, value: string, ...options: (string | number)[]): Promise<'OK' | null> {
+        if (options.includes('NX') && this.live(key)) return null;
+        const ex = options.indexOf('EX');
+        const px = options.indexOf('PX');
+        const expiresAt = ex >= 0 ? this.now() + Number(options[ex + 1]) * 1000
+            : px >= 0 ? this.now() + Number(options[px + 1])
+            : null;
+        this.entries.set(key, { value: String(value), expiresAt });
+        return 'OK';
+    }
+
+    async expire(key: string, seconds: number): Promise<number> {
+        const entry = this.live(key);
+        if (!entry) return 0;
+        entry.expiresAt = this.now() + seconds * 1000;
+        return 1;
+    }
+
+    async del(...keys: string[]): Promise<number> {
+        return keys.filter((key) => this.live(key) && this.entries.delete(key)).length;
+    }
+
+    async sadd(key: string, ...members: string[]): Promise<number> {
+        let entry = this.live(key);
+        if (!entry || typeof entry.value === 'string') {
+            entry = { value: new Set<string>(), expiresAt: null };
+            this.entries.set(key, entry);
+        }
+        const set = entry.value as Set<string>;
+        const before = set.size;
+        members.forEach((member) => set.add(String(member)));
+        return set.size - before;
+    }
+
+    async smembers(key: string): Promise<string[]> {
+        const value = this.live(key)?.value;
+        return value instanceof Set ? [...value] : [];
+    }
+
+    /** HSET key field value; one field at a time is all the app sends */
+    async hset(key: string, field: string, value: string): Promise<number> {
+        let entry = this.live(key);
+        if (!entry || !(entry.value instanceof Map)) {
+            entry = { value: new Map<string, string>(), expiresAt: null };
+            this.entries.set(key, entry);
+        }
+        const hash = entry.value as Map<string, string>;
+        const added = hash.has(field) ? 0 : 1;
+        hash.set(field, String(value));
+        return added;
+    }
+
+    async hgetall(key: string): Promise<Record<string, string>> {
+        const value = this.live(key)?.value;
+        return value instanceof Map ? Object.fromEntries(value) : {};
+    }
+
+    async hdel(key: string, ...fields: string[]): Promise<number> {
+        const value = this.live(key)?.value;
+        return value instanceof Map ? fields.filter((field) => value.delete(field)).length : 0;
+    }
+
+    /** SCAN cursor MATCH pattern [COUNT n]; every match comes back in one go */
+    async scan(cursor: string | number, match: 'MATCH', pattern: string, ...count: ['COUNT', number] | []): Promise<[string, string[]]> {
+        const regex = globToRegExp(pattern);
+        return ['0', [...this.entries.keys()].filter((key) => this.live(key) && regex.test(key))];
+    }
+
+    async ping(): Promise<'PONG'> {
+        return 'PONG';
+    }
+
+    on(): this {
+        return this;
+    }
+
+    disconnect(): void {}
+}
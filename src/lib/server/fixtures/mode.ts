@@ -0,0 +1,62 @@
+import { join } from 'path';
+
+/**
+ * off: talk to the real services. replay: answer Azure DevOps, Azure OpenAI, PTA and
+ * storage calls from recorded fixtures, so the dashboard runs without credentials,
+ * network or Redis. record: call the real services and save what they answered.
+ */
+export type FixtureMode = 'off' | 'replay' | 'record';
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures';
+
+/** Stands in for AZURE_OPENAI_ENDPOINT while replaying; requests to it never leave the process */
+export const FIXTURE_OPENAI_ENDPOINT = 'https://fixtures.openai.azure.com/';
+
+/** Reads FIXTURES_MODE; anything unknown counts as off */
+export function getFixtureMode(env: Record<string, any>): FixtureMode {
+    const mode = typeof env.FIXTURES_MODE === 'string' ? env.FIXTURES_MODE.trim() : '';
+    if (mode === 'replay' || mode === 'record') return mode;
+    if (mode && mode !== 'off') {
+        console.error(`[fixtures] Unknown FIXTURES_MODE "${mode}" (off, replay or record); fixtures are off`);
+    }
+    return 'off';
+}
+
+/** Directory holding the fixtures (FIXTURES_DIR), relative to the working directory */
+export function getFixturesDir(env: Record<string, any>): string {
+    return env.FIXTURES_DIR?.trim() || DEFAULT_FIXTURES_DIR;
+}
+
+/** The pipeline config served while replaying, and written when a recording session starts */
+export function getFixturePipelineConfigFile(env: Record<string, any>): string {
+    return join(getFixturesDir(env), 'pipeline-config.json');
+}
+
+/** Stands in for the AZURE_DEVOPS_* settings while replaying; requests never reach Azure DevOps */
+const FIXTURE_ADO_PLACEHOLDER = 'fixtures';
+
+/**
+ * The env with placeholders for the missing default connection settings while replaying,
+ * so a fresh checkout runs without credentials. Other modes get the env as it is.
+ */
+export function withFixtureAdoEnv(env: Record<string, any>): Record<string, any> {
+    if (getFixtureMode(env) !== 'replay') return env;
+    const placeholders = Object.fromEntries(
+        ['AZURE_DEVOPS_ORGANIZATION', 'AZURE_DEVOPS_PROJECT', 'AZURE_DEVOPS_PAT']
+            .filter((name) => !env[name]?.trim())
+            .map((name) => [name, FIXTURE_ADO_PLACEHOLDER])
+    );
+    return { ...env, ...placeholders };
+}
+
+/** The PTA proxy route, which the fixture fetch answers; the PTA chat talks to it while replaying */
+export const FIXTURE_PTA_API_BASE = '/pta-api';
+
+/**
+ * Client env defaults while replaying (read by vite.config.ts): the PTA chat goes through the
+ * proxy unless VITE_PTA_API_BASE says otherwise, so it is replayed like everything else.
+ */
+export function fixtureClientEnv(env: Record<string, any>): Record<string, string> {
+    if (getFixtureMode(env) !== 'replay' || env.VITE_PTA_API_BASE) return {};
+    return { VITE_PTA_API_BASE: FIXTURE_PTA_API_BASE };
+}
@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+
+export type FixtureService = 'ado' | 'openai' | 'pta' | 'storage';
+
+/**
+ * Where a fixture lives: `<service>/<path>/<variant>.json`. The path is the API path
+ * without organization, project or host, the variant a hash of method, query and body,
+ * so the same fixtures replay for any organization.
+ */
+export type FixtureKey = {
+    service: FixtureService;
+    path: string;
+    variant: string;
+    /** The request URL with organization, project and secrets blanked, kept for reference */
+    url: string;
+};
+
+/** Hosts besides Azure DevOps that fixtures stand in for */
+export type FixtureTargets = {
+    ptaBase: string;
+    authorityHost: string;
+    identityEndpoint?: string;
+};
+
+const ADO_HOSTS = new Set(['dev.azure.com', 'vsrm.dev.azure.com']);
+const IMDS_HOST = '169.254.169.254';
+
+// Query params and JSON keys whose values are credentials; continuation tokens are only paging state
+const SECRET_NAME = /(secret|password|token|api[-_]?key|access[-_]?key|connectionstring|authorization)|^sig$/i;
+const NOT_SECRET = new Set(['continuationtoken']);
+
+// Env vars whose values are scrubbed from recorded answers wherever they show up
+const SECRET_ENV_NAME = /(PAT|SECRET|PASSWORD|API_KEY|CONNECTION_STRING|IDENTITY_HEADER)$/;
+
+function isSecretName(name: string): boolean {
+    return SECRET_NAME.test(name) && !NOT_SECRET.has(name.toLowerCase());
+}
+
+function trimSlashes(value: string): string {
+    return value.replace(/\/+$/, '');
+}
+
+function sortedQuery(url: URL): string {
+    return [...url.searchParams.entries()]
+        .filter(([name]) => name !== 'api-version')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&');
+}
+
+function scrubbedUrl(url: URL, pathname = url.pathname): string {
+    const query = [...url.searchParams.entries()]
+        .map(([name, value]) => `${name}=${isSecretName(name) ? '***' : encodeURIComponent(value)}`)
+        .join('&');
+    return `${url.origin}${pathname}${query ? `?${query}` : ''}`;
+}
+
+function variantOf(method: string, query: string, body: string): string {
+    return createHash('sha256').update(`${method}\n${query}\n${body}`).digest('hex').slice(0, 12);
+}
+
+/** Whether a request asks Microsoft Entra ID or a managed identity endpoint for a token */
+export function isTokenRequest(url: URL, targets: FixtureTargets): boolean {
+    if (url.hostname === IMDS_HOST) return true;
+    if (targets.identityEndpoint && url.href.startsWith(trimSlashes(targets.identityEndpoint))) return true;
+    return url.href.startsWith(trimSlashes(targets.authorityHost)) && url.pathname.includes('/oauth2/');
+}
+
+/** The fixture for a request to a service fixtures stand in for; null for anything else */
+export function fixtureKeyFor(method: string, url: URL, body: string, targets: FixtureTargets): FixtureKey | null {
+    const upperMethod = method.toUpperCase();
+
+    if (ADO_HOSTS.has(url.hostname)) {
+        const segments = url.pathname.split('/').filter(Boolean);
+        const apis = segments.indexOf('_apis');
+        if (apis < 0) return null;
+        const pathname = `/${segments.slice(0, apis).map((_, i) => (i === 0 ? '{organization}' : '{project}')).join('/')}/_apis/${segments.slice(apis + 1).join('/')}`;
+        return {
+            service: 'ado',
+            path: segments.slice(apis + 1).join('/').toLowerCase(),
+            variant: variantOf(upperMethod, sortedQuery(url), body),
+            url: scrubbedUrl(url, pathname)
+        };
+    }
+
+    const openAi = url.pathname.match(/\/openai\/deployments\/[^/]+\/(.+)$/);
+    if (openAi) {
+        return {
+            service: 'openai',
+            path: openAi[1].toLowerCase(),
+            variant: variantOf(upperMethod, sortedQuery(url), body),
+            url: scrubbedUrl(url)
+        };
+    }
+
+    const ptaBase = trimSlashes(targets.ptaBase);
+    if (ptaBase && url.href.startsWith(`${ptaBase}/`)) {
+        const path = url.href.slice(ptaBase.length + 1).split('?')[0];
+        return {
+            service: 'pta',
+            path: path.toLowerCase(),
+            variant: variantOf(upperMethod, sortedQuery(url), body),
+            url: scrubbedUrl(url)
+        };
+    }
+
+    return null;
+}
+
+/** Values of the secret env vars, longest first so a secret containing another is blanked whole */
+export function collectSecrets(env: Record<string, any>): string[] {
+    return Object.entries(env)
+        .filter(([name, value]) => SECRET_ENV_NAME.test(name) && typeof value === 'string' && value.trim().length >= 8)
+        .map(([, value]) => (value as string).trim())
+        .sort((a, b) => b.length - a.length);
+}
+
+function scrubText(text: string, secrets: string[]): string {
+    return secrets.reduce((scrubbed, secret) => scrubbed.split(secret).join('***'), text);
+}
+
+/** Blanks credential-like fields and any known secret value in a recorded body */
+export function scrubBody(value: unknown, secrets: string[]): unknown {
+    if (typeof value === 'string') return scrubText(value, secrets);
+    if (Array.isArray(value)) return value.map((item) => scrubBody(item, secrets));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([name, item]) => [
+            name,
+            isSecretName(name) && typeof item === 'string' ? '***' : scrubBody(item, secrets)
+        ]));
+    }
+    return value;
+}
@@ -0,0 +1,79 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { FixtureKey } from './requests';
+
+/** A recorded answer, stored as `<service>/<path>/<variant>.json` */
+export type Fixture = {
+    request: { method: string; url: string };
+    response: {
+        status: number;
+        headers: Record<string, string>;
+        /** Parsed JSON for JSON answers, the text otherwise */
+        body: unknown;
+    };
+};
+
+/** The variant replayed for a path when no recording matches the exact request */
+export const DEFAULT_VARIANT = 'default';
+
+function safeSegment(segment: string): string {
+    const safe = segment.replace(/[^A-Za-z0-9._{}-]/g, '_');
+    return safe === '.' || safe === '..' ? '_' : safe;
+}
+
+// Numeric ids in a path (builds/123/timeline) fall back to fixtures recorded under {id}
+function genericPath(path: string): string {
+    return path.split('/').map((segment) => (/^\d+$/.test(segment) ? '{id}' : segment)).join('/');
+}
+
+/**
+ * Reads and writes fixture files. Lookups try the exact request first, then the
+ * default of its path, then the default of the path with ids generalized.
+ */
+export class FixtureStore {
+    constructor(readonly dir: string) {}
+
+    private file(key: Pick<FixtureKey, 'service' | 'path'>, variant: string): string {
+        const segments = key.path.split('/').filter(Boolean).map(safeSegment);
+        return join(this.dir, key.service, ...segments, `${safeSegment(variant)}.json`);
+    }
+
+    private async readFixture(file: string): Promise<Fixture | null> {
+        try {
+            return JSON.parse(await readFile(file, 'utf-8')) as Fixture;
+        } catch (e: any) {
+            if (e?.code === 'ENOENT') return null;
+            throw e;
+        }
+    }
+
+    /** The fixture for a request; `exact` is false when a default stood in for it */
+    async find(key: FixtureKey): Promise<{ fixture: Fixture; exact: boolean } | null> {
+        const exact = await this.readFixture(this.file(key, key.variant));
+        if (exact) return { fixture: exact, exact: true };
+
+        const candidates = [this.file(key, DEFAULT_VARIANT), this.file({ ...key, path: genericPath(key.path) }, DEFAULT_VARIANT)];
+        for (const file of candidates) {
+            const fixture = await this.readFixture(file);
+            if (fixture) return { fixture, exact: false };
+        }
+        return null;
+    }
+
+    /** Saves a recording; the first one of a path also becomes its default */
+    async save(key: FixtureKey, fixture: Fixture): Promise<void> {
+        await this.writeFixture(this.file(key, key.variant), fixture);
+        const fallback = this.file(key, DEFAULT_VARIANT);
+        if (!(await this.readFixture(fallback))) {
+            await this.writeFixture(fallback, fixture);
+        }
+    }
+
+    private async writeFixture(file: string, fixture: Fixture): Promise<void> {
+        // Write next to the target and rename, so a crash never leaves half a file behind
+        await mkdir(dirname(file), { recursive: true });
+        const tempPath = `${file}.tmp`;
+        await writeFile(tempPath, `${JSON.stringify(fixture, null, 2)}\n`);
+        await rename(tempPath, file);
+    }
+}
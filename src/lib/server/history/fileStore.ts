@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { HistoryRun } from '$lib/types/history';
+import type { HistoryStore } from './store';
+
+export const DEFAULT_HISTORY_DIR = '.data/history';
+
+interface HistoryFile {
+    key: string;
+    ingestedThrough: string | null;
+    days: Record<string, HistoryRun[]>;
+}
+
+/** One JSON file per pipeline. Meant for local development and single instances. */
+export class FileHistoryStore implements HistoryStore {
+    readonly description: string;
+
+    constructor(private readonly dir: string = DEFAULT_HISTORY_DIR) {
+        this.description = `local directory ${dir}`;
+    }
+
+    // History keys hold characters file names cannot, so files are named after a hash of the key
+    private path(key: string): string {
+        return join(this.dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+    }
+
+    private async readFile(key: string): Promise<HistoryFile> {
+        try {
+            const file = JSON.parse(await readFile(this.path(key), 'utf-8')) as HistoryFile;
+            if (file.key === key) return file;
+        } catch (e: any) {
+            if (e?.code !== 'ENOENT') throw e;
+        }
+        return { key, ingestedThrough: null, days: {} };
+    }
+
+    async listRuns(key: string, from: string, to: string): Promise<HistoryRun[]> {
+        const { days } = await this.readFile(key);
+        return Object.keys(days)
+            .filter((date) => date >= from && date <= to)
+            .sort()
+            .flatMap((date) => days[date]);
+    }
+
+    async putDay(key: string, date: string, runs: HistoryRun[]): Promise<void> {
+        const file = await this.readFile(key);
+        if (runs.length > 0) file.days[date] = runs;
+        else delete file.days[date];
+        if (!file.ingestedThrough || date > file.ingestedThrough) file.ingestedThrough = date;
+
+        // Write next to the target and rename, so a crash never leaves half a file behind
+        await mkdir(this.dir, { recursive: true });
+        const path = this.path(key);
+        const tempPath = `${path}.tmp`;
+        await writeFile(tempPath, JSON.stringify(file));
+        await rename(tempPath, path);
+    }
+
+    async getIngestedThrough(key: string): Promise<string | null> {
+        return (await this.readFile(key)).ingestedThrough;
+    }
+}
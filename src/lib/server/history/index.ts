@@ -0,0 +1,5 @@
+export { createHistoryStore, getHistoryStore } from './service';
+export { ingestPipelineHistory, type HistoryIngestOptions, type HistoryIngestResult } from './ingest';
+export type { HistoryStore } from './store';
+export { FileHistoryStore, DEFAULT_HISTORY_DIR } from './fileStore';
+export { TableHistoryStore, DEFAULT_HISTORY_TABLE } from './tableStore';
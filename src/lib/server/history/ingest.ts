@@ -0,0 +1,154 @@
+import { env } from '$env/dynamic/private';
+import { getAdoClient, isThrottlingError, throttlingErrorFromResponse, type AdoClient, type AdoTestRunListQuery } from '$lib/server/ado';
+import type { Build } from '$lib/types/build';
+import type { HistoryRun, HistoryTestOutcome } from '$lib/types/history';
+import type { LinkedRun } from '$lib/types/linkedRun';
+import type { PipelineEntry } from '$lib/types/pipelineConfig';
+import type { Release } from '$lib/types/release';
+import { historyKey } from '$lib/utils/cacheKeys';
+import { connectionQuery } from '$lib/utils/connections';
+import {
+    HISTORY_INITIAL_DAYS,
+    HISTORY_MAX_INGEST_DAYS,
+    historyRunsFromBuilds,
+    historyRunsFromLinkedRuns,
+    historyRunsFromRelease
+} from '$lib/utils/history';
+import { buildFiltersQuery, resolveBuildFilters } from '$lib/utils/pipelineFilters';
+import { getReleaseDefinitionId } from '$lib/utils/pipelineConfig';
+import { isFreezableAnswer, latestFinalizedDay, snapshotDates } from '$lib/utils/snapshots';
+import { addDaysToDateString, getDayWindow, getTestRunLookupWindow } from '$lib/utils/timezone';
+import type { HistoryStore } from './store';
+
+export interface HistoryIngestOptions {
+    /** Origin of this dashboard; days are read through its construct routes */
+    baseUrl: string;
+    timeZone: string;
+    /** Ingest again from this day on; otherwise from the day after the last one ingested */
+    from?: string;
+    now?: Date;
+}
+
+export interface HistoryIngestResult {
+    pipelineId: string;
+    /** Days recorded by this ingest */
+    days: number;
+    runs: number;
+    ingestedThrough: string | null;
+    /** Why ingesting stopped before the latest finalized day */
+    error?: string;
+}
+
+// The construct route that answers for a pipeline type, asked as getDayQuality asks it
+function constructUrl(baseUrl: string, pipeline: PipelineEntry, date: string, timeZone: string): string {
+    const pipelineId = pipeline.id;
+    if (pipeline.type === 'release') {
+        return `${baseUrl}/api/constructRelease?date=${date}&releaseDefinitionId=${pipelineId}&tz=${encodeURIComponent(timeZone)}${connectionQuery(pipeline.connection)}`;
+    }
+    const filters = buildFiltersQuery(resolveBuildFilters(pipeline));
+    if (pipeline.type === 'build/release') {
+        return `${baseUrl}/api/constructBuildRelease?date=${date}&buildDefinitionId=${pipelineId}&releaseDefinitionId=${getReleaseDefinitionId(pipeline)}&tz=${encodeURIComponent(timeZone)}${filters}${connectionQuery(pipeline.connection)}`;
+    }
+    return `${baseUrl}/api/constructBuild?date=${date}&buildDefinitionId=${pipelineId}&tz=${encodeURIComponent(timeZone)}${filters}${connectionQuery(pipeline.connection)}`;
+}
+
+// The tests that did not pass in the test runs the query finds
+async function testOutcomes(ado: AdoClient, query: AdoTestRunListQuery): Promise<HistoryTestOutcome[]> {
+    const outcomes: HistoryTestOutcome[] = [];
+    for (const testRun of await ado.listTestRuns(query)) {
+        for (const result of await ado.listTestResults(testRun.id)) {
+            if (!result.outcome || result.outcome === 'Passed') continue;
+            outcomes.push({ test: result.testCaseTitle ?? result.testCase?.name ?? `#${result.id}`, outcome: result.outcome, testRun: testRun.name });
+        }
+    }
+    return outcomes;
+}
+
+/**
+ * Adds the outcomes of the tests that did not pass to a day's runs. A run whose test
+ * results cannot be read keeps its counts without them; throttling errors escape.
+ */
+async function withOutcomes(ado: AdoClient, date: string, timeZone: string, runs: HistoryRun[], sources: Array<AdoTestRunListQuery[]>): Promise<HistoryRun[]> {
+    const window = getTestRunLookupWindow(getDayWindow(date, timeZone).start);
+    const withTests: HistoryRun[] = [];
+    for (const [index, run] of runs.entries()) {
+        try {
+            const outcomes: HistoryTestOutcome[] = [];
+            for (const query of sources[index]) outcomes.push(...await testOutcomes(ado, { ...query, ...window }));
+            withTests.push({ ...run, outcomes });
+        } catch (e) {
+            if (isThrottlingError(e)) throw e;
+            console.error(`[history] Could not read the test results of run ${run.runId}: ${e instanceof Error ? e.message : e}`);
+            withTests.push(run);
+        }
+    }
+    return withTests;
+}
+
+// A construct route's answer as history runs, with where each run's test runs are found
+function historyRuns(pipeline: PipelineEntry, date: string, answer: unknown): { runs: HistoryRun[]; sources: Array<AdoTestRunListQuery[]> } {
+    if (pipeline.type === 'release') {
+        const runs = historyRunsFromRelease(date, answer as Release | null);
+        return { runs, sources: runs.map((run) => [{ releaseIds: run.runId }]) };
+    }
+    // No build for the day comes back as an object with a message
+    if (!Array.isArray(answer)) return { runs: [], sources: [] };
+    if (pipeline.type === 'build/release') {
+        const linked = answer as LinkedRun[];
+        return {
+            runs: historyRunsFromLinkedRuns(date, linked),
+            sources: linked.map((run) => [{ buildIds: run.buildId }, ...(run.release ? [{ releaseIds: run.release.id }] : [])])
+        };
+    }
+    const runs = historyRunsFromBuilds(date, answer as Build[]);
+    return { runs, sources: runs.map((run) => [{ buildIds: run.runId }]) };
+}
+
+/**
+ * Records a pipeline's finalized days in the history store, oldest first and at most
+ * HISTORY_MAX_INGEST_DAYS per call, carrying on from the last day ingested (or going back
+ * HISTORY_INITIAL_DAYS on the first ingest). Stops at the first day that cannot be read
+ * completely, so the next ingest picks it up again.
+ */
+export async function ingestPipelineHistory(store: HistoryStore, pipeline: PipelineEntry, options: HistoryIngestOptions): Promise<HistoryIngestResult> {
+    const { baseUrl, timeZone } = options;
+    const key = historyKey(timeZone, pipeline);
+    const latest = latestFinalizedDay(timeZone, options.now);
+    let ingestedThrough = await store.getIngestedThrough(key);
+    const start = options.from
+        ?? (ingestedThrough ? addDaysToDateString(ingestedThrough, 1) : addDaysToDateString(latest, 1 - HISTORY_INITIAL_DAYS));
+    const last = addDaysToDateString(start, HISTORY_MAX_INGEST_DAYS - 1);
+    const dates = snapshotDates(start, last < latest ? last : latest);
+
+    const result: HistoryIngestResult = { pipelineId: pipeline.id, days: 0, runs: 0, ingestedThrough };
+    let ado: AdoClient;
+    try {
+        ado = getAdoClient(env, { connection: pipeline.connection });
+    } catch {
+        return { ...result, error: 'Missing Azure DevOps environment variables' };
+    }
+
+    for (const date of dates) {
+        const url = constructUrl(baseUrl, pipeline, date, timeZone);
+        try {
+            const response = await fetch(url);
+            const throttled = throttlingErrorFromResponse(response, url);
+            if (throttled) throw throttled;
+            const answer = await response.json();
+            if (!response.ok || !isFreezableAnswer(answer)) {
+                return { ...result, error: `${date}: ${answer?.error ?? (response.ok ? 'runs still in progress' : `HTTP ${response.status}`)}` };
+            }
+            const { runs, sources } = historyRuns(pipeline, date, answer);
+            const recorded = await withOutcomes(ado, date, timeZone, runs, sources);
+            await store.putDay(key, date, recorded);
+            ingestedThrough = ingestedThrough && ingestedThrough > date ? ingestedThrough : date;
+            result.days++;
+            result.runs += recorded.length;
+            result.ingestedThrough = ingestedThrough;
+        } catch (e) {
+            const reason = isThrottlingError(e) ? 'throttled by Azure DevOps' : e instanceof Error ? e.message : String(e);
+            return { ...result, error: `${date}: ${reason}` };
+        }
+    }
+    return result;
+}
@@ -0,0 +1,38 @@
+import { env as privateEnv } from '$env/dynamic/private';
+import { getFixtureMode } from '$lib/server/fixtures/mode';
+import { FileHistoryStore } from './fileStore';
+import type { HistoryStore } from './store';
+import { TableHistoryStore } from './tableStore';
+
+/**
+ * Picks the store from HISTORY_STORE (table, file or none). Without it, Azure Table storage
+ * is used when AZURE_STORAGE_CONNECTION_STRING is set and a local directory otherwise; while
+ * replaying fixtures there is none, since the recordings cover only a few days.
+ */
+export function createHistoryStore(env: Record<string, any>): HistoryStore | null {
+    if (!env.HISTORY_STORE && getFixtureMode(env) === 'replay') return null;
+    const kind = env.HISTORY_STORE || (env.AZURE_STORAGE_CONNECTION_STRING ? 'table' : 'file');
+    switch (kind) {
+        case 'table':
+            if (!env.AZURE_STORAGE_CONNECTION_STRING) {
+                console.error('[history] HISTORY_STORE=table needs AZURE_STORAGE_CONNECTION_STRING; history is disabled');
+                return null;
+            }
+            return new TableHistoryStore(env.AZURE_STORAGE_CONNECTION_STRING, env.HISTORY_TABLE_NAME || undefined);
+        case 'file':
+            return new FileHistoryStore(env.HISTORY_DIR || undefined);
+        case 'none':
+            return null;
+        default:
+            console.error(`[history] Unknown HISTORY_STORE "${kind}"; history is disabled`);
+            return null;
+    }
+}
+
+let store: HistoryStore | null | undefined;
+
+/** The store for this deployment, configured from the env on first use; null when history is disabled */
+export function getHistoryStore(): HistoryStore | null {
+    if (store === undefined) store = createHistoryStore(privateEnv);
+    return store;
+}
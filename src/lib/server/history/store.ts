@@ -0,0 +1,16 @@
+import type { HistoryRun } from '$lib/types/history';
+
+/**
+ * Persists each pipeline's history, one day at a time, under its history key
+ * (see historyKey). Days are ingested oldest first; ingesting a day again replaces it.
+ */
+export interface HistoryStore {
+    /** Where the history lives, shown by the history API */
+    readonly description: string;
+    /** The pipeline's runs from `from` to `to` (both included), oldest first */
+    listRuns(key: string, from: string, to: string): Promise<HistoryRun[]>;
+    /** Records a day's runs, none for a day without runs, and marks the pipeline as ingested through it */
+    putDay(key: string, date: string, runs: HistoryRun[]): Promise<void>;
+    /** The last day ingested for the pipeline; null before its first ingest */
+    getIngestedThrough(key: string): Promise<string | null>;
+}
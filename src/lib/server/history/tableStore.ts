@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import type { TableClient } from '@azure/data-tables';
+import { fromChunkedJson, toChunkedJson, type ChunkedJson } from '$lib/server/tableChunks';
+import type { HistoryRun } from '$lib/types/history';
+import type { HistoryStore } from './store';
+
+export const DEFAULT_HISTORY_TABLE = 'history';
+
+// Sorts after every date, so range queries over the day rows never include it
+const INGESTED_THROUGH_ROW = 'ingestedThrough';
+
+type HistoryDayEntity = ChunkedJson & {
+    partitionKey: string;
+    rowKey: string;
+    key: string;
+};
+
+interface IngestedThroughEntity {
+    partitionKey: string;
+    rowKey: string;
+    date: string;
+}
+
+/** Keeps the history in Azure Table storage: a partition per pipeline, a row per day */
+export class TableHistoryStore implements HistoryStore {
+    readonly description: string;
+    private client: Promise<TableClient> | null = null;
+
+    constructor(
+        private readonly connectionString: string,
+        private readonly tableName: string = DEFAULT_HISTORY_TABLE
+    ) {
+        this.description = `Azure Table storage (${tableName})`;
+    }
+
+    // The SDK is loaded on first use, as in the RCA route, and the table created if missing
+    private getClient(): Promise<TableClient> {
+        this.client ??= import('@azure/data-tables')
+            .then(async ({ TableClient }) => {
+                const client = TableClient.fromConnectionString(this.connectionString, this.tableName);
+                await client.createTable();
+                return client;
+            })
+            .catch((e) => {
+                this.client = null;
+                throw e;
+            });
+        return this.client;
+    }
+
+    // Partition keys cannot hold every character a history key can
+    private partitionKey(key: string): string {
+        return createHash('sha1').update(key).digest('hex');
+    }
+
+    async listRuns(key: string, from: string, to: string): Promise<HistoryRun[]> {
+        const client = await this.getClient();
+        // Hex partition keys and YYYY-MM-DD dates need no escaping
+        const filter = `PartitionKey eq '${this.partitionKey(key)}' and RowKey ge '${from}' and RowKey le '${to}'`;
+        const runs: HistoryRun[] = [];
+        for await (const entity of client.listEntities<HistoryDayEntity>({ queryOptions: { filter } })) {
+            if (entity.key === key) runs.push(...fromChunkedJson<HistoryRun[]>(entity));
+        }
+        return runs;
+    }
+
+    async putDay(key: string, date: string, runs: HistoryRun[]): Promise<void> {
+        const client = await this.getClient();
+        const partitionKey = this.partitionKey(key);
+        if (runs.length > 0) {
+            let data: ChunkedJson;
+            try {
+                data = toChunkedJson(runs);
+            } catch {
+                // A day with that many failing tests keeps its counts, not the list of them
+                console.warn(`[history] Leaving out the test outcomes of ${key} on ${date}: too large for a table entity`);
+                data = toChunkedJson(runs.map((run) => ({ ...run, outcomes: [] })));
+            }
+            await client.upsertEntity<HistoryDayEntity>({ partitionKey, rowKey: date, key, ...data }, 'Replace');
+        } else {
+            await client.deleteEntity(partitionKey, date).catch((e) => {
+                if (e?.statusCode !== 404) throw e;
+            });
+        }
+        const through = await this.getIngestedThrough(key);
+        if (!through || date > through) {
+            await client.upsertEntity<IngestedThroughEntity>({ partitionKey, rowKey: INGESTED_THROUGH_ROW, date }, 'Replace');
+        }
+    }
+
+    async getIngestedThrough(key: string): Promise<string | null> {
+        const client = await this.getClient();
+        try {
+            return (await client.getEntity<IngestedThroughEntity>(this.partitionKey(key), INGESTED_THROUGH_ROW)).date;
+        } catch (e: any) {
+            if (e?.statusCode === 404) return null;
+            throw e;
+        }
+    }
+}
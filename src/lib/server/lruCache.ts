@@ -0,0 +1,41 @@
+/**
+ * Least-recently-used map with a fixed number of entries: reading an entry makes it the
+ * newest, and setting one past the limit evicts the oldest.
+ */
+export class LruCache<V> {
+    // Map keeps insertion order, so the first key is always the least recently used
+    private readonly entries = new Map<string, V>();
+
+    constructor(readonly maxEntries: number) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): V | undefined {
+        const value = this.entries.get(key);
+        if (value === undefined) return undefined;
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    set(key: string, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    delete(key: string): boolean {
+        return this.entries.delete(key);
+    }
+
+    /** Deletes every entry whose key matches; returns how many went */
+    deleteMatching(pattern: RegExp): number {
+        const keys = [...this.entries.keys()].filter((key) => pattern.test(key));
+        keys.forEach((key) => this.entries.delete(key));
+        return keys.length;
+    }
+}
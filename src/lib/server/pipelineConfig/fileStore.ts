@@ -0,0 +1,43 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { PipelineConfig, PipelineConfigScope } from '$lib/types/pipelineConfig';
+import type { PipelineConfigStore, StoredPipelineConfig } from './store';
+
+export const DEFAULT_PIPELINE_CONFIG_FILE = '.data/pipeline-config.json';
+
+type FileContents = Partial<Record<PipelineConfigScope, StoredPipelineConfig>>;
+
+/** Keeps every scope in a single JSON file. Meant for local development. */
+export class FilePipelineConfigStore implements PipelineConfigStore {
+    readonly description: string;
+
+    constructor(private readonly path: string = DEFAULT_PIPELINE_CONFIG_FILE) {
+        this.description = `local file ${path}`;
+    }
+
+    private async readAll(): Promise<FileContents> {
+        try {
+            return JSON.parse(await readFile(this.path, 'utf-8')) as FileContents;
+        } catch (e: any) {
+            if (e?.code === 'ENOENT') return {};
+            throw e;
+        }
+    }
+
+    async read(scope: PipelineConfigScope): Promise<StoredPipelineConfig | null> {
+        return (await this.readAll())[scope] ?? null;
+    }
+
+    async write(scope: PipelineConfigScope, config: PipelineConfig): Promise<StoredPipelineConfig> {
+        const contents = await this.readAll();
+        const stored: StoredPipelineConfig = { config, updatedAt: new Date().toISOString() };
+        contents[scope] = stored;
+
+        // Write next to the target and rename, so a crash never leaves half a file behind
+        await mkdir(dirname(this.path), { recursive: true });
+        const tempPath = `${this.path}.tmp`;
+        await writeFile(tempPath, JSON.stringify(contents, null, 2));
+        await rename(tempPath, this.path);
+        return stored;
+    }
+}
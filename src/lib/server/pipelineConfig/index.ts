@@ -0,0 +1,10 @@
+export {
+    PipelineConfigService,
+    getPipelineConfigService,
+    createPipelineConfigStore,
+    PIPELINE_CONFIG_ENV_VARS,
+    PIPELINE_CONFIG_CACHE_TTL_MS
+} from './service';
+export type { PipelineConfigStore, StoredPipelineConfig } from './store';
+export { FilePipelineConfigStore, DEFAULT_PIPELINE_CONFIG_FILE } from './fileStore';
+export { TablePipelineConfigStore, DEFAULT_PIPELINE_CONFIG_TABLE } from './tableStore';
@@ -0,0 +1,115 @@
+import { env as privateEnv } from '$env/dynamic/private';
+import { env as publicEnv } from '$env/dynamic/public';
+import type { LoadedPipelineConfig, PipelineConfig, PipelineConfigScope } from '$lib/types/pipelineConfig';
+import { parsePipelineConfig, validatePipelineConfig, withEnabledPipelines } from '$lib/utils/pipelineConfig';
+import { getFixtureMode, getFixturePipelineConfigFile } from '$lib/server/fixtures/mode';
+import { FilePipelineConfigStore } from './fileStore';
+import type { PipelineConfigStore } from './store';
+import { TablePipelineConfigStore } from './tableStore';
+
+/** Env vars that seed each scope until a config is saved, and stand in when the store is unreadable */
+export const PIPELINE_CONFIG_ENV_VARS: Record<PipelineConfigScope, string> = {
+    daily: 'PUBLIC_AZURE_PIPELINE_CONFIG',
+    weekly: 'PUBLIC_AZURE_PIPELINE_CONFIG_WEEKLY'
+};
+
+// Other instances pick up a save within this long
+export const PIPELINE_CONFIG_CACHE_TTL_MS = 30_000;
+
+export class PipelineConfigService {
+    private readonly cache = new Map<PipelineConfigScope, { loaded: Promise<LoadedPipelineConfig>; expiresAt: number }>();
+
+    constructor(
+        /** Null when saving is turned off (PIPELINE_CONFIG_STORE=none) */
+        readonly store: PipelineConfigStore | null,
+        private readonly seeds: Partial<Record<PipelineConfigScope, string | undefined>>,
+        private readonly cacheTtlMs = PIPELINE_CONFIG_CACHE_TTL_MS
+    ) {}
+
+    /**
+     * The saved config for a scope, or the env var when nothing was saved yet or the
+     * store cannot be read. Throws a PipelineConfigError when neither gives a valid config.
+     */
+    load(scope: PipelineConfigScope): Promise<LoadedPipelineConfig> {
+        const now = Date.now();
+        const cached = this.cache.get(scope);
+        if (cached && cached.expiresAt > now) return cached.loaded;
+
+        const loaded = this.loadUncached(scope);
+        this.cache.set(scope, { loaded, expiresAt: now + this.cacheTtlMs });
+        loaded.catch(() => {
+            if (this.cache.get(scope)?.loaded === loaded) this.cache.delete(scope);
+        });
+        return loaded;
+    }
+
+    private async loadUncached(scope: PipelineConfigScope): Promise<LoadedPipelineConfig> {
+        if (this.store) {
+            try {
+                const stored = await this.store.read(scope);
+                if (stored) {
+                    return { scope, source: 'store', config: validatePipelineConfig(stored.config), updatedAt: stored.updatedAt };
+                }
+            } catch (e) {
+                // A saved config that no longer validates is no more usable than an unreachable store
+                console.error(`[pipelineConfig] Could not load the ${scope} config from ${this.store.description}, using ${PIPELINE_CONFIG_ENV_VARS[scope]}: ${e instanceof Error ? e.message : e}`);
+            }
+        }
+        return { scope, source: 'env', config: parsePipelineConfig(this.seeds[scope]) };
+    }
+
+    /** Enabled pipelines only: what the dashboard and its APIs work from */
+    async getActive(scope: PipelineConfigScope = 'daily'): Promise<PipelineConfig> {
+        return withEnabledPipelines((await this.load(scope)).config);
+    }
+
+    /** Validates and saves a config. Throws a PipelineConfigError when it is invalid. */
+    async save(scope: PipelineConfigScope, value: unknown): Promise<LoadedPipelineConfig> {
+        if (!this.store) {
+            throw new Error('No pipeline config store is configured');
+        }
+        const config = validatePipelineConfig(value);
+        const stored = await this.store.write(scope, config);
+        const loaded: LoadedPipelineConfig = { scope, source: 'store', config: stored.config, updatedAt: stored.updatedAt };
+        this.cache.set(scope, { loaded: Promise.resolve(loaded), expiresAt: Date.now() + this.cacheTtlMs });
+        return loaded;
+    }
+}
+
+/**
+ * Picks the store from PIPELINE_CONFIG_STORE (table, file or none). Without it, Azure Table
+ * storage is used when AZURE_STORAGE_CONNECTION_STRING is set and a local file otherwise;
+ * while replaying fixtures it is the pipeline config recorded with them.
+ */
+export function createPipelineConfigStore(env: Record<string, any>): PipelineConfigStore | null {
+    if (!env.PIPELINE_CONFIG_STORE && getFixtureMode(env) === 'replay') {
+        return new FilePipelineConfigStore(getFixturePipelineConfigFile(env));
+    }
+    const kind = env.PIPELINE_CONFIG_STORE || (env.AZURE_STORAGE_CONNECTION_STRING ? 'table' : 'file');
+    switch (kind) {
+        case 'table':
+            if (!env.AZURE_STORAGE_CONNECTION_STRING) {
+                console.error('[pipelineConfig] PIPELINE_CONFIG_STORE=table needs AZURE_STORAGE_CONNECTION_STRING; saving is disabled');
+                return null;
+            }
+            return new TablePipelineConfigStore(env.AZURE_STORAGE_CONNECTION_STRING, env.PIPELINE_CONFIG_TABLE_NAME || undefined);
+        case 'file':
+            return new FilePipelineConfigStore(env.PIPELINE_CONFIG_FILE || undefined);
+        case 'none':
+            return null;
+        default:
+            console.error(`[pipelineConfig] Unknown PIPELINE_CONFIG_STORE "${kind}"; saving is disabled`);
+            return null;
+    }
+}
+
+let service: PipelineConfigService | null = null;
+
+/** The service for this deployment, configured from the env on first use */
+export function getPipelineConfigService(): PipelineConfigService {
+    service ??= new PipelineConfigService(createPipelineConfigStore(privateEnv), {
+        daily: publicEnv.PUBLIC_AZURE_PIPELINE_CONFIG,
+        weekly: publicEnv.PUBLIC_AZURE_PIPELINE_CONFIG_WEEKLY
+    });
+    return service;
+}
@@ -0,0 +1,19 @@
+import type { PipelineConfig, PipelineConfigScope } from '$lib/types/pipelineConfig';
+
+export interface StoredPipelineConfig {
+    config: PipelineConfig;
+    /** ISO timestamp of the save */
+    updatedAt: string;
+}
+
+/**
+ * Persists the configs saved from the settings page, one per scope.
+ * Stores only read and write; validation happens in PipelineConfigService.
+ */
+export interface PipelineConfigStore {
+    /** Where the configs live, shown on the settings page */
+    readonly description: string;
+    /** The saved config, or null when nothing was saved for the scope yet */
+    read(scope: PipelineConfigScope): Promise<StoredPipelineConfig | null>;
+    write(scope: PipelineConfigScope, config: PipelineConfig): Promise<StoredPipelineConfig>;
+}
@@ -0,0 +1,65 @@
+import type { TableClient } from '@azure/data-tables';
+import type { PipelineConfig, PipelineConfigScope } from '$lib/types/pipelineConfig';
+import type { PipelineConfigStore, StoredPipelineConfig } from './store';
+
+export const DEFAULT_PIPELINE_CONFIG_TABLE = 'pipelineconfig';
+
+// One row per scope in a single partition
+const PARTITION_KEY = 'pipelineConfig';
+
+interface PipelineConfigEntity {
+    partitionKey: string;
+    rowKey: string;
+    /** The config as JSON; table properties cannot hold nested objects */
+    config: string;
+    updatedAt: string;
+}
+
+/** Keeps the configs in Azure Table storage, next to the RCA analyses */
+export class TablePipelineConfigStore implements PipelineConfigStore {
+    readonly description: string;
+    private client: Promise<TableClient> | null = null;
+
+    constructor(
+        private readonly connectionString: string,
+        private readonly tableName: string = DEFAULT_PIPELINE_CONFIG_TABLE
+    ) {
+        this.description = `Azure Table storage (${tableName})`;
+    }
+
+    // The SDK is loaded on first use, as in the RCA route, and the table created if missing
+    private getClient(): Promise<TableClient> {
+        this.client ??= import('@azure/data-tables')
+            .then(async ({ TableClient }) => {
+                const client = TableClient.fromConnectionString(this.connectionString, this.tableName);
+                await client.createTable();
+                return client;
+            })
+            .catch((e) => {
+                this.client = null;
+                throw e;
+            });
+        return this.client;
+    }
+
+    async read(scope: PipelineConfigScope): Promise<StoredPipelineConfig | null> {
+        const client = await this.getClient();
+        try {
+            const entity = await client.getEntity<PipelineConfigEntity>(PARTITION_KEY, scope);
+            return { config: JSON.parse(entity.config) as PipelineConfig, updatedAt: entity.updatedAt };
+        } catch (e: any) {
+            if (e?.statusCode === 404) return null;
+            throw e;
+        }
+    }
+
+    async write(scope: PipelineConfigScope, config: PipelineConfig): Promise<StoredPipelineConfig> {
+        const client = await this.getClient();
+        const updatedAt = new Date().toISOString();
+        await client.upsertEntity<PipelineConfigEntity>(
+            { partitionKey: PARTITION_KEY, rowKey: scope, config: JSON.stringify(config), updatedAt },
+            'Replace'
+        );
+        return { config, updatedAt };
+    }
+}
@@ -0,0 +1,175 @@
+import { isAdoRequestError, isThrottlingError, type AdoClient, type AdoRelease, type AdoReleaseEnvironment, type AdoTestRun } from '$lib/server/ado';
+import type { Release, ReleaseEnvironment } from '$lib/types/release';
+import type { PipelineEntry } from '$lib/types/pipelineConfig';
+import { calculateReleaseCompletionTime, explainReleasePipelineStatus, getLatestRelease } from '$lib/utils/getReleasePipelineStatus';
+import { summarizeAttempts } from '$lib/utils/releaseAttempts';
+import { transientError, type ErrorResult } from '$lib/utils/resultKinds';
+import { filterReleaseEnvironments, getEnvironmentStatus } from '$lib/utils/releaseEnvironments';
+import { resolveTestVolume, resolveThresholds } from '$lib/utils/statusScoring';
+import { testVolumeDay, type TestVolumeLearning } from '$lib/utils/testVolume';
+import { getTestRunLookupWindow } from '$lib/utils/timezone';
+
+// How long after a build started its release may be created and still count as triggered by it
+const TRIGGERED_RELEASE_LOOKUP_MS = 3 * 24 * 60 * 60 * 1000;
+
+/** What a release pipeline's config entry changes about its releases */
+export type ReleaseScoringConfig = Pick<PipelineEntry, 'thresholds' | 'environments' | 'attemptPolicy' | 'expectedTests'>;
+
+/** Test counts of the runs from one environment's latest deployment attempt */
+type EnvironmentTestCounts = { passed: number; failed: number };
+
+function toReleaseEnvironment(env: AdoReleaseEnvironment, counts: EnvironmentTestCounts | undefined, scoring: ReleaseScoringConfig): ReleaseEnvironment {
+    const steps = env.deploySteps ?? [];
+    const lastStep = steps[steps.length - 1];
+    const active = env.status === 'inProgress' || env.status === 'queued';
+    const startTime = lastStep?.queuedOn ?? null;
+    const finishTime = active ? null : (lastStep?.lastModifiedOn ?? calculateReleaseCompletionTime([env]) ?? null);
+    const durationMs = startTime && finishTime ? Math.max(0, new Date(finishTime).getTime() - new Date(startTime).getTime()) : null;
+    const passed = counts?.passed ?? 0;
+    const failed = counts?.failed ?? 0;
+    return {
+        id: env.id,
+        name: env.name,
+        deployStatus: env.status ?? 'notStarted',
+        status: getEnvironmentStatus(env.status ?? 'notStarted', passed, failed, resolveThresholds(scoring.thresholds)),
+        passedTestCount: passed,
+        failedTestCount: failed,
+        ...(passed + failed > 0 && { passRate: (passed / (passed + failed)) * 100 }),
+        startTime,
+        finishTime,
+        durationMs: Number.isNaN(durationMs) ? null : durationMs,
+        attempts: Math.max(1, steps.length)
+    };
+}
+
+/**
+ * Builds the dashboard Release for an Azure DevOps release: details, test results
+ * from its test stages, each included environment on its own, status (scored with the
+ * pipeline's thresholds, environments and attempt policy, if it sets any) and link. Throttling errors are rethrown.
+ * With `learning` a release with far fewer tests than the definition's recent ones is incomplete, and a
+ * finished release's total is learned from in turn; without it only the configured expectedTests count.
+ */
+export async function constructReleaseById(ado: AdoClient, releaseId: number, scoring: ReleaseScoringConfig = {}, learning?: TestVolumeLearning): Promise<Release | ErrorResult> {
+    //#region Fetch release details
+    let releaseDetails: AdoRelease;
+    try {
+        releaseDetails = await ado.getRelease(releaseId);
+    } catch (e) {
+        if (isThrottlingError(e)) throw e;
+        return transientError('Failed to fetch release details');
+    }
+
+    // Environments the pipeline leaves out count for nothing, tests included
+    const environments = filterReleaseEnvironments(releaseDetails.environments, scoring.environments);
+    const countsByEnvironment = new Map<number, EnvironmentTestCounts>();
+
+    //Compute the time the release pipeline was completed (take the latest finishTime)
+    const latestFinishTime = calculateReleaseCompletionTime(releaseDetails.environments ?? []);
+    // Construct release object
+    const release: Release = {
+        id: releaseDetails.id,
+        name: releaseDetails.name,
+        createdOn: releaseDetails.createdOn,
+        modifiedOn: releaseDetails.modifiedOn,
+        completedTime: latestFinishTime, // Use the calculated latest finish time
+        status: releaseDetails.status, // Use actual Azure DevOps status instead of hardcoding 'unknown'
+        envs: releaseDetails.environments ?? []
+    };
+    //#endregion
+
+    //#region Fetch and aggregate test results
+    try {
+        // Fetch test runs for this release - use release creation date as base and add 5 days
+        const { minLastUpdatedDate, maxLastUpdatedDate } = getTestRunLookupWindow(new Date(releaseDetails.createdOn));
+        let testRuns: AdoTestRun[] | null = null;
+        try {
+            testRuns = await ado.listTestRuns({ releaseIds: releaseId, minLastUpdatedDate, maxLastUpdatedDate });
+        } catch (e) {
+            if (!isAdoRequestError(e) || e.isThrottled) throw e;
+        }
+
+        if (Array.isArray(testRuns)) {
+            // Filter test runs to only include those from stages with 'tests' in the name
+            const filteredRuns = testRuns.filter((run) => {
+                const envId = run.release?.environmentId;
+                const environment = environments.find((env) => env.id === envId);
+                const stageName = environment?.name || '';
+                const matches = stageName.toLowerCase().includes('tests') || stageName.toLowerCase().includes('checks');
+                return matches;
+            });
+
+
+            // Add up each environment's runs by deployment attempt; the release's counts are the latest attempt's,
+            // so every test run from the latest deployment attempt per environment is counted
+            const attemptRuns = filteredRuns
+                .filter((run) => run.release?.environmentId)
+                .map((run) => ({
+                    environmentId: run.release!.environmentId!,
+                    attempt: run.release?.attempt ?? -1,
+                    passed: run.passedTests ?? 0,
+                    failed: (run.failedTests ?? 0) + (run.unanalyzedTests ?? 0),
+                    notRun: run.notApplicableTests ?? 0
+                }));
+            const { attempts, lastByEnvironment } = summarizeAttempts(attemptRuns);
+            for (const [envId, counts] of lastByEnvironment) {
+                countsByEnvironment.set(envId, { passed: counts.passedTestCount, failed: counts.failedTestCount });
+            }
+
+            // Update release object with aggregated test results
+            release.passedTestCount = attempts.last.passedTestCount;
+            release.failedTestCount = attempts.last.failedTestCount;
+            release.notRunTestCount = attempts.last.notRunTestCount;
+            release.attempts = attempts;
+        }
+        
+        // Always compute the status using our logic, regardless of whether test runs were found
+        const day = testVolumeDay(release.createdOn);
+        const learned = learning ? await learning.history.learned(learning.subject, day) : null;
+        release.statusExplanation = explainReleasePipelineStatus(release, { ...scoring, testVolume: resolveTestVolume(scoring, learned) });
+        release.status = release.statusExplanation.status;
+        if (learning && release.status !== 'inProgress') {
+            await learning.history.record(learning.subject, day, (release.passedTestCount ?? 0) + (release.failedTestCount ?? 0));
+        }
+    } catch (e: any) {
+       if (isThrottlingError(e)) throw e;
+       console.warn('Error fetching test results: ' + (e.message || 'Unknown error'));
+       // Keep default test counts from release details, but still compute status
+       release.statusExplanation = explainReleasePipelineStatus(release, scoring);
+       release.status = release.statusExplanation.status;
+    }
+    release.environments = environments.map((env) => toReleaseEnvironment(env, countsByEnvironment.get(env.id), scoring));
+    //#endregion
+    
+    //#region Construct link to release in Azure DevOps
+    release.link = ado.releaseLink(release.id);
+    //#endregion
+
+    return release;
+}
+
+/** Whether one of the release's build artifacts is the given build */
+export function isReleaseOfBuild(release: Pick<AdoRelease, 'artifacts'>, buildId: number | string): boolean {
+    return (release.artifacts ?? []).some((artifact) =>
+        artifact.type === 'Build' && artifact.definitionReference?.version?.id === String(buildId)
+    );
+}
+
+/**
+ * The latest release of a definition that deployed the given build, or null while there is none.
+ * Releases are listed from the build's start, since one cannot be created before its build.
+ */
+export async function findTriggeredRelease(
+    ado: AdoClient,
+    releaseDefinitionId: string,
+    build: { id: number; startTime?: string }
+): Promise<AdoRelease | null> {
+    const startedAt = build.startTime ? new Date(build.startTime) : new Date();
+    const releases = await ado.listReleases({
+        definitionId: releaseDefinitionId,
+        minCreatedTime: startedAt.toISOString(),
+        maxCreatedTime: new Date(startedAt.getTime() + TRIGGERED_RELEASE_LOOKUP_MS).toISOString(),
+        top: 100,
+        expand: 'artifacts'
+    });
+    return getLatestRelease(releases.filter((release) => isReleaseOfBuild(release, build.id)));
+}
@@ -0,0 +1,17 @@
+import { getPipelineConfigService } from '$lib/server/pipelineConfig';
+import type { PipelineEntry } from '$lib/types/pipelineConfig';
+import { findPipelineEntry, type PipelineRequest } from '$lib/utils/pipelineConfig';
+
+/**
+ * The dashboard config entry of the pipeline a request is for, for what it changes about
+ * the answer (status thresholds, release environments). Undefined means the defaults,
+ * also when the config cannot be loaded.
+ */
+export async function getRequestPipeline(request: PipelineRequest): Promise<PipelineEntry | undefined> {
+    try {
+        return findPipelineEntry(await getPipelineConfigService().getActive('daily'), request);
+    } catch (e) {
+        console.error(`[pipelineConfig] Could not load the pipeline config, using the defaults: ${e instanceof Error ? e.message : e}`);
+        return undefined;
+    }
+}
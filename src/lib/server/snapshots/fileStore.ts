@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { link, mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { DaySnapshot, DaySnapshotStore } from './store';
+
+export const DEFAULT_SNAPSHOT_DIR = '.data/snapshots';
+
+/** One JSON file per snapshot, in a directory per date. Meant for local development and single instances. */
+export class FileDaySnapshotStore implements DaySnapshotStore {
+    readonly description: string;
+
+    constructor(private readonly dir: string = DEFAULT_SNAPSHOT_DIR) {
+        this.description = `local directory ${dir}`;
+    }
+
+    // Cache keys hold characters file names cannot, so files are named after a hash of the key
+    private path(date: string, key: string): string {
+        return join(this.dir, date, `${createHash('sha1').update(key).digest('hex')}.json`);
+    }
+
+    async read(date: string, key: string): Promise<DaySnapshot | null> {
+        try {
+            const snapshot = JSON.parse(await readFile(this.path(date, key), 'utf-8')) as DaySnapshot;
+            return snapshot.key === key ? snapshot : null;
+        } catch (e: any) {
+            if (e?.code === 'ENOENT') return null;
+            throw e;
+        }
+    }
+
+    async writeOnce(snapshot: DaySnapshot): Promise<boolean> {
+        const path = this.path(snapshot.date, snapshot.key);
+        await mkdir(join(this.dir, snapshot.date), { recursive: true });
+
+        // Write next to the target and link it in: a crash never leaves half a file behind,
+        // and linking fails when another request froze the day first
+        const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+        await writeFile(tempPath, JSON.stringify(snapshot));
+        try {
+            await link(tempPath, path);
+            return true;
+        } catch (e: any) {
+            if (e?.code === 'EEXIST') return false;
+            throw e;
+        } finally {
+            await unlink(tempPath).catch(() => {});
+        }
+    }
+}
@@ -0,0 +1,4 @@
+export { DaySnapshotService, getDaySnapshotService, createDaySnapshotStore } from './service';
+export type { DaySnapshot, DaySnapshotStore } from './store';
+export { FileDaySnapshotStore, DEFAULT_SNAPSHOT_DIR } from './fileStore';
+export { TableDaySnapshotStore, DEFAULT_SNAPSHOT_TABLE } from './tableStore';
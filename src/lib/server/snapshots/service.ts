@@ -0,0 +1,111 @@
+import { env as privateEnv } from '$env/dynamic/private';
+import { getFixtureMode } from '$lib/server/fixtures/mode';
+import { LruCache } from '$lib/server/lruCache';
+import { isFinalizedDay, isFreezableAnswer } from '$lib/utils/snapshots';
+import { FileDaySnapshotStore } from './fileStore';
+import type { DaySnapshot, DaySnapshotStore } from './store';
+import { TableDaySnapshotStore } from './tableStore';
+
+// Reads are kept in process so finalized days cost no store round trip per request: snapshots
+// for good, since they never change, and their absence briefly, since another instance may freeze the day
+const READ_CACHE_MAX_ENTRIES = 5000;
+const MISSING_SNAPSHOT_MAX_AGE_MS = 60_000;
+
+export class DaySnapshotService {
+    private readonly reads = new LruCache<{ snapshot: DaySnapshot | null; readAt: number }>(READ_CACHE_MAX_ENTRIES);
+
+    constructor(
+        /** Null when snapshots are turned off (SNAPSHOT_STORE=none) */
+        readonly store: DaySnapshotStore | null,
+        private readonly now: () => Date = () => new Date()
+    ) {}
+
+    /**
+     * A route's answer for a day. Finalized days are read from their snapshot first (kept in
+     * process once read); without one the answer is computed, and frozen when `isFinal`
+     * accepts it (complete and error-free by default). Other days are simply computed. The
+     * store failing never fails the request; whatever compute throws escapes unfrozen.
+     */
+    async getOrFreeze<T>(
+        key: string,
+        date: string,
+        timeZone: string,
+        compute: () => Promise<T>,
+        isFinal: (answer: T) => boolean = isFreezableAnswer
+    ): Promise<T> {
+        if (!this.store || !isFinalizedDay(date, timeZone, this.now())) return compute();
+
+        try {
+            const snapshot = await this.read(this.store, date, key);
+            if (snapshot) return snapshot.data as T;
+        } catch (e) {
+            console.error(`[snapshots] Could not read ${key} from ${this.store.description}: ${e instanceof Error ? e.message : e}`);
+        }
+
+        const answer = await compute();
+        if (isFinal(answer)) {
+            try {
+                const snapshot: DaySnapshot = { key, date, data: answer, frozenAt: this.now().toISOString() };
+                if (await this.store.writeOnce(snapshot)) this.reads.set(key, { snapshot, readAt: this.now().getTime() });
+                // Someone else froze it first: theirs is read from the store next time
+                else this.reads.delete(key);
+            } catch (e) {
+                console.error(`[snapshots] Could not freeze ${key} to ${this.store.description}: ${e instanceof Error ? e.message : e}`);
+            }
+        }
+        return answer;
+    }
+
+    /** Whether a snapshot exists for the key; false when the store cannot say */
+    async isFrozen(date: string, key: string): Promise<boolean> {
+        if (!this.store) return false;
+        try {
+            return (await this.read(this.store, date, key)) !== null;
+        } catch {
+            return false;
+        }
+    }
+
+    private async read(store: DaySnapshotStore, date: string, key: string): Promise<DaySnapshot | null> {
+        const now = this.now().getTime();
+        const cached = this.reads.get(key);
+        if (cached && (cached.snapshot || now - cached.readAt < MISSING_SNAPSHOT_MAX_AGE_MS)) return cached.snapshot;
+
+        const snapshot = await store.read(date, key);
+        this.reads.set(key, { snapshot, readAt: now });
+        return snapshot;
+    }
+}
+
+/**
+ * Picks the store from SNAPSHOT_STORE (table, file or none). Without it, Azure Table storage
+ * is used when AZURE_STORAGE_CONNECTION_STRING is set and a local directory otherwise; while
+ * replaying fixtures nothing is frozen, since the recordings are the durable copy.
+ */
+export function createDaySnapshotStore(env: Record<string, any>): DaySnapshotStore | null {
+    if (!env.SNAPSHOT_STORE && getFixtureMode(env) === 'replay') return null;
+    const kind = env.SNAPSHOT_STORE || (env.AZURE_STORAGE_CONNECTION_STRING ? 'table' : 'file');
+    switch (kind) {
+        case 'table':
+            if (!env.AZURE_STORAGE_CONNECTION_STRING) {
+                console.error('[snapshots] SNAPSHOT_STORE=table needs AZURE_STORAGE_CONNECTION_STRING; snapshots are disabled');
+                return null;
+            }
+            return new TableDaySnapshotStore(env.AZURE_STORAGE_CONNECTION_STRING, env.SNAPSHOT_TABLE_NAME || undefined);
+        case 'file':
+            return new FileDaySnapshotStore(env.SNAPSHOT_DIR || undefined);
+        case 'none':
+            return null;
+        default:
+            console.error(`[snapshots] Unknown SNAPSHOT_STORE "${kind}"; snapshots are disabled`);
+            return null;
+    }
+}
+
+let service: DaySnapshotService | null = null;
+
+/** The service for this deployment, configured from the env on first use */
+export function getDaySnapshotService(): DaySnapshotService {
+    service ??= new DaySnapshotService(createDaySnapshotStore(privateEnv));
+    return service;
+}
@@ -0,0 +1,23 @@
+/** One route answer for a finalized day, frozen under the route's cache key */
+export interface DaySnapshot {
+    /** The route's cache key, so a snapshot only answers the exact question it was frozen for */
+    key: string;
+    /** Dashboard date (YYYY-MM-DD) the answer is for */
+    date: string;
+    data: unknown;
+    /** ISO timestamp of the freeze */
+    frozenAt: string;
+}
+
+/**
+ * Persists day snapshots. Snapshots are immutable: once one is written for a key it is
+ * never replaced. Deciding what may be frozen happens in DaySnapshotService.
+ */
+export interface DaySnapshotStore {
+    /** Where the snapshots live, shown by the backfill API */
+    readonly description: string;
+    /** The snapshot for the key, or null when the day was not frozen for it */
+    read(date: string, key: string): Promise<DaySnapshot | null>;
+    /** Writes the snapshot unless one exists for its key already; false when one did */
+    writeOnce(snapshot: DaySnapshot): Promise<boolean>;
+}
@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import type { TableClient } from '@azure/data-tables';
+import { fromChunkedJson, toChunkedJson, type ChunkedJson } from '$lib/server/tableChunks';
+import type { DaySnapshot, DaySnapshotStore } from './store';
+
+export const DEFAULT_SNAPSHOT_TABLE = 'daysnapshots';
+
+type DaySnapshotEntity = ChunkedJson & {
+    partitionKey: string;
+    rowKey: string;
+    key: string;
+    frozenAt: string;
+};
+
+/** Keeps the snapshots in Azure Table storage, one partition per date */
+export class TableDaySnapshotStore implements DaySnapshotStore {
+    readonly description: string;
+    private client: Promise<TableClient> | null = null;
+
+    constructor(
+        private readonly connectionString: string,
+        private readonly tableName: string = DEFAULT_SNAPSHOT_TABLE
+    ) {
+        this.description = `Azure Table storage (${tableName})`;
+    }
+
+    // The SDK is loaded on first use, as in the RCA route, and the table created if missing
+    private getClient(): Promise<TableClient> {
+        this.client ??= import('@azure/data-tables')
+            .then(async ({ TableClient }) => {
+                const client = TableClient.fromConnectionString(this.connectionString, this.tableName);
+                await client.createTable();
+                return client;
+            })
+            .catch((e) => {
+                this.client = null;
+                throw e;
+            });
+        return this.client;
+    }
+
+    // Row keys cannot hold every character a cache key can
+    private rowKey(key: string): string {
+        return createHash('sha1').update(key).digest('hex');
+    }
+
+    async read(date: string, key: string): Promise<DaySnapshot | null> {
+        const client = await this.getClient();
+        try {
+            const entity = await client.getEntity<DaySnapshotEntity>(date, this.rowKey(key));
+            if (entity.key !== key) return null;
+            return { key, date, data: fromChunkedJson(entity), frozenAt: entity.frozenAt };
+        } catch (e: any) {
+            if (e?.statusCode === 404) return null;
+            throw e;
+        }
+    }
+
+    async writeOnce(snapshot: DaySnapshot): Promise<boolean> {
+        // Answers too large for an entity are not frozen
+        const entity: DaySnapshotEntity = {
+            partitionKey: snapshot.date,
+            rowKey: this.rowKey(snapshot.key),
+            key: snapshot.key,
+            frozenAt: snapshot.frozenAt,
+            ...toChunkedJson(snapshot.data)
+        };
+
+        const client = await this.getClient();
+        try {
+            // Create, never upsert: a frozen day stays as it was first frozen
+            await client.createEntity(entity);
+            return true;
+        } catch (e: any) {
+            if (e?.statusCode === 409) return false;
+            throw e;
+        }
+    }
+}
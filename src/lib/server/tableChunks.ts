@@ -0,0 +1,32 @@
+/**
+ * JSON in Azure Table entities. A string property holds 64 KiB of UTF-16, so values are
+ * split over data0, data1, ... properties; an entity holds at most 1 MiB, so bigger values
+ * cannot be stored in one.
+ */
+
+const CHUNK_LENGTH = 30_000;
+const MAX_CHUNKS = 15;
+
+export type ChunkedJson = {
+    /** How many data properties the JSON is split over */
+    chunks: number;
+    [chunk: `data${number}`]: string;
+};
+
+/** The value as entity properties; throws when it is too large for an entity */
+export function toChunkedJson(value: unknown): ChunkedJson {
+    const json = JSON.stringify(value);
+    const chunks = Math.max(1, Math.ceil(json.length / CHUNK_LENGTH));
+    if (chunks > MAX_CHUNKS) {
+        throw new Error(`Too large for a table entity (${json.length} characters)`);
+    }
+    const properties: ChunkedJson = { chunks };
+    for (let i = 0; i < chunks; i++) properties[`data${i}`] = json.slice(i * CHUNK_LENGTH, (i + 1) * CHUNK_LENGTH);
+    return properties;
+}
+
+export function fromChunkedJson<T>(entity: ChunkedJson): T {
+    let json = '';
+    for (let i = 0; i < entity.chunks; i++) json += entity[`data${i}`];
+    return JSON.parse(json) as T;
+}
@@ -0,0 +1,33 @@
+import redis from '$lib/utils/redisClient';
+import { expiredTestVolumeDays, testVolumeKey, typicalTestVolume, type TestVolumeHistory, type TestVolumeSamples } from '$lib/utils/testVolume';
+
+// Long enough to outlast any gap in a pipeline's schedule
+const TEST_VOLUME_TTL_SECONDS = 60 * 24 * 60 * 60;
+
+async function readSamples(key: string): Promise<TestVolumeSamples> {
+    try {
+        const stored = await redis.hgetall(key);
+        return Object.fromEntries(Object.entries(stored).map(([day, total]) => [day, Number(total)]));
+    } catch {
+        return {};
+    }
+}
+
+/** Learned volumes kept in Redis; a Redis outage only means no volume is learned */
+export const redisTestVolumeHistory: TestVolumeHistory = {
+    async learned(subject, day) {
+        return typicalTestVolume(await readSamples(testVolumeKey(subject)), day);
+    },
+    // Runs without tests teach nothing. Each day is its own hash field, so concurrent records never lose one
+    async record(subject, day, total) {
+        if (total <= 0) return;
+        const key = testVolumeKey(subject);
+        try {
+            await redis.hset(key, day, String(total));
+            await redis.expire(key, TEST_VOLUME_TTL_SECONDS);
+            const expired = expiredTestVolumeDays(await readSamples(key));
+            if (expired.length > 0) await redis.hdel(key, ...expired);
+        } catch {
+        }
+    }
+};
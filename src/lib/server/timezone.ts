@@ -0,0 +1,17 @@
+import { env } from '$env/dynamic/public';
+import { isValidTimeZone, resolveTimeZone } from '$lib/utils/timezone';
+
+/** Dashboard time zone configured for the deployment (PUBLIC_DASHBOARD_TIMEZONE) */
+export function getConfiguredTimeZone(): string {
+    return resolveTimeZone(env.PUBLIC_DASHBOARD_TIMEZONE);
+}
+
+/**
+ * Time zone a request asked for via `?tz=`, or the configured one when absent.
+ * Returns null when the caller passed something that is not an IANA zone.
+ */
+export function getRequestTimeZone(url: URL): string | null {
+    const requested = url.searchParams.get('tz');
+    if (requested === null || requested === '') return getConfiguredTimeZone();
+    return isValidTimeZone(requested) ? requested : null;
+}
@@ -0,0 +1,48 @@
+import { env } from '$env/dynamic/public';
+import type { PipelineConfig } from '$lib/types/pipelineConfig';
+import { parsePipelineConfig, PipelineConfigError, withEnabledPipelines } from '$lib/utils/pipelineConfig';
+
+// Parsed once per distinct PUBLIC_AZURE_PIPELINE_CONFIG value and shared by every consumer
+let cached: { raw: string | undefined; config: PipelineConfig | null; error: PipelineConfigError | null } | null = null;
+
+// Set by the root layout with the config from the server-side store
+let provider: (() => PipelineConfig | null | undefined) | null = null;
+
+/**
+ * Hands the store the config loaded on the server (see +layout.server.ts). While the
+ * getter returns a config it wins over the env var; when it returns null the env var is used.
+ */
+export function provideDashboardPipelineConfig(getConfig: () => PipelineConfig | null | undefined): void {
+    provider = getConfig;
+}
+
+function load() {
+    const provided = provider?.();
+    if (provided) {
+        return { config: provided, error: null };
+    }
+
+    const raw = env.PUBLIC_AZURE_PIPELINE_CONFIG;
+    if (!cached || cached.raw !== raw) {
+        try {
+            cached = { raw, config: withEnabledPipelines(parsePipelineConfig(raw)), error: null };
+        } catch (e) {
+            const error = e instanceof PipelineConfigError ? e : new PipelineConfigError(String(e));
+            console.error(`[pipelineConfig] ${error.message}`);
+            cached = { raw, config: null, error };
+        }
+    }
+    return cached;
+}
+
+/** The validated dashboard pipeline config, enabled pipelines only. Throws a PipelineConfigError when missing or invalid. */
+export function getDashboardPipelineConfig(): PipelineConfig {
+    const { config, error } = load();
+    if (!config) throw error;
+    return config;
+}
+
+/** Same as getDashboardPipelineConfig, for views that can still render without pipelines */
+export function tryGetDashboardPipelineConfig(): PipelineConfig | null {
+    return load().config;
+}
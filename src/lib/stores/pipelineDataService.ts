@@ -1,15 +1,36 @@
 // Removed cache imports
+import { buildCacheKey, linkedRunCacheKey, releaseCacheKey } from '$lib/utils/cacheKeys';
+import { buildFiltersQuery, resolveBuildFilters, type PipelineFilterConfig } from '$lib/utils/pipelineFilters';
+import { getReleaseDefinitionId } from '$lib/utils/pipelineConfig';
+import { connectionQuery } from '$lib/utils/connections';
+import type { PipelineEntry } from '$lib/types/pipelineConfig';
+import type { LinkedRun } from '$lib/types/linkedRun';
+import { configError, isErrorResult, transientError, type ErrorResult } from '$lib/utils/resultKinds';
+import { getDashboardTimeZone } from './timezoneStore';
+
+/** The parts of a pipeline config entry a release request depends on: its connection, status thresholds, environments, attempt policy and expected tests */
+export type ReleaseRequestConfig = Pick<PipelineEntry, 'connection' | 'thresholds' | 'environments' | 'attemptPolicy' | 'expectedTests'>;
+
+/** The parts of a pipeline config entry a build request depends on: its run filters, connection and status thresholds */
+export type BuildRequestConfig = PipelineFilterConfig & ReleaseRequestConfig;
 
 export interface PipelineDataService {
-    fetchReleaseData: (date: string, pipelineId: string) => Promise<any>;
-    fetchBuildData: (date: string, pipelineId: string) => Promise<any>;
+    // config is the pipeline's config entry: its named Azure DevOps connection (the default one when omitted) and thresholds
+    fetchReleaseData: (date: string, pipelineId: string, config?: ReleaseRequestConfig) => Promise<any>;
+    // filters are the branches/reasons/tags of the pipeline's config entry (trunk + schedule when omitted)
+    fetchBuildData: (date: string, pipelineId: string, filters?: BuildRequestConfig) => Promise<any>;
     fetchTestCases: (releaseId: string) => Promise<any[]>;
     prefetchPipelineData: (date: string, pipelineIds: string[], pipelineConfig?: any) => Promise<void>;
     // Prefetch all pipeline data for all days in a month
     prefetchAllPipelineDataForMonth: (dateStrings: string[], pipelineConfig: any) => Promise<void>;
-    // Silent methods that don't throw errors for missing data (useful for interactive elements)
-    fetchReleaseDataSilent: (date: string, pipelineId: string) => Promise<any | null>;
-    fetchBuildDataSilent: (date: string, pipelineId: string) => Promise<any | null>;
+    // Silent methods that don't throw errors for missing data (useful for interactive elements).
+    // Failures come back as { error, kind } (see resultKind), like the errors the routes answer with
+    fetchReleaseDataSilent: (date: string, pipelineId: string, config?: ReleaseRequestConfig) => Promise<any | null>;
+    fetchBuildDataSilent: (date: string, pipelineId: string, filters?: BuildRequestConfig) => Promise<any | null>;
+    // A build/release pipeline's builds, each with the release it triggered
+    fetchLinkedRunDataSilent: (date: string, pipeline: PipelineEntry) => Promise<LinkedRun[] | null>;
+    // The same, with why there are none: [] when nothing ran, { error, kind } when they could not be loaded
+    fetchLinkedRunResultSilent: (date: string, pipeline: PipelineEntry) => Promise<LinkedRun[] | ErrorResult>;
     // Clear the client-side in-memory cache (optionally for a specific key)
     clearLocalCache: (key?: string) => void;
 }
@@ -43,7 +64,8 @@ class PipelineDataServiceImpl implements PipelineDataService {
         }
 
         const requestPromise = requestFactory().then((result) => {
-            this.setCached(key, result);
+            // Failures are asked for again next time, rather than shown for the whole TTL
+            if (!isErrorResult(result)) this.setCached(key, result);
             return result;
         }).finally(() => {
             this.inFlightRequests.delete(key);
@@ -53,6 +75,33 @@ class PipelineDataServiceImpl implements PipelineDataService {
         return requestPromise;
     }
 
+    private buildRequest(date: string, pipelineId: string, config?: BuildRequestConfig): { key: string; url: string } {
+        const timeZone = getDashboardTimeZone();
+        const filters = resolveBuildFilters(config);
+        return {
+            key: buildCacheKey(date, pipelineId, timeZone, filters, config?.connection, config?.thresholds, config?.expectedTests),
+            url: `/api/constructBuild?date=${date}&buildDefinitionId=${pipelineId}&tz=${encodeURIComponent(timeZone)}${buildFiltersQuery(filters)}${connectionQuery(config?.connection)}`
+        };
+    }
+
+    private releaseRequest(date: string, pipelineId: string, config?: ReleaseRequestConfig): { key: string; url: string } {
+        const timeZone = getDashboardTimeZone();
+        return {
+            key: releaseCacheKey(date, pipelineId, timeZone, config?.connection, config?.thresholds, config?.environments, config?.attemptPolicy, config?.expectedTests),
+            url: `/api/constructRelease?date=${date}&releaseDefinitionId=${pipelineId}&tz=${encodeURIComponent(timeZone)}${connectionQuery(config?.connection)}`
+        };
+    }
+
+    private linkedRunRequest(date: string, pipeline: PipelineEntry): { key: string; url: string } {
+        const timeZone = getDashboardTimeZone();
+        const filters = resolveBuildFilters(pipeline);
+        const releaseDefinitionId = getReleaseDefinitionId(pipeline);
+        return {
+            key: linkedRunCacheKey(date, pipeline.id, releaseDefinitionId, timeZone, filters, pipeline.connection, pipeline.thresholds, pipeline.environments, pipeline.attemptPolicy, pipeline.expectedTests),
+            url: `/api/constructBuildRelease?date=${date}&buildDefinitionId=${pipeline.id}&releaseDefinitionId=${releaseDefinitionId}&tz=${encodeURIComponent(timeZone)}${buildFiltersQuery(filters)}${connectionQuery(pipeline.connection)}`
+        };
+    }
+
     clearLocalCache(key?: string): void {
         if (key) {
             this.localCache.delete(key);
@@ -75,23 +124,22 @@ class PipelineDataServiceImpl implements PipelineDataService {
         for (const date of dateStrings) {
             for (const pipeline of pipelineConfig.pipelines) {
                 if (pipeline.type === 'build') {
-                    allPrefetches.push(this.fetchBuildDataSilent(date, pipeline.id));
+                    allPrefetches.push(this.fetchBuildDataSilent(date, pipeline.id, pipeline));
                 } else if (pipeline.type === 'release') {
-                    allPrefetches.push(this.fetchReleaseDataSilent(date, pipeline.id));
+                    allPrefetches.push(this.fetchReleaseDataSilent(date, pipeline.id, pipeline));
                 } else if (pipeline.type === 'build/release') {
-                    allPrefetches.push(this.fetchBuildDataSilent(date, pipeline.id));
-                    allPrefetches.push(this.fetchReleaseDataSilent(date, pipeline.id));
+                    allPrefetches.push(this.fetchLinkedRunDataSilent(date, pipeline));
                 }
             }
         }
         await Promise.allSettled(allPrefetches);
     }
     // Silent version of fetchReleaseData that doesn't log 404s as errors
-    async fetchReleaseDataSilent(date: string, pipelineId: string): Promise<any | null> {
-        const requestKey = `release:${date}:${pipelineId}`;
-        return this.runDedupedRequest(requestKey, async () => {
+    async fetchReleaseDataSilent(date: string, pipelineId: string, config?: ReleaseRequestConfig): Promise<any | null> {
+        const request = this.releaseRequest(date, pipelineId, config);
+        return this.runDedupedRequest(request.key, async () => {
             try {
-                const response = await fetch(`/api/constructRelease?date=${date}&releaseDefinitionId=${pipelineId}`);
+                const response = await fetch(request.url);
                 if (response.ok) {
                     const data = await response.json();
                     
@@ -103,21 +151,27 @@ class PipelineDataServiceImpl implements PipelineDataService {
                     return data;
                 } else {
                     console.log(`Error fetching release data for pipeline ${pipelineId}: ${response.status}`);
-                    return null;
+                    return transientError(`Failed to fetch release data: ${response.status}`);
                 }
             } catch (error) {
                 console.log(`Network error fetching release data for pipeline ${pipelineId}:`, error);
-                return null;
+                return transientError('Network error fetching release data');
             }
         });
     }
 
     // Silent version of fetchBuildData that doesn't log 404s as errors
-    async fetchBuildDataSilent(date: string, pipelineId: string): Promise<any | null> {
-        const requestKey = `build:${date}:${pipelineId}`;
-        return this.runDedupedRequest(requestKey, async () => {
+    async fetchBuildDataSilent(date: string, pipelineId: string, filters?: BuildRequestConfig): Promise<any | null> {
+        let request: { key: string; url: string };
+        try {
+            request = this.buildRequest(date, pipelineId, filters);
+        } catch (error) {
+            console.error(`Invalid build filters for pipeline ${pipelineId}:`, error);
+            return configError(`Invalid build filters: ${error instanceof Error ? error.message : error}`);
+        }
+        return this.runDedupedRequest(request.key, async () => {
             try {
-                const response = await fetch(`/api/constructBuild?date=${date}&buildDefinitionId=${pipelineId}`);
+                const response = await fetch(request.url);
                 if (response.ok) {
                     const data = await response.json();
                     
@@ -127,17 +181,49 @@ class PipelineDataServiceImpl implements PipelineDataService {
                     return null;
                 } else {
                     console.error(`Error fetching build data for pipeline ${pipelineId}: ${response.status}`);
-                    return null;
+                    return transientError(`Failed to fetch build data: ${response.status}`);
                 }
             } catch (error) {
                 console.error(`Network error fetching build data for pipeline ${pipelineId}:`, error);
-                return null;
+                return transientError('Network error fetching build data');
+            }
+        });
+    }
+
+    async fetchLinkedRunDataSilent(date: string, pipeline: PipelineEntry): Promise<LinkedRun[] | null> {
+        const result = await this.fetchLinkedRunResultSilent(date, pipeline);
+        return Array.isArray(result) ? result : null;
+    }
+
+    async fetchLinkedRunResultSilent(date: string, pipeline: PipelineEntry): Promise<LinkedRun[] | ErrorResult> {
+        let request: { key: string; url: string };
+        try {
+            request = this.linkedRunRequest(date, pipeline);
+        } catch (error) {
+            console.error(`Invalid build filters for pipeline ${pipeline.id}:`, error);
+            return configError(`Invalid build filters: ${error instanceof Error ? error.message : error}`);
+        }
+        return this.runDedupedRequest(request.key, async (): Promise<LinkedRun[] | ErrorResult> => {
+            try {
+                const response = await fetch(request.url);
+                if (response.ok) {
+                    const data = await response.json();
+                    // { error, kind } when the server could not build the runs
+                    if (Array.isArray(data)) return data;
+                    return isErrorResult(data) ? { error: data.error, kind: data.kind ?? 'transientError' } : [];
+                } else {
+                    console.error(`Error fetching build/release data for pipeline ${pipeline.id}: ${response.status}`);
+                    return transientError(`Failed to fetch build/release data: ${response.status}`);
+                }
+            } catch (error) {
+                console.error(`Network error fetching build/release data for pipeline ${pipeline.id}:`, error);
+                return transientError('Network error fetching build/release data');
             }
         });
     }
 
-    async fetchReleaseData(date: string, pipelineId: string): Promise<any> {
-        const key = `release:${date}:${pipelineId}`;
+    async fetchReleaseData(date: string, pipelineId: string, config?: ReleaseRequestConfig): Promise<any> {
+        const { key, url } = this.releaseRequest(date, pipelineId, config);
         const cached = this.getCached(key);
         if (cached.hit) {
             if (cached.data === null) throw new Error(`No release data found for pipeline ${pipelineId} on ${date}. This might indicate no releases were created on this date.`);
@@ -145,7 +231,7 @@ class PipelineDataServiceImpl implements PipelineDataService {
         }
 
         try {
-            const response = await fetch(`/api/constructRelease?date=${date}&releaseDefinitionId=${pipelineId}`);
+            const response = await fetch(url);
             if (response.ok) {
                 const data = await response.json();
 
@@ -155,7 +241,7 @@ class PipelineDataServiceImpl implements PipelineDataService {
                     throw new Error(`No release data found for pipeline ${pipelineId} on ${date}. This might indicate no releases were created on this date.`);
                 }
 
-                this.setCached(key, data);
+                if (!isErrorResult(data)) this.setCached(key, data);
                 return data;
             } else {
                 throw new Error(`Failed to fetch release data: ${response.status}`);
@@ -166,8 +252,8 @@ class PipelineDataServiceImpl implements PipelineDataService {
         }
     }
 
-    async fetchBuildData(date: string, pipelineId: string): Promise<any> {
-        const key = `build:${date}:${pipelineId}`;
+    async fetchBuildData(date: string, pipelineId: string, filters?: BuildRequestConfig): Promise<any> {
+        const { key, url } = this.buildRequest(date, pipelineId, filters);
         const cached = this.getCached(key);
         if (cached.hit) {
             if (cached.data === null) throw new Error(`No build data found for pipeline ${pipelineId} on ${date}. This might indicate a pipeline configuration issue.`);
@@ -175,10 +261,10 @@ class PipelineDataServiceImpl implements PipelineDataService {
         }
 
         try {
-            const response = await fetch(`/api/constructBuild?date=${date}&buildDefinitionId=${pipelineId}`);
+            const response = await fetch(url);
             if (response.ok) {
                 const data = await response.json();
-                this.setCached(key, data);
+                if (!isErrorResult(data)) this.setCached(key, data);
                 return data;
             } else if (response.status === 404) {
                 this.setCached(key, null);
@@ -219,14 +305,11 @@ class PipelineDataServiceImpl implements PipelineDataService {
                 const pipeline = pipelineConfig.pipelines.find((p: any) => p.id.toString() === pipelineId);
                 if (pipeline) {
                     if (pipeline.type === 'build') {
-                        await this.fetchBuildDataSilent(date, pipelineId);
+                        await this.fetchBuildDataSilent(date, pipelineId, pipeline);
                     } else if (pipeline.type === 'release') {
-                        await this.fetchReleaseDataSilent(date, pipelineId);
+                        await this.fetchReleaseDataSilent(date, pipelineId, pipeline);
                     } else if (pipeline.type === 'build/release') {
-                        await Promise.all([
-                            this.fetchReleaseDataSilent(date, pipelineId),
-                            this.fetchBuildDataSilent(date, pipelineId)
-                        ]);
+                        await this.fetchLinkedRunDataSilent(date, pipeline);
                     }
                 } else {
                     await Promise.all([
@@ -0,0 +1,31 @@
+import { get, writable } from 'svelte/store';
+import { env } from '$env/dynamic/public';
+import { isValidTimeZone, resolveTimeZone } from '$lib/utils/timezone';
+
+const STORAGE_KEY = 'buildHealthTimeZone';
+
+function readStoredTimeZone(): string | null {
+    if (typeof window === 'undefined') return null;
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isValidTimeZone(stored) ? stored : null;
+}
+
+/** Time zone the user picked in the header. null follows PUBLIC_DASHBOARD_TIMEZONE. */
+export const userTimeZone = writable<string | null>(readStoredTimeZone());
+
+/** Time zone that decides which calendar day "today" and every dashboard date refer to. */
+export function getDashboardTimeZone(): string {
+    return resolveTimeZone(get(userTimeZone), env.PUBLIC_DASHBOARD_TIMEZONE);
+}
+
+export function setUserTimeZone(timeZone: string | null): void {
+    const next = isValidTimeZone(timeZone) ? timeZone : null;
+    userTimeZone.set(next);
+    if (typeof window !== 'undefined') {
+        if (next) {
+            localStorage.setItem(STORAGE_KEY, next);
+        } else {
+            localStorage.removeItem(STORAGE_KEY);
+        }
+    }
+}
@@ -1,7 +1,11 @@
+import type { BuildFailure } from './buildFailure';
+import type { StatusExplanation } from '$lib/utils/statusScoring';
+
 export interface Build {
   id: number;
   name: string;
   pipelineName?: string;
+  branch?: string;
   status: string;
   result: string;
   startTime: string;
@@ -13,4 +17,10 @@ export interface Build {
   failedTestCount?: number;
   failedTestCases?: any[];
   link?: string;
+  /** Why status was chosen */
+  statusExplanation?: StatusExplanation;
+  /** What made a failed or canceled build fail (see $lib/utils/buildFailures) */
+  failure?: BuildFailure;
+  /** Named Azure DevOps connection of the pipeline it was fetched for; missing for the default one */
+  connection?: string;
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+/** Why a build failed, as far as its timeline and log tell */
+export type FailureCategory =
+  | 'compileError'
+  | 'testInfra'
+  | 'agentLost'
+  | 'timeout'
+  | 'canceledByUser'
+  | 'dependencyDownload'
+  | 'other';
+
+/** Where a failure message comes from: a timeline record's error issues, or the failing task's log tail */
+export type FailureSource = 'issue' | 'log';
+
+/** Maps messages matching `pattern` to a category; the first rule that matches wins */
+export interface FailureRule {
+  category: FailureCategory;
+  /** Regular expression, matched case-insensitively */
+  pattern: string;
+  /** Where to look (default both) */
+  sources?: FailureSource[];
+}
+
+export interface FailureRulesFile {
+  rules: FailureRule[];
+}
+
+export interface BuildFailure {
+  category: FailureCategory;
+  /** 'result' when no rule matched and the failing record's result decided */
+  source: FailureSource | 'result';
+  /** The message or log line that matched */
+  message?: string;
+  /** The failing task (or job, stage) the message belongs to */
+  task?: string;
+  /** The matching rule's pattern */
+  pattern?: string;
+}
@@ -0,0 +1,72 @@
+import type { FailureCategory } from './buildFailure';
+import type { DayQualityMode } from './pipelineConfig';
+import type { ResolvedThresholds, StatusExplanation } from '$lib/utils/statusScoring';
+
+/** Test counts and status of one run (a build's test run, or a release) */
+export interface PipelineRunResult {
+  status: string;
+  passCount: number;
+  failCount: number;
+  notRunCount: number;
+  /** Counts from a release's first deployment attempts; the same as passCount and failCount when nothing was retried */
+  initialPassCount?: number;
+  initialFailCount?: number;
+  /** Build test run or release name */
+  name?: string;
+  /** Why the run has its status, as the construct routes scored it */
+  explanation?: StatusExplanation;
+  /** Why the run's build failed, when it did */
+  failureCategory?: FailureCategory;
+  /** The construct route failed or could not be reached, so the status is unknown for now rather than for good */
+  unavailable?: boolean;
+}
+
+/** Why one run has its status, with the pipeline it belongs to */
+export interface RunExplanation {
+  pipelineId: string;
+  type: string;
+  name?: string;
+  status: string;
+  /** The status rule that fired, 'noResult' when there was no run to score */
+  rule: string;
+  reason: string;
+  passRate?: number;
+  thresholds?: ResolvedThresholds;
+}
+
+/** Why a day has its quality: the day rule that fired and the runs that made it fire */
+export interface DayExplanation {
+  quality: string;
+  mode: DayQualityMode;
+  /** A determineOverallDayQuality rule in worst mode; criticalInProgress, criticalInterrupted, criticalIncomplete, score or noScore in weighted mode */
+  rule: string;
+  reason: string;
+  drivers: RunExplanation[];
+}
+
+/** What one configured pipeline added to a day's score */
+export interface PipelineContribution {
+  pipelineId: string;
+  type: string;
+  /** The pipeline's runs combined, worst status first */
+  status: string;
+  passCount: number;
+  failCount: number;
+  notRunCount: number;
+  critical: boolean;
+  /** Configured weight times the test volume factor */
+  weight: number;
+  /** 0-100; null while the pipeline is still running or has no result, so it does not count */
+  score: number | null;
+  /** Percentage of the day score this pipeline makes up; 0 when it does not count */
+  share: number;
+}
+
+export interface DayScore {
+  mode: DayQualityMode;
+  quality: string;
+  /** 0-100 weighted average of the contributions that count; null when none does */
+  score: number | null;
+  contributions: PipelineContribution[];
+  explanation: DayExplanation;
+}
@@ -0,0 +1,20 @@
+export interface TestCase {
+  id?: number;
+  name?: string;
+  workItem: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface TestSuite {
+  id: number;
+  name: string;
+  suiteType?: string;
+  testCases?: TestCase[];
+  childSuites?: TestSuite[];
+  parentSuite?: {
+    id: number;
+    name?: string;
+  };
+}
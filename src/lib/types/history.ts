@@ -0,0 +1,69 @@
+import type { FailureCategory } from './buildFailure';
+import type { PipelineType } from './pipelineConfig';
+
+export type HistoryGranularity = 'day' | 'week' | 'month';
+
+/** One test run of a history run, as the construct routes counted it */
+export interface HistoryTestRun {
+  name: string;
+  status: string;
+  passed: number;
+  failed: number;
+  notRun: number;
+}
+
+/** A test that did not pass; passing tests are only counted */
+export interface HistoryTestOutcome {
+  test: string;
+  /** Azure DevOps outcome: Failed, Aborted, NotExecuted, Blocked, ... */
+  outcome: string;
+  testRun?: string;
+}
+
+/** One run of a pipeline on a finalized day: a build, a release, or a build with the release it triggered */
+export interface HistoryRun {
+  /** Build id, or release id for release pipelines */
+  runId: number;
+  /** Dashboard date (YYYY-MM-DD) the run belongs to */
+  date: string;
+  name?: string;
+  /** As scored when the day was ingested */
+  status: string;
+  passed: number;
+  failed: number;
+  notRun: number;
+  failureCategory?: FailureCategory;
+  testRuns: HistoryTestRun[];
+  outcomes: HistoryTestOutcome[];
+}
+
+/** A pipeline's runs added up over a day, week (from Monday) or month */
+export interface HistoryBucket {
+  /** First and last date of the bucket, cut to the range asked for */
+  from: string;
+  to: string;
+  runs: number;
+  /** Days of the bucket with at least one run */
+  daysWithRuns: number;
+  passed: number;
+  failed: number;
+  notRun: number;
+  /** Percent, rounded to 2 decimals; null when no tests ran */
+  passRate: number | null;
+  /** How many runs had each status */
+  statuses: Record<string, number>;
+}
+
+export interface HistoryRange {
+  pipelineId: string;
+  type: PipelineType;
+  timeZone: string;
+  from: string;
+  to: string;
+  granularity: HistoryGranularity;
+  /** The last day ingested; later days of the range have no runs yet */
+  ingestedThrough: string | null;
+  buckets: HistoryBucket[];
+  /** Tests that failed most often in the range, most failures first */
+  topFailingTests: Array<{ test: string; failures: number }>;
+}
@@ -0,0 +1,26 @@
+import type { Build } from './build';
+import type { Release } from './release';
+import type { StatusExplanation } from '$lib/utils/statusScoring';
+
+/** One row of a card's stage list */
+export interface PipelineStage {
+  name: string;
+  /** Azure DevOps style: succeeded, failed, inProgress, queued, notStarted, ... */
+  status: string;
+  startTime?: string | null;
+  finishTime?: string | null;
+  attempts?: number | null;
+}
+
+/** A build of a build/release pipeline together with the release it triggered */
+export interface LinkedRun {
+  buildId: number;
+  /** One entry per test run of the build, as constructBuild returns them */
+  builds: Build[];
+  /** The release whose build artifact is this build; null until one is created */
+  release: Release | null;
+  /** Quality of the pair as a whole */
+  status: string;
+  /** Why: the explanation of whichever of the two decided */
+  statusExplanation?: StatusExplanation;
+}
@@ -0,0 +1,107 @@
+import type { BuildReason } from '$lib/utils/pipelineFilters';
+
+export type PipelineType = 'build' | 'release' | 'build/release';
+
+/** Pass rate bounds (percent): `good` and above is green, `ok` and above yellow, anything lower red */
+export interface TestThresholdOverrides {
+  good?: number;
+  ok?: number;
+}
+
+/**
+ * How tests that did not run (not executed, not applicable, blocked) count: not at all
+ * (default), as failures, or by capping the status at ok once too many did not run
+ */
+export type NotRunPolicy = 'ignore' | 'fail' | 'cap';
+
+/** Per-pipeline status thresholds; whatever is left out keeps the dashboard default */
+export interface PipelineThresholds extends TestThresholdOverrides {
+  /** Share (0-1) of release environments that may be not started before the release counts as interrupted */
+  envNotStarted?: number;
+  /** Share (0-1) of the pipeline's typical test count a run must reach before it counts as incomplete (default 0.5) */
+  minTestVolume?: number;
+  /** What tests that did not run do to the pass rate (default 'ignore') */
+  notRunPolicy?: NotRunPolicy;
+  /** 'cap' only: share (0-1) of all tests that may not run before a good run counts as ok (default 0.1) */
+  maxNotRun?: number;
+  /** Overrides for single test runs, by run name; `*` matches any run of characters */
+  testRuns?: Record<string, TestThresholdOverrides>;
+}
+
+/** Release environments a pipeline shows and scores, by name; `*` matches any run of characters */
+export interface ReleaseEnvironmentFilter {
+  /** Only these environments; every one when missing */
+  include?: string[];
+  /** Never these, even when included (default ["PTA"]) */
+  exclude?: string[];
+}
+
+/**
+ * Which deployment attempt of each release environment a release is judged on when it
+ * was redeployed: the first, the last (default) or whichever had the lowest pass rate
+ */
+export type AttemptPolicy = 'first' | 'last' | 'worst';
+
+export interface PipelineEntry {
+  /** Azure DevOps build or release definition id */
+  id: string;
+  type: PipelineType;
+  /** build/release only: release definition its builds trigger, when it differs from id */
+  releaseDefinitionId?: string;
+  /** Named Azure DevOps connection (AZURE_DEVOPS_CONNECTIONS) the definition lives in; the default one when missing */
+  connection?: string;
+  displayName?: string;
+  /** Pipelines with the same group are shown together */
+  group?: string;
+  owner?: string;
+  /** Disabled pipelines stay in the config but are left off the dashboard (default true) */
+  enabled?: boolean;
+  /** How much the pipeline counts towards the day's quality (default 1) */
+  weight?: number;
+  /** Weighted day quality waits for critical pipelines only; when none is marked, every pipeline is critical */
+  critical?: boolean;
+  /** Number of tests each complete run (a build's test run, or a release) reports; learned from recent runs when missing */
+  expectedTests?: number;
+  /** Cron expression (minute hour day-of-month month day-of-week) the pipeline is scheduled on */
+  schedule?: string;
+  branches?: string[];
+  reasons?: BuildReason[];
+  tags?: string[];
+  /** Status thresholds for this pipeline's runs (see $lib/utils/statusScoring) */
+  thresholds?: PipelineThresholds;
+  /** release and build/release only: which release environments count */
+  environments?: ReleaseEnvironmentFilter;
+  /** release and build/release only: which attempt of a redeployed environment counts (default 'last') */
+  attemptPolicy?: AttemptPolicy;
+  /** Keys this version does not know are kept as is */
+  [key: string]: unknown;
+}
+
+/** The daily dashboard pipelines and the sprint (weekly) test result pipelines are configured separately */
+export type PipelineConfigScope = 'daily' | 'weekly';
+
+/** Where a loaded config came from: the server-side store, or the env var when nothing was saved yet */
+export type PipelineConfigSource = 'store' | 'env';
+
+export interface LoadedPipelineConfig {
+  scope: PipelineConfigScope;
+  source: PipelineConfigSource;
+  config: PipelineConfig;
+  /** ISO timestamp of the last save; missing for env configs */
+  updatedAt?: string;
+}
+
+/**
+ * How pipeline statuses combine into a day's quality: the worst status wins, or a
+ * score weighted by each pipeline's weight and test volume decides
+ */
+export type DayQualityMode = 'worst' | 'weighted';
+
+export interface PipelineConfig {
+  /** Schema version; configs written before versioning are treated as version 1 */
+  version?: number;
+  /** Default 'worst' */
+  dayQualityMode?: DayQualityMode;
+  pipelines: PipelineEntry[];
+  [key: string]: unknown;
+}
@@ -1,3 +1,45 @@
+import type { StatusExplanation } from '$lib/utils/statusScoring';
+
+/** One release environment (stage) with its own quality */
+export interface ReleaseEnvironment {
+  id: number;
+  name: string;
+  /** Azure DevOps deployment status: succeeded, rejected, inProgress, queued, notStarted, canceled, ... */
+  deployStatus: string;
+  /** good, ok or bad by its tests' pass rate once they ran, otherwise by the deployment */
+  status: string;
+  passedTestCount: number;
+  failedTestCount: number;
+  /** Percent; missing when the environment ran no tests */
+  passRate?: number;
+  startTime: string | null;
+  finishTime: string | null;
+  durationMs: number | null;
+  /** Deployment attempts, 1 unless it was redeployed */
+  attempts: number;
+}
+
+export interface AttemptCounts {
+  passedTestCount: number;
+  failedTestCount: number;
+  notRunTestCount: number;
+}
+
+/** A release's test counts by deployment attempt, each environment's attempts added up */
+export interface ReleaseAttempts {
+  first: AttemptCounts;
+  last: AttemptCounts;
+  /** Each environment's attempt with the lowest pass rate */
+  worst: AttemptCounts;
+  /** Percent, rounded to 2 decimals; missing when no tests ran */
+  initialPassRate?: number;
+  finalPassRate?: number;
+  /** How many more tests passed on the last attempt than on the first */
+  recoveredByRetry: number;
+  /** Whether any environment ran its tests more than once */
+  retried: boolean;
+}
+
 export interface Release {
   id: number;
   name: string;
@@ -6,9 +48,17 @@ export interface Release {
   modifiedOn: string;
   completedTime?: string;
   envs: any[];
+  /** The environments the pipeline's config includes, in deployment order */
+  environments?: ReleaseEnvironment[];
   passedTestCount?: number;
   notRunTestCount?: number;
   failedTestCount?: number;
   failedTestCases?: any[];
+  /** First, last and worst attempt counts; passedTestCount and failedTestCount are the last attempt's */
+  attempts?: ReleaseAttempts;
   link?: string;
+  /** Why status was chosen */
+  statusExplanation?: StatusExplanation;
+  /** Named Azure DevOps connection of the pipeline it was fetched for; missing for the default one */
+  connection?: string;
 }
\ No newline at end of file
@@ -1,20 +1,49 @@
+export const AZURE_DEVOPS_AUTH_KINDS = ['pat', 'servicePrincipal', 'managedIdentity'] as const;
+export type AzureDevOpsAuthKind = (typeof AZURE_DEVOPS_AUTH_KINDS)[number];
+
+/**
+ * Reads AZURE_DEVOPS_AUTH (and the `auth` of named connections): a PAT when unset.
+ * Throws for values that are not a known kind.
+ */
+export function getAzureDevOpsAuthKind(value: unknown, name = 'AZURE_DEVOPS_AUTH'): AzureDevOpsAuthKind {
+	const kind = typeof value === 'string' ? value.trim() : '';
+	if (!kind) return 'pat';
+	if (!(AZURE_DEVOPS_AUTH_KINDS as readonly string[]).includes(kind)) {
+		throw new Error(`${name} must be one of ${AZURE_DEVOPS_AUTH_KINDS.join(', ')}`);
+	}
+	return kind as AzureDevOpsAuthKind;
+}
+
 /**
  * Returns validated Azure DevOps environment variables from env object.
- * Throws if any required variable is missing.
+ * Throws if any required variable is missing. AZURE_DEVOPS_PAT is only required
+ * for PAT auth; for the other kinds of AZURE_DEVOPS_AUTH the credential settings
+ * are read by createAdoCredential ($lib/server/ado).
  */
-export function getAzureDevOpsEnvVars(env: Record<string, any>) {
+export function getAzureDevOpsEnvVars(env: Record<string, any>): {
+	AZURE_DEVOPS_ORGANIZATION: string;
+	AZURE_DEVOPS_PROJECT: string;
+	AZURE_DEVOPS_PAT?: string;
+	AZURE_DEVOPS_AUTH?: Exclude<AzureDevOpsAuthKind, 'pat'>;
+} {
 	const AZURE_DEVOPS_ORGANIZATION = env.AZURE_DEVOPS_ORGANIZATION?.trim();
 	const AZURE_DEVOPS_PROJECT = env.AZURE_DEVOPS_PROJECT?.trim();
 	const AZURE_DEVOPS_PAT = env.AZURE_DEVOPS_PAT?.trim();
-	if (!AZURE_DEVOPS_ORGANIZATION || !AZURE_DEVOPS_PROJECT || !AZURE_DEVOPS_PAT) {
+	const AZURE_DEVOPS_AUTH = getAzureDevOpsAuthKind(env.AZURE_DEVOPS_AUTH);
+	if (!AZURE_DEVOPS_ORGANIZATION || !AZURE_DEVOPS_PROJECT || (AZURE_DEVOPS_AUTH === 'pat' && !AZURE_DEVOPS_PAT)) {
 		throw new Error('Missing Azure DevOps environment variables');
 	}
-	return { AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT };
+	if (AZURE_DEVOPS_AUTH === 'pat') {
+		return { AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT };
+	}
+	return { AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_AUTH };
 }
 
 /**
  * Parses PUBLIC_AZURE_PIPELINE_CONFIG and returns the config object.
  * Throws errors for missing/invalid config or pipelines.
+ * Only the outer shape is checked; dashboard code should use the validated, typed
+ * config from getDashboardPipelineConfig ($lib/stores/pipelineConfigStore) instead.
  */
 export function getPipelineConfig(configRaw: string): any {
 	if (!configRaw || !configRaw.trim()) {
@@ -45,5 +74,3 @@ export type WithoutChildren<T> = T extends { children?: any } ? Omit<T, "childre
 export type WithoutChildrenOrChild<T> = WithoutChildren<WithoutChild<T>>;
 export type WithElementRef<T, U extends HTMLElement = HTMLElement> = T & { ref?: U | null };
 
-export const successThreshold: number = 95;
-export const partiallySucceededThreshold: number = 75;
@@ -0,0 +1,145 @@
+/**
+ * Failure categories: why a failed or canceled build failed, from its timeline. Error issues
+ * of the failing records are matched against the rules first, then the failing task's log
+ * tail. The default rules are $lib/constants/failureRules.json; FAILURE_RULES_FILE replaces them.
+ * When no rule matches, the failing record's result decides (canceled, abandoned or other).
+ */
+import type { AdoTimelineRecord } from '$lib/server/ado';
+import type { BuildFailure, FailureCategory, FailureRule, FailureSource } from '$lib/types/buildFailure';
+
+export const FAILURE_CATEGORIES: readonly FailureCategory[] = [
+    'compileError',
+    'testInfra',
+    'agentLost',
+    'timeout',
+    'canceledByUser',
+    'dependencyDownload',
+    'other'
+];
+
+export const FAILURE_CATEGORY_LABELS: Record<FailureCategory, string> = {
+    compileError: 'Compile error',
+    testInfra: 'Test infrastructure',
+    agentLost: 'Agent lost',
+    timeout: 'Timeout',
+    canceledByUser: 'Canceled by user',
+    dependencyDownload: 'Dependency download',
+    other: 'Other'
+};
+
+const FAILURE_SOURCES: readonly FailureSource[] = ['issue', 'log'];
+
+// Records with these results made the build fail
+const FAILING_RESULTS = ['failed', 'canceled', 'abandoned'];
+
+/** Lines from the end of the failing task's log that are matched */
+export const FAILURE_LOG_TAIL_LINES = 50;
+
+export function isFailureCategory(value: unknown): value is FailureCategory {
+    return FAILURE_CATEGORIES.includes(value as FailureCategory);
+}
+
+/** Validates a rules file; throws an Error listing every problem found */
+export function parseFailureRules(value: unknown): FailureRule[] {
+    const rules = (value as { rules?: unknown } | null)?.rules;
+    if (!Array.isArray(rules)) {
+        throw new Error('Failure rules: expected an object with a rules array');
+    }
+    const issues: string[] = [];
+    rules.forEach((rule, index) => {
+        const path = `rules[${index}]`;
+        if (!isFailureCategory(rule?.category)) {
+            issues.push(`${path}.category: expected one of ${FAILURE_CATEGORIES.join(', ')}, got ${JSON.stringify(rule?.category)}`);
+        }
+        if (typeof rule?.pattern !== 'string' || rule.pattern === '') {
+            issues.push(`${path}.pattern: expected a non-empty regular expression`);
+        } else {
+            try {
+                new RegExp(rule.pattern, 'i');
+            } catch (e) {
+                issues.push(`${path}.pattern: ${e instanceof Error ? e.message : e}`);
+            }
+        }
+        if (rule?.sources !== undefined && (!Array.isArray(rule.sources) || rule.sources.some((source: unknown) => !FAILURE_SOURCES.includes(source as FailureSource)))) {
+            issues.push(`${path}.sources: expected some of ${FAILURE_SOURCES.join(', ')}`);
+        }
+    });
+    if (issues.length > 0) {
+        throw new Error(`Failure rules:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    }
+    return rules as FailureRule[];
+}
+
+/** Failed, canceled or abandoned records, tasks first since they say the most */
+export function failingRecords(records: AdoTimelineRecord[]): AdoTimelineRecord[] {
+    const depth = (record: AdoTimelineRecord) => record.type === 'Task' ? 0 : record.type === 'Job' ? 1 : 2;
+    return records
+        .filter((record) => FAILING_RESULTS.includes(record.result ?? ''))
+        .sort((a, b) => depth(a) - depth(b));
+}
+
+// The failed task whose log is worth reading
+function failedTaskWithLog(failing: AdoTimelineRecord[]): AdoTimelineRecord | undefined {
+    return failing.find((record) => record.type === 'Task' && record.result === 'failed' && record.log);
+}
+
+/** The log of the failed task, if it has one */
+export function failingLogId(records: AdoTimelineRecord[]): number | null {
+    return failedTaskWithLog(failingRecords(records))?.log?.id ?? null;
+}
+
+/** The last lines of a log, blank lines left out */
+export function logTail(log: string, lines: number = FAILURE_LOG_TAIL_LINES): string[] {
+    return log.split(/\r?\n/).filter((line) => line.trim() !== '').slice(-lines);
+}
+
+function matches(rule: FailureRule, source: FailureSource): RegExp | null {
+    return (rule.sources ?? FAILURE_SOURCES).includes(source) ? new RegExp(rule.pattern, 'i') : null;
+}
+
+/**
+ * Classifies a build from its timeline, and the failing task's log tail when there is one.
+ * Rules are tried in order against every message; null when nothing in the timeline failed.
+ */
+export function classifyBuildFailure(records: AdoTimelineRecord[], rules: readonly FailureRule[], tail: string[] = []): BuildFailure | null {
+    const failing = failingRecords(records);
+    if (failing.length === 0) return null;
+
+    const issues = failing.flatMap((record) => (record.issues ?? [])
+        .filter((issue) => issue.type === 'error')
+        .map((issue) => ({ message: issue.message, task: record.name })));
+    const logTask = failedTaskWithLog(failing)?.name;
+
+    for (const rule of rules) {
+        const inIssues = matches(rule, 'issue');
+        const issue = inIssues && issues.find(({ message }) => inIssues.test(message));
+        if (issue) return { category: rule.category, source: 'issue', message: issue.message, task: issue.task, pattern: rule.pattern };
+
+        const inLog = matches(rule, 'log');
+        // Read from the end: the last error is usually the one that stopped the task
+        const line = inLog && [...tail].reverse().find((logLine) => inLog.test(logLine));
+        if (line) return { category: rule.category, source: 'log', message: line.trim(), task: logTask, pattern: rule.pattern };
+    }
+
+    const [first] = failing;
+    const category: FailureCategory = first.result === 'canceled' ? 'canceledByUser' : first.result === 'abandoned' ? 'agentLost' : 'other';
+    return { category, source: 'result', message: issues[0]?.message, task: first.name };
+}
+
+/** The categories of a day's failed builds, once each, in FAILURE_CATEGORIES order */
+export function dayFailureCategories(runs: Array<{ failureCategory?: FailureCategory }>): FailureCategory[] {
+    const found = new Set(runs.map((run) => run.failureCategory));
+    return FAILURE_CATEGORIES.filter((category) => found.has(category));
+}
+
+/** Bad or interrupted days per category of the failures behind them, most days first */
+export function countDaysLostByCategory(days: Array<{ quality?: string; failureCategories?: FailureCategory[] }>): Array<{ category: FailureCategory; days: number }> {
+    const counts = new Map<FailureCategory, number>();
+    for (const day of days) {
+        if (day.quality !== 'bad' && day.quality !== 'interrupted') continue;
+        for (const category of day.failureCategories ?? []) counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .map(([category, days]) => ({ category, days }))
+        .sort((a, b) => b.days - a.days || FAILURE_CATEGORIES.indexOf(a.category) - FAILURE_CATEGORIES.indexOf(b.category));
+}
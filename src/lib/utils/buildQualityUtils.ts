@@ -1,5 +1,10 @@
 // Cache functions removed
 import { pipelineDataService } from "$lib/stores/pipelineDataService.js";
+import { getDashboardTimeZone } from "$lib/stores/timezoneStore";
+import { getTodayInTimeZone } from "$lib/utils/timezone";
+import type { PipelineConfig } from "$lib/types/pipelineConfig";
+import type { DayExplanation, PipelineContribution } from "$lib/types/dayQuality";
+import type { FailureCategory } from "$lib/types/buildFailure";
 
 const inFlightDayQualityRequests = new Map<string, Promise<DayBuildQuality>>();
 
@@ -23,25 +28,33 @@ export function getDateString(dateOrYear: Date | number, month?: number, day?: n
     }
 }
 
+/**
+ * Today's YYYY-MM-DD in the dashboard time zone (not the browser's)
+ */
+export function getTodayString(): string {
+    return getTodayInTimeZone(getDashboardTimeZone());
+}
+
+/**
+ * Today in the dashboard time zone, as a local-midnight Date usable with getDateString
+ */
+export function getToday(): Date {
+    const [year, month, day] = getTodayString().split("-").map(Number);
+    return new Date(year, month - 1, day);
+}
+
 /**
  * Helper to check if a given date is in the future (excluding today)
  */
 export function isFutureDay(date: Date): boolean;
 export function isFutureDay(year: number, month: number, day: number): boolean;
 export function isFutureDay(dateOrYear: Date | number, month?: number, day?: number): boolean {
-    let dayDate: Date;
-    
-    if (dateOrYear instanceof Date) {
-        dayDate = new Date(dateOrYear);
-    } else {
-        dayDate = new Date(dateOrYear, month!, day!);
-    }
-    
-    // Remove time for comparison
-    dayDate.setHours(0, 0, 0, 0);
-    const todayDate = new Date();
-    todayDate.setHours(0, 0, 0, 0);
-    return dayDate > todayDate;
+    const dateStr = dateOrYear instanceof Date
+        ? getDateString(dateOrYear)
+        : getDateString(dateOrYear, month!, day!);
+
+    // YYYY-MM-DD strings sort chronologically
+    return dateStr > getTodayString();
 }
 
 /**
@@ -53,18 +66,22 @@ export type DayBuildQuality = {
     totalPassCount?: number;
     totalFailCount?: number;
     totalNotRunCount?: number;
+    /** 0-100 weighted day score; null when no pipeline finished with a result */
+    score?: number | null;
+    contributions?: PipelineContribution[];
+    /** Why the day has its quality; null for answers cached before explanations existed */
+    explanation?: DayExplanation | null;
+    /** Pass rates on the first and the last deployment attempt of redeployed release environments; null without tests */
+    initialPassRate?: number | null;
+    finalPassRate?: number | null;
+    /** Why the day's failed builds failed; missing for answers cached before categories existed */
+    failureCategories?: FailureCategory[];
 };
 
 /**
  * Type definition for pipeline configuration
  */
-export type PipelineConfig = {
-    pipelines: Array<{ 
-        id: string | number; 
-        type: string; 
-        displayName?: string;
-    }>;
-};
+export type { PipelineConfig };
 
 /**
  * Fetch build quality for a given date (YYYY-MM-DD), with caching and prefetching
@@ -79,14 +96,16 @@ export async function fetchBuildQualityForDay(
         return { quality: "unknown" };
     }
 
-    const existingRequest = inFlightDayQualityRequests.get(dateStr);
+    const timeZone = getDashboardTimeZone();
+    const requestKey = `${dateStr}:${timeZone}`;
+    const existingRequest = inFlightDayQualityRequests.get(requestKey);
     if (existingRequest) {
         return existingRequest;
     }
 
     const requestPromise = (async () => {
         try {
-            const res = await fetch(`/api/getDayQuality?date=${dateStr}`);
+            const res = await fetch(`/api/getDayQuality?date=${dateStr}&tz=${encodeURIComponent(timeZone)}&explain=true`);
             if (res.ok) {
                 const data = await res.json();
                 const result: DayBuildQuality = {
@@ -95,6 +114,12 @@ export async function fetchBuildQualityForDay(
                     totalPassCount: data.totalPassCount,
                     totalFailCount: data.totalFailCount,
                     totalNotRunCount: data.totalNotRunCount,
+                    score: data.score,
+                    contributions: data.contributions,
+                    explanation: data.explanation,
+                    initialPassRate: data.initialPassRate,
+                    finalPassRate: data.finalPassRate,
+                    failureCategories: data.failureCategories,
                 };
 
                 // Optional: Prefetch pipeline data for this day to improve navigation performance
@@ -117,11 +142,11 @@ export async function fetchBuildQualityForDay(
         } catch {
             return { quality: "unknown" };
         } finally {
-            inFlightDayQualityRequests.delete(dateStr);
+            inFlightDayQualityRequests.delete(requestKey);
         }
     })();
 
-    inFlightDayQualityRequests.set(dateStr, requestPromise);
+    inFlightDayQualityRequests.set(requestKey, requestPromise);
     return requestPromise;
 }
 
@@ -163,7 +188,7 @@ export async function fetchBuildQualitiesForDates(
 /**
  * Generate date range for the last N days from today (including today)
  */
-export function getLastNDays(n: number, fromDate: Date = new Date()): Date[] {
+export function getLastNDays(n: number, fromDate: Date = getToday()): Date[] {
     const days: Date[] = [];
     for (let i = n - 1; i >= 0; i--) {
         const date = new Date(fromDate);
@@ -304,7 +329,7 @@ export function calculateWeeklyStats(
         releasesWithTestsRan?: number;
     }> = []
 ): WeeklyStats {
-    const todayStr = getDateString(new Date());
+    const todayStr = getTodayString();
 
     const getCompletedDays = (inputDays: typeof days) =>
         inputDays.filter(day => {
@@ -0,0 +1,145 @@
+/**
+ * Cache key builders shared by the API routes (Redis) and the client (local cache
+ * and targeted invalidation), so both sides always agree on the key format.
+ * Everything that changes a route's answer must be part of its key, including the
+ * Azure DevOps connection the definition ids belong to, any status thresholds
+ * the pipeline overrides, the release environments it picks, the attempt it judges
+ * and the number of tests it expects.
+ */
+import type { AttemptPolicy, DayQualityMode, PipelineThresholds, ReleaseEnvironmentFilter } from '$lib/types/pipelineConfig';
+import { connectionScopedId } from './connections';
+import { buildFiltersKey, resolveBuildFilters, type BuildFilters, type PipelineFilterConfig } from './pipelineFilters';
+import { addDaysToDateString, getDateStringInTimeZone } from './timezone';
+
+// FNV-1a, enough to tell pipeline configurations apart without putting them in the key
+function hashString(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Nothing for the default thresholds, so keys stay the same for pipelines that do not override them
+function thresholdsSuffix(thresholds?: PipelineThresholds | null): string {
+    return thresholds && Object.keys(thresholds).length > 0 ? `:t${hashString(JSON.stringify(thresholds))}` : '';
+}
+
+// Likewise nothing for the default environments (all but PTA)
+function environmentsSuffix(environments?: ReleaseEnvironmentFilter | null): string {
+    return environments && Object.keys(environments).length > 0 ? `:e${hashString(JSON.stringify(environments))}` : '';
+}
+
+// And nothing for judging on the last attempt
+function attemptPolicySuffix(attemptPolicy?: AttemptPolicy | null): string {
+    return attemptPolicy && attemptPolicy !== 'last' ? `:a${attemptPolicy}` : '';
+}
+
+// And nothing without expectedTests
+function expectedTestsSuffix(expectedTests?: number | null): string {
+    return expectedTests ? `:x${expectedTests}` : '';
+}
+
+export function buildCacheKey(date: string, buildDefinitionId: string | number, timeZone: string, filters: BuildFilters, connection?: string | null, thresholds?: PipelineThresholds | null, expectedTests?: number | null): string {
+    return `build:${date}:${connectionScopedId(buildDefinitionId, connection)}:${timeZone}:${buildFiltersKey(filters)}${thresholdsSuffix(thresholds)}${expectedTestsSuffix(expectedTests)}`;
+}
+
+export function linkedRunCacheKey(date: string, buildDefinitionId: string | number, releaseDefinitionId: string | number, timeZone: string, filters: BuildFilters, connection?: string | null, thresholds?: PipelineThresholds | null, environments?: ReleaseEnvironmentFilter | null, attemptPolicy?: AttemptPolicy | null, expectedTests?: number | null): string {
+    return `buildrelease:${date}:${connectionScopedId(buildDefinitionId, connection)}:${releaseDefinitionId}:${timeZone}:${buildFiltersKey(filters)}${thresholdsSuffix(thresholds)}${environmentsSuffix(environments)}${attemptPolicySuffix(attemptPolicy)}${expectedTestsSuffix(expectedTests)}`;
+}
+
+export function releaseCacheKey(date: string, releaseDefinitionId: string | number, timeZone: string, connection?: string | null, thresholds?: PipelineThresholds | null, environments?: ReleaseEnvironmentFilter | null, attemptPolicy?: AttemptPolicy | null, expectedTests?: number | null): string {
+    return `release:${date}:${connectionScopedId(releaseDefinitionId, connection)}:${timeZone}${thresholdsSuffix(thresholds)}${environmentsSuffix(environments)}${attemptPolicySuffix(attemptPolicy)}${expectedTestsSuffix(expectedTests)}`;
+}
+
+type PipelineKeyEntry = PipelineFilterConfig & {
+    id: string | number;
+    type: string;
+    releaseDefinitionId?: string;
+    connection?: string;
+    thresholds?: PipelineThresholds;
+    environments?: ReleaseEnvironmentFilter;
+    attemptPolicy?: AttemptPolicy;
+    expectedTests?: number;
+    weight?: number;
+    critical?: boolean;
+};
+
+/** Short fingerprint of which pipelines (and which of their runs) an aggregate covers */
+export function pipelineSetSignature(pipelines: PipelineKeyEntry[]): string {
+    // Raw filter fields: a config that would not resolve still gets a key of its own
+    const parts = pipelines.map((p) => {
+        const part = `${p.type}:${connectionScopedId(p.id, p.connection)}:${JSON.stringify([p.branches, p.reasons, p.tags])}`;
+        const withRelease = p.releaseDefinitionId ? `${part}:${p.releaseDefinitionId}` : part;
+        // Weight and criticality only change the day score, and only when set
+        const scoring = p.weight !== undefined || p.critical !== undefined ? `:w${p.weight ?? ''}${p.critical ? '!' : ''}` : '';
+        return `${withRelease}${thresholdsSuffix(p.thresholds)}${environmentsSuffix(p.environments)}${attemptPolicySuffix(p.attemptPolicy)}${expectedTestsSuffix(p.expectedTests)}${scoring}`;
+    });
+    return hashString(parts.join(';'));
+}
+
+export function dayQualityCacheKey(date: string, timeZone: string, pipelines: PipelineKeyEntry[], mode: DayQualityMode = 'worst'): string {
+    const key = `dayquality:${date}:${timeZone}:${pipelineSetSignature(pipelines)}`;
+    return mode === 'worst' ? key : `${key}:${mode}`;
+}
+
+export function todayContextCacheKey(date: string, timeZone: string, pipelines: PipelineKeyEntry[]): string {
+    return `todaycontext:${date}:${timeZone}:${pipelineSetSignature(pipelines)}`;
+}
+
+/**
+ * Keys of a pipeline's construct answers for a day, which its day quality is computed from.
+ * A build/release pipeline's linked runs come from constructBuild's cached builds, so both.
+ * Nothing is cached for a pipeline whose branch/reason filters do not resolve.
+ */
+export function pipelineDayCacheKeys(date: string, timeZone: string, pipeline: PipelineKeyEntry): string[] {
+    if (pipeline.type === 'release') {
+        return [releaseCacheKey(date, pipeline.id, timeZone, pipeline.connection, pipeline.thresholds, pipeline.environments, pipeline.attemptPolicy, pipeline.expectedTests)];
+    }
+    let filters: BuildFilters;
+    try {
+        filters = resolveBuildFilters(pipeline);
+    } catch {
+        return [];
+    }
+    const buildKey = buildCacheKey(date, pipeline.id, timeZone, filters, pipeline.connection, pipeline.thresholds, pipeline.expectedTests);
+    if (pipeline.type !== 'build/release') return [buildKey];
+    return [
+        linkedRunCacheKey(date, pipeline.id, pipeline.releaseDefinitionId ?? pipeline.id, timeZone, filters, pipeline.connection, pipeline.thresholds, pipeline.environments, pipeline.attemptPolicy, pipeline.expectedTests),
+        buildKey
+    ];
+}
+
+/**
+ * History store key of a pipeline in a time zone: which runs it records, not how they are
+ * scored, so changing thresholds keeps the history (with statuses as scored when ingested).
+ */
+export function historyKey(timeZone: string, pipeline: PipelineKeyEntry): string {
+    const base = `history:${timeZone}:${pipeline.type}:${connectionScopedId(pipeline.id, pipeline.connection)}`;
+    const withRelease = pipeline.releaseDefinitionId ? `${base}:${pipeline.releaseDefinitionId}` : base;
+    return pipeline.type === 'release' ? withRelease : `${withRelease}:${JSON.stringify([pipeline.branches, pipeline.reasons, pipeline.tags])}`;
+}
+
+/**
+ * Redis namespaces of the answers the routes cache, which clearing the cache empties.
+ * Learned test volumes (testvolume:) are not answers and are kept.
+ */
+export const CACHE_NAMESPACES = ['build', 'buildrelease', 'release', 'dayquality', 'todaycontext', 'buildTimeline'] as const;
+
+/** The namespaces whose keys start with the date, `build:YYYY-MM-DD:...` */
+export const DATED_CACHE_NAMESPACES = ['build', 'buildrelease', 'release', 'dayquality', 'todaycontext'] as const;
+
+/**
+ * Dates whose answers may still change in some time zone: from two days back to tomorrow (UTC).
+ * Anyone may invalidate these; older ones need the cache admin token.
+ */
+export function recentCacheDates(now: Date = new Date()): string[] {
+    const today = getDateStringInTimeZone(now, 'UTC');
+    return [-2, -1, 0, 1].map((days) => addDaysToDateString(today, days));
+}
+
+/** Patterns that match every cached answer for the recent dates */
+export function recentCachePatterns(now: Date = new Date()): string[] {
+    return recentCacheDates(now).flatMap((date) => DATED_CACHE_NAMESPACES.map((namespace) => `${namespace}:${date}:*`));
+}
@@ -0,0 +1,59 @@
+/**
+ * How long the routes cache their answers, by how final the answer is: an answer for a
+ * finalized day with nothing running never changes, so it is kept until it is invalidated;
+ * today's answers and anything still running are short-lived, and errors last seconds.
+ */
+import { resultKind } from './resultKinds';
+import { isFinalizedDay, isFreezableAnswer } from './snapshots';
+import { getTodayInTimeZone } from './timezone';
+
+/** Effectively forever; snapshots keep finalized days after that (see $lib/server/snapshots) */
+export const FINAL_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/** A past day that is not finalized yet: late runs may still land on it */
+export const SETTLING_TTL_SECONDS = 30 * 60;
+
+/** Today with nothing running: a new run can start any time */
+export const TODAY_TTL_SECONDS = 5 * 60;
+
+/** Runs in progress, and days a pipeline could not answer for, which are worth asking again soon */
+export const IN_PROGRESS_TTL_SECONDS = 90;
+
+/** A failed Azure DevOps request: only long enough to spare it a burst of retries */
+export const TRANSIENT_ERROR_TTL_SECONDS = 10;
+
+/** A configuration error, which lasts until the config is fixed (and saving it changes the keys) */
+export const CONFIG_ERROR_TTL_SECONDS = 60;
+
+/** A timeline of a running build, which the cards show live */
+export const RUNNING_TIMELINE_TTL_SECONDS = 30;
+
+/**
+ * TTL of a route's answer for a dashboard date, by its kind (see resultKind): errors last
+ * seconds, while data and empty days last as long as their date can still change.
+ * `isComplete` says whether the answer has nothing running and no error in it
+ * (isFreezableAnswer by default).
+ */
+export function dayAnswerTtlSeconds<T>(
+    answer: T,
+    date: string,
+    timeZone: string,
+    now: Date = new Date(),
+    isComplete: (answer: T) => boolean = isFreezableAnswer
+): number {
+    const kind = resultKind(answer);
+    if (kind === 'transientError') return TRANSIENT_ERROR_TTL_SECONDS;
+    if (kind === 'configError') return CONFIG_ERROR_TTL_SECONDS;
+    if (!isComplete(answer)) return IN_PROGRESS_TTL_SECONDS;
+    if (isFinalizedDay(date, timeZone, now)) return FINAL_TTL_SECONDS;
+    return date < getTodayInTimeZone(timeZone, now) ? SETTLING_TTL_SECONDS : TODAY_TTL_SECONDS;
+}
+
+/**
+ * TTL of a build timeline: a finished build's timeline never changes, unless its failed
+ * stages are rerun, so a failed one is only kept while it settles.
+ */
+export function timelineTtlSeconds(timeline: { completed?: boolean; failure?: unknown }): number {
+    if (!timeline.completed) return RUNNING_TIMELINE_TTL_SECONDS;
+    return timeline.failure ? SETTLING_TTL_SECONDS : FINAL_TTL_SECONDS;
+}
@@ -0,0 +1,33 @@
+/**
+ * Named Azure DevOps connections (organization, project and credential). The
+ * connections themselves live in server env (AZURE_DEVOPS_CONNECTIONS); pipeline
+ * config entries, query strings and cache keys only carry the name.
+ */
+
+/** The connection made from AZURE_DEVOPS_ORGANIZATION/PROJECT/PAT, used when a pipeline names none */
+export const DEFAULT_CONNECTION = 'default';
+
+const CONNECTION_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export function isConnectionName(value: string): boolean {
+    return CONNECTION_NAME.test(value);
+}
+
+/** Whether a pipeline's connection is the default one (no name counts as default) */
+export function isDefaultConnection(connection: string | null | undefined): boolean {
+    return !connection || connection === DEFAULT_CONNECTION;
+}
+
+/**
+ * A definition or run id qualified by its connection, for cache keys: ids are only
+ * unique within one project. Ids of the default connection are left as they are,
+ * so existing keys stay valid.
+ */
+export function connectionScopedId(id: string | number, connection?: string | null): string {
+    return isDefaultConnection(connection) ? String(id) : `${connection}/${id}`;
+}
+
+/** `&connection=...` for API routes, or nothing for the default connection */
+export function connectionQuery(connection?: string | null): string {
+    return isDefaultConnection(connection) ? '' : `&connection=${encodeURIComponent(connection!)}`;
+}
@@ -1,33 +1,272 @@
+import { createHash, randomUUID } from 'crypto';
 import redis from '$lib/utils/redisClient';
+import { FINAL_TTL_SECONDS } from '$lib/utils/cachePolicy';
+import { LruCache } from '$lib/server/lruCache';
+import { isErrorResult } from '$lib/utils/resultKinds';
+
+/** Seconds to cache for, or a function of the fresh data that says so (see $lib/utils/cachePolicy) */
+export type CacheTtl = number | ((data: any) => number);
+
+/** What this instance's cache did since it started (or since resetCacheMetrics) */
+export interface CacheMetrics {
+  /** Fresh values served */
+  hits: number;
+  /** Of those, served from the in-process tier without asking Redis */
+  localHits: number;
+  /** Nothing cached, so the request waited for a computation */
+  misses: number;
+  /** Expired values served while a background refresh runs */
+  staleServes: number;
+  /** Misses that waited for another request or instance computing the same key */
+  lockWaits: number;
+  /** Background refreshes started, and how many of them failed */
+  refreshes: number;
+  refreshFailures: number;
+  /** Dependencies that could not be recorded or invalidated, so a dependent may outlive a change */
+  dependencyFailures: number;
+}
+
+// Who was computed from a key (a set), and a hash of the key's last value
+const DEPENDENTS_PREFIX = 'cachedeps:';
+const VERSION_PREFIX = 'cachever:';
+// Present while the key's value is fresh; the value itself outlives it by STALE_WINDOW_SECONDS
+const FRESH_PREFIX = 'cachefresh:';
+// Held by the one request (on any instance) that computes the key
+const LOCK_PREFIX = 'cachelock:';
+
+/** How long an expired value is still served while it is refreshed, long enough to cover a night; never an error */
+export const STALE_WINDOW_SECONDS = 12 * 60 * 60;
+
+// A lock outlives the slowest Azure DevOps fan-out; waiters give up a little sooner and compute themselves
+const LOCK_TTL_MS = 60_000;
+const LOCK_WAIT_MS = 25_000;
+const LOCK_POLL_MS = 200;
+
+// The in-process tier in front of Redis, and all there is while Redis is unreachable
+const LOCAL_MAX_ENTRIES = 500;
+// While Redis answers, a local copy is trusted this long, so refreshes and invalidations on
+// other instances show up soon
+const LOCAL_MAX_AGE_MS = 15_000;
+
+interface LocalEntry {
+  serialized: string;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+const local = new LruCache<LocalEntry>(LOCAL_MAX_ENTRIES);
+
+const metrics: CacheMetrics = { hits: 0, localHits: 0, misses: 0, staleServes: 0, lockWaits: 0, refreshes: 0, refreshFailures: 0, dependencyFailures: 0 };
+
+// Computations running in this instance, so concurrent requests for a key share one, and background refreshes
+const inFlight = new Map<string, Promise<any>>();
+const refreshing = new Set<string>();
+
+export function getCacheMetrics(): CacheMetrics {
+  return { ...metrics };
+}
+
+export function resetCacheMetrics(): void {
+  for (const name of Object.keys(metrics) as (keyof CacheMetrics)[]) metrics[name] = 0;
+}
+
+export function getLocalCacheStats(): { entries: number; maxEntries: number; maxAgeMs: number } {
+  return { entries: local.size, maxEntries: LOCAL_MAX_ENTRIES, maxAgeMs: LOCAL_MAX_AGE_MS };
+}
+
+/** Drops this instance's copies of the keys a pattern matches, along with invalidating them in Redis */
+export function forgetLocalCache(pattern: RegExp): number {
+  return local.deleteMatching(pattern);
+}
 
 /**
  * Get daily build data from cache or fetch and cache if missing/expired.
+ * An expired value is served as it is while one request refreshes it in the background,
+ * and a missing one is computed by one request at a time across instances; the others
+ * wait for its value. Values are kept in process too, which is all the caching there is
+ * while Redis is unreachable.
  * @param {string} key - Redis cache key
  * @param {Function} fetchFn - Function to fetch data if not in cache
- * @param {number} ttlSeconds - Time to live for cache in seconds
+ * @param {CacheTtl} ttl - Time to live for cache in seconds, or a function of the fresh data
+ * @throws whatever fetchFn throws when nothing was cached, without writing anything to the cache
+ */
+export async function getOrSetDailyTestCache(key: string, fetchFn: () => Promise<any>, ttl: CacheTtl = 600) {
+  const cached = await readCached(key);
+  if (cached?.fresh) {
+    metrics.hits++;
+    if (cached.local) metrics.localHits++;
+    return cached.value;
+  }
+  if (cached) {
+    metrics.staleServes++;
+    void refreshInBackground(key, fetchFn, ttl);
+    return cached.value;
+  }
+  metrics.misses++;
+  return computeOnce(key, fetchFn, ttl);
+}
+
+/**
+ * Records that `dependent` was computed from `keys`, so it is deleted as soon as any of
+ * them is cached again with a different value (getDayQuality and the construct answers).
  */
-export async function getOrSetDailyTestCache(key: string, fetchFn: () => Promise<any>, ttlSeconds = 600) {
+export async function recordCacheDependencies(dependent: string, keys: string[]): Promise<void> {
   try {
-    const cached = await redis.get(key);
-    if (cached) {
-      return JSON.parse(cached);
-    } else {
+    for (const key of keys) {
+      await redis.sadd(`${DEPENDENTS_PREFIX}${key}`, dependent);
+      await redis.expire(`${DEPENDENTS_PREFIX}${key}`, FINAL_TTL_SECONDS);
     }
   } catch (err) {
+    metrics.dependencyFailures++;
+    console.error(`[cache] Could not record what ${dependent} depends on: ${err instanceof Error ? err.message : err}`);
   }
-  let freshData;
+}
+
+async function readCached(key: string): Promise<{ value: any; fresh: boolean; local: boolean } | null> {
+  const now = Date.now();
+  const entry = readLocal(key, now);
+  if (entry && now - entry.storedAt < LOCAL_MAX_AGE_MS) return fromLocal(entry, now);
   try {
-    freshData = await fetchFn();
+    const cached = await redis.get(key);
+    if (!cached) {
+      local.delete(key);
+      return null;
+    }
+    // Values cached before freshness markers existed count as stale, so they are refreshed once
+    const fresh = (await redis.get(`${FRESH_PREFIX}${key}`)) !== null;
+    local.set(key, { serialized: cached, storedAt: now, freshUntil: fresh ? now + LOCAL_MAX_AGE_MS : now, staleUntil: now + STALE_WINDOW_SECONDS * 1000 });
+    return { value: JSON.parse(cached), fresh, local: false };
   } catch (err) {
-    throw err;
+    // Redis is unreachable: the local copy, however old, is all there is
+    return entry ? fromLocal(entry, now) : null;
+  }
+}
+
+function readLocal(key: string, now: number): LocalEntry | undefined {
+  const entry = local.get(key);
+  if (entry && entry.staleUntil <= now) {
+    local.delete(key);
+    return undefined;
   }
+  return entry;
+}
+
+function fromLocal(entry: LocalEntry, now: number) {
+  return { value: JSON.parse(entry.serialized), fresh: now < entry.freshUntil, local: true };
+}
+
+function computeOnce(key: string, fetchFn: () => Promise<any>, ttl: CacheTtl): Promise<any> {
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  const computation = (async () => {
+    const lock = await acquireLock(key);
+    if (!lock) {
+      const waited = await waitForValue(key);
+      if (waited !== undefined) return waited;
+    }
+    try {
+      return await fetchAndStore(key, fetchFn, ttl);
+    } finally {
+      if (lock) await releaseLock(key, lock);
+    }
+  })();
+  inFlight.set(key, computation);
+  return computation.finally(() => inFlight.delete(key));
+}
+
+async function refreshInBackground(key: string, fetchFn: () => Promise<any>, ttl: CacheTtl): Promise<void> {
+  if (refreshing.has(key)) return;
+  refreshing.add(key);
   try {
-    await redis.set(key, JSON.stringify(freshData), 'EX', ttlSeconds);
+    const lock = await acquireLock(key);
+    // Another instance is refreshing it already
+    if (!lock) return;
+
+    metrics.refreshes++;
+    try {
+      await fetchAndStore(key, fetchFn, ttl, true);
+    } catch (err) {
+      // The stale value keeps being served until it is refreshed or expires
+      metrics.refreshFailures++;
+      console.error(`[cache] Could not refresh ${key}: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      await releaseLock(key, lock);
+    }
+  } finally {
+    refreshing.delete(key);
+  }
+}
+
+// keepOnError: a refresh that ends in an error answer (see resultKind) keeps the stale value instead
+async function fetchAndStore(key: string, fetchFn: () => Promise<any>, ttl: CacheTtl, keepOnError = false): Promise<any> {
+  // Whatever fetchFn throws escapes uncached: routes rely on this to keep Azure DevOps throttling (see isThrottlingError) out of Redis
+  const freshData = await fetchFn();
+  if (keepOnError && isErrorResult(freshData)) throw new Error(freshData.error);
+
+  const serialized = JSON.stringify(freshData);
+  const ttlSeconds = typeof ttl === 'function' ? ttl(freshData) : ttl;
+  const staleSeconds = isErrorResult(freshData) ? 0 : STALE_WINDOW_SECONDS;
+  const now = Date.now();
+  local.set(key, { serialized, storedAt: now, freshUntil: now + ttlSeconds * 1000, staleUntil: now + (ttlSeconds + staleSeconds) * 1000 });
+  try {
+    await redis.set(key, serialized, 'EX', ttlSeconds + staleSeconds);
+    await redis.set(`${FRESH_PREFIX}${key}`, '1', 'EX', ttlSeconds);
   } catch (err) {
   }
+  await invalidateDependentsOnChange(key, serialized);
   return freshData;
 }
 
-export async function shortenDailyTestCacheTtl(key: string, ttlSeconds: number): Promise<void> {
-    try { await redis.expire(key, ttlSeconds); } catch {}
+// A token of our own, or null when someone else holds the lock. Without Redis everyone computes.
+async function acquireLock(key: string): Promise<string | null> {
+  const token = randomUUID();
+  try {
+    return (await redis.set(`${LOCK_PREFIX}${key}`, token, 'PX', LOCK_TTL_MS, 'NX')) ? token : null;
+  } catch (err) {
+    return token;
+  }
+}
+
+async function releaseLock(key: string, token: string): Promise<void> {
+  try {
+    // Only our own lock: after LOCK_TTL_MS it may have passed to another request
+    if ((await redis.get(`${LOCK_PREFIX}${key}`)) === token) await redis.del(`${LOCK_PREFIX}${key}`);
+  } catch (err) {
+  }
+}
+
+// The value the lock holder caches, or undefined when it gave up or took too long
+async function waitForValue(key: string): Promise<any> {
+  metrics.lockWaits++;
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+    const cached = await readCached(key);
+    if (cached) return cached.value;
+    try {
+      if ((await redis.get(`${LOCK_PREFIX}${key}`)) === null) return undefined;
+    } catch (err) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+// A value that differs from the last one cached under the key makes its dependents stale
+async function invalidateDependentsOnChange(key: string, serialized: string): Promise<void> {
+  try {
+    const version = createHash('sha1').update(serialized).digest('hex');
+    const previous = await redis.get(`${VERSION_PREFIX}${key}`);
+    await redis.set(`${VERSION_PREFIX}${key}`, version, 'EX', FINAL_TTL_SECONDS);
+    if (previous === null || previous === version) return;
+
+    const dependents = await redis.smembers(`${DEPENDENTS_PREFIX}${key}`);
+    dependents.forEach((dependent) => local.delete(dependent));
+    if (dependents.length > 0) await redis.del(...dependents, `${DEPENDENTS_PREFIX}${key}`);
+  } catch (err) {
+    metrics.dependencyFailures++;
+    console.error(`[cache] Could not invalidate what depends on ${key}: ${err instanceof Error ? err.message : err}`);
+  }
 }
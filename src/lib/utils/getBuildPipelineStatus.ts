@@ -1,44 +1,88 @@
 import type { Build } from '$lib/types/build';
-import { getTestQuality } from '$lib/constants/thresholds';
+import type { PipelineThresholds } from '$lib/types/pipelineConfig';
+import { resolveNotRunPolicy, resolveThresholds, scoreStatus, testResultVerdict, testVolumeVerdict, type ExpectedTestVolume, type StatusExplanation, type StatusRule } from '$lib/utils/statusScoring';
 
-// Function to get the status of a build pipeline
-// Returns 'good', 'ok', 'bad', 'interrupted', or 'unknown'
-// Takes Build object as input, retrieved from Azure DevOps REST API
-export async function getBuildPipelineStatus(buildDetails: Build, considerAutomationStatus = false) {
-  
-    if (!buildDetails) {
-      throw new Error('Provided build is null or undefined');
-    }
-
-    if (!buildDetails.status) {
-      throw new Error('Build has no status');
+// Checked in order, the first verdict wins
+export const BUILD_STATUS_RULES: readonly StatusRule<Build>[] = [
+  {
+    name: 'inProgress',
+    evaluate: (build) => build.status === 'inProgress' ? { status: 'inProgress', reason: 'The build is still running' } : null
+  },
+  {
+    name: 'automationInterrupted',
+    evaluate: (build, { considerAutomationStatus }) => {
+      if (!considerAutomationStatus) return null;
+      if (build.result === 'canceled' || build.status === 'cancelling' || build.status === 'postponed') {
+        return { status: 'interrupted', reason: `The build was ${build.result === 'canceled' ? 'canceled' : build.status}` };
+      }
+      return null;
     }
+  },
+  {
+    name: 'automationFailed',
+    evaluate: (build, { considerAutomationStatus }) =>
+      considerAutomationStatus && build.result === 'failed' ? { status: 'bad', reason: 'The build failed' } : null
+  },
+  {
+    // Tests that silently stopped running: a finished build without test runs counts as 0 tests when their number is known
+    name: 'noTestRuns',
+    evaluate: (build, { testVolume }) =>
+      build.status === 'completed' && (build.passedTestCount === undefined || build.failedTestCount === undefined)
+        ? testVolumeVerdict(0, testVolume)
+        : null
+  },
+  {
+    name: 'missingTestCounts',
+    evaluate: (build) => build.passedTestCount === undefined || build.failedTestCount === undefined
+      ? { status: 'unknown', reason: 'The build reported no test results' }
+      : null
+  },
+  {
+    name: 'incomplete',
+    evaluate: (build, { testVolume }) => testVolumeVerdict(build.passedTestCount! + build.failedTestCount!, testVolume)
+  },
+  {
+    name: 'passRate',
+    evaluate: (build, { thresholds, notRun }) =>
+      testResultVerdict(build.passedTestCount!, build.failedTestCount!, build.notRunTestCount ?? 0, thresholds, notRun)
+  },
+  {
+    name: 'noTests',
+    evaluate: () => ({ status: 'unknown', reason: 'No tests ran' })
+  }
+];
 
-    if (buildDetails.status === 'inProgress') {
-      return 'inProgress';
-    }
+export type BuildStatusOptions = {
+  considerAutomationStatus?: boolean;
+  /** The pipeline's configured thresholds, not-run policy included; a testRuns override is picked by the build's testRunName */
+  thresholds?: PipelineThresholds | null;
+  /** The number of tests the run usually reports (see resolveTestVolume) */
+  testVolume?: ExpectedTestVolume | null;
+  rules?: readonly StatusRule<Build>[];
+};
 
-    if (considerAutomationStatus){
-      if (buildDetails.result === 'canceled' || buildDetails.status === 'cancelling' || buildDetails.status === 'postponed') {
-        return 'interrupted';
-      }
+// Explains the status of a build pipeline: the status, the rule that decided it and why
+export function explainBuildPipelineStatus(buildDetails: Build, options: BuildStatusOptions = {}): StatusExplanation {
 
-      if (buildDetails.result === 'failed') {
-        return 'bad';
-      }
+    if (!buildDetails) {
+      throw new Error('Provided build is null or undefined');
     }
 
-    if (buildDetails.passedTestCount === undefined || buildDetails.failedTestCount === undefined) {
-      return 'unknown';
+    if (!buildDetails.status) {
+      throw new Error('Build has no status');
     }
-    
-    const totalTests = buildDetails.passedTestCount + buildDetails.failedTestCount;
-
-    if (totalTests > 0) {
-      const passRate = (buildDetails.passedTestCount / totalTests) * 100;
 
-      return getTestQuality(passRate);
-    }
+    return scoreStatus(options.rules ?? BUILD_STATUS_RULES, buildDetails, {
+      thresholds: resolveThresholds(options.thresholds, buildDetails.testRunName),
+      considerAutomationStatus: options.considerAutomationStatus ?? false,
+      testVolume: options.testVolume,
+      notRun: resolveNotRunPolicy(options.thresholds)
+    });
+}
 
-    return 'unknown';
-}
\ No newline at end of file
+// Function to get the status of a build pipeline
+// Returns 'good', 'ok', 'bad', 'inProgress', 'interrupted', 'incomplete' or 'unknown'
+// Takes Build object as input, retrieved from Azure DevOps REST API
+export async function getBuildPipelineStatus(buildDetails: Build, considerAutomationStatus = false, thresholds?: PipelineThresholds | null) {
+    return explainBuildPipelineStatus(buildDetails, { considerAutomationStatus, thresholds }).status;
+}
@@ -1,36 +1,197 @@
-// Helper to determine overall quality based on individual pipeline statuses
-export function determineOverallDayQuality(statuses: string[]): string {
+import { getTestQuality, PIPELINE_TEST_THRESHOLDS } from '$lib/constants/thresholds';
+import type { DayScore, PipelineContribution, PipelineRunResult, RunExplanation } from '$lib/types/dayQuality';
+import type { DayQualityMode, PipelineEntry } from '$lib/types/pipelineConfig';
+import { getPipelineWeight, isCriticalPipeline } from '$lib/utils/pipelineConfig';
+import { judgeTestCounts, resolveNotRunPolicy, type ResolvedNotRunPolicy } from '$lib/utils/statusScoring';
+
+export type DayQualityVerdict = {
+  quality: string;
+  /** The rule that decided: anyInProgress, anyInterrupted, anyIncomplete, anyBad, anyOk, allGood, someGood or unknown */
+  rule: string;
+  reason: string;
+  /** Statuses of the runs that decided it */
+  decidingStatuses: string[];
+};
+
+function runsThatAre(count: number, total: number, what: string): string {
+  return `${count} of ${total} ${total === 1 ? 'run' : 'runs'} ${count === 1 ? 'is' : 'are'} ${what}`;
+}
+
+// Explains the overall quality of a set of statuses: the rule that decided and which statuses it looked at
+export function explainOverallDayQuality(statuses: string[]): DayQualityVerdict {
+  const count = (matching: string[]) => statuses.filter(status => matching.includes(status)).length;
+  const total = statuses.length;
+
   // Prioritize 'inProgress' status (highest priority)
   if (statuses.includes('inProgress')) {
-    return 'inProgress';
+    return { quality: 'inProgress', rule: 'anyInProgress', reason: runsThatAre(count(['inProgress']), total, 'still running'), decidingStatuses: ['inProgress'] };
   }
 
   // Second priority: interrupted
   if (statuses.includes('interrupted')) {
-    return 'interrupted';
+    return { quality: 'interrupted', rule: 'anyInterrupted', reason: runsThatAre(count(['interrupted']), total, 'interrupted'), decidingStatuses: ['interrupted'] };
+  }
+
+  // Then incomplete: a run that reported far fewer tests than usual says little about the build
+  if (statuses.includes('incomplete')) {
+    return { quality: 'incomplete', rule: 'anyIncomplete', reason: runsThatAre(count(['incomplete']), total, 'incomplete'), decidingStatuses: ['incomplete'] };
   }
 
   // Third priority: If any pipeline is bad/failed, overall is bad
   if (statuses.includes('bad') || statuses.includes('failed')) {
-    return 'bad';
+    return { quality: 'bad', rule: 'anyBad', reason: runsThatAre(count(['bad', 'failed']), total, 'bad'), decidingStatuses: ['bad', 'failed'] };
   }
 
   // Fourth priority: If any pipeline is ok/partially succeeded, overall is ok
   if (statuses.includes('ok') || statuses.includes('partially succeeded')) {
-    return 'ok';
+    return { quality: 'ok', rule: 'anyOk', reason: runsThatAre(count(['ok', 'partially succeeded']), total, 'only ok'), decidingStatuses: ['ok', 'partially succeeded'] };
   }
 
   // Fifth priority: If all pipelines are good/succeeded, overall is good
   if (statuses.every(status => 
     ['good', 'succeeded'].includes(status)
   )) {
-    return 'good';
+    return { quality: 'good', rule: 'allGood', reason: total === 0 ? 'No runs to judge' : total === 1 ? 'The run is good' : `All ${total} runs are good`, decidingStatuses: ['good', 'succeeded'] };
   }
 
+  const unresolved = [...new Set(statuses.filter(status => status !== 'good'))];
   if (statuses.some(status => status === 'good')) {
-    return 'ok';
+    return { quality: 'ok', rule: 'someGood', reason: `${runsThatAre(total - count(['good']), total, 'without a result')}, the rest are good`, decidingStatuses: unresolved };
   }
 
   // Default to unknown if no clear determination can be made
-  return 'unknown';
-}
\ No newline at end of file
+  return { quality: 'unknown', rule: 'unknown', reason: total === 1 ? 'The run has no result' : `None of the ${total} runs has a result`, decidingStatuses: unresolved };
+}
+
+// Helper to determine overall quality based on individual pipeline statuses
+export function determineOverallDayQuality(statuses: string[]): string {
+  return explainOverallDayQuality(statuses).quality;
+}
+
+// Scores for runs that finished without any test results
+const STATUS_SCORES: Record<string, number> = { good: 100, succeeded: 100, ok: 50, 'partially succeeded': 50, bad: 0, failed: 0, interrupted: 0, incomplete: 0 };
+
+export type DayPipelineResults = {
+  pipeline: Pick<PipelineEntry, 'id' | 'type' | 'weight' | 'critical' | 'thresholds'>;
+  results: PipelineRunResult[];
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// A pipeline with a thousand tests counts about four times one with none, not a thousand times
+function testVolumeFactor(totalTests: number): number {
+  return 1 + Math.log10(1 + totalTests);
+}
+
+// Interrupted and incomplete runs score 0: their pass rate covers only part of the tests.
+// Tests that did not run count as failed under the 'fail' policy, and under 'cap' once there are too many
+function scoreRuns(status: string, passCount: number, failCount: number, notRunCount: number, notRun: ResolvedNotRunPolicy): number | null {
+  if (status === 'interrupted' || status === 'incomplete') return 0;
+  const counts = judgeTestCounts(passCount, failCount, notRunCount, notRun);
+  const total = counts.capped ? passCount + failCount + notRunCount : counts.total;
+  if (total > 0) return (passCount / total) * 100;
+  return STATUS_SCORES[status] ?? null;
+}
+
+function toContribution({ pipeline, results }: DayPipelineResults, critical: boolean): PipelineContribution {
+  const passCount = results.reduce((sum, r) => sum + r.passCount, 0);
+  const failCount = results.reduce((sum, r) => sum + r.failCount, 0);
+  const notRunCount = results.reduce((sum, r) => sum + r.notRunCount, 0);
+  const status = results.length > 0 ? determineOverallDayQuality(results.map(r => r.status)) : 'unknown';
+  return {
+    pipelineId: pipeline.id,
+    type: pipeline.type,
+    status,
+    passCount,
+    failCount,
+    notRunCount,
+    critical,
+    weight: getPipelineWeight(pipeline) * testVolumeFactor(passCount + failCount + notRunCount),
+    score: status === 'inProgress' ? null : scoreRuns(status, passCount, failCount, notRunCount, resolveNotRunPolicy(pipeline.thresholds)),
+    share: 0
+  };
+}
+
+type DayVerdict = { quality: string; rule: string; reason: string; drivers: (run: RunExplanation, contribution: PipelineContribution) => boolean };
+
+const CRITICAL_RULES: Record<string, { rule: string; what: string }> = {
+  inProgress: { rule: 'criticalInProgress', what: 'still running' },
+  interrupted: { rule: 'criticalInterrupted', what: 'interrupted' },
+  incomplete: { rule: 'criticalIncomplete', what: 'incomplete' }
+};
+
+// Weighted mode: running, interrupted or incomplete critical pipelines still decide, otherwise the score does
+function weightedVerdict(contributions: PipelineContribution[], score: number | null): DayVerdict {
+  const critical = contributions.filter(c => c.critical);
+  for (const [status, { rule, what }] of Object.entries(CRITICAL_RULES)) {
+    const deciding = critical.filter(c => c.status === status).length;
+    if (deciding > 0) {
+      return {
+        quality: status,
+        rule,
+        reason: `${deciding} critical ${deciding === 1 ? 'pipeline is' : 'pipelines are'} ${what}`,
+        drivers: (run, c) => c.critical && run.status === status
+      };
+    }
+  }
+  if (score === null) {
+    return { quality: 'unknown', rule: 'noScore', reason: 'No pipeline finished with a result', drivers: () => true };
+  }
+  const quality = getTestQuality(score);
+  const bound = quality === 'good'
+    ? `at least ${PIPELINE_TEST_THRESHOLDS.good}`
+    : quality === 'ok' ? `below ${PIPELINE_TEST_THRESHOLDS.good} but at least ${PIPELINE_TEST_THRESHOLDS.ok}` : `below ${PIPELINE_TEST_THRESHOLDS.ok}`;
+  return {
+    quality,
+    rule: 'score',
+    reason: `The weighted day score is ${score}/100, ${bound}`,
+    // What pulled the score down: counted runs that were not good
+    drivers: (run, c) => c.score !== null && !['good', 'succeeded'].includes(run.status)
+  };
+}
+
+function worstVerdict(statuses: string[]): DayVerdict {
+  const { quality, rule, reason, decidingStatuses } = explainOverallDayQuality(statuses);
+  return { quality, rule, reason, drivers: (run) => decidingStatuses.includes(run.status) };
+}
+
+// A run's own explanation, or what little there is to say about a run the routes could not score
+function explainRun(pipeline: DayPipelineResults['pipeline'], result: PipelineRunResult): RunExplanation {
+  const base = { pipelineId: pipeline.id, type: pipeline.type, name: result.name, status: result.status };
+  if (result.explanation) {
+    const { rule, reason, passRate, thresholds } = result.explanation;
+    return { ...base, rule, reason, ...(passRate !== undefined && { passRate: round1(passRate) }), thresholds };
+  }
+  return { ...base, rule: 'noResult', reason: result.status === 'unknown' ? 'No run found for the day' : `The run is ${result.status}` };
+}
+
+/**
+ * Scores a day from each configured pipeline's runs: the average of their scores
+ * (pass rate under the pipeline's not-run policy, or 0 for interrupted and incomplete runs)
+ * weighted by configured weight and test volume.
+ * Pipelines still running do not count. The quality is the worst status (worst mode),
+ * or follows the score once the critical pipelines are done (weighted mode).
+ * The explanation names the rule that decided and the runs that drove it.
+ */
+export function scoreDay(pipelines: DayPipelineResults[], mode: DayQualityMode = 'worst'): DayScore {
+  const contributions = pipelines.map(p => toContribution(p, isCriticalPipeline(p.pipeline, pipelines.map(q => q.pipeline))));
+
+  const counted = contributions.filter(c => c.score !== null);
+  const totalWeight = counted.reduce((sum, c) => sum + c.weight, 0);
+  const score = totalWeight > 0 ? round1(counted.reduce((sum, c) => sum + c.weight * c.score!, 0) / totalWeight) : null;
+  for (const c of counted) {
+    c.share = round1((c.weight / totalWeight) * 100);
+    c.score = round1(c.score!);
+  }
+  for (const c of contributions) c.weight = round1(c.weight);
+
+  const verdict = mode === 'weighted'
+    ? weightedVerdict(contributions, score)
+    : worstVerdict(pipelines.flatMap(p => p.results.map(r => r.status)));
+  const drivers = pipelines.flatMap((p, index) => p.results
+    .map(result => explainRun(p.pipeline, result))
+    .filter(run => verdict.drivers(run, contributions[index])));
+
+  const { quality, rule, reason } = verdict;
+  return { mode, quality, score, contributions, explanation: { quality, mode, rule, reason, drivers } };
+}
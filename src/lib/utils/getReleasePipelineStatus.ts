@@ -1,6 +1,8 @@
 import type { Release } from '$lib/types/release';
-import { getTestQuality } from '$lib/constants/thresholds';
-import { PIPELINE_ENV_NOT_STARTED_THRESHOLD } from '$lib/constants/thresholds';
+import type { AttemptPolicy, PipelineThresholds, ReleaseEnvironmentFilter } from '$lib/types/pipelineConfig';
+import { judgedAttemptCounts } from '$lib/utils/releaseAttempts';
+import { filterReleaseEnvironments } from '$lib/utils/releaseEnvironments';
+import { formatPercent, resolveNotRunPolicy, resolveThresholds, scoreStatus, testResultVerdict, testVolumeVerdict, type ExpectedTestVolume, type StatusExplanation, type StatusRule } from '$lib/utils/statusScoring';
 
 // Function to calculate the latest completion time from release environments
 // Traverses all environments and finds the latest finishTime or dateEnded from tasks
@@ -65,62 +67,124 @@ export function calculateReleaseCompletionTime(environments: any[]): string | un
   return latestFinishTime;
 }
 
-// Function to get the status of a release pipeline
-// Returns 'good', 'ok', 'bad', 'interrupeted', or 'unknown'
-// Takes Release object as input, retrieved from Azure DevOps REST API
-export async function getReleasePipelineStatus(releaseDetails: Release, considerAutomationStatus = true) {
-  
-    if (!releaseDetails) {
-      throw new Error('Provided release is null or undefined');
-    }
+const countEnvs = (release: Release, ...statuses: string[]) => release.envs.filter(env => statuses.includes(env.status)).length;
 
-    if (!releaseDetails.envs || releaseDetails.envs.length === 0) {
-      throw new Error('Release has no environments');
+// Checked in order, the first verdict wins. Environments the pipeline excludes (PTA by default) are already gone
+export const RELEASE_STATUS_RULES: readonly StatusRule<Release>[] = [
+  {
+    name: 'inProgress',
+    evaluate: (release) => {
+      const running = countEnvs(release, 'inProgress', 'queued');
+      return running > 0 ? { status: 'inProgress', reason: `${running} of ${release.envs.length} environments are still deploying` } : null;
     }
-
-    //FILTER OUT PTA ENVIRONMENT IF IT EXISTS
-    const filteredEnvs = releaseDetails.envs.filter(env => env.name !== 'PTA');
-    releaseDetails = { ...releaseDetails, envs: filteredEnvs };
-
-    if (releaseDetails.envs.some(env => env.status === 'inProgress') || releaseDetails.envs.some(env => env.status === 'queued')) {
-      return 'inProgress';
+  },
+  {
+    // Tests that silently stopped running: a deployed release without test runs counts as 0 tests when their number is known
+    name: 'noTestRuns',
+    evaluate: (release, { testVolume }) =>
+      countEnvs(release, 'notStarted') < release.envs.length && (release.passedTestCount === undefined || release.failedTestCount === undefined)
+        ? testVolumeVerdict(0, testVolume)
+        : null
+  },
+  {
+    name: 'missingTestCounts',
+    evaluate: (release) => release.passedTestCount === undefined || release.failedTestCount === undefined
+      ? { status: 'unknown', reason: 'The release reported no test results' }
+      : null
+  },
+  {
+    name: 'envsNotStarted',
+    evaluate: (release, { thresholds }) => {
+      const notStarted = countEnvs(release, 'notStarted');
+      if (notStarted === 0 || notStarted / release.envs.length <= thresholds.envNotStarted) return null;
+      return {
+        status: 'interrupted',
+        reason: `${notStarted} of ${release.envs.length} environments did not start, more than ${formatPercent(thresholds.envNotStarted * 100)}`
+      };
     }
-
-    if (releaseDetails.passedTestCount === undefined || releaseDetails.failedTestCount === undefined) {
-      return 'unknown';
+  },
+  {
+    name: 'incomplete',
+    evaluate: (release, { testVolume }) => testVolumeVerdict(release.passedTestCount! + release.failedTestCount!, testVolume)
+  },
+  {
+    name: 'passRate',
+    evaluate: (release, { thresholds, notRun }) =>
+      testResultVerdict(release.passedTestCount!, release.failedTestCount!, release.notRunTestCount ?? 0, thresholds, notRun)
+  },
+  // If automation status is considered, check for interrupted or failed statuses ONLY if no tests have been run
+  {
+    name: 'automationInterrupted',
+    evaluate: (release, { considerAutomationStatus }) => {
+      const stopped = considerAutomationStatus ? countEnvs(release, 'canceled', 'aborted') : 0;
+      return stopped > 0 ? { status: 'interrupted', reason: `${stopped} environments were canceled before any tests ran` } : null;
     }
-
-    if (releaseDetails.envs.filter(env => env.status === 'notStarted').length / releaseDetails.envs.length > PIPELINE_ENV_NOT_STARTED_THRESHOLD) {
-      return 'interrupted';
+  },
+  {
+    name: 'automationFailed',
+    evaluate: (release, { considerAutomationStatus }) => {
+      const failed = considerAutomationStatus ? countEnvs(release, 'failed', 'rejected') : 0;
+      return failed > 0 ? { status: 'interrupted', reason: `${failed} environments failed before any tests ran` } : null;
     }
+  },
+  {
+    name: 'noTests',
+    evaluate: () => ({ status: 'unknown', reason: 'No tests ran' })
+  }
+];
+
+export type ReleaseStatusOptions = {
+  considerAutomationStatus?: boolean;
+  /** The pipeline's configured thresholds, not-run policy included */
+  thresholds?: PipelineThresholds | null;
+  /** The environments that count; every one but PTA by default */
+  environments?: ReleaseEnvironmentFilter | null;
+  /** Which attempt of a redeployed environment the test counts come from; the last by default */
+  attemptPolicy?: AttemptPolicy;
+  /** The number of tests the release usually reports (see resolveTestVolume) */
+  testVolume?: ExpectedTestVolume | null;
+  rules?: readonly StatusRule<Release>[];
+};
+
+// Explains the status of a release pipeline: the status, the rule that decided it and why
+export function explainReleasePipelineStatus(releaseDetails: Release, options: ReleaseStatusOptions = {}): StatusExplanation {
 
+    if (!releaseDetails) {
+      throw new Error('Provided release is null or undefined');
+    }
 
-    // If the pass ratio is 100% return 'good'
-    const totalTests = releaseDetails.passedTestCount + releaseDetails.failedTestCount;
-
-    if (totalTests > 0) {
-      const passRate = (releaseDetails.passedTestCount / totalTests) * 100;
-
-      return getTestQuality(passRate);
+    if (!releaseDetails.envs || releaseDetails.envs.length === 0) {
+      throw new Error('Release has no environments');
     }
-    else{
-    //If automation status is considered, check for interrupted or failed statuses ONLY if no tests have been run
-      if (considerAutomationStatus){
-        if (releaseDetails.envs.some(env => env.status === 'canceled' || env.status === 'aborted')) {
-          return 'interrupted';
-        }
 
-        if (releaseDetails.envs.some(env => env.status === 'failed' || env.status === 'rejected')) {
-          return 'interrupted';
-        }
-      }
+    const policy = options.attemptPolicy ?? 'last';
+    releaseDetails = {
+      ...releaseDetails,
+      ...judgedAttemptCounts(releaseDetails, policy),
+      envs: filterReleaseEnvironments(releaseDetails.envs, options.environments)
+    };
+
+    const explanation = scoreStatus(options.rules ?? RELEASE_STATUS_RULES, releaseDetails, {
+      thresholds: resolveThresholds(options.thresholds),
+      considerAutomationStatus: options.considerAutomationStatus ?? true,
+      testVolume: options.testVolume,
+      notRun: resolveNotRunPolicy(options.thresholds)
+    });
+    if (explanation.rule === 'passRate' && policy !== 'last' && releaseDetails.attempts?.retried) {
+      explanation.reason += `, judged on the ${policy} attempt`;
     }
+    return explanation;
+}
 
-    return 'unknown';
+// Function to get the status of a release pipeline
+// Returns 'good', 'ok', 'bad', 'inProgress', 'interrupted', 'incomplete' or 'unknown'
+// Takes Release object as input, retrieved from Azure DevOps REST API
+export async function getReleasePipelineStatus(releaseDetails: Release, considerAutomationStatus = true, thresholds?: PipelineThresholds | null) {
+    return explainReleasePipelineStatus(releaseDetails, { considerAutomationStatus, thresholds }).status;
 }
 
 // Function takes in an array of Release Objects and returns the latest release
-export function getLatestRelease(releases: Release[]): Release | null {
+export function getLatestRelease<T extends Pick<Release, 'createdOn'>>(releases: T[]): T | null {
     // If no releases, return null
     if (!releases || releases.length === 0) {
       return null;
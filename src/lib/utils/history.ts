@@ -0,0 +1,175 @@
+/**
+ * History: each pipeline's runs on finalized days, normalized into runs, test-run summaries
+ * and the outcomes of tests that did not pass, and kept in a durable store (see
+ * $lib/server/history) so long ranges are one read instead of a request per day.
+ * Runs come from the construct routes, so they carry the statuses the dashboard showed.
+ */
+import type { Build } from '$lib/types/build';
+import type { HistoryBucket, HistoryGranularity, HistoryRun, HistoryTestRun } from '$lib/types/history';
+import type { LinkedRun } from '$lib/types/linkedRun';
+import type { Release } from '$lib/types/release';
+import { determineOverallDayQuality } from './getOverallDayQuality';
+import { attemptPassRate } from './releaseAttempts';
+import { addDaysToDateString } from './timezone';
+
+export const HISTORY_GRANULARITIES: readonly HistoryGranularity[] = ['day', 'week', 'month'];
+
+/** Days a pipeline's first ingest goes back */
+export const HISTORY_INITIAL_DAYS = 90;
+
+/** Most days one ingest request adds per pipeline; the next request carries on from there */
+export const HISTORY_MAX_INGEST_DAYS = 31;
+
+/** Longest range one history query may span */
+export const MAX_HISTORY_RANGE_DAYS = 5 * 366;
+
+export const HISTORY_TOP_FAILING_TESTS = 10;
+
+export function isHistoryGranularity(value: unknown): value is HistoryGranularity {
+    return HISTORY_GRANULARITIES.includes(value as HistoryGranularity);
+}
+
+/** First date of the day, week (ISO, from Monday) or month a date falls in */
+export function historyBucketStart(date: string, granularity: HistoryGranularity): string {
+    if (granularity === 'month') return `${date.slice(0, 7)}-01`;
+    if (granularity === 'week') {
+        const [year, month, day] = date.split('-').map(Number);
+        const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+        return addDaysToDateString(date, -weekday);
+    }
+    return date;
+}
+
+function nextBucketStart(start: string, granularity: HistoryGranularity): string {
+    if (granularity === 'day') return addDaysToDateString(start, 1);
+    if (granularity === 'week') return addDaysToDateString(start, 7);
+    const [year, month] = start.split('-').map(Number);
+    return new Date(Date.UTC(year, month, 1)).toISOString().split('T')[0];
+}
+
+/** Adds the runs up per bucket; every bucket of the range is there, empty ones too, so charts keep their axis */
+export function aggregateHistory(runs: HistoryRun[], from: string, to: string, granularity: HistoryGranularity): HistoryBucket[] {
+    const buckets: HistoryBucket[] = [];
+    const byStart = new Map<string, { bucket: HistoryBucket; days: Set<string> }>();
+    for (let start = historyBucketStart(from, granularity); start <= to; start = nextBucketStart(start, granularity)) {
+        const end = addDaysToDateString(nextBucketStart(start, granularity), -1);
+        const bucket: HistoryBucket = {
+            from: start < from ? from : start,
+            to: end > to ? to : end,
+            runs: 0,
+            daysWithRuns: 0,
+            passed: 0,
+            failed: 0,
+            notRun: 0,
+            passRate: null,
+            statuses: {}
+        };
+        buckets.push(bucket);
+        byStart.set(start, { bucket, days: new Set() });
+    }
+
+    for (const run of runs) {
+        if (run.date < from || run.date > to) continue;
+        const entry = byStart.get(historyBucketStart(run.date, granularity));
+        if (!entry) continue;
+        const { bucket, days } = entry;
+        bucket.runs++;
+        bucket.passed += run.passed;
+        bucket.failed += run.failed;
+        bucket.notRun += run.notRun;
+        bucket.statuses[run.status] = (bucket.statuses[run.status] ?? 0) + 1;
+        days.add(run.date);
+    }
+
+    for (const { bucket, days } of byStart.values()) {
+        bucket.daysWithRuns = days.size;
+        bucket.passRate = attemptPassRate({ passedTestCount: bucket.passed, failedTestCount: bucket.failed }) ?? null;
+    }
+    return buckets;
+}
+
+/** Tests that failed in the most runs, most failures first */
+export function topFailingTests(runs: HistoryRun[], limit: number = HISTORY_TOP_FAILING_TESTS): Array<{ test: string; failures: number }> {
+    const failures = new Map<string, number>();
+    for (const run of runs) {
+        // Once per run, however many of its test runs the test failed in
+        const failed = new Set(run.outcomes.filter((outcome) => outcome.outcome === 'Failed').map((outcome) => outcome.test));
+        for (const test of failed) failures.set(test, (failures.get(test) ?? 0) + 1);
+    }
+    return [...failures.entries()]
+        .map(([test, count]) => ({ test, failures: count }))
+        .sort((a, b) => b.failures - a.failures || a.test.localeCompare(b.test))
+        .slice(0, limit);
+}
+
+function testRunOf(name: string, run: Pick<Build, 'status' | 'passedTestCount' | 'failedTestCount' | 'notRunTestCount'>): HistoryTestRun {
+    return {
+        name,
+        status: run.status,
+        passed: run.passedTestCount ?? 0,
+        failed: run.failedTestCount ?? 0,
+        notRun: run.notRunTestCount ?? 0
+    };
+}
+
+function sum(testRuns: HistoryTestRun[], count: 'passed' | 'failed' | 'notRun'): number {
+    return testRuns.reduce((total, testRun) => total + testRun[count], 0);
+}
+
+/** constructBuild's answer (one entry per test run of each build) as one history run per build */
+export function historyRunsFromBuilds(date: string, builds: Build[]): HistoryRun[] {
+    const byBuild = new Map<number, Build[]>();
+    for (const build of builds) byBuild.set(build.id, [...(byBuild.get(build.id) ?? []), build]);
+
+    return [...byBuild.entries()].map(([runId, entries]) => {
+        const testRuns = entries.filter((entry) => entry.testRunName).map((entry) => testRunOf(entry.testRunName!, entry));
+        return {
+            runId,
+            date,
+            name: entries[0].name,
+            status: determineOverallDayQuality(entries.map((entry) => entry.status)),
+            passed: sum(testRuns, 'passed'),
+            failed: sum(testRuns, 'failed'),
+            notRun: sum(testRuns, 'notRun'),
+            ...(entries[0].failure && { failureCategory: entries[0].failure.category }),
+            testRuns,
+            outcomes: []
+        };
+    });
+}
+
+/** constructRelease's answer as a history run; none when there was no release */
+export function historyRunsFromRelease(date: string, release: Release | null): HistoryRun[] {
+    if (!release) return [];
+    return [{
+        runId: release.id,
+        date,
+        name: release.name,
+        status: release.status,
+        passed: release.passedTestCount ?? 0,
+        failed: release.failedTestCount ?? 0,
+        notRun: release.notRunTestCount ?? 0,
+        testRuns: [testRunOf(release.name, release)],
+        outcomes: []
+    }];
+}
+
+/** constructBuildRelease's answer: each build with its release as one history run */
+export function historyRunsFromLinkedRuns(date: string, runs: LinkedRun[]): HistoryRun[] {
+    return runs.map((run) => {
+        const [build] = historyRunsFromBuilds(date, run.builds);
+        const testRuns = [...(build?.testRuns ?? []), ...(run.release ? [testRunOf(run.release.name, run.release)] : [])];
+        return {
+            runId: run.buildId,
+            date,
+            name: run.release ? `${build?.name ?? run.buildId} → ${run.release.name}` : build?.name,
+            status: run.status,
+            passed: sum(testRuns, 'passed'),
+            failed: sum(testRuns, 'failed'),
+            notRun: sum(testRuns, 'notRun'),
+            ...(build?.failureCategory && { failureCategory: build.failureCategory }),
+            testRuns,
+            outcomes: []
+        };
+    });
+}
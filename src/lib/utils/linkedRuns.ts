@@ -0,0 +1,115 @@
+import type { Build } from '$lib/types/build';
+import type { LinkedRun, PipelineStage } from '$lib/types/linkedRun';
+import type { Release } from '$lib/types/release';
+import { explainOverallDayQuality } from './getOverallDayQuality';
+import { filterReleaseEnvironments } from './releaseEnvironments';
+import { resolveThresholds, type StatusExplanation } from './statusScoring';
+
+/**
+ * How long after a good build its release may take to show up. Until then the pair
+ * counts as in progress instead of good on the strength of the build alone.
+ */
+export const LINKED_RELEASE_GRACE_MS = 30 * 60 * 1000;
+
+/**
+ * Stage rows for a release's environments, latest deployment attempt of each: the environments
+ * the server kept for the pipeline, or (for releases cached before it did) every one but PTA
+ */
+export function releaseEnvironmentStages(release: Pick<Release, 'envs' | 'environments'> | null | undefined): PipelineStage[] {
+    if (release?.environments) {
+        return release.environments.map((env) => ({
+            name: env.name,
+            status: env.deployStatus,
+            startTime: env.startTime,
+            finishTime: env.finishTime,
+            attempts: env.attempts > 1 ? env.attempts : null,
+        }));
+    }
+    return filterReleaseEnvironments<any>(release?.envs)
+        .map((e: any) => {
+            const steps = e.deploySteps ?? [];
+            const lastStep = steps[steps.length - 1];
+            const active = e.status === 'inProgress' || e.status === 'queued';
+            return {
+                name: e.name,
+                status: e.status ?? 'notStarted',
+                startTime: lastStep?.queuedOn ?? e.queuedOn ?? null,
+                finishTime: active ? null : (lastStep?.lastModifiedOn ?? null),
+                attempts: steps.length > 1 ? steps.length : null,
+            };
+        });
+}
+
+/** The build's Azure DevOps outcome as a stage status */
+export function buildStageStatus(build: Pick<Build, 'status' | 'result'>): string {
+    if (build.status === 'inProgress') return 'inProgress';
+    switch (build.result) {
+        case 'succeeded':
+        case 'failed':
+        case 'canceled':
+        case 'partiallySucceeded':
+            return build.result;
+        default:
+            return 'notStarted';
+    }
+}
+
+/** The build as the first stage, then the release environments (or a pending release stage) */
+export function linkedRunStages(run: LinkedRun): PipelineStage[] {
+    const build = run.builds[0];
+    const stages: PipelineStage[] = build
+        ? [{ name: `Build ${build.name}`, status: buildStageStatus(build), startTime: build.startTime || null, finishTime: build.completedTime ?? null }]
+        : [];
+    if (run.release) {
+        stages.push(...releaseEnvironmentStages(run.release));
+    } else {
+        stages.push({ name: 'Release', status: 'notStarted' });
+    }
+    return stages;
+}
+
+/**
+ * Quality of a build and the release it triggered, taken as one: the worse of the two.
+ * A good build whose release has not appeared yet is in progress for LINKED_RELEASE_GRACE_MS
+ * after it finished; after that no release is expected and the build stands alone.
+ * The explanation is the one of the build test run or release that decided, when it has one.
+ */
+export function explainLinkedRunStatus(builds: Build[], release: Release | null, now: number = Date.now()): StatusExplanation {
+    const parts: Array<Build | Release> = release ? [...builds, release] : [...builds];
+    const thresholds = parts.find((p) => p.statusExplanation)?.statusExplanation?.thresholds ?? resolveThresholds(null);
+    const verdict = explainOverallDayQuality(parts.map((p) => p.status));
+    if (!release) {
+        const finishedAt = Math.max(0, ...builds.map((b) => (b.completedTime ? new Date(b.completedTime).getTime() : 0)));
+        const awaitingRelease = finishedAt > 0 && now - finishedAt < LINKED_RELEASE_GRACE_MS;
+        if (awaitingRelease && ['good', 'ok'].includes(verdict.quality)) {
+            return { status: 'inProgress', rule: 'awaitingRelease', reason: 'The build finished, its release has not been created yet', thresholds };
+        }
+    }
+    const deciding = parts.find((p) => p.status === verdict.quality && p.statusExplanation)?.statusExplanation;
+    return deciding ?? { status: verdict.quality, rule: verdict.rule, reason: verdict.reason, thresholds };
+}
+
+export function getLinkedRunStatus(builds: Build[], release: Release | null, now: number = Date.now()): string {
+    return explainLinkedRunStatus(builds, release, now).status;
+}
+
+/** Test counts of the build's runs and the release added together */
+export function getLinkedRunCounts(run: LinkedRun): { passCount: number; failCount: number; notRunCount: number } {
+    const parts: Array<Pick<Build, 'passedTestCount' | 'failedTestCount' | 'notRunTestCount'>> = [...run.builds];
+    if (run.release) parts.push(run.release);
+    return {
+        passCount: parts.reduce((sum, p) => sum + (p.passedTestCount ?? 0), 0),
+        failCount: parts.reduce((sum, p) => sum + (p.failedTestCount ?? 0), 0),
+        notRunCount: parts.reduce((sum, p) => sum + (p.notRunTestCount ?? 0), 0),
+    };
+}
+
+/** Like getLinkedRunCounts, with the release's first deployment attempt instead of its last */
+export function getLinkedRunInitialCounts(run: LinkedRun): { initialPassCount: number; initialFailCount: number } {
+    const release = run.release?.attempts?.first ?? run.release;
+    const parts: Array<Pick<Build, 'passedTestCount' | 'failedTestCount'>> = release ? [...run.builds, release] : run.builds;
+    return {
+        initialPassCount: parts.reduce((sum, p) => sum + (p.passedTestCount ?? 0), 0),
+        initialFailCount: parts.reduce((sum, p) => sum + (p.failedTestCount ?? 0), 0),
+    };
+}
@@ -0,0 +1,370 @@
+import { PIPELINE_TEST_THRESHOLDS } from '$lib/constants/thresholds';
+import type { AttemptPolicy, DayQualityMode, NotRunPolicy, PipelineConfig, PipelineEntry, PipelineThresholds, PipelineType } from '$lib/types/pipelineConfig';
+import { connectionScopedId, isConnectionName, isDefaultConnection } from './connections';
+import { BUILD_REASONS, buildFiltersKey, isBuildReason, resolveBuildFilters, type BuildFilters, type BuildReason } from './pipelineFilters';
+
+/** Newest config schema this build understands. Configs without a version are version 1. */
+export const PIPELINE_CONFIG_VERSION = 1;
+
+export const PIPELINE_TYPES: readonly PipelineType[] = ['build', 'release', 'build/release'];
+
+export const DAY_QUALITY_MODES: readonly DayQualityMode[] = ['worst', 'weighted'];
+
+export const ATTEMPT_POLICIES: readonly AttemptPolicy[] = ['first', 'last', 'worst'];
+
+export const NOT_RUN_POLICIES: readonly NotRunPolicy[] = ['ignore', 'fail', 'cap'];
+
+/** Thrown for a missing or malformed pipeline config; `issues` lists every problem found */
+export class PipelineConfigError extends Error {
+    constructor(message: string, readonly issues: string[] = []) {
+        super(issues.length > 0 ? `${message}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}` : message);
+        this.name = 'PipelineConfigError';
+    }
+}
+
+export function isPipelineConfigError(error: unknown): error is PipelineConfigError {
+    return error instanceof PipelineConfigError;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+    return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+// minute hour day-of-month month day-of-week, as used by Azure Pipelines schedules
+const CRON_FIELD = /^(\*|[0-9A-Za-z]+(-[0-9A-Za-z]+)?)(\/\d+)?(,(\*|[0-9A-Za-z]+(-[0-9A-Za-z]+)?)(\/\d+)?)*$/;
+
+export function isCronExpression(value: string): boolean {
+    const fields = value.trim().split(/\s+/);
+    return fields.length === 5 && fields.every((field) => CRON_FIELD.test(field));
+}
+
+function checkOptionalText(entry: Record<string, unknown>, key: string, path: string, issues: string[]): void {
+    const value = entry[key];
+    if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+        issues.push(`${path}.${key}: expected a non-empty string, got ${describe(value)}`);
+    }
+}
+
+function checkStringList(entry: Record<string, unknown>, key: string, path: string, issues: string[]): void {
+    const value = entry[key];
+    if (value === undefined) return;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || item.trim() === '')) {
+        issues.push(`${path}.${key}: expected an array of non-empty strings, got ${describe(value)}`);
+    }
+}
+
+function checkPercent(value: unknown, path: string, issues: string[]): value is number | undefined {
+    if (value === undefined) return true;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+        issues.push(`${path}: expected a pass rate between 0 and 100, got ${describe(value)}`);
+        return false;
+    }
+    return true;
+}
+
+// good and ok may be set at different levels, so they are compared once inherited values are filled in
+function checkTestThresholds(value: Record<string, unknown>, inherited: { good: number; ok: number }, path: string, issues: string[]): { good: number; ok: number } | null {
+    const { good, ok } = value;
+    if (!checkPercent(good, `${path}.good`, issues) || !checkPercent(ok, `${path}.ok`, issues)) return null;
+    const effective = { good: good ?? inherited.good, ok: ok ?? inherited.ok };
+    if (effective.ok > effective.good) {
+        issues.push(`${path}: ok (${effective.ok}) must not be above good (${effective.good})`);
+        return null;
+    }
+    return effective;
+}
+
+function checkThresholds(entry: Record<string, unknown>, path: string, issues: string[]): void {
+    const { thresholds } = entry;
+    if (thresholds === undefined) return;
+    if (!isPlainObject(thresholds)) {
+        issues.push(`${path}.thresholds: expected an object, got ${describe(thresholds)}`);
+        return;
+    }
+
+    const pipeline = checkTestThresholds(thresholds, PIPELINE_TEST_THRESHOLDS, `${path}.thresholds`, issues);
+    const { envNotStarted, minTestVolume, notRunPolicy, maxNotRun, testRuns } = thresholds;
+    if (minTestVolume !== undefined && (typeof minTestVolume !== 'number' || !Number.isFinite(minTestVolume) || minTestVolume < 0 || minTestVolume > 1)) {
+        issues.push(`${path}.thresholds.minTestVolume: expected a share between 0 and 1, got ${describe(minTestVolume)}`);
+    }
+    if (notRunPolicy !== undefined && !NOT_RUN_POLICIES.includes(notRunPolicy as NotRunPolicy)) {
+        issues.push(`${path}.thresholds.notRunPolicy: expected one of ${NOT_RUN_POLICIES.map((p) => `"${p}"`).join(', ')}, got ${describe(notRunPolicy)}`);
+    }
+    if (maxNotRun !== undefined) {
+        if (typeof maxNotRun !== 'number' || !Number.isFinite(maxNotRun) || maxNotRun < 0 || maxNotRun > 1) {
+            issues.push(`${path}.thresholds.maxNotRun: expected a share between 0 and 1, got ${describe(maxNotRun)}`);
+        } else if (notRunPolicy !== 'cap') {
+            issues.push(`${path}.thresholds.maxNotRun: only the "cap" notRunPolicy has a limit`);
+        }
+    }
+    if (envNotStarted !== undefined) {
+        if (typeof envNotStarted !== 'number' || !Number.isFinite(envNotStarted) || envNotStarted < 0 || envNotStarted > 1) {
+            issues.push(`${path}.thresholds.envNotStarted: expected a share between 0 and 1, got ${describe(envNotStarted)}`);
+        } else if (entry.type === 'build') {
+            issues.push(`${path}.thresholds.envNotStarted: only release and build/release pipelines have environments`);
+        }
+    }
+    if (testRuns === undefined) return;
+    if (!isPlainObject(testRuns)) {
+        issues.push(`${path}.thresholds.testRuns: expected an object of test run names, got ${describe(testRuns)}`);
+        return;
+    }
+    for (const [name, value] of Object.entries(testRuns)) {
+        const runPath = `${path}.thresholds.testRuns[${JSON.stringify(name)}]`;
+        if (!name.trim()) {
+            issues.push(`${path}.thresholds.testRuns: test run names must not be empty`);
+        } else if (!isPlainObject(value)) {
+            issues.push(`${runPath}: expected an object with good and/or ok, got ${describe(value)}`);
+        } else if (pipeline) {
+            checkTestThresholds(value, pipeline, runPath, issues);
+        }
+    }
+}
+
+function checkEnvironments(entry: Record<string, unknown>, path: string, issues: string[]): void {
+    const { environments } = entry;
+    if (environments === undefined) return;
+    if (!isPlainObject(environments)) {
+        issues.push(`${path}.environments: expected an object with include and/or exclude, got ${describe(environments)}`);
+        return;
+    }
+    if (entry.type === 'build') {
+        issues.push(`${path}.environments: only release and build/release pipelines have environments`);
+    }
+    checkStringList(environments, 'include', `${path}.environments`, issues);
+    checkStringList(environments, 'exclude', `${path}.environments`, issues);
+}
+
+function validateEntry(entry: unknown, path: string, issues: string[]): PipelineEntry | null {
+    if (!isPlainObject(entry)) {
+        issues.push(`${path}: expected an object, got ${describe(entry)}`);
+        return null;
+    }
+    const before = issues.length;
+
+    const { id, type } = entry;
+    const idIsValid = (typeof id === 'string' && /^\d+$/.test(id.trim())) || (typeof id === 'number' && Number.isInteger(id) && id > 0);
+    if (!idIsValid) {
+        issues.push(`${path}.id: expected a numeric definition id, got ${describe(id)}`);
+    }
+    if (!PIPELINE_TYPES.includes(type as PipelineType)) {
+        issues.push(`${path}.type: expected one of ${PIPELINE_TYPES.map((t) => `"${t}"`).join(', ')}, got ${describe(type)}`);
+    }
+
+    checkOptionalText(entry, 'displayName', path, issues);
+    checkOptionalText(entry, 'group', path, issues);
+    checkOptionalText(entry, 'owner', path, issues);
+    if (entry.connection !== undefined && (typeof entry.connection !== 'string' || !isConnectionName(entry.connection))) {
+        issues.push(`${path}.connection: expected a connection name (letters, digits, - and _), got ${describe(entry.connection)}`);
+    }
+    for (const key of ['enabled', 'critical']) {
+        if (entry[key] !== undefined && typeof entry[key] !== 'boolean') {
+            issues.push(`${path}.${key}: expected true or false, got ${describe(entry[key])}`);
+        }
+    }
+
+    const { weight, expectedTests, schedule } = entry;
+    if (weight !== undefined && (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0)) {
+        issues.push(`${path}.weight: expected a positive number, got ${describe(weight)}`);
+    }
+    if (expectedTests !== undefined && (typeof expectedTests !== 'number' || !Number.isInteger(expectedTests) || expectedTests < 0)) {
+        issues.push(`${path}.expectedTests: expected a whole number of tests, got ${describe(expectedTests)}`);
+    }
+    if (schedule !== undefined && (typeof schedule !== 'string' || !isCronExpression(schedule))) {
+        issues.push(`${path}.schedule: expected a cron expression like "0 3 * * 1-5", got ${describe(schedule)}`);
+    }
+
+    checkStringList(entry, 'branches', path, issues);
+    checkStringList(entry, 'tags', path, issues);
+    checkThresholds(entry, path, issues);
+    checkEnvironments(entry, path, issues);
+    const { attemptPolicy } = entry;
+    if (attemptPolicy !== undefined) {
+        if (!ATTEMPT_POLICIES.includes(attemptPolicy as AttemptPolicy)) {
+            issues.push(`${path}.attemptPolicy: expected one of ${ATTEMPT_POLICIES.map((p) => `"${p}"`).join(', ')}, got ${describe(attemptPolicy)}`);
+        } else if (entry.type === 'build') {
+            issues.push(`${path}.attemptPolicy: only release and build/release pipelines have deployment attempts`);
+        }
+    }
+    const { reasons } = entry;
+    if (reasons !== undefined) {
+        if (!Array.isArray(reasons)) {
+            issues.push(`${path}.reasons: expected an array of build reasons, got ${describe(reasons)}`);
+        } else {
+            const unknown = reasons.filter((reason) => typeof reason !== 'string' || !isBuildReason(reason));
+            if (unknown.length > 0) {
+                issues.push(`${path}.reasons: unknown reason(s) ${unknown.map(describe).join(', ')} (expected ${BUILD_REASONS.join(', ')})`);
+            }
+        }
+    }
+    const { releaseDefinitionId } = entry;
+    if (releaseDefinitionId !== undefined) {
+        const releaseIdIsValid = (typeof releaseDefinitionId === 'string' && /^\d+$/.test(releaseDefinitionId.trim()))
+            || (typeof releaseDefinitionId === 'number' && Number.isInteger(releaseDefinitionId) && releaseDefinitionId > 0);
+        if (!releaseIdIsValid) {
+            issues.push(`${path}.releaseDefinitionId: expected a numeric definition id, got ${describe(releaseDefinitionId)}`);
+        } else if (type !== 'build/release') {
+            issues.push(`${path}.releaseDefinitionId: only build/release pipelines trigger a release`);
+        }
+    }
+    if (type === 'release') {
+        for (const key of ['branches', 'reasons', 'tags']) {
+            if (entry[key] !== undefined) {
+                issues.push(`${path}.${key}: only build and build/release pipelines can filter runs`);
+            }
+        }
+    }
+
+    if (issues.length > before) return null;
+    return {
+        ...entry,
+        id: String(id).trim(),
+        type: type as PipelineType,
+        ...(reasons !== undefined ? { reasons: reasons as BuildReason[] } : {}),
+        ...(releaseDefinitionId !== undefined ? { releaseDefinitionId: String(releaseDefinitionId).trim() } : {})
+    } as PipelineEntry;
+}
+
+/**
+ * Validates an already-parsed config object. Unknown keys are kept so newer
+ * fields survive a round trip through older code.
+ */
+export function validatePipelineConfig(value: unknown): PipelineConfig {
+    if (!isPlainObject(value) || !Array.isArray(value.pipelines)) {
+        throw new PipelineConfigError('No pipelines configured');
+    }
+
+    const issues: string[] = [];
+    const { version } = value;
+    if (version !== undefined && (typeof version !== 'number' || !Number.isInteger(version) || version < 1)) {
+        issues.push(`version: expected a positive whole number, got ${describe(version)}`);
+    } else if (typeof version === 'number' && version > PIPELINE_CONFIG_VERSION) {
+        issues.push(`version: config version ${version} is newer than the supported version ${PIPELINE_CONFIG_VERSION}`);
+    }
+    const { dayQualityMode } = value;
+    if (dayQualityMode !== undefined && !DAY_QUALITY_MODES.includes(dayQualityMode as DayQualityMode)) {
+        issues.push(`dayQualityMode: expected one of ${DAY_QUALITY_MODES.map((m) => `"${m}"`).join(', ')}, got ${describe(dayQualityMode)}`);
+    }
+
+    const pipelines: PipelineEntry[] = [];
+    const seen = new Map<string, number>();
+    value.pipelines.forEach((entry, index) => {
+        const path = `pipelines[${index}]`;
+        const pipeline = validateEntry(entry, path, issues);
+        if (!pipeline) return;
+
+        // The same definition may be listed again for other branches, but not twice for the same runs
+        const key = `${pipeline.type}:${connectionScopedId(pipeline.id, pipeline.connection)}:${JSON.stringify(pipeline.branches ?? null)}`;
+        const first = seen.get(key);
+        if (first !== undefined) {
+            issues.push(`${path}: duplicates pipelines[${first}] (same id, type and branches)`);
+            return;
+        }
+        seen.set(key, index);
+        pipelines.push(pipeline);
+    });
+
+    if (issues.length > 0) {
+        throw new PipelineConfigError('Invalid pipeline config', issues);
+    }
+    return { ...value, pipelines };
+}
+
+/** Parses and validates the JSON form used by PUBLIC_AZURE_PIPELINE_CONFIG */
+export function parsePipelineConfig(configRaw: string | null | undefined): PipelineConfig {
+    if (!configRaw || !configRaw.trim()) {
+        throw new PipelineConfigError('Missing pipeline config');
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(configRaw);
+    } catch (e) {
+        throw new PipelineConfigError('Failed to parse pipeline config');
+    }
+    return validatePipelineConfig(parsed);
+}
+
+/** Issues for pipelines that name a connection outside `known`; a pipeline without one uses the default */
+export function findUnknownConnections(config: PipelineConfig, known: string[]): string[] {
+    return config.pipelines.flatMap((pipeline, index) =>
+        pipeline.connection && !isDefaultConnection(pipeline.connection) && !known.includes(pipeline.connection)
+            ? [`pipelines[${index}].connection: unknown connection "${pipeline.connection}" (known: ${known.join(', ') || 'none'})`]
+            : []
+    );
+}
+
+export function includesBuild(pipeline: Pick<PipelineEntry, 'type'>): boolean {
+    return pipeline.type === 'build' || pipeline.type === 'build/release';
+}
+
+export function includesRelease(pipeline: Pick<PipelineEntry, 'type'>): boolean {
+    return pipeline.type === 'release' || pipeline.type === 'build/release';
+}
+
+/** Release definition a build/release pipeline's builds trigger; the same id unless configured otherwise */
+export function getReleaseDefinitionId(pipeline: Pick<PipelineEntry, 'id' | 'releaseDefinitionId'>): string {
+    return pipeline.releaseDefinitionId ?? pipeline.id;
+}
+
+function sameBuildFilters(pipeline: PipelineEntry, filters: BuildFilters): boolean {
+    try {
+        return buildFiltersKey(resolveBuildFilters(pipeline)) === buildFiltersKey(filters);
+    } catch {
+        return false;
+    }
+}
+
+/** What a route knows about the pipeline it serves */
+export type PipelineRequest = { kind: 'build' | 'release'; id: string | number; connection?: string | null; filters?: BuildFilters };
+
+/**
+ * Config entry of the pipeline a route request is for, or undefined when none matches. Builds
+ * match on definition id, connection and run filters. Releases match on definition id and
+ * connection, release entries ahead of the release a build/release entry triggers.
+ */
+export function findPipelineEntry(config: PipelineConfig, request: PipelineRequest): PipelineEntry | undefined {
+    const target = connectionScopedId(request.id, request.connection);
+    const candidates = request.kind === 'build'
+        ? config.pipelines.filter((p) => includesBuild(p) && connectionScopedId(p.id, p.connection) === target
+            && (!request.filters || sameBuildFilters(p, request.filters)))
+        : [
+            ...config.pipelines.filter((p) => p.type === 'release' && connectionScopedId(p.id, p.connection) === target),
+            ...config.pipelines.filter((p) => p.type === 'build/release' && connectionScopedId(getReleaseDefinitionId(p), p.connection) === target)
+        ];
+    return candidates[0];
+}
+
+/** Thresholds of the pipeline a route request is for, or undefined for the defaults */
+export function findPipelineThresholds(config: PipelineConfig, request: PipelineRequest): PipelineThresholds | undefined {
+    return findPipelineEntry(config, request)?.thresholds;
+}
+
+export function isPipelineEnabled(pipeline: Pick<PipelineEntry, 'enabled'>): boolean {
+    return pipeline.enabled !== false;
+}
+
+/** The config the dashboard works from: disabled pipelines left out */
+export function withEnabledPipelines(config: PipelineConfig): PipelineConfig {
+    return { ...config, pipelines: config.pipelines.filter(isPipelineEnabled) };
+}
+
+export function getPipelineDisplayName(pipeline: Pick<PipelineEntry, 'id' | 'displayName'>): string {
+    return pipeline.displayName ?? `Pipeline ${pipeline.id}`;
+}
+
+export function getPipelineWeight(pipeline: Pick<PipelineEntry, 'weight'>): number {
+    return pipeline.weight ?? 1;
+}
+
+export function getDayQualityMode(config: Pick<PipelineConfig, 'dayQualityMode'>): DayQualityMode {
+    return config.dayQualityMode ?? 'worst';
+}
+
+/** Pipelines a weighted day waits for: the ones marked critical, or all of them when none is */
+export function isCriticalPipeline(pipeline: Pick<PipelineEntry, 'critical'>, pipelines: Pick<PipelineEntry, 'critical'>[]): boolean {
+    return pipeline.critical === true || !pipelines.some((p) => p.critical === true);
+}
@@ -0,0 +1,127 @@
+/**
+ * Which runs of a build definition count for the dashboard. Each pipeline entry in
+ * PUBLIC_AZURE_PIPELINE_CONFIG may narrow or widen these; entries without any keep
+ * the original behaviour of scheduled runs on trunk.
+ */
+
+export const BUILD_REASONS = ['schedule', 'individualCI', 'batchedCI', 'manual', 'pullRequest'] as const;
+export type BuildReason = (typeof BUILD_REASONS)[number];
+
+export type BuildFilters = {
+    /** Full refs or short names; `*` matches any run of characters, e.g. `release/*` */
+    branches: string[];
+    reasons: BuildReason[];
+    /** A run must carry every listed tag */
+    tags: string[];
+};
+
+export const DEFAULT_BUILD_FILTERS: BuildFilters = {
+    branches: ['refs/heads/trunk'],
+    reasons: ['schedule'],
+    tags: []
+};
+
+/** The optional filter fields of a pipeline config entry */
+export type PipelineFilterConfig = {
+    branches?: string[] | string;
+    reasons?: string[] | string;
+    tags?: string[] | string;
+};
+
+export function isBuildReason(value: string): value is BuildReason {
+    return (BUILD_REASONS as readonly string[]).includes(value);
+}
+
+/** `main` and `heads/main` both become `refs/heads/main`; anything under refs/ is kept as is */
+export function normalizeBranch(branch: string): string {
+    const trimmed = branch.trim();
+    if (trimmed.startsWith('refs/')) return trimmed;
+    return `refs/heads/${trimmed.replace(/^heads\//, '')}`;
+}
+
+function toList(value: string[] | string | undefined): string[] {
+    const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/** Sorted and de-duplicated so equivalent filters share cache entries */
+function uniqueSorted(values: string[]): string[] {
+    return [...new Set(values)].sort();
+}
+
+/**
+ * Filters for a pipeline config entry, falling back to the defaults per field.
+ * Throws when a reason is not one Azure DevOps knows about.
+ */
+export function resolveBuildFilters(entry: PipelineFilterConfig | null | undefined): BuildFilters {
+    const branches = toList(entry?.branches);
+    const reasons = toList(entry?.reasons);
+    const invalid = reasons.filter((reason) => !isBuildReason(reason));
+    if (invalid.length > 0) {
+        throw new Error(`Unknown build reason(s): ${invalid.join(', ')} (expected ${BUILD_REASONS.join(', ')})`);
+    }
+
+    return {
+        branches: branches.length > 0 ? uniqueSorted(branches.map(normalizeBranch)) : DEFAULT_BUILD_FILTERS.branches,
+        reasons: reasons.length > 0 ? (uniqueSorted(reasons) as BuildReason[]) : DEFAULT_BUILD_FILTERS.reasons,
+        tags: uniqueSorted(toList(entry?.tags))
+    };
+}
+
+/** Reads `branches`, `reasons` and `tags` (comma separated) from a route's query string */
+export function parseBuildFilters(params: URLSearchParams): BuildFilters {
+    return resolveBuildFilters({
+        branches: params.get('branches') ?? undefined,
+        reasons: params.get('reasons') ?? undefined,
+        tags: params.get('tags') ?? undefined
+    });
+}
+
+/** Query string fragment (with leading `&`) that round-trips through parseBuildFilters */
+export function buildFiltersQuery(filters: BuildFilters): string {
+    const params = new URLSearchParams({
+        branches: filters.branches.join(','),
+        reasons: filters.reasons.join(',')
+    });
+    if (filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+    return `&${params.toString()}`;
+}
+
+/** Stable text form of the filters, used inside cache keys */
+export function buildFiltersKey(filters: BuildFilters): string {
+    return `${filters.branches.join(',')}|${filters.reasons.join(',')}|${filters.tags.join(',')}`;
+}
+
+export function hasBranchWildcard(filters: BuildFilters): boolean {
+    return filters.branches.some((branch) => branch.includes('*'));
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+    const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+/** Whole-value match where `*` stands for any run of characters */
+export function matchesWildcard(value: string, pattern: string): boolean {
+    return wildcardToRegExp(pattern).test(value);
+}
+
+export function matchesBranch(sourceBranch: string | undefined, patterns: string[]): boolean {
+    if (!sourceBranch) return false;
+    return patterns.some((pattern) => matchesWildcard(sourceBranch, pattern));
+}
+
+export function matchesBuildFilters(
+    build: { sourceBranch?: string; reason: string; tags?: string[] },
+    filters: BuildFilters
+): boolean {
+    if (!matchesBranch(build.sourceBranch, filters.branches)) return false;
+    if (!(filters.reasons as string[]).includes(build.reason)) return false;
+    const tags = build.tags ?? [];
+    return filters.tags.every((tag) => tags.includes(tag));
+}
+
+/** Branch names shown to users, without the refs/heads/ prefix */
+export function shortBranchName(branch: string): string {
+    return branch.replace(/^refs\/heads\//, '');
+}
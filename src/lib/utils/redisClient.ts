@@ -1,11 +1,20 @@
 import Redis from 'ioredis';
 import { env } from '$env/dynamic/private';
+import { getFixtureMode } from '$lib/server/fixtures/mode';
+import { MemoryRedis } from '$lib/server/fixtures/memoryRedis';
+import { CircuitBreaker } from '$lib/server/circuitBreaker';
 
 
 const redisOptions: any = {
   host: env.REDIS_HOST || '127.0.0.1',
   port: parseInt(env.REDIS_PORT || '6379', 10),
   lazyConnect: true, // Only connect when needed
+  // Fail a command within a second rather than queueing it while Redis is away; the cache
+  // falls back to its in-process tier (see getOrSetDailyTestCache)
+  commandTimeout: 1000,
+  maxRetriesPerRequest: 1,
+  // Reconnect backoff: 200ms, 400ms, ... up to 30s between attempts
+  retryStrategy: (times: number) => Math.min(100 * 2 ** times, 30_000),
 };
 
 if (env.REDIS_PASSWORD) {
@@ -20,7 +29,26 @@ if (env.REDIS_TLS === 'true') {
   };
 }
 
-const redis = new Redis(redisOptions);
+/** Opens after a few failed commands in a row, so requests stop waiting on a Redis that is down */
+export const redisBreaker = new CircuitBreaker('Redis');
+
+// The commands the app sends; everything else (events, connection state) goes straight to the client
+const GUARDED_COMMANDS = new Set(['get', 'set', 'del', 'expire', 'sadd', 'smembers', 'hset', 'hgetall', 'hdel', 'scan', 'ping']);
+
+function withBreaker(client: Redis): Redis {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== 'string' || !GUARDED_COMMANDS.has(property) || typeof value !== 'function') return value;
+      return (...args: unknown[]) => redisBreaker.run(() => value.apply(target, args));
+    }
+  });
+}
+
+// Fixture sessions (FIXTURES_MODE) run without a Redis server, and recording needs every request to go out
+const redis = getFixtureMode(env) === 'off'
+  ? withBreaker(new Redis(redisOptions))
+  : new MemoryRedis() as unknown as Redis;
 
 redis.on('connect', () => {
   console.log('Connected to Redis');
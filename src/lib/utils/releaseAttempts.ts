@@ -0,0 +1,85 @@
+/**
+ * Release deployment attempts: a redeployed environment runs its tests again, so a release
+ * has a first, a last and a worst attempt per environment. The last attempt is what Azure
+ * DevOps shows; the pipeline's `attemptPolicy` picks the one its status is judged on.
+ */
+import type { AttemptPolicy } from '$lib/types/pipelineConfig';
+import type { AttemptCounts, Release, ReleaseAttempts } from '$lib/types/release';
+
+/** Test counts of one test run and the environment attempt it belongs to */
+export interface AttemptRun {
+    environmentId: number;
+    attempt: number;
+    passed: number;
+    failed: number;
+    notRun: number;
+}
+
+export const DEFAULT_ATTEMPT_POLICY: AttemptPolicy = 'last';
+
+const noTests = (): AttemptCounts => ({ passedTestCount: 0, failedTestCount: 0, notRunTestCount: 0 });
+
+function add(total: AttemptCounts, counts: AttemptCounts): void {
+    total.passedTestCount += counts.passedTestCount;
+    total.failedTestCount += counts.failedTestCount;
+    total.notRunTestCount += counts.notRunTestCount;
+}
+
+/** Percent, rounded to 2 decimals like calculatePassRates; undefined without tests */
+export function attemptPassRate(counts: Pick<AttemptCounts, 'passedTestCount' | 'failedTestCount'>): number | undefined {
+    const total = counts.passedTestCount + counts.failedTestCount;
+    return total > 0 ? Math.round((counts.passedTestCount / total) * 10000) / 100 : undefined;
+}
+
+/**
+ * Adds up the runs of each environment attempt. An attempt without tests passes in full,
+ * so it is never the worst one of an environment that ran tests on another attempt.
+ * `lastByEnvironment` has each environment's last attempt, which the release totals are.
+ */
+export function summarizeAttempts(runs: AttemptRun[]): { attempts: ReleaseAttempts; lastByEnvironment: Map<number, AttemptCounts> } {
+    const byEnvironment = new Map<number, Map<number, AttemptCounts>>();
+    for (const run of runs) {
+        const attempts = byEnvironment.get(run.environmentId) ?? new Map<number, AttemptCounts>();
+        const counts = attempts.get(run.attempt) ?? noTests();
+        add(counts, { passedTestCount: run.passed, failedTestCount: run.failed, notRunTestCount: run.notRun });
+        attempts.set(run.attempt, counts);
+        byEnvironment.set(run.environmentId, attempts);
+    }
+
+    const first = noTests();
+    const last = noTests();
+    const worst = noTests();
+    const lastByEnvironment = new Map<number, AttemptCounts>();
+    let retried = false;
+    for (const [environmentId, attempts] of byEnvironment) {
+        const numbers = [...attempts.keys()].sort((a, b) => a - b);
+        const lastAttempt = attempts.get(numbers[numbers.length - 1])!;
+        add(first, attempts.get(numbers[0])!);
+        add(last, lastAttempt);
+        add(worst, [...attempts.values()].reduce((lowest, counts) =>
+            (attemptPassRate(counts) ?? 100) < (attemptPassRate(lowest) ?? 100) ? counts : lowest));
+        lastByEnvironment.set(environmentId, lastAttempt);
+        retried ||= numbers.length > 1;
+    }
+
+    return {
+        attempts: {
+            first,
+            last,
+            worst,
+            initialPassRate: attemptPassRate(first),
+            finalPassRate: attemptPassRate(last),
+            recoveredByRetry: Math.max(0, last.passedTestCount - first.passedTestCount),
+            retried
+        },
+        lastByEnvironment
+    };
+}
+
+/** The counts a release is judged on under the policy; its own (last attempt) counts without attempts */
+export function judgedAttemptCounts(release: Pick<Release, 'passedTestCount' | 'failedTestCount' | 'notRunTestCount' | 'attempts'>, policy: AttemptPolicy = DEFAULT_ATTEMPT_POLICY): Partial<AttemptCounts> {
+    if (!release.attempts || policy === 'last') {
+        return { passedTestCount: release.passedTestCount, failedTestCount: release.failedTestCount, notRunTestCount: release.notRunTestCount };
+    }
+    return release.attempts[policy];
+}
@@ -0,0 +1,40 @@
+/**
+ * Release environments: which ones a pipeline shows and scores, and the quality of each.
+ * Pipelines pick environments by name with `environments.include` and `environments.exclude`;
+ * without an exclude list the PTA environment is left out, as it exists for bookkeeping only.
+ */
+import type { ReleaseEnvironmentFilter } from '$lib/types/pipelineConfig';
+import { matchesWildcard } from './pipelineFilters';
+import { passRateVerdict, type ResolvedThresholds } from './statusScoring';
+
+export const DEFAULT_EXCLUDED_ENVIRONMENTS: readonly string[] = ['PTA'];
+
+export function isEnvironmentIncluded(name: string, filter?: ReleaseEnvironmentFilter | null): boolean {
+    const exclude = filter?.exclude ?? DEFAULT_EXCLUDED_ENVIRONMENTS;
+    if (exclude.some((pattern) => matchesWildcard(name, pattern))) return false;
+    return !filter?.include || filter.include.some((pattern) => matchesWildcard(name, pattern));
+}
+
+export function filterReleaseEnvironments<T extends { name: string }>(envs: T[] | null | undefined, filter?: ReleaseEnvironmentFilter | null): T[] {
+    return (envs ?? []).filter((env) => isEnvironmentIncluded(env.name, filter));
+}
+
+/** An environment's quality: its tests' pass rate once they ran, otherwise how the deployment went */
+export function getEnvironmentStatus(deployStatus: string, passed: number, failed: number, thresholds: ResolvedThresholds): string {
+    if (deployStatus === 'inProgress' || deployStatus === 'queued') return 'inProgress';
+    if (passed + failed > 0) return passRateVerdict(passed, passed + failed, thresholds).status;
+    switch (deployStatus) {
+        case 'succeeded':
+            return 'good';
+        case 'partiallySucceeded':
+            return 'ok';
+        case 'failed':
+        case 'rejected':
+            return 'bad';
+        case 'canceled':
+        case 'aborted':
+            return 'interrupted';
+        default:
+            return 'unknown';
+    }
+}
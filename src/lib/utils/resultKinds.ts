@@ -0,0 +1,52 @@
+/**
+ * What a route's answer amounts to, so the caches and the UI can treat them apart: `ok` has
+ * data, `empty` means nothing ran (`null`, `[]`, `{ buildId: null }`), and the two errors say
+ * whether asking again soon may help (`transientError`) or the configuration needs fixing
+ * (`configError`).
+ */
+export type ResultKind = 'ok' | 'empty' | 'transientError' | 'configError';
+
+export type ErrorResultKind = Extract<ResultKind, 'transientError' | 'configError'>;
+
+/** An answer that could not be computed; routes return it with a 200, like their data */
+export interface ErrorResult {
+    error: string;
+    kind: ErrorResultKind;
+}
+
+/** Azure DevOps failed or could not be reached; the next try may work */
+export function transientError(error: string): ErrorResult {
+    return { error, kind: 'transientError' };
+}
+
+/** Missing credentials or an invalid pipeline entry; nothing changes until the config does */
+export function configError(error: string): ErrorResult {
+    return { error, kind: 'configError' };
+}
+
+/** Errors cached before they had a kind count as transient */
+export function isErrorResult(answer: unknown): answer is { error: string; kind?: ErrorResultKind } {
+    return typeof answer === 'object' && answer !== null && !Array.isArray(answer) && 'error' in answer;
+}
+
+export function resultKind(answer: unknown): ResultKind {
+    if (answer === null || answer === undefined) return 'empty';
+    if (Array.isArray(answer)) return answer.length === 0 ? 'empty' : 'ok';
+    if (isErrorResult(answer)) return answer.kind === 'configError' ? 'configError' : 'transientError';
+    if (typeof answer === 'object' && 'buildId' in answer && answer.buildId === null) return 'empty';
+    return 'ok';
+}
+
+/** What a card without a run says about it, or null for one with data */
+export function resultKindLabel(kind: ResultKind | null | undefined): string | null {
+    switch (kind) {
+        case 'empty':
+            return 'No run scheduled';
+        case 'transientError':
+            return 'Failed to load; retrying shortly';
+        case 'configError':
+            return 'Failed to load; check the pipeline configuration';
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * Day snapshots: once a day is over and has settled, what the day routes answer for it is
+ * frozen into durable storage (see $lib/server/snapshots) under the route's cache key, so it
+ * outlives both the Redis TTLs and Azure DevOps retention. Only complete answers are frozen.
+ */
+import { addDaysToDateString, getTodayInTimeZone } from '$lib/utils/timezone';
+
+/** Whole days after a day ends before it is frozen, so runs that finish after midnight are in */
+export const SNAPSHOT_SETTLE_DAYS = 1;
+
+/** Most days one backfill request covers */
+export const MAX_SNAPSHOT_BACKFILL_DAYS = 400;
+
+/** The most recent day that is finalized in the zone */
+export function latestFinalizedDay(timeZone: string, now: Date = new Date()): string {
+    return addDaysToDateString(getTodayInTimeZone(timeZone, now), -(SNAPSHOT_SETTLE_DAYS + 1));
+}
+
+/** Whether a dashboard date is far enough in the past that its answers no longer change */
+export function isFinalizedDay(date: string, timeZone: string, now: Date = new Date()): boolean {
+    return date <= latestFinalizedDay(timeZone, now);
+}
+
+/**
+ * Whether an answer may be frozen: no error anywhere and nothing still running. Runs
+ * that are in progress on a finalized day are stuck, and may still finish.
+ */
+export function isFreezableAnswer(answer: unknown): boolean {
+    if (answer === null || typeof answer !== 'object') return true;
+    if (Array.isArray(answer)) return answer.every(isFreezableAnswer);
+    const record = answer as Record<string, unknown>;
+    if ('error' in record) return false;
+    if (record.status === 'inProgress' || record.quality === 'inProgress') return false;
+    return Object.values(record).every(isFreezableAnswer);
+}
+
+/** Every date from `from` to `to`, both included */
+export function snapshotDates(from: string, to: string): string[] {
+    const dates: string[] = [];
+    for (let date = from; date <= to; date = addDaysToDateString(date, 1)) dates.push(date);
+    return dates;
+}
@@ -0,0 +1,214 @@
+/**
+ * Status scoring: an ordered list of rules where the first one with a verdict decides a
+ * run's status. Build and release pipelines each have a default list (next to
+ * getBuildPipelineStatus and getReleasePipelineStatus); callers may pass their own.
+ * Pass rate thresholds are the dashboard defaults unless the pipeline's config entry
+ * overrides them, for the whole pipeline or for single test runs. A run with far fewer
+ * tests than the pipeline usually reports is incomplete, whatever its pass rate. Tests that
+ * did not run count as the pipeline's not-run policy says (see judgeTestCounts).
+ */
+import { getTestQuality, PIPELINE_ENV_NOT_STARTED_THRESHOLD, PIPELINE_MAX_NOT_RUN, PIPELINE_MIN_TEST_VOLUME, PIPELINE_TEST_THRESHOLDS } from '$lib/constants/thresholds';
+import type { NotRunPolicy, PipelineThresholds, TestThresholdOverrides } from '$lib/types/pipelineConfig';
+import { matchesWildcard } from './pipelineFilters';
+
+/** The most specific config level that set a threshold */
+export type ThresholdSource = 'default' | 'pipeline' | 'testRun';
+
+export interface ResolvedThresholds {
+    good: number;
+    ok: number;
+    envNotStarted: number;
+    source: ThresholdSource;
+    /** The `testRuns` key that matched, when source is 'testRun' */
+    testRun?: string;
+}
+
+export interface StatusVerdict {
+    status: string;
+    /** Why, in one sentence */
+    reason: string;
+    passRate?: number;
+}
+
+/** Why a status was chosen: the rule that decided, its reasoning and the thresholds in force */
+export interface StatusExplanation extends StatusVerdict {
+    rule: string;
+    thresholds: ResolvedThresholds;
+}
+
+/** How many tests a complete run reports, and the share of them a run must reach */
+export interface ExpectedTestVolume {
+    expected: number;
+    minShare: number;
+    /** 'config' for the pipeline's expectedTests, 'history' when learned from its recent runs */
+    source: 'config' | 'history';
+}
+
+/** The pipeline's not-run policy with its cap filled in */
+export interface ResolvedNotRunPolicy {
+    policy: NotRunPolicy;
+    /** Share (0-1) of all tests that may not run under the 'cap' policy */
+    maxShare: number;
+}
+
+/** Test counts as the not-run policy has them count */
+export interface JudgedTestCounts {
+    passed: number;
+    /** The tests the pass rate is over: passed and failed, plus not run under 'fail' */
+    total: number;
+    notRun: number;
+    /** Share (0-1) of all tests, not run included, that did not run */
+    notRunShare: number;
+    /** 'cap' only: more tests did not run than the policy allows */
+    capped: boolean;
+}
+
+export interface ScoringContext {
+    thresholds: ResolvedThresholds;
+    considerAutomationStatus: boolean;
+    /** Missing while the pipeline has no expectedTests and too little history */
+    testVolume?: ExpectedTestVolume | null;
+    /** Tests that did not run are ignored when missing */
+    notRun?: ResolvedNotRunPolicy;
+}
+
+export interface StatusRule<T> {
+    name: string;
+    /** A verdict, or null to leave the decision to the next rule */
+    evaluate: (subject: T, context: ScoringContext) => StatusVerdict | null;
+}
+
+/** testRuns override for a run: an exact name wins over the first matching wildcard */
+function findTestRunOverride(testRuns: Record<string, TestThresholdOverrides> | undefined, testRunName: string | undefined) {
+    if (!testRuns || !testRunName) return null;
+    if (testRuns[testRunName]) return { key: testRunName, override: testRuns[testRunName] };
+    const key = Object.keys(testRuns).find((pattern) => pattern.includes('*') && matchesWildcard(testRunName, pattern));
+    return key ? { key, override: testRuns[key] } : null;
+}
+
+/** Thresholds for a pipeline's run: defaults, then the pipeline's overrides, then its test run's */
+export function resolveThresholds(overrides?: PipelineThresholds | null, testRunName?: string): ResolvedThresholds {
+    const resolved: ResolvedThresholds = {
+        good: PIPELINE_TEST_THRESHOLDS.good,
+        ok: PIPELINE_TEST_THRESHOLDS.ok,
+        envNotStarted: PIPELINE_ENV_NOT_STARTED_THRESHOLD,
+        source: 'default'
+    };
+    if (!overrides) return resolved;
+
+    for (const key of ['good', 'ok', 'envNotStarted'] as const) {
+        if (overrides[key] !== undefined) {
+            resolved[key] = overrides[key];
+            resolved.source = 'pipeline';
+        }
+    }
+    const testRun = findTestRunOverride(overrides.testRuns, testRunName);
+    if (testRun) {
+        for (const key of ['good', 'ok'] as const) {
+            if (testRun.override[key] !== undefined) resolved[key] = testRun.override[key];
+        }
+        resolved.source = 'testRun';
+        resolved.testRun = testRun.key;
+    }
+    return resolved;
+}
+
+/** The volume a run is held to: the configured expectedTests, otherwise the learned one, if any */
+export function resolveTestVolume(
+    entry: { expectedTests?: number; thresholds?: PipelineThresholds | null } | null | undefined,
+    learned?: number | null
+): ExpectedTestVolume | null {
+    const minShare = entry?.thresholds?.minTestVolume ?? PIPELINE_MIN_TEST_VOLUME;
+    if (entry?.expectedTests) return { expected: entry.expectedTests, minShare, source: 'config' };
+    return learned ? { expected: learned, minShare, source: 'history' } : null;
+}
+
+export function resolveNotRunPolicy(overrides?: PipelineThresholds | null): ResolvedNotRunPolicy {
+    return { policy: overrides?.notRunPolicy ?? 'ignore', maxShare: overrides?.maxNotRun ?? PIPELINE_MAX_NOT_RUN };
+}
+
+/** Applies the not-run policy to a run's counts; tests that did not run only count under 'fail' */
+export function judgeTestCounts(passed: number, failed: number, notRun: number, notRunPolicy?: ResolvedNotRunPolicy | null): JudgedTestCounts {
+    const all = passed + failed + notRun;
+    const notRunShare = all > 0 ? notRun / all : 0;
+    const policy = notRunPolicy?.policy ?? 'ignore';
+    return {
+        passed,
+        total: policy === 'fail' ? all : passed + failed,
+        notRun,
+        notRunShare,
+        capped: policy === 'cap' && notRunShare > notRunPolicy!.maxShare
+    };
+}
+
+export function hasThresholdOverrides(thresholds: PipelineThresholds | null | undefined): thresholds is PipelineThresholds {
+    return !!thresholds && Object.keys(thresholds).length > 0;
+}
+
+/** Runs the rules in order; the first verdict wins, and a run no rule has a verdict on is unknown */
+export function scoreStatus<T>(rules: readonly StatusRule<T>[], subject: T, context: ScoringContext): StatusExplanation {
+    for (const rule of rules) {
+        const verdict = rule.evaluate(subject, context);
+        if (verdict) return { ...verdict, rule: rule.name, thresholds: context.thresholds };
+    }
+    return { status: 'unknown', reason: 'No rule applied', rule: 'none', thresholds: context.thresholds };
+}
+
+export function formatPercent(value: number): string {
+    return `${Math.round(value * 10) / 10}%`;
+}
+
+function describeSource(thresholds: ResolvedThresholds): string {
+    switch (thresholds.source) {
+        case 'testRun':
+            return `test run "${thresholds.testRun}" thresholds`;
+        case 'pipeline':
+            return 'pipeline thresholds';
+        default:
+            return 'default thresholds';
+    }
+}
+
+/** The shared pass rate rule: good, ok or bad against the thresholds in force */
+export function passRateVerdict(passed: number, total: number, thresholds: ResolvedThresholds): StatusVerdict {
+    const passRate = (passed / total) * 100;
+    const quality = getTestQuality(passRate, thresholds);
+    const bound = quality === 'good'
+        ? `at least ${thresholds.good}%`
+        : quality === 'ok'
+            ? `below ${thresholds.good}% but at least ${thresholds.ok}%`
+            : `below ${thresholds.ok}%`;
+    return {
+        status: quality,
+        passRate,
+        reason: `${passed} of ${total} tests passed (${formatPercent(passRate)}), ${bound} with the ${describeSource(thresholds)}`
+    };
+}
+
+/**
+ * The shared pass rate rule with tests that did not run: under 'fail' they are failures,
+ * under 'cap' a good run that left too many of them out is only ok. Null without tests to judge.
+ */
+export function testResultVerdict(passed: number, failed: number, notRun: number, thresholds: ResolvedThresholds, notRunPolicy?: ResolvedNotRunPolicy | null): StatusVerdict | null {
+    const counts = judgeTestCounts(passed, failed, notRun, notRunPolicy);
+    if (counts.total === 0) return null;
+    const verdict = passRateVerdict(counts.passed, counts.total, thresholds);
+    if (notRunPolicy?.policy === 'fail' && notRun > 0) {
+        verdict.reason += `, counting the ${notRun} that did not run as failed`;
+    }
+    if (counts.capped && verdict.status === 'good') {
+        verdict.status = 'ok';
+        verdict.reason += `, but ${notRun} of ${passed + failed + notRun} tests did not run (${formatPercent(counts.notRunShare * 100)}), more than ${formatPercent(notRunPolicy!.maxShare * 100)}`;
+    }
+    return verdict;
+}
+
+/** The shared test volume rule: incomplete when a finished run reports too few of its usual tests */
+export function testVolumeVerdict(totalTests: number, volume: ExpectedTestVolume | null | undefined): StatusVerdict | null {
+    if (!volume || totalTests >= volume.expected * volume.minShare) return null;
+    const usual = volume.source === 'config' ? 'expected' : 'usual';
+    return {
+        status: 'incomplete',
+        reason: `Only ${totalTests} of the ${usual} ${volume.expected} tests ran, below ${formatPercent(volume.minShare * 100)}`
+    };
+}
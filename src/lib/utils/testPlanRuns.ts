@@ -1,27 +1,13 @@
 import type { TestRun, TestRunGroup } from '$lib/types/testRuns';
+import type { AdoClient, AdoTestRun } from '$lib/server/ado';
 
-export type AzureEnv = {
-    organization: string;
-    project: string;
-    pat: string;
-};
-
-function encodePat(pat: string) {
-    if (typeof btoa !== 'undefined') {
-        return btoa(':' + pat);
-    }
-
-    // Node fallback
-    if (typeof Buffer !== 'undefined') {
-        return Buffer.from(':' + pat).toString('base64');
-    }
-
-    throw new Error('No base64 encoder available for PAT');
-}
-
-export async function fetchTestRunsForPlan(azureEnv: AzureEnv, testPlanId: string, fromDate: Date, toDate: Date) {
+/**
+ * Fetches every test run of a plan between the two dates.
+ * The runs query API only accepts windows of up to 7 days, so the range is walked week by week.
+ */
+export async function fetchTestRunsForPlan(ado: AdoClient, testPlanId: string, fromDate: Date, toDate: Date) {
     if (!testPlanId) throw new Error('testPlanId is required');
-    const allRuns: any[] = [];
+    const allRuns: AdoTestRun[] = [];
     const now = toDate;
     let currentStart = new Date(fromDate);
 
@@ -36,37 +22,12 @@ export async function fetchTestRunsForPlan(azureEnv: AzureEnv, testPlanId: strin
 
         if (currentEnd > now) currentEnd.setTime(now.getTime());
 
-        const minLastUpdatedDate = currentStart.toISOString();
-        const maxLastUpdatedDate = currentEnd.toISOString();
-
-        let continuationToken: string | null = null;
-
-        do {
-            let runsUrl = `https://dev.azure.com/${azureEnv.organization}/${azureEnv.project}/_apis/test/runs?planIds=${testPlanId}&minLastUpdatedDate=${encodeURIComponent(minLastUpdatedDate)}&maxLastUpdatedDate=${encodeURIComponent(maxLastUpdatedDate)}&api-version=7.1`;
-            if (continuationToken) {
-                runsUrl += `&continuationToken=${encodeURIComponent(continuationToken)}`;
-            }
-
-            const runsRes = await fetch(runsUrl, {
-                headers: {
-                    'Authorization': `Basic ${encodePat(azureEnv.pat)}`,
-                    'Content-Type': 'application/json',
-                },
-            });
-
-            if (!runsRes.ok) {
-                const errorText = await runsRes.text();
-                throw new Error(`Azure DevOps fetch error: ${errorText}`);
-            }
-
-            const runsData = await runsRes.json();
-
-            if (Array.isArray(runsData.value)) {
-                allRuns.push(...runsData.value);
-            }
-
-            continuationToken = runsRes.headers.get('x-ms-continuationtoken') || runsData.continuationToken || null;
-        } while (continuationToken);
+        const runs = await ado.listTestRuns({
+            planIds: testPlanId,
+            minLastUpdatedDate: currentStart.toISOString(),
+            maxLastUpdatedDate: currentEnd.toISOString()
+        });
+        allRuns.push(...runs);
 
         // Advance start to the next day after currentEnd to avoid overlap
         currentStart = new Date(currentEnd);
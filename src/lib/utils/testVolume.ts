@@ -0,0 +1,60 @@
+/**
+ * Learned test volume: how many tests a pipeline's runs usually report, from the totals
+ * of its recent finished runs. The construct routes record every finished run's total
+ * and hold each new run to the median of the days before it, so a suite that quietly
+ * shrinks to a fraction of its size shows up as incomplete instead of good.
+ */
+import { connectionScopedId } from './connections';
+
+// Days of totals kept per run, and how many it takes before they are trusted
+export const TEST_VOLUME_HISTORY_DAYS = 14;
+export const TEST_VOLUME_MIN_SAMPLES = 3;
+
+/** A pipeline's runs, per test run name for builds that report several */
+export type TestVolumeSubject = {
+    kind: 'build' | 'release';
+    definitionId: string | number;
+    connection?: string | null;
+    testRunName?: string;
+};
+
+/** Test totals by the (UTC) day the run started */
+export type TestVolumeSamples = Record<string, number>;
+
+/** A Redis hash of the subject's totals by day, so instances recording at once each add their own day */
+export function testVolumeKey(subject: TestVolumeSubject): string {
+    return `testvolume:days:${subject.kind}:${connectionScopedId(subject.definitionId, subject.connection)}:${subject.testRunName ?? ''}`;
+}
+
+/** The day a run's total is recorded under */
+export function testVolumeDay(startTime: string | undefined): string {
+    const start = startTime ? new Date(startTime) : new Date();
+    return (Number.isNaN(start.getTime()) ? new Date() : start).toISOString().slice(0, 10);
+}
+
+/** Median total of the days before `day`; null until there are TEST_VOLUME_MIN_SAMPLES of them */
+export function typicalTestVolume(samples: TestVolumeSamples, day: string): number | null {
+    const totals = Object.entries(samples)
+        .filter(([sampleDay]) => sampleDay < day)
+        .map(([, total]) => total)
+        .sort((a, b) => a - b);
+    if (totals.length < TEST_VOLUME_MIN_SAMPLES) return null;
+    const middle = Math.floor(totals.length / 2);
+    return totals.length % 2 === 1 ? totals[middle] : Math.round((totals[middle - 1] + totals[middle]) / 2);
+}
+
+/** The days older than the latest TEST_VOLUME_HISTORY_DAYS, which are dropped */
+export function expiredTestVolumeDays(samples: TestVolumeSamples): string[] {
+    return Object.keys(samples).sort().slice(0, -TEST_VOLUME_HISTORY_DAYS);
+}
+
+/** Where learned test volumes come from; construct helpers take one so they need no Redis themselves */
+export interface TestVolumeHistory {
+    /** The learned volume of a run started on `day`; null without enough history */
+    learned(subject: TestVolumeSubject, day: string): Promise<number | null>;
+    /** Records a finished run's total */
+    record(subject: TestVolumeSubject, day: string, total: number): Promise<void>;
+}
+
+/** A history and the runs to look up in it */
+export type TestVolumeLearning = { history: TestVolumeHistory; subject: TestVolumeSubject };
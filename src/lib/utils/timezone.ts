@@ -0,0 +1,146 @@
+/**
+ * "Dashboard day" helpers. A dashboard date (YYYY-MM-DD) is a calendar day in one
+ * IANA time zone, shared by the server day-boundary logic and the client views.
+ * Everything here goes through Intl so DST transitions are handled by the platform.
+ */
+
+/** Used when neither the user nor PUBLIC_DASHBOARD_TIMEZONE picks a zone */
+export const DEFAULT_DASHBOARD_TIMEZONE = 'America/Chicago';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit'
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+    if (typeof timeZone !== 'string' || timeZone.trim() === '') return false;
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Returns the first valid candidate, falling back to DEFAULT_DASHBOARD_TIMEZONE */
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+    return candidates.find(isValidTimeZone) ?? DEFAULT_DASHBOARD_TIMEZONE;
+}
+
+type ZonedParts = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(instant)) {
+        if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    }
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+        second: parts.second
+    };
+}
+
+/** Offset of the zone from UTC at the given instant, in ms (negative west of Greenwich) */
+export function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+    const p = getZonedParts(instant, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/** The calendar date (YYYY-MM-DD) the instant falls on in the zone */
+export function getDateStringInTimeZone(instant: Date, timeZone: string): string {
+    const p = getZonedParts(instant, timeZone);
+    return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+export function getTodayInTimeZone(timeZone: string, now: Date = new Date()): string {
+    return getDateStringInTimeZone(now, timeZone);
+}
+
+/**
+ * The instant at which a wall-clock time on a dashboard date occurs in the zone.
+ * The offset is re-checked once so times right after a DST switch land correctly.
+ */
+export function zonedTimeToUtc(dateStr: string, timeZone: string, time = '00:00:00'): Date {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const [hour = 0, minute = 0, second = 0] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    const firstGuess = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+    const offset = getTimeZoneOffsetMs(new Date(firstGuess), timeZone);
+    return new Date(wallClock - offset);
+}
+
+/** Shifts a YYYY-MM-DD string by whole calendar days */
+export function addDaysToDateString(dateStr: string, days: number): string {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+/**
+ * [start, end) of a dashboard date in the zone. Spans 23 or 25 hours on DST days.
+ */
+export function getDayWindow(dateStr: string, timeZone: string): { start: Date; end: Date } {
+    return {
+        start: zonedTimeToUtc(dateStr, timeZone),
+        end: zonedTimeToUtc(addDaysToDateString(dateStr, 1), timeZone)
+    };
+}
+
+//#region Azure DevOps query windows
+
+/** Slack added around a day when asking Azure DevOps for runs; results are filtered exactly afterwards */
+export const QUERY_WINDOW_PADDING_MS = 6 * 60 * 60 * 1000;
+
+/** How long after a run starts its test runs are still looked up */
+export const TEST_RUN_LOOKUP_DAYS = 5;
+
+/** Padded UTC range covering a dashboard date, for minTime/maxTime style filters */
+export function getDayQueryWindow(dateStr: string, timeZone: string): { minTime: string; maxTime: string } {
+    const { start, end } = getDayWindow(dateStr, timeZone);
+    return {
+        minTime: new Date(start.getTime() - QUERY_WINDOW_PADDING_MS).toISOString(),
+        maxTime: new Date(end.getTime() + QUERY_WINDOW_PADDING_MS).toISOString()
+    };
+}
+
+/** Range for runs still in progress on a dashboard date: they may have started the day before */
+export function getInProgressQueryWindow(dateStr: string, timeZone: string): { minTime: string; maxTime: string } {
+    const { end } = getDayWindow(dateStr, timeZone);
+    const { start } = getDayWindow(addDaysToDateString(dateStr, -1), timeZone);
+    return { minTime: start.toISOString(), maxTime: end.toISOString() };
+}
+
+/** lastUpdated range for test runs belonging to a run that started at `startedAt` */
+export function getTestRunLookupWindow(startedAt: Date): { minLastUpdatedDate: string; maxLastUpdatedDate: string } {
+    return {
+        minLastUpdatedDate: startedAt.toISOString(),
+        maxLastUpdatedDate: new Date(startedAt.getTime() + TEST_RUN_LOOKUP_DAYS * MS_PER_DAY).toISOString()
+    };
+}
+
+export function isOnDashboardDate(instant: string | Date, dateStr: string, timeZone: string): boolean {
+    return getDateStringInTimeZone(new Date(instant), timeZone) === dateStr;
+}
+//#endregion
@@ -0,0 +1,11 @@
+import type { LayoutServerLoad } from './$types';
+import { getPipelineConfigService } from '$lib/server/pipelineConfig';
+
+export const load: LayoutServerLoad = async () => {
+    try {
+        return { pipelineConfig: await getPipelineConfigService().getActive('daily') };
+    } catch {
+        // The dashboard falls back to PUBLIC_AZURE_PIPELINE_CONFIG and reports what is wrong with it
+        return { pipelineConfig: null };
+    }
+};
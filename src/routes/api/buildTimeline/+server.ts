@@ -1,7 +1,11 @@
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { getAzureDevOpsEnvVars } from '$lib/utils';
+import { getAdoClient, isThrottlingError, throttledResponse, type AdoClient, type AdoTimeline, type AdoTimelineRecord } from '$lib/server/ado';
 import { getOrSetDailyTestCache } from '$lib/utils/dailyTestCache';
+import { timelineTtlSeconds } from '$lib/utils/cachePolicy';
+import { connectionScopedId } from '$lib/utils/connections';
+import { getRequestConnection } from '$lib/server/connection';
+import { getBuildFailure } from '$lib/server/buildFailures';
 
 function mapTimelineState(state: string, result: string | null): string {
     if (state === 'inProgress') return 'inProgress';
@@ -21,31 +25,33 @@ export async function GET({ url }: { url: URL }) {
     if (!buildId || !/^\d+$/.test(buildId)) {
         return json({ error: 'Invalid or missing buildId (numeric string required)' }, { status: 400 });
     }
+    const connection = getRequestConnection(url);
+    if (!connection) {
+        return json({ error: 'Unknown connection (not defined in AZURE_DEVOPS_CONNECTIONS)' }, { status: 400 });
+    }
 
-    const cacheKey = `buildTimeline:${buildId}`;
+    const cacheKey = `buildTimeline:${connectionScopedId(buildId, connection)}`;
     const data = await getOrSetDailyTestCache(cacheKey, async () => {
-        let organization: string, project: string, pat: string;
+        let ado: AdoClient;
         try {
-            const envVars = getAzureDevOpsEnvVars(env);
-            organization = envVars.AZURE_DEVOPS_ORGANIZATION;
-            project = envVars.AZURE_DEVOPS_PROJECT;
-            pat = envVars.AZURE_DEVOPS_PAT;
+            ado = getAdoClient(env, { connection });
         } catch {
-            return { stages: [] };
+            return { stages: [], failure: null, completed: false };
         }
 
-        const res = await fetch(
-            `https://dev.azure.com/${organization}/${project}/_apis/build/builds/${buildId}/timeline?api-version=7.1`,
-            { headers: { Authorization: `Basic ${Buffer.from(`:${pat}`).toString('base64')}` } }
-        );
-        if (!res.ok) return { stages: [] };
+        let timeline: AdoTimeline;
+        try {
+            timeline = await ado.getBuildTimeline(buildId);
+        } catch (e) {
+            if (isThrottlingError(e)) throw e;
+            return { stages: [], failure: null, completed: false };
+        }
 
-        const timeline = await res.json();
-        const allRecords = (timeline.records ?? [])
-            .filter((r: any) => r.type === 'Stage' || r.type === 'Phase');
+        const allRecords = (timeline?.records ?? [])
+            .filter((r) => r.type === 'Stage' || r.type === 'Phase');
 
         // Group by order+name to collapse retries into a single stage entry
-        const groups = new Map<string, any[]>();
+        const groups = new Map<string, AdoTimelineRecord[]>();
         for (const r of allRecords) {
             const key = `${String(r.order ?? 999).padStart(4, '0')}:${r.name}`;
             if (!groups.has(key)) groups.set(key, []);
@@ -55,9 +61,9 @@ export async function GET({ url }: { url: URL }) {
         const stages = [...groups.entries()]
             .sort(([a], [b]) => a.localeCompare(b))
             .map(([_, recs]) => {
-                const latest = recs.reduce((a: any, b: any) =>
+                const latest = recs.reduce((a, b) =>
                     (a.attempt ?? 1) >= (b.attempt ?? 1) ? a : b);
-                const totalAttempts = Math.max(...recs.map((r: any) => r.attempt ?? 1));
+                const totalAttempts = Math.max(...recs.map((r) => r.attempt ?? 1));
                 return {
                     name: latest.name,
                     status: mapTimelineState(latest.state, latest.result ?? null),
@@ -67,8 +73,18 @@ export async function GET({ url }: { url: URL }) {
                 };
             });
 
-        return { stages };
-    }, 30);
+        // Why the build failed, from the same timeline; null while nothing failed
+        const failure = await getBuildFailure(ado, buildId, timeline);
+
+        // Cached for as long as the build can still change (see timelineTtlSeconds)
+        const completed = allRecords.length > 0 && allRecords.every((r) => r.state === 'completed');
+
+        return { stages, failure, completed };
+    }, timelineTtlSeconds).catch((e) => {
+        if (isThrottlingError(e)) return e;
+        throw e;
+    });
+    if (isThrottlingError(data)) return throttledResponse(data);
 
     return json(data);
 }
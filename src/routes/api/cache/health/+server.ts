@@ -0,0 +1,20 @@
+// Reports the cache tiers: { healthy, redis, local, metrics }. redis is the state of its circuit breaker after a PING
+// (closed, open while commands fail fast, halfOpen while a trial command may go through), local the in-process tier
+// and metrics the counters of /api/cache/metrics. 503 while Redis is unreachable, when each instance caches in memory only
+
+import { json } from '@sveltejs/kit';
+import redis, { redisBreaker } from '$lib/utils/redisClient';
+import { getCacheMetrics, getLocalCacheStats } from '$lib/utils/dailyTestCache';
+
+export async function GET() {
+    // A PING goes through the breaker too, so an idle instance notices Redis coming back
+    const ping = await redis.ping().then(() => null, (e) => (e instanceof Error ? e.message : String(e)));
+    const status = redisBreaker.status();
+    const healthy = ping === null && status.state === 'closed';
+    return json({
+        healthy,
+        redis: { ...status, ping: ping ?? 'PONG' },
+        local: getLocalCacheStats(),
+        metrics: getCacheMetrics()
+    }, { status: healthy ? 200 : 503 });
+}
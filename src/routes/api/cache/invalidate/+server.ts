@@ -0,0 +1,81 @@
+// Invalidates cached answers in Redis, by namespace pattern, with SCAN (never FLUSHALL)
+// POST { patterns?: string[], keys?: string[], dryRun?: boolean }: patterns are Redis globs in a cache namespace
+// (dayquality:*, build:2026-10-*), keys exact cache keys. dryRun counts the matching keys without deleting them
+// Without Authorization: Bearer <CACHE_ADMIN_TOKEN> only the recent days' answers can be invalidated (see recentCacheDates),
+// which is all the dashboard's refresh buttons need. Every request is written to the log (see auditCacheAdmin)
+
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import redis from '$lib/utils/redisClient';
+import {
+    auditCacheAdmin,
+    cacheAdminRole,
+    cachePatternProblem,
+    escapeCachePattern,
+    globToRegExp,
+    invalidateCachePattern
+} from '$lib/server/cacheAdmin';
+import { forgetLocalCache } from '$lib/utils/dailyTestCache';
+
+// Enough for a refresh of every configured pipeline
+const MAX_PATTERNS = 200;
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string' && item !== '');
+}
+
+export async function POST({ request, getClientAddress }: { request: Request; getClientAddress: () => string }) {
+    let body: { patterns?: unknown; keys?: unknown; dryRun?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+    const patterns = body.patterns ?? [];
+    const keys = body.keys ?? [];
+    if (!isStringArray(patterns) || !isStringArray(keys) || patterns.length + keys.length === 0) {
+        return json({ error: 'Expected patterns or keys (non-empty strings)' }, { status: 400 });
+    }
+    if (patterns.length + keys.length > MAX_PATTERNS) {
+        return json({ error: `At most ${MAX_PATTERNS} patterns and keys per request` }, { status: 400 });
+    }
+
+    const role = cacheAdminRole(request, env.CACHE_ADMIN_TOKEN);
+    const dryRun = body.dryRun === true;
+    const requested = [...patterns, ...keys];
+    const audit = { role, client: getClientAddress(), patterns: requested, dryRun, matched: 0, deleted: 0 };
+
+    // Keys are checked as they are; their glob characters are escaped only for the SCAN
+    const issues = requested
+        .map((pattern) => ({ pattern, problem: cachePatternProblem(pattern, role) }))
+        .filter((issue): issue is { pattern: string; problem: string } => issue.problem !== null)
+        .map(({ pattern, problem }) => `${pattern}: ${problem}`);
+    if (issues.length > 0) {
+        auditCacheAdmin({ ...audit, refused: issues.join('; ') });
+        return json({ error: 'Not allowed to invalidate these patterns', issues }, { status: role === 'admin' ? 400 : 403 });
+    }
+
+    const results: Array<{ pattern: string; matched: number; deleted: number }> = [];
+    try {
+        for (const pattern of [...patterns, ...keys.map(escapeCachePattern)]) {
+            // This instance's copies go even when Redis is unreachable; other instances' expire within seconds
+            if (!dryRun) forgetLocalCache(globToRegExp(pattern));
+            results.push({ pattern, ...await invalidateCachePattern(redis, pattern, dryRun) });
+        }
+    } catch (e) {
+        console.error('[cacheAdmin] Invalidation failed:', e);
+        auditCacheAdmin({ ...audit, ...totals(results), error: e instanceof Error ? e.message : String(e) });
+        return json({ error: 'Failed to invalidate the cache', results }, { status: 500 });
+    }
+
+    const { matched, deleted } = totals(results);
+    auditCacheAdmin({ ...audit, matched, deleted });
+    return json({ success: true, dryRun, matched, deleted, results });
+}
+
+function totals(results: Array<{ matched: number; deleted: number }>): { matched: number; deleted: number } {
+    return {
+        matched: results.reduce((sum, r) => sum + r.matched, 0),
+        deleted: results.reduce((sum, r) => sum + r.deleted, 0)
+    };
+}
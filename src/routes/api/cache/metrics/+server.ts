@@ -0,0 +1,10 @@
+// Returns this instance's cache counters since it started: { hits, misses, staleServes, lockWaits, refreshes, refreshFailures }
+// staleServes are expired answers served while one request refreshes them, lockWaits misses that waited for
+// another request (or instance) computing the same key (see getOrSetDailyTestCache). Counters are per instance
+
+import { json } from '@sveltejs/kit';
+import { getCacheMetrics } from '$lib/utils/dailyTestCache';
+
+export async function GET() {
+    return json(getCacheMetrics());
+}
@@ -1,16 +1,42 @@
 // This API should take in a date and a build definition ID
-// It should then first find the correct build ID for that date and definition
+// Optional branches, reasons and tags query params narrow which runs count (trunk + schedule by default)
+// Optional connection query param names the Azure DevOps connection the definition lives in
+// Statuses are scored with the thresholds the pipeline config sets for that definition, if any
+// A test run with far fewer tests than usual (expectedTests, or learned from recent runs) is incomplete
+// A failed or canceled build gets a failure category from its timeline and log (see $lib/utils/buildFailures)
+// Finalized days are answered from their snapshot, and frozen on first complete answer (see $lib/server/snapshots)
+// It should then first find the correct build ID for that date and definition, one per matching branch
 // Then it should fetch the build details and construct a build object
 // Then it should call into the test runs api and aggregate test results for the build
 // It should then return the build object with test results included
 
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { getAzureDevOpsEnvVars } from '$lib/utils';
+import { getAdoClient, isAdoRequestError, isThrottlingError, throttledResponse, type AdoBuild, type AdoClient, type AdoTestRun } from '$lib/server/ado';
 import type { Build } from '$lib/types/build';
 
-import { getBuildPipelineStatus } from '$lib/utils/getBuildPipelineStatus';
-import { getOrSetDailyTestCache, shortenDailyTestCacheTtl } from '$lib/utils/dailyTestCache';
+import { explainBuildPipelineStatus } from '$lib/utils/getBuildPipelineStatus';
+import { getOrSetDailyTestCache } from '$lib/utils/dailyTestCache';
+import { dayAnswerTtlSeconds } from '$lib/utils/cachePolicy';
+import { configError, transientError, type ErrorResult } from '$lib/utils/resultKinds';
+import { getDaySnapshotService } from '$lib/server/snapshots';
+import { buildCacheKey } from '$lib/utils/cacheKeys';
+import { hasBranchWildcard, matchesBuildFilters, parseBuildFilters, shortBranchName, type BuildFilters } from '$lib/utils/pipelineFilters';
+import { getRequestTimeZone } from '$lib/server/timezone';
+import { getRequestConnection } from '$lib/server/connection';
+import { getRequestPipeline } from '$lib/server/requestPipeline';
+import { redisTestVolumeHistory } from '$lib/server/testVolume';
+import { getBuildFailure } from '$lib/server/buildFailures';
+import type { PipelineEntry } from '$lib/types/pipelineConfig';
+import { resolveTestVolume } from '$lib/utils/statusScoring';
+import { testVolumeDay, type TestVolumeSubject } from '$lib/utils/testVolume';
+import {
+    getDayQueryWindow,
+    getInProgressQueryWindow,
+    getTestRunLookupWindow,
+    getTodayInTimeZone,
+    isOnDashboardDate
+} from '$lib/utils/timezone';
 
 export async function GET({ url }: { url: URL }) {
     const date = url.searchParams.get('date');
@@ -23,227 +49,191 @@ export async function GET({ url }: { url: URL }) {
     if (!buildDefinitionId || typeof buildDefinitionId !== 'string' || !/^\d+$/.test(buildDefinitionId)) {
         return json({ error: 'Missing or invalid buildDefinitionId (numeric string required)' }, { status: 400 });
     }
+    const timeZone = getRequestTimeZone(url);
+    if (!timeZone) {
+        return json({ error: 'Invalid tz (IANA time zone required)' }, { status: 400 });
+    }
+    let filters: BuildFilters;
+    try {
+        filters = parseBuildFilters(url.searchParams);
+    } catch (e: any) {
+        return json({ error: e.message }, { status: 400 });
+    }
+    const connection = getRequestConnection(url);
+    if (!connection) {
+        return json({ error: 'Unknown connection (not defined in AZURE_DEVOPS_CONNECTIONS)' }, { status: 400 });
+    }
+
+    const pipeline = await getRequestPipeline({ kind: 'build', id: buildDefinitionId, connection, filters });
+    const scoring: BuildScoringConfig = { thresholds: pipeline?.thresholds, expectedTests: pipeline?.expectedTests };
 
-    // Use a cache key based on date and buildDefinitionId
-    const cacheKey = `build:${date}:${buildDefinitionId}`;
+    // The same date means a different day in another time zone, so it is part of the key
+    const cacheKey = buildCacheKey(date, buildDefinitionId, timeZone, filters, connection, scoring.thresholds, scoring.expectedTests);
 
-    // Always return a Response object
-    const data = await getOrSetDailyTestCache(cacheKey, async () => {
-        let organization, project, pat;
+    // Always return a Response object. Throttling errors escape the fetch function so they are never cached
+    const data = await getDaySnapshotService().getOrFreeze(cacheKey, date, timeZone, () => getOrSetDailyTestCache(cacheKey, async () => {
+        let ado: AdoClient;
         try {
-            const envVars = getAzureDevOpsEnvVars(env);
-            organization = envVars.AZURE_DEVOPS_ORGANIZATION;
-            project = envVars.AZURE_DEVOPS_PROJECT;
-            pat = envVars.AZURE_DEVOPS_PAT;
+            ado = getAdoClient(env, { connection });
         } catch (e: any) {
-            return { error: 'Missing Azure DevOps environment variables' };
-        }
-        if (!organization || !project || !pat) {
-            return { error: 'Missing Azure DevOps environment variables' };
+            return configError('Missing Azure DevOps environment variables');
         }
 
-        // ...existing code...
-
-        //#region First step is to get the correct build ID given the date and definition ID
-        let buildId: number;
+        //#region First step is to find the run(s) for the date: the latest one per matching branch
+        let selectedBuilds: AdoBuild[];
         try {
-            // Account for timezone offset - expand search to cover UTC range for the CST date
-            // CST is UTC-6, so a day in CST spans from 6:00 UTC of that day to 6:00 UTC of next day
-            const queryDate = new Date(`${date}T00:00:00Z`);
-            const startDate = new Date(queryDate.getTime() - 6 * 60 * 60 * 1000); // Start 6 hours earlier (previous day in CST)
-            const endDate = new Date(queryDate.getTime() + 30 * 60 * 60 * 1000); // End 30 hours later (covers whole CST day + buffer)
-            
-            const minTime = startDate.toISOString();
-            const maxTime = endDate.toISOString();
-        
-            const branchName = 'refs/heads/trunk'; // or your desired branch
-        const apiUrl = `https://dev.azure.com/${organization}/${project}/_apis/build/builds?definitions=${buildDefinitionId}&minTime=${encodeURIComponent(minTime)}&maxTime=${encodeURIComponent(maxTime)}&queryOrder=finishTimeDescending&$top=100&branchName=${encodeURIComponent(branchName)}&api-version=7.1`;
-
-        const res = await fetch(apiUrl, {
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Basic ${Buffer.from(`:${pat}`).toString('base64')}`
-            }
-        });
-
-        if (!res.ok) {
-            throw new Error(`Failed to fetch builds: ${res.status} ${res.statusText}`);
-        }
+            // Padded UTC range around the dashboard day; builds are matched exactly below
+            const { minTime, maxTime } = getDayQueryWindow(date, timeZone);
+            const listQuery = toBuildListQuery(buildDefinitionId, filters);
 
-        const data = await res.json();
-        var allBuilds = data.value as any[];
-
-        //Filter to only scheduled builds
-        allBuilds = allBuilds.filter(build => {
-            return build.reason === 'schedule';
-        });
-        
-        // Filter builds to only include those that completed on the target Central Time date
-        var builds = allBuilds.filter(build => {
-            if (!build.finishTime) return false; // Only completed builds
-            
-            // Convert UTC finish time to Central Time properly
-            const finishTimeUTC = new Date(build.finishTime);
-            
-            // Use Intl.DateTimeFormat to get the date in Central Time
-            const centralFormatter = new Intl.DateTimeFormat('en-CA', {
-                timeZone: 'America/Chicago',
-                year: 'numeric',
-                month: '2-digit',
-                day: '2-digit'
-            });
-            const finishDateCentral = centralFormatter.format(finishTimeUTC);
-            
-            // Also format the time for logging
-            const centralTimeFormatter = new Intl.DateTimeFormat('en-US', {
-                timeZone: 'America/Chicago',
-                hour12: false,
-                hour: '2-digit',
-                minute: '2-digit',
-                second: '2-digit'
+            // Azure DevOps filters what it can; the rest (wildcard branches) is matched here
+            var allBuilds = await ado.listBuilds({
+                ...listQuery,
+                minTime,
+                maxTime,
+                queryOrder: 'finishTimeDescending',
+                top: 100
             });
-            const finishTimeCentralStr = centralTimeFormatter.format(finishTimeUTC);
-            
-            const isMatch = finishDateCentral === date;
-                                    
-            return isMatch;
-        }) as Build[];
-
-        // If no completed builds found and the day is today (in Central Time), check for in-progress builds
-        const now = new Date();
-        const todayUTC = now.toISOString();
-        // Convert to Central Time (accounting for CDT/CST automatically)
-        const todayCentralFormatter = new Intl.DateTimeFormat('en-CA', {
-            timeZone: 'America/Chicago',
-            year: 'numeric',
-            month: '2-digit',
-            day: '2-digit'
-        });
-        const todayCentralStr = todayCentralFormatter.format(now);
-        
+            allBuilds = allBuilds.filter(build => matchesBuildFilters(build, filters));
 
-        if ((!builds || builds.length === 0) && date === todayCentralStr) {
-            // For in-progress builds, look for builds that started on the target Central Time day
-            // Look for builds that started on the target day or the day before (to catch edge cases)
-            const centralStartDate = new Date(date + 'T00:00:00');
-            const centralEndDate = new Date(date + 'T23:59:59');
-            const centralStartDatePrev = new Date(centralStartDate);
-            centralStartDatePrev.setDate(centralStartDatePrev.getDate() - 1); // Previous day
-
-            const utcMinTime = centralStartDatePrev.toISOString();
-            const utcMaxTime = centralEndDate.toISOString();
-            
-            const apiUrl = `https://dev.azure.com/${organization}/${project}/_apis/build/builds?definitions=${buildDefinitionId}&minTime=${encodeURIComponent(utcMinTime)}&maxTime=${encodeURIComponent(utcMaxTime)}&queryOrder=startTimeDescending&$top=10&branchName=${encodeURIComponent(branchName)}&api-version=7.1`;
-            const res = await fetch(apiUrl, {
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Basic ${Buffer.from(`:${pat}`).toString('base64')}`
-                }
+            // Filter builds to only include those that completed on the target dashboard date
+            var builds = allBuilds.filter(build => {
+                if (!build.finishTime) return false; // Only completed builds
+                return isOnDashboardDate(build.finishTime, date, timeZone);
             });
 
-            if (!res.ok) {
-                throw new Error(`Failed to fetch builds: ${res.status} ${res.statusText}`);
+            // Today (in the dashboard time zone), matching branches without a completed build show the build still running on them
+            if (date === getTodayInTimeZone(timeZone) && !everyBranchCompleted(builds, filters)) {
+                // In-progress builds may have started the day before, so look back one extra day
+                const inProgressWindow = getInProgressQueryWindow(date, timeZone);
+
+                const recentBuilds = await ado.listBuilds({
+                    ...listQuery,
+                    minTime: inProgressWindow.minTime,
+                    maxTime: inProgressWindow.maxTime,
+                    queryOrder: 'startTimeDescending',
+                    top: 10
+                });
+                const completedBranches = new Set(builds.map(build => build.sourceBranch ?? ''));
+                const running = recentBuilds.filter(build =>
+                    build.status === 'inProgress' && matchesBuildFilters(build, filters) && !completedBranches.has(build.sourceBranch ?? '')
+                );
+                builds = [...builds, ...running];
             }
 
-            const data = await res.json();
-            const inProgressBuilds = (data.value as any[]).filter(build => build.status === 'inProgress');
-            builds = inProgressBuilds as Build[];
+            // Builds come newest first, so the first one seen for a branch is the one we want
+            selectedBuilds = latestPerBranch(builds);
+            if (selectedBuilds.length === 0) {
+                return { buildId: null, message: 'No build found for this day' };
+            }
+        } catch (error) {
+            if (isThrottlingError(error)) throw error;
+            return transientError('Failed to fetch build ID');
         }
+        //#endregion
 
-        // The build with the latest startTime on that day is the one we want
-        const latestBuild = builds[0];
-        if (!latestBuild) {
-            return { buildId: null, message: 'No build found for this day' };
+        const buildsToReturn: Build[] = [];
+        for (const selected of selectedBuilds) {
+            const constructed = await constructBuilds(ado, selected.id, buildDefinitionId, connection, scoring);
+            if ('error' in constructed) return constructed;
+            buildsToReturn.push(...constructed);
         }
-        buildId = latestBuild.id;
-    } catch (error) {
-        return { error: 'Failed to fetch build ID' };
+        return buildsToReturn;
+    }, (answer) => dayAnswerTtlSeconds(answer, date, timeZone))).catch((e) => {
+        if (isThrottlingError(e)) return e;
+        throw e;
+    });
+    if (isThrottlingError(data)) return throttledResponse(data);
+
+    return json(data);
+}
+// A single wildcard-free branch can be filtered by Azure DevOps itself
+function toBuildListQuery(buildDefinitionId: string, filters: BuildFilters) {
+    return {
+        definitions: buildDefinitionId,
+        branchName: filters.branches.length === 1 && !hasBranchWildcard(filters) ? filters.branches[0] : undefined,
+        reasonFilter: filters.reasons.join(','),
+        tagFilters: filters.tags.length > 0 ? filters.tags.join(',') : undefined
+    };
+}
+
+// Wildcard patterns may match branches nothing completed on, so those always need the running builds looked up
+function everyBranchCompleted(builds: AdoBuild[], filters: BuildFilters): boolean {
+    if (hasBranchWildcard(filters)) return false;
+    const completed = new Set(builds.map(build => build.sourceBranch));
+    return filters.branches.every(branch => completed.has(branch));
+}
+
+function latestPerBranch(builds: AdoBuild[]): AdoBuild[] {
+    const byBranch = new Map<string, AdoBuild>();
+    for (const build of builds) {
+        const branch = build.sourceBranch ?? '';
+        if (!byBranch.has(branch)) byBranch.set(branch, build);
     }
-    //#endregion
+    return [...byBranch.values()];
+}
+
+type BuildScoringConfig = Pick<PipelineEntry, 'thresholds' | 'expectedTests'>;
 
+// Builds one entry per test run of the given build (or a single entry when it has none)
+async function constructBuilds(ado: AdoClient, buildId: number, buildDefinitionId: string, connection: string, scoring: BuildScoringConfig): Promise<Build[] | ErrorResult> {
     //#region Second step is to get the build details
-    let buildDetails: any | null;
+    let buildDetails: AdoBuild | null;
     try {
-        const buildUrl = `https://dev.azure.com/${organization}/${project}/_apis/build/builds/${buildId}?api-version=7.1`;
-        const res = await fetch(buildUrl, {
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Basic ${Buffer.from(`:${pat}`).toString('base64')}`
-            }
-        });
-
-        if (!res.ok) {
-            throw new Error(`Failed to fetch build details: ${res.status} ${res.statusText}`);
-        }
-
-        buildDetails = await res.json();
+        buildDetails = await ado.getBuild(buildId);
         if (!buildDetails) {
-            return { error: 'No build details found' };
+            return transientError('No build details found');
         }
     } catch (error) {
-        return { error: 'Failed to fetch build details' };
+        if (isThrottlingError(error)) throw error;
+        return transientError('Failed to fetch build details');
     }
 
-    //Construct a build object with CST time logging
-    if (buildDetails.startTime) {
-        const startCST = new Date(new Date(buildDetails.startTime).getTime() - 6 * 60 * 60 * 1000);
-    }
-    if (buildDetails.finishTime) {
-        const finishCST = new Date(new Date(buildDetails.finishTime).getTime() - 6 * 60 * 60 * 1000);
-    }
-    
     const build: Build = {
         id: buildDetails.id,
-        name: buildDetails.name,
+        name: buildDetails.buildNumber,
         pipelineName: buildDetails.definition?.name || 'Unknown Pipeline', // Add pipeline name for grouping
+        branch: buildDetails.sourceBranch ? shortBranchName(buildDetails.sourceBranch) : undefined,
         status: buildDetails.status, // Use actual Azure DevOps status instead of hardcoding 'unknown'
-        result: buildDetails.result,
-        startTime: buildDetails.startTime,
-        modifiedOn: buildDetails.modifiedOn,
+        result: buildDetails.result ?? 'none',
+        startTime: buildDetails.startTime ?? '',
+        modifiedOn: buildDetails.lastChangedDate ?? '',
         completedTime: buildDetails.finishTime
     };
 
+    if (build.result === 'failed' || build.result === 'canceled') {
+        build.failure = await getBuildFailure(ado, buildId) ?? undefined;
+    }
     //#endregion
 
     //#region Third step is to get the test results
-    let testResults: any[] = [];
+    let testResults: AdoTestRun[] = [];
     try {
         // Fetch test runs for this build - use build start date as base and add 5 days
-        const buildCreationDateUTC = new Date(buildDetails.startTime);
-        const buildCreationDateCST = new Date(buildCreationDateUTC.getTime() - 6 * 60 * 60 * 1000);
-        const maxDateCST = new Date(buildCreationDateCST);
-        maxDateCST.setDate(buildCreationDateCST.getDate() + 5); // Add 5 days
-
-        // Convert back to UTC for API query
-        const minLastUpdatedDate = buildCreationDateUTC.toISOString();
-        const maxLastUpdatedDate = new Date(maxDateCST.getTime() + 6 * 60 * 60 * 1000).toISOString();
-        const testRunUrl = `https://dev.azure.com/${organization}/${project}/_apis/test/runs?buildIds=${buildId}&minLastUpdatedDate=${encodeURIComponent(minLastUpdatedDate)}&maxLastUpdatedDate=${encodeURIComponent(maxLastUpdatedDate)}&api-version=7.1`;
-        const testRunResponse = await fetch(testRunUrl, {
-            headers: {
-                'Authorization': `Basic ${Buffer.from(`:${pat}`).toString('base64')}`
-            }
-        });
-        
-
-        if (!testRunResponse.ok) {
-           console.log(`Failed to fetch test results: ${testRunResponse.status} ${testRunResponse.statusText}`);
-           testResults = []; // Set to empty array on failure
-        } else {
-            const data = await testRunResponse.json();
-            testResults = data.value || [];
+        const { minLastUpdatedDate, maxLastUpdatedDate } = getTestRunLookupWindow(new Date(buildDetails.startTime ?? Date.now()));
+        try {
+            testResults = await ado.listTestRuns({ buildIds: buildId, minLastUpdatedDate, maxLastUpdatedDate });
+        } catch (error) {
+            if (!isAdoRequestError(error) || error.isThrottled) throw error;
+            console.log(`Failed to fetch test results: ${error.message}`);
+            testResults = []; // Set to empty array on failure
         }
     } catch (error) {
-        return { error: 'Failed to fetch test results' };
+        if (isThrottlingError(error)) throw error;
+        return transientError('Failed to fetch test results');
     }
     //#endregion
 
     //#region Construct build objects if there are multiple test runs
     const buildsToReturn: Build[] = [];
+    const { thresholds } = scoring;
+    const day = testVolumeDay(build.startTime);
 
     if (testResults.length === 0) {
         // No test runs found - return the base build with computed status
-        build.status = await getBuildPipelineStatus(build);
-        build.link = `https://dev.azure.com/${organization}/${project}/_build?definitionId=${buildDefinitionId}&view=mine&_a=summary&buildId=${build.id}`;
+        build.statusExplanation = explainBuildPipelineStatus(build, { thresholds, testVolume: resolveTestVolume(scoring) });
+        build.status = build.statusExplanation.status;
+        build.link = ado.buildLink(buildDefinitionId, build.id);
         buildsToReturn.push(build);
     } else {
         // Process each test run
@@ -253,18 +243,19 @@ export async function GET({ url }: { url: URL }) {
             buildCopy.passedTestCount = testRun.passedTests;
             buildCopy.notRunTestCount = (testRun.notApplicableTests || 0)
             buildCopy.failedTestCount = testRun.totalTests - testRun.passedTests - (buildCopy.notRunTestCount ?? 0);
-            buildCopy.status = await getBuildPipelineStatus(buildCopy);
-            buildCopy.link = `https://dev.azure.com/${organization}/${project}/_build?definitionId=${buildDefinitionId}&view=mine&_a=summary&buildId=${build.id}`;
+            // Scored per test run, so a run-specific threshold override applies and each run learns its own volume
+            const subject: TestVolumeSubject = { kind: 'build', definitionId: buildDefinitionId, connection, testRunName: testRun.name };
+            const testVolume = resolveTestVolume(scoring, await redisTestVolumeHistory.learned(subject, day));
+            buildCopy.statusExplanation = explainBuildPipelineStatus(buildCopy, { thresholds, testVolume });
+            buildCopy.status = buildCopy.statusExplanation.status;
+            if (buildCopy.status !== 'inProgress') {
+                await redisTestVolumeHistory.record(subject, day, (buildCopy.passedTestCount ?? 0) + (buildCopy.failedTestCount ?? 0));
+            }
+            buildCopy.link = ado.buildLink(buildDefinitionId, build.id);
             buildsToReturn.push(buildCopy);
         }
     }
-
     //#endregion
-        return buildsToReturn;
-    }, 3600);
 
-    const isInProgress = Array.isArray(data) && data.some((b: any) => b.status === 'inProgress');
-    if (isInProgress) await shortenDailyTestCacheTtl(cacheKey, 90);
-
-    return json(data);
-}
\ No newline at end of file
+    return buildsToReturn;
+}
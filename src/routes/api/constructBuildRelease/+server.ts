@@ -0,0 +1,127 @@
+// This API takes a date, a build definition ID and the release definition its builds trigger
+// Optional branches, reasons and tags query params narrow which runs count, as for constructBuild
+// Optional connection query param names the Azure DevOps connection both definitions live in
+// Builds and releases are scored with the thresholds (and releases with the environments) the pipeline config sets for the build/release pipeline, if any
+// Finalized days are answered from their snapshot, and frozen on first complete answer (see $lib/server/snapshots)
+// It first gets the day's builds from constructBuild
+// Then, for each build, it finds the release whose build artifact is that build
+// It returns one LinkedRun per build: the build's test runs, the release (or null) and their combined status
+
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { getAdoClient, isThrottlingError, throttledResponse, throttlingErrorFromResponse, type AdoClient } from '$lib/server/ado';
+import { constructReleaseById, findTriggeredRelease } from '$lib/server/releases';
+import type { Build } from '$lib/types/build';
+import type { LinkedRun } from '$lib/types/linkedRun';
+import type { Release } from '$lib/types/release';
+
+import { getOrSetDailyTestCache } from '$lib/utils/dailyTestCache';
+import { dayAnswerTtlSeconds } from '$lib/utils/cachePolicy';
+import { configError, transientError } from '$lib/utils/resultKinds';
+import { getDaySnapshotService } from '$lib/server/snapshots';
+import { linkedRunCacheKey } from '$lib/utils/cacheKeys';
+import { explainLinkedRunStatus } from '$lib/utils/linkedRuns';
+import { buildFiltersQuery, parseBuildFilters, type BuildFilters } from '$lib/utils/pipelineFilters';
+import { getRequestTimeZone } from '$lib/server/timezone';
+import { getRequestConnection } from '$lib/server/connection';
+import { getRequestPipeline } from '$lib/server/requestPipeline';
+import { redisTestVolumeHistory } from '$lib/server/testVolume';
+import { connectionQuery } from '$lib/utils/connections';
+
+export async function GET({ url, fetch }: { url: URL; fetch: typeof globalThis.fetch }) {
+    const date = url.searchParams.get('date');
+    const buildDefinitionId = url.searchParams.get('buildDefinitionId');
+    const releaseDefinitionId = url.searchParams.get('releaseDefinitionId');
+
+    // Input validation
+    if (!date || typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return json({ error: 'Invalid or missing date (YYYY-MM-DD required)' }, { status: 400 });
+    }
+    if (!buildDefinitionId || !/^\d+$/.test(buildDefinitionId)) {
+        return json({ error: 'Missing or invalid buildDefinitionId (numeric string required)' }, { status: 400 });
+    }
+    if (!releaseDefinitionId || !/^\d+$/.test(releaseDefinitionId)) {
+        return json({ error: 'Missing or invalid releaseDefinitionId (numeric string required)' }, { status: 400 });
+    }
+    const timeZone = getRequestTimeZone(url);
+    if (!timeZone) {
+        return json({ error: 'Invalid tz (IANA time zone required)' }, { status: 400 });
+    }
+    let filters: BuildFilters;
+    try {
+        filters = parseBuildFilters(url.searchParams);
+    } catch (e: any) {
+        return json({ error: e.message }, { status: 400 });
+    }
+    const connection = getRequestConnection(url);
+    if (!connection) {
+        return json({ error: 'Unknown connection (not defined in AZURE_DEVOPS_CONNECTIONS)' }, { status: 400 });
+    }
+
+    // The builds come from constructBuild, which finds the same entry's thresholds itself
+    const pipeline = await getRequestPipeline({ kind: 'build', id: buildDefinitionId, connection, filters });
+    const scoring = { thresholds: pipeline?.thresholds, environments: pipeline?.environments, attemptPolicy: pipeline?.attemptPolicy, expectedTests: pipeline?.expectedTests };
+    const cacheKey = linkedRunCacheKey(date, buildDefinitionId, releaseDefinitionId, timeZone, filters, connection, scoring.thresholds, scoring.environments, scoring.attemptPolicy, scoring.expectedTests);
+
+    // Always return a Response object. Throttling errors escape the fetch function so they are never cached
+    const data = await getDaySnapshotService().getOrFreeze(cacheKey, date, timeZone, () => getOrSetDailyTestCache(cacheKey, async () => {
+        let ado: AdoClient;
+        try {
+            ado = getAdoClient(env, { connection });
+        } catch (e: any) {
+            return configError('Missing Azure DevOps environment variables');
+        }
+
+        //#region First step is to get the day's builds, through constructBuild so both share its cache
+        const buildUrl = `/api/constructBuild?date=${date}&buildDefinitionId=${buildDefinitionId}&tz=${encodeURIComponent(timeZone)}${buildFiltersQuery(filters)}${connectionQuery(connection)}`;
+        const response = await fetch(buildUrl);
+        if (!response.ok) {
+            const throttled = throttlingErrorFromResponse(response, buildUrl);
+            if (throttled) throw throttled;
+            return transientError('Failed to fetch builds');
+        }
+        const buildData = await response.json();
+        if (!Array.isArray(buildData)) {
+            // { buildId: null } when there was no build that day, { error } when fetching failed
+            return buildData?.error ? buildData : [];
+        }
+
+        // constructBuild returns one entry per test run; group them back into builds
+        const buildsById = new Map<number, Build[]>();
+        for (const build of buildData as Build[]) {
+            buildsById.set(build.id, [...(buildsById.get(build.id) ?? []), build]);
+        }
+        //#endregion
+
+        //#region Second step is to find the release each build triggered
+        const runs: LinkedRun[] = [];
+        for (const [buildId, builds] of buildsById) {
+            let release: Release | null = null;
+            try {
+                const triggered = await findTriggeredRelease(ado, releaseDefinitionId, { id: buildId, startTime: builds[0].startTime });
+                if (triggered) {
+                    const constructed = await constructReleaseById(ado, triggered.id, scoring, {
+                        history: redisTestVolumeHistory,
+                        subject: { kind: 'release', definitionId: releaseDefinitionId, connection }
+                    });
+                    if ('error' in constructed) return constructed;
+                    release = constructed;
+                }
+            } catch (e) {
+                if (isThrottlingError(e)) throw e;
+                return transientError('Failed to fetch releases');
+            }
+            const statusExplanation = explainLinkedRunStatus(builds, release);
+            runs.push({ buildId, builds, release, status: statusExplanation.status, statusExplanation });
+        }
+        //#endregion
+
+        return runs;
+    }, (answer) => dayAnswerTtlSeconds(answer, date, timeZone))).catch((e) => {
+        if (isThrottlingError(e)) return e;
+        throw e;
+    });
+    if (isThrottlingError(data)) return throttledResponse(data);
+
+    return json(data);
+}
@@ -1,16 +1,29 @@
 // This API should take in a date and a release definition ID
+// Optional connection query param names the Azure DevOps connection the definition lives in
+// Statuses are scored with the thresholds and environments the pipeline config sets for that definition, if any
+// A release with far fewer tests than usual (expectedTests, or learned from recent releases) is incomplete
+// Finalized days are answered from their snapshot, and frozen on first complete answer (see $lib/server/snapshots)
 // It should first find the correct release ID for that date and definition
-// Then it should fetch the release details and construct a release object
+// Then it should fetch the release details and construct a release object (see $lib/server/releases)
 // Then it should call into the test runs api and aggregate test results for the release
 // It should then return the release object with test results included
 
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { getAzureDevOpsEnvVars } from '$lib/utils';
-import type { Release } from '$lib/types/release';
-
-import { getLatestRelease, getReleasePipelineStatus, calculateReleaseCompletionTime } from '$lib/utils/getReleasePipelineStatus';
-import { getOrSetDailyTestCache, shortenDailyTestCacheTtl } from '$lib/utils/dailyTestCache';
+import { getAdoClient, isAdoRequestError, isThrottlingError, throttledResponse, type AdoClient } from '$lib/server/ado';
+
+import { getLatestRelease } from '$lib/utils/getReleasePipelineStatus';
+import { constructReleaseById } from '$lib/server/releases';
+import { getOrSetDailyTestCache } from '$lib/utils/dailyTestCache';
+import { dayAnswerTtlSeconds } from '$lib/utils/cachePolicy';
+import { configError, transientError } from '$lib/utils/resultKinds';
+import { getDaySnapshotService } from '$lib/server/snapshots';
+import { releaseCacheKey } from '$lib/utils/cacheKeys';
+import { getRequestTimeZone } from '$lib/server/timezone';
+import { getRequestConnection } from '$lib/server/connection';
+import { getRequestPipeline } from '$lib/server/requestPipeline';
+import { redisTestVolumeHistory } from '$lib/server/testVolume';
+import { getDayQueryWindow, isOnDashboardDate } from '$lib/utils/timezone';
 
 export async function GET({ url }: { url: URL }) {
     const date = url.searchParams.get('date');
@@ -23,69 +36,43 @@ export async function GET({ url }: { url: URL }) {
     if (!releaseDefinitionId || typeof releaseDefinitionId !== 'string' || !/^\d+$/.test(releaseDefinitionId)) {
         return json({ error: 'Missing or invalid releaseDefinitionId (numeric string required)' }, { status: 400 });
     }
+    const timeZone = getRequestTimeZone(url);
+    if (!timeZone) {
+        return json({ error: 'Invalid tz (IANA time zone required)' }, { status: 400 });
+    }
+    const connection = getRequestConnection(url);
+    if (!connection) {
+        return json({ error: 'Unknown connection (not defined in AZURE_DEVOPS_CONNECTIONS)' }, { status: 400 });
+    }
 
-    // Use a cache key based on date and releaseDefinitionId
-    const cacheKey = `release:${date}:${releaseDefinitionId}`;
+    const pipeline = await getRequestPipeline({ kind: 'release', id: releaseDefinitionId, connection });
+    const scoring = { thresholds: pipeline?.thresholds, environments: pipeline?.environments, attemptPolicy: pipeline?.attemptPolicy, expectedTests: pipeline?.expectedTests };
 
-    // Always return a Response object
-    const data = await getOrSetDailyTestCache(cacheKey, async () => {
-        let organization, project, pat;
+    // The same date means a different day in another time zone, so it is part of the key
+    const cacheKey = releaseCacheKey(date, releaseDefinitionId, timeZone, connection, scoring.thresholds, scoring.environments, scoring.attemptPolicy, scoring.expectedTests);
+
+    // Always return a Response object. Throttling errors escape the fetch function so they are never cached
+    const data = await getDaySnapshotService().getOrFreeze(cacheKey, date, timeZone, () => getOrSetDailyTestCache(cacheKey, async () => {
+        let ado: AdoClient;
         try {
-            const envVars = getAzureDevOpsEnvVars(env);
-            organization = envVars.AZURE_DEVOPS_ORGANIZATION;
-            project = envVars.AZURE_DEVOPS_PROJECT;
-            pat = envVars.AZURE_DEVOPS_PAT;
+            ado = getAdoClient(env, { connection });
         } catch (e: any) {
-            return { error: 'Missing Azure DevOps environment variables' };
-        }
-        if (!organization || !project || !pat) {
-            return { error: 'Missing Azure DevOps environment variables' };
+            return configError('Missing Azure DevOps environment variables');
         }
 
         //#region First step is to get the correct release ID given the date and definition ID
         let releaseId: number;
         try {
-            // Account for timezone offset - expand search to cover UTC range for the CST date
-            // CST is UTC-6, so a day in CST spans from 6:00 UTC of that day to 6:00 UTC of next day
-            const queryDate = new Date(`${date}T00:00:00Z`);
-            const startDate = new Date(queryDate.getTime() - 6 * 60 * 60 * 1000); // Start 6 hours earlier (previous day in CST)
-            const endDate = new Date(queryDate.getTime() + 30 * 60 * 60 * 1000); // End 30 hours later (covers whole CST day + buffer)
-            
-            const minCreatedTime = startDate.toISOString();
-            const maxCreatedTime = endDate.toISOString();
-            const releasesUrl = `https://vsrm.dev.azure.com/${organization}/${project}/_apis/release/releases?definitionId=${releaseDefinitionId}&minCreatedTime=${encodeURIComponent(minCreatedTime)}&maxCreatedTime=${encodeURIComponent(maxCreatedTime)}&$top=100&api-version=7.1-preview.8`;
-
-        const releasesResponse = await fetch(releasesUrl, {
-            headers: {
-                'Authorization': `Basic ${Buffer.from(`:${pat}`).toString('base64')}`
-            }
-        });
-
-        if (!releasesResponse.ok) {
-            return { error: 'Failed to fetch releases' };
-        }
+            // Padded UTC range around the dashboard day; releases are matched exactly below
+            const { minTime: minCreatedTime, maxTime: maxCreatedTime } = getDayQueryWindow(date, timeZone);
 
-        const releasesData = await releasesResponse.json();
-        let releases = releasesData.value;
+        let releases = await ado.listReleases({ definitionId: releaseDefinitionId, minCreatedTime, maxCreatedTime, top: 100 });
         
         if (releases && releases.length > 0) {
-            // Filter releases to only include those created on the target Central Time date
-            const releasesOnTargetDate = releases.filter((rel: any) => {
+            // Filter releases to only include those created on the target dashboard date
+            const releasesOnTargetDate = releases.filter((rel) => {
                 if (!rel.createdOn) return false;
-                
-                // Convert UTC creation time to Central Time properly
-                const createdTimeUTC = new Date(rel.createdOn);
-                
-                // Use Intl.DateTimeFormat to get the date in Central Time
-                const centralFormatter = new Intl.DateTimeFormat('en-CA', {
-                    timeZone: 'America/Chicago',
-                    year: 'numeric',
-                    month: '2-digit',
-                    day: '2-digit'
-                });
-                const createdDateCentral = centralFormatter.format(createdTimeUTC);
-                
-                return createdDateCentral === date;
+                return isOnDashboardDate(rel.createdOn, date, timeZone);
             });
             
             if (releasesOnTargetDate.length > 0) {
@@ -107,138 +94,24 @@ export async function GET({ url }: { url: URL }) {
         releaseId = latestRelease.id;
 
     } catch (e: any) {
-        return { error: 'Error fetching releases: ' + (e.message || 'Unknown error') };
-    }
-    //#endregion
-
-    //#region Fetch release details
-    const releaseDetailsUrl = `https://vsrm.dev.azure.com/${organization}/${project}/_apis/release/releases/${releaseId}?api-version=7.1-preview.8`;
-    const releaseDetailsResponse = await fetch(releaseDetailsUrl, {
-        headers: {
-            'Authorization': `Basic ${Buffer.from(`:${pat}`).toString('base64')}`
-        }
-    });
-
-    if (!releaseDetailsResponse.ok) {
-        return { error: 'Failed to fetch release details' };
-    }
-
-    const releaseDetails = await releaseDetailsResponse.json();
-
-    //Compute the time the release pipeline was completed (take the latest finishTime)
-    const latestFinishTime = calculateReleaseCompletionTime(releaseDetails.environments);
-    // Construct release object
-    const release: Release = {
-        id: releaseDetails.id,
-        name: releaseDetails.name,
-        createdOn: releaseDetails.createdOn,
-        modifiedOn: releaseDetails.modifiedOn,
-        completedTime: latestFinishTime, // Use the calculated latest finish time
-        status: releaseDetails.status, // Use actual Azure DevOps status instead of hardcoding 'unknown'
-        envs: releaseDetails.environments
-    };
-    //#endregion
-
-    //#region Fetch and aggregate test results
-    try {
-        // Fetch test runs for this release - use release creation date as base and add 5 days
-        const releaseCreationDate = new Date(releaseDetails.createdOn);
-        const maxDate = new Date(releaseCreationDate);
-        maxDate.setDate(releaseCreationDate.getDate() + 5); // Add 5 days
-
-        const minLastUpdatedDate = releaseCreationDate.toISOString();
-        const maxLastUpdatedDate = maxDate.toISOString();
-        const testRunUrl = `https://dev.azure.com/${organization}/${project}/_apis/test/runs?releaseIds=${releaseId}&minLastUpdatedDate=${encodeURIComponent(minLastUpdatedDate)}&maxLastUpdatedDate=${encodeURIComponent(maxLastUpdatedDate)}&api-version=7.1`;
-        if(releaseId === 80543){
-        }
-        const testRunResponse = await fetch(testRunUrl, {
-            headers: {
-                'Authorization': `Basic ${Buffer.from(`:${pat}`).toString('base64')}`
-            }
-        });
-        
-
-        if (testRunResponse.ok) {
-            const testRunData = await testRunResponse.json();
-            
-            if (Array.isArray(testRunData.value)) {
-                // Filter test runs to only include those from stages with 'tests' in the name
-                const filteredRuns = testRunData.value.filter((run: any) => {
-                    const envId = run.release?.environmentId;
-                    const environment = releaseDetails.environments?.find((env: any) => env.id === envId);
-                    const stageName = environment?.name || '';
-                    const matches = stageName.toLowerCase().includes('tests') || stageName.toLowerCase().includes('checks');
-                    return matches;
-                });
-
-
-                // Group runs by environment and find the latest attempt for each
-                const runsByEnvironment: Record<number, any[]> = {};
-                for (const run of filteredRuns) {
-                    const envId = run.release?.environmentId;
-                    if (!envId) continue;
-                    if (!runsByEnvironment[envId]) {
-                        runsByEnvironment[envId] = [];
-                    }
-                    runsByEnvironment[envId].push(run);
-                }
-
-                // Keep only runs from the latest attempt within each environment
-                // This allows all test runs from the latest deployment attempt per environment to be counted
-                const uniqueRuns: any[] = [];
-                for (const envId in runsByEnvironment) {
-                    const runsForEnv = runsByEnvironment[envId];
-                    
-                    // Find max attempt for this environment
-                    let maxAttempt = -1;
-                    for (const run of runsForEnv) {
-                        const attempt = run.release?.attempt ?? -1;
-                        if (attempt > maxAttempt) {
-                            maxAttempt = attempt;
-                        }
-                    }
-                    
-                    // Add all runs from the latest attempt of this environment
-                    for (const run of runsForEnv) {
-                        if ((run.release?.attempt ?? -1) === maxAttempt) {
-                            uniqueRuns.push(run);
-                        }
-                    }
-                }
-            
-                // Aggregate test results from all runs in the latest attempt per environment
-                let passCount = 0;
-                let failCount = 0;
-
-                for (const run of uniqueRuns) {
-                    passCount += run.passedTests ?? 0;
-                    failCount += (run.failedTests ?? 0) + (run.unanalyzedTests ?? 0);
-                }
-
-                // Update release object with aggregated test results
-                release.passedTestCount = passCount;
-                release.failedTestCount = failCount;
-            }
+        if (isThrottlingError(e)) throw e;
+        if (isAdoRequestError(e)) {
+            return transientError('Failed to fetch releases');
         }
-        
-        // Always compute the status using our logic, regardless of whether test runs were found
-        release.status = await getReleasePipelineStatus(release);
-    } catch (e: any) {
-       console.warn('Error fetching test results: ' + (e.message || 'Unknown error'));
-       // Keep default test counts from release details, but still compute status
-       release.status = await getReleasePipelineStatus(release);
+        return transientError('Error fetching releases: ' + (e.message || 'Unknown error'));
     }
     //#endregion
-    
-    //#region Construct link to release in Azure DevOps
-    release.link = `https://dev.azure.com/${organization}/${project}/_releaseProgress?_a=release-pipeline-progress&releaseId=${release.id}`;
-    //#endregion
-
-        return release;
-    }, 3600);
 
-    const isInProgress = data !== null && !Array.isArray(data) && data?.status === 'inProgress';
-    if (isInProgress) await shortenDailyTestCacheTtl(cacheKey, 90);
+    // Details, test results, status and link are shared with constructBuildRelease
+    return constructReleaseById(ado, releaseId, scoring, {
+        history: redisTestVolumeHistory,
+        subject: { kind: 'release', definitionId: releaseDefinitionId, connection }
+    });
+    }, (answer) => dayAnswerTtlSeconds(answer, date, timeZone))).catch((e) => {
+        if (isThrottlingError(e)) return e;
+        throw e;
+    });
+    if (isThrottlingError(data)) return throttledResponse(data);
 
     return json(data);
 }
\ No newline at end of file
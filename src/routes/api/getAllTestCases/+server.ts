@@ -1,7 +1,8 @@
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { getAzureDevOpsEnvVars } from '$lib/utils';
+import { getAdoClient, type AdoClient } from '$lib/server/ado';
 import { fetchAllSuites, fetchSuiteWithChildrenAndTestCases } from '$lib/utils/getAllTestCases.js';
+import type { TestSuite } from '$lib/types/getAllTestCases';
 
 /**
  * GET /api/getAllTestCases?testPlanId=123&suiteId=456
@@ -9,32 +10,11 @@ import { fetchAllSuites, fetchSuiteWithChildrenAndTestCases } from '$lib/utils/g
  * Handles pagination using continuationToken from Azure DevOps API.
  */
 
-interface TestSuite {
-	id: number;
-	name: string;
-	suiteType: string;
-	testCases?: TestCase[];
-	childSuites?: TestSuite[];
-	parentSuite?: {
-		id: number;
-		name?: string;
-	};
-}
-
-interface TestCase {
-	id: number;
-	name: string;
-	workItem: {
-		id: number;
-		name: string;
-	};
-}
-
 export async function GET({ url }: { url: URL }) {
 	try {
-		let AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT;
+		let ado: AdoClient;
 		try {
-			({ AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT } = getAzureDevOpsEnvVars(env));
+			ado = getAdoClient(env);
 		} catch (e: any) {
 			return json({ error: e.message || 'Missing Azure DevOps environment variables' }, { status: 500 });
 		}
@@ -53,13 +33,13 @@ export async function GET({ url }: { url: URL }) {
 		// Fetch all suites from the test plan once (with pagination)
 		let allSuites: TestSuite[] = [];
 		try {
-			allSuites = await fetchAllSuites({ organization: AZURE_DEVOPS_ORGANIZATION, project: AZURE_DEVOPS_PROJECT, pat: AZURE_DEVOPS_PAT }, testPlanId);
+			allSuites = await fetchAllSuites(ado, testPlanId);
 		} catch (e: any) {
 			return json({ error: e.message || 'Failed to fetch test suites' }, { status: 500 });
 		}
 
 		// Recursively fetch the specific suite, all its child suites, and test cases
-		const suite = await fetchSuiteWithChildrenAndTestCases({ organization: AZURE_DEVOPS_ORGANIZATION, project: AZURE_DEVOPS_PROJECT, pat: AZURE_DEVOPS_PAT }, testPlanId, suiteId, allSuites);
+		const suite = await fetchSuiteWithChildrenAndTestCases(ado, testPlanId, suiteId, allSuites);
 
 		if (!suite) {
 			return json({ 
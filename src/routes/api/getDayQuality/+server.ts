@@ -1,28 +1,48 @@
 import { json } from '@sveltejs/kit';
-import { env } from '$env/dynamic/public';
-import { getPipelineConfig} from '$lib/utils';
-import { determineOverallDayQuality } from '$lib/utils/getOverallDayQuality';
-import { getOrSetDailyTestCache } from '$lib/utils/dailyTestCache';
+import { getPipelineConfigService } from '$lib/server/pipelineConfig';
+import { connectionQuery } from '$lib/utils/connections';
+import { getDayQualityMode, getReleaseDefinitionId, isPipelineConfigError } from '$lib/utils/pipelineConfig';
+import { getLinkedRunCounts, getLinkedRunInitialCounts } from '$lib/utils/linkedRuns';
+import { scoreDay, type DayPipelineResults } from '$lib/utils/getOverallDayQuality';
+import { attemptPassRate } from '$lib/utils/releaseAttempts';
+import { dayFailureCategories } from '$lib/utils/buildFailures';
+import { getOrSetDailyTestCache, recordCacheDependencies } from '$lib/utils/dailyTestCache';
+import { dayAnswerTtlSeconds } from '$lib/utils/cachePolicy';
+import { isFreezableAnswer } from '$lib/utils/snapshots';
+import { getDaySnapshotService } from '$lib/server/snapshots';
+import { isThrottlingError, throttledResponse, throttlingErrorFromResponse } from '$lib/server/ado';
+import { getRequestTimeZone } from '$lib/server/timezone';
+import { dayQualityCacheKey, pipelineDayCacheKeys } from '$lib/utils/cacheKeys';
+import { buildFiltersQuery, resolveBuildFilters } from '$lib/utils/pipelineFilters';
+import type { PipelineEntry } from '$lib/types/pipelineConfig';
+import type { LinkedRun } from '$lib/types/linkedRun';
+import type { PipelineRunResult } from '$lib/types/dayQuality';
 
 //Returns overall day quality for all configured pipelines for a given date using constructBuild and constructRelease APIs
 //The object returned is { date: 'YYYY-MM-DD', pipelineIds: [id1, id2, ...], quality: 'good|ok|bad|inProgress|unknown|interrupted' }
+//plus the 0-100 day score, the config's dayQualityMode and each pipeline's contribution (see scoreDay)
+//With explain=true it also returns explanation: the rule that decided the day and the runs that drove it, each with
+//its own rule, thresholds and pass rate. initialPassRate and finalPassRate are the day's pass rates on the first and the
+//last deployment attempt of redeployed release environments (like calculatePassRates for monthly runs). The explanation is always cached with the answer, so it needs no key of its own
+//failureCategories lists why the day's failed builds failed (see $lib/utils/buildFailures), once per category
+//complete is false when a pipeline's construct route failed; only complete answers for finalized days are frozen (see $lib/server/snapshots)
+
+type FetchedRun = PipelineRunResult & { id: string };
 
 function errorJson(error: string, status = 500) {
   return json({ error }, { status });
 }
 
 // Helper to fetch release pipeline data
-async function fetchReleasePipeline(baseUrl: string, pipelineId: string, date: string): Promise<{
-  id: string,
-  status: string,
-  passCount: number,
-  failCount: number,
-  notRunCount: number
-}> {
+async function fetchReleasePipeline(baseUrl: string, pipeline: PipelineEntry, date: string, timeZone: string): Promise<FetchedRun> {
+  const pipelineId = pipeline.id;
   try {
-    const response = await fetch(`${baseUrl}/api/constructRelease?date=${date}&releaseDefinitionId=${pipelineId}`);
+    const url = `${baseUrl}/api/constructRelease?date=${date}&releaseDefinitionId=${pipelineId}&tz=${encodeURIComponent(timeZone)}${connectionQuery(pipeline.connection)}`;
+    const response = await fetch(url);
     if (!response.ok) {
-      return { id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0 };
+      const throttled = throttlingErrorFromResponse(response, url);
+      if (throttled) throw throttled;
+      return { id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: true };
     }
 
     const releaseData = await response.json();
@@ -32,50 +52,97 @@ async function fetchReleasePipeline(baseUrl: string, pipelineId: string, date: s
       return { id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0 };
     }
 
+    if ('error' in releaseData) {
+      return { id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: true };
+    }
+
     return {
       id: pipelineId,
       status: releaseData.status || 'unknown',
+      name: releaseData.name,
+      explanation: releaseData.statusExplanation,
       passCount: releaseData.passedTestCount ?? 0,
       failCount: releaseData.failedTestCount ?? 0,
-      notRunCount: releaseData.notRunTestCount ?? 0
+      notRunCount: releaseData.notRunTestCount ?? 0,
+      initialPassCount: releaseData.attempts?.first.passedTestCount,
+      initialFailCount: releaseData.attempts?.first.failedTestCount
     };
   } catch (error) {
+    if (isThrottlingError(error)) throw error;
     console.error(`Error fetching release pipeline ${pipelineId}:`, error);
-    return { id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0 };
+    return { id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: true };
   }
 }
 
 // Helper to fetch build pipeline data
-async function fetchBuildPipeline(baseUrl: string, pipelineId: string, date: string): Promise<{
-  id: string,
-  status: string,
-  passCount: number,
-  failCount: number,
-  notRunCount: number
-}[]> {
+async function fetchBuildPipeline(baseUrl: string, pipeline: PipelineEntry, date: string, timeZone: string): Promise<FetchedRun[]> {
+  const pipelineId = pipeline.id;
   try {
-    const response = await fetch(`${baseUrl}/api/constructBuild?date=${date}&buildDefinitionId=${pipelineId}`);
+    const filters = buildFiltersQuery(resolveBuildFilters(pipeline));
+    const url = `${baseUrl}/api/constructBuild?date=${date}&buildDefinitionId=${pipelineId}&tz=${encodeURIComponent(timeZone)}${filters}${connectionQuery(pipeline.connection)}`;
+    const response = await fetch(url);
     if (!response.ok) {
-      return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0 }];
+      const throttled = throttlingErrorFromResponse(response, url);
+      if (throttled) throw throttled;
+      return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: true }];
     }
 
     const buildDataArray = await response.json();
 
     // constructBuild returns an array of builds
     if (!Array.isArray(buildDataArray) || buildDataArray.length === 0) {
-      return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0 }];
+      // An error answer comes back with a 200 too
+      return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: 'error' in (buildDataArray ?? {}) }];
     }
 
     return buildDataArray.map(buildData => ({
       id: pipelineId,
       status: buildData.status || 'unknown',
+      name: buildData.testRunName || buildData.name,
+      explanation: buildData.statusExplanation,
       passCount: buildData.passedTestCount ?? 0,
       failCount: buildData.failedTestCount ?? 0,
-      notRunCount: buildData.notRunTestCount ?? 0
+      notRunCount: buildData.notRunTestCount ?? 0,
+      failureCategory: buildData.failure?.category
     }));
   } catch (error) {
+    if (isThrottlingError(error)) throw error;
     console.error(`Error fetching build pipeline ${pipelineId}:`, error);
-    return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0 }];
+    return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: true }];
+  }
+}
+
+// Helper to fetch a build/release pipeline: one result per build, combined with the release it triggered
+async function fetchLinkedPipeline(baseUrl: string, pipeline: PipelineEntry, date: string, timeZone: string): Promise<FetchedRun[]> {
+  const pipelineId = pipeline.id;
+  try {
+    const filters = buildFiltersQuery(resolveBuildFilters(pipeline));
+    const url = `${baseUrl}/api/constructBuildRelease?date=${date}&buildDefinitionId=${pipelineId}&releaseDefinitionId=${getReleaseDefinitionId(pipeline)}&tz=${encodeURIComponent(timeZone)}${filters}${connectionQuery(pipeline.connection)}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      const throttled = throttlingErrorFromResponse(response, url);
+      if (throttled) throw throttled;
+      return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: true }];
+    }
+
+    const runs = await response.json();
+    if (!Array.isArray(runs) || runs.length === 0) {
+      return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: 'error' in (runs ?? {}) }];
+    }
+
+    return (runs as LinkedRun[]).map(run => ({
+      id: pipelineId,
+      status: run.status || 'unknown',
+      name: run.release ? `${run.builds[0]?.name ?? run.buildId} → ${run.release.name}` : run.builds[0]?.name,
+      explanation: run.statusExplanation,
+      ...getLinkedRunCounts(run),
+      ...getLinkedRunInitialCounts(run),
+      failureCategory: run.builds[0]?.failure?.category
+    }));
+  } catch (error) {
+    if (isThrottlingError(error)) throw error;
+    console.error(`Error fetching build/release pipeline ${pipelineId}:`, error);
+    return [{ id: pipelineId, status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0, unavailable: true }];
   }
 }
 
@@ -88,66 +155,102 @@ export async function GET({ url, request }: { url: URL, request: Request }) {
       return errorJson('Invalid date format. Expected YYYY-MM-DD', 400);
     }
 
-    // Load pipelines from env variable AZURE_PIPELINE_CONFIG
-    let pipelineConfig = getPipelineConfig(env.PUBLIC_AZURE_PIPELINE_CONFIG);
+    const explain = url.searchParams.get('explain') === 'true';
+
+    const timeZone = getRequestTimeZone(url);
+    if (!timeZone) {
+      return errorJson('Invalid tz (IANA time zone required)', 400);
+    }
+
+    // Enabled pipelines from the saved config (PUBLIC_AZURE_PIPELINE_CONFIG until one is saved)
+    const pipelineConfig = await getPipelineConfigService().getActive('daily');
 
     // Dynamically determine the base URL for local api call
     let baseUrl = `http://${request.headers.get('host')}`;
 
-    const response = await getOrSetDailyTestCache(`dayquality:${date}`, async () => {
+    const mode = getDayQualityMode(pipelineConfig);
+
+    const cacheKey = dayQualityCacheKey(date, timeZone, pipelineConfig.pipelines, mode);
+    // A finalized day is frozen once every pipeline answered and nothing is still running
+    const isComplete = (answer: any) => answer.complete === true && isFreezableAnswer(answer);
+    const response = await getDaySnapshotService().getOrFreeze(cacheKey, date, timeZone, () => getOrSetDailyTestCache(cacheKey, async () => {
+      // Dropped as soon as a pipeline's construct answer is cached again with a different value
+      await recordCacheDependencies(cacheKey, pipelineConfig.pipelines.flatMap(p => pipelineDayCacheKeys(date, timeZone, p)));
+
       const pipelineIds: string[] = [];
       let totalPassCount = 0;
       let totalFailCount = 0;
       let totalNotRunCount = 0;
-      const statuses: string[] = [];
+      let initialPassCount = 0;
+      let initialFailCount = 0;
+      const dayResults: DayPipelineResults[] = [];
 
-      // Fetch all pipelines in parallel
+      // Fetch all pipelines in parallel; a build/release pipeline counts once per build and its release
       const settled = await Promise.allSettled(
-        pipelineConfig.pipelines.map(pipeline =>
-          pipeline.type === 'build'
-            ? fetchBuildPipeline(baseUrl, pipeline.id, date)
-                .then(results => ({ pipeline, type: 'build' as const, results }))
-            : fetchReleasePipeline(baseUrl, pipeline.id, date)
-                .then(result  => ({ pipeline, type: 'release' as const, result }))
-        )
+        pipelineConfig.pipelines.map(pipeline => {
+          if (pipeline.type === 'build/release') {
+            return fetchLinkedPipeline(baseUrl, pipeline, date, timeZone)
+              .then(results => ({ pipeline, results }));
+          }
+          return pipeline.type === 'build'
+            ? fetchBuildPipeline(baseUrl, pipeline, date, timeZone)
+                .then(results => ({ pipeline, results }))
+            : fetchReleasePipeline(baseUrl, pipeline, date, timeZone)
+                .then(result  => ({ pipeline, results: [result] }));
+        })
       );
 
+      // A throttled pipeline would otherwise be cached as 'unknown' for the whole TTL
+      const throttled = settled.find(o => o.status === 'rejected' && isThrottlingError(o.reason));
+      if (throttled) throw (throttled as PromiseRejectedResult).reason;
+
       for (const outcome of settled) {
         if (outcome.status === 'rejected') continue;
         const v = outcome.value;
         pipelineIds.push(v.pipeline.id);
-        if (v.type === 'build') {
-          for (const r of v.results) {
-            statuses.push(r.status);
-            totalPassCount  += r.passCount;
-            totalFailCount  += r.failCount;
-            totalNotRunCount += r.notRunCount;
-          }
-        } else {
-          statuses.push(v.result.status);
-          totalPassCount  += v.result.passCount;
-          totalFailCount  += v.result.failCount;
-          totalNotRunCount += v.result.notRunCount;
+        for (const r of v.results) {
+          totalPassCount  += r.passCount;
+          totalFailCount  += r.failCount;
+          totalNotRunCount += r.notRunCount;
+          initialPassCount += r.initialPassCount ?? r.passCount;
+          initialFailCount += r.initialFailCount ?? r.failCount;
         }
+        dayResults.push(v);
       }
 
-      // Determine overall quality
-      const result = determineOverallDayQuality(statuses);
+      // Quality by the config's mode; the score and what each pipeline added to it come either way
+      const { quality, score, contributions, explanation } = scoreDay(dayResults, mode);
 
       return {
         date,
         pipelineIds,
-        quality: result,
+        quality,
+        mode,
+        score,
+        contributions,
         totalPassCount,
         totalFailCount,
-        totalNotRunCount
+        totalNotRunCount,
+        initialPassRate: attemptPassRate({ passedTestCount: initialPassCount, failedTestCount: initialFailCount }) ?? null,
+        finalPassRate: attemptPassRate({ passedTestCount: totalPassCount, failedTestCount: totalFailCount }) ?? null,
+        failureCategories: dayFailureCategories(dayResults.flatMap(d => d.results)),
+        complete: pipelineIds.length === pipelineConfig.pipelines.length && !dayResults.some(d => d.results.some(r => r.unavailable)),
+        explanation
       };
-    }, 25 * 60);
+    }, (answer) => dayAnswerTtlSeconds(answer, date, timeZone, new Date(), isComplete)), isComplete);
 
-    return json(response);
+    const { explanation, ...answer } = response;
+    // Answers cached before explanations existed have none until they expire
+    return json(explain ? { ...answer, explanation: explanation ?? null } : answer);
   } catch (e: any) {
     // Always log errors
     console.error(`[getDayQuality] Error:`, e);
+    if (isThrottlingError(e)) {
+      return throttledResponse(e);
+    }
+    if (isPipelineConfigError(e)) {
+      return json({ error: 'Invalid pipeline config', issues: e.issues, details: e.message }, { status: 500 });
+    }
     if (e && typeof e === 'object' && 'error' in e && 'status' in e) {
       return errorJson(e.error, e.status);
     }
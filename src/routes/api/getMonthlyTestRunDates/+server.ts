@@ -1,6 +1,6 @@
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { getAzureDevOpsEnvVars } from '$lib/utils';
+import { getAdoClient, isAdoRequestError, type AdoClient, type AdoSuiteTestCase, type AdoTestResult, type AdoTestRun } from '$lib/server/ado';
 import { calculateDerivatives, groupByWeekWindow, determineExecutionBoundaries, calculatePassRates, getMedianDate } from '$lib/utils/monthlyTestRuns';
 import type { DayData } from '$lib/types/monthlyTestRuns';
 
@@ -68,9 +68,9 @@ export async function GET({ url }: { url: URL }) {
 
 async function getMonthlyTestData(url: URL, sendProgress?: (stage: string, message: string, progress?: number, completed?: boolean) => void) {
 	try {
-		let AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT;
+		let ado: AdoClient;
 		try {
-			({ AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT } = getAzureDevOpsEnvVars(env));
+			ado = getAdoClient(env);
 		} catch (e: any) {
 			throw new Error(e.message || 'Missing Azure DevOps environment variables');
 		}
@@ -94,13 +94,7 @@ async function getMonthlyTestData(url: URL, sendProgress?: (stage: string, messa
 
 		// Stage 1: Fetch test cases from suite (and all descendants)
 		sendProgress?.('Fetching Test Cases', 'Loading expected test cases from suite...', 0);
-		const expectedTestCases = await fetchAllTestCasesFromSuite(
-			planId,
-			suiteId,
-			AZURE_DEVOPS_ORGANIZATION,
-			AZURE_DEVOPS_PROJECT,
-			AZURE_DEVOPS_PAT
-		);
+		const expectedTestCases = await fetchAllTestCasesFromSuite(ado, planId, suiteId);
 		sendProgress?.('Fetching Test Cases', `Loaded ${expectedTestCases.length} expected test cases`, 100, true);
 
 		// Compute minRoc as 25% of expected test cases (rounded up)
@@ -118,22 +112,14 @@ async function getMonthlyTestData(url: URL, sendProgress?: (stage: string, messa
 
 		// Stage 2: Fetch all test runs for the plan
 		sendProgress?.('Fetching Test Runs', 'Fetching and filtering test runs for the plan...', 0);
-		const runsUrl = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/runs?planId=${planId}&api-version=7.1`;
-
-		const runsRes = await fetch(runsUrl, {
-			headers: {
-				'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-				'Content-Type': 'application/json',
-			},
-		});
-
-		if (!runsRes.ok) {
-			throw new Error(`Failed to fetch test runs: ${runsRes.status}`);
+		let allRuns: AdoTestRun[];
+		try {
+			allRuns = await ado.listTestRuns({ planId });
+		} catch (e) {
+			if (!isAdoRequestError(e)) throw e;
+			throw new Error(`Failed to fetch test runs: ${e.status}`);
 		}
 
-		const runsData = await runsRes.json();
-		const allRuns = Array.isArray(runsData.value) ? runsData.value : [];
-
 		// Filter out runs with 'development', 'dev', or 'cloned' in their names
 		let testRuns = allRuns.filter((run: any) => {
 			const name = (run.name || '').toLowerCase();
@@ -149,32 +135,23 @@ async function getMonthlyTestData(url: URL, sendProgress?: (stage: string, messa
 		for (let i = 0; i < testRuns.length; i += filterBatchSize) {
 			const batch = testRuns.slice(i, i + filterBatchSize);
 			const batchPromises = batch.map(async (run: any) => {
-				const resultsUrl = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/runs/${run.id}/results?api-version=7.1`;
 				try {
-					const resultsRes = await fetch(resultsUrl, {
-						headers: {
-							'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-							'Content-Type': 'application/json',
-						},
-					});
-					if (resultsRes.ok) {
-						const resultsData = await resultsRes.json();
-						const executedTestCaseIds = new Set((resultsData.value || []).map((r: any) => parseInt(r.testCase?.id)));
-						// If any executed test case is not in the suite, skip this run
-						let allInSuite = true;
-						for (const id of executedTestCaseIds) {
-							if (!validTestCaseIds.has(Number(id))) {
-								allInSuite = false;
-								break;
-							}
-						}
-						if (allInSuite) {
-							return run;
-						} else {
-							filteredCount++;
-							return null;
+					const results = await ado.listTestResults(run.id);
+					const executedTestCaseIds = new Set(results.map((r) => parseInt(String(r.testCase?.id))));
+					// If any executed test case is not in the suite, skip this run
+					let allInSuite = true;
+					for (const id of executedTestCaseIds) {
+						if (!validTestCaseIds.has(Number(id))) {
+							allInSuite = false;
+							break;
 						}
 					}
+					if (allInSuite) {
+						return run;
+					} else {
+						filteredCount++;
+						return null;
+					}
 				} catch (e) {
 					filteredCount++;
 				}
@@ -233,19 +210,11 @@ async function getMonthlyTestData(url: URL, sendProgress?: (stage: string, messa
 		const processRun = async (run: any) => {
 			if (!run || !run.id) return null;
 			const runId = run.id;
-			const runDetailUrl = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/runs/${runId}?api-version=7.1`;
-			const resultsUrl = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/runs/${runId}/results?api-version=7.1`;
 			let runDetail: any = null;
 			let results: any[] | undefined = runResultsCache.get(runId);
 			try {
 				// Fetch run detail
-				const rdRes = await fetch(runDetailUrl, {
-					headers: {
-						'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-						'Content-Type': 'application/json'
-					}
-				});
-				if (rdRes.ok) runDetail = await rdRes.json();
+				runDetail = await ado.getTestRun(runId);
 			} catch (e) {
 				// ignore
 			}
@@ -253,17 +222,8 @@ async function getMonthlyTestData(url: URL, sendProgress?: (stage: string, messa
 			// Fetch results if not cached
 			if (!results) {
 				try {
-					const resRes = await fetch(resultsUrl, {
-						headers: {
-							'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-							'Content-Type': 'application/json'
-						}
-					});
-					if (resRes.ok) {
-						const resData = await resRes.json();
-						results = resData.value || [];
-						runResultsCache.set(runId, results || []);
-					}
+					results = await ado.listTestResults(runId);
+					runResultsCache.set(runId, results);
 				} catch (e) {
 					console.error(`Error fetching test results for run ${runId}:`, e);
 				}
@@ -354,9 +314,7 @@ async function getMonthlyTestData(url: URL, sendProgress?: (stage: string, messa
 			const result = await getTestCasesAroundDateWithBuffer(
 				day.date,
 				runsByDate,
-				AZURE_DEVOPS_ORGANIZATION,
-				AZURE_DEVOPS_PROJECT,
-				AZURE_DEVOPS_PAT,
+				ado,
 				validTestCaseIds,
 				runResultsCache
 			);
@@ -498,9 +456,7 @@ async function handleNonStreamingRequest({ url }: { url: URL }) {
 async function getTestCasesAroundDateWithBuffer(
 	targetDate: string,
 	runsByDate: Map<string, any[]>,
-	org: string,
-	project: string,
-	pat: string,
+	ado: AdoClient,
 	expectedTestCaseIds: Set<number>,
 	runResultsCache: Map<number, any[]> // cache of runId -> results
 ): Promise<{
@@ -519,9 +475,7 @@ async function getTestCasesAroundDateWithBuffer(
 			targetDate,
 			bufferDays,
 			runsByDate,
-			org,
-			project,
-			pat,
+			ado,
 			expectedTestCaseIds,
 			runResultsCache
 		);
@@ -584,9 +538,7 @@ async function getTestCasesAroundDate(
 	targetDate: string,
 	bufferDays: number,
 	runsByDate: Map<string, any[]>,
-	org: string,
-	project: string,
-	pat: string,
+	ado: AdoClient,
 	expectedTestCaseIds?: Set<number>,
 	runResultsCache?: Map<number, any[]>,
 	concurrency: number = 100
@@ -625,20 +577,9 @@ async function getTestCasesAroundDate(
 						return { runId: run.id, results: runResultsCache.get(run.id) || [], run };
 					}
 
-					const resultsUrl = `https://dev.azure.com/${org}/${project}/_apis/test/runs/${run.id}/results?api-version=7.1`;
-					const resultsRes = await fetch(resultsUrl, {
-						headers: {
-							'Authorization': `Basic ${btoa(':' + pat)}`,
-							'Content-Type': 'application/json',
-						},
-					});
-
-					if (resultsRes.ok) {
-						const resultsData = await resultsRes.json();
-						const vals = resultsData.value || [];
-						if (runResultsCache) runResultsCache.set(run.id, vals);
-						return { runId: run.id, results: vals, run };
-					}
+					const vals: AdoTestResult[] = await ado.listTestResults(run.id);
+					if (runResultsCache) runResultsCache.set(run.id, vals);
+					return { runId: run.id, results: vals, run };
 				} catch (error) {
 					console.error(`Error fetching test results for run ${run.id}:`, error);
 				}
@@ -691,79 +632,28 @@ async function getTestCasesAroundDate(
  * Fetch all test cases from a suite using the getAllTestCases API
  */
 async function fetchAllTestCasesFromSuite(
+	ado: AdoClient,
 	testPlanId: string,
-	suiteId: string,
-	org: string,
-	project: string,
-	pat: string
-): Promise<Array<{ workItem: { id: number; name: string } }>> {
-	const allTestCases: Array<{ workItem: { id: number; name: string } }> = [];
+	suiteId: string
+): Promise<AdoSuiteTestCase[]> {
+	const allTestCases: AdoSuiteTestCase[] = [];
 	
-	// Recursively fetch test cases from suite and all child suites
+	// Fetch test cases for a single suite; a failing suite is skipped rather than failing the whole tree
 	const fetchSuiteTestCases = async (currentSuiteId: string) => {
-		// Fetch test cases for this suite
-		let continuationToken: string | null = null;
-		
-		do {
-			let testCasesUrl = `https://dev.azure.com/${org}/${project}/_apis/testplan/Plans/${testPlanId}/Suites/${currentSuiteId}/TestCase?api-version=7.1`;
-			
-			if (continuationToken) {
-				testCasesUrl += `&continuationToken=${encodeURIComponent(continuationToken)}`;
-			}
-
-			const testCasesRes = await fetch(testCasesUrl, {
-				headers: {
-					'Authorization': `Basic ${btoa(':' + pat)}`,
-					'Content-Type': 'application/json',
-				},
-			});
-
-			if (testCasesRes.ok) {
-				const testCasesData = await testCasesRes.json();
-				
-				if (Array.isArray(testCasesData.value)) {
-					allTestCases.push(...testCasesData.value);
-				}
-
-				continuationToken = testCasesRes.headers.get('x-ms-continuationtoken');
-			} else {
-				break;
-			}
-			
-		} while (continuationToken);
+		try {
+			allTestCases.push(...await ado.listSuiteTestCases(testPlanId, currentSuiteId));
+		} catch (e) {
+			if (!isAdoRequestError(e)) throw e;
+		}
 	};
 	
 	// Fetch all suites to find child suites
-	const allSuites: Array<{ id: number; parentSuite?: { id: number } }> = [];
-	let suiteContinuationToken: string | null = null;
-
-	do {
-		let allSuitesUrl = `https://dev.azure.com/${org}/${project}/_apis/testplan/Plans/${testPlanId}/suites?api-version=7.1`;
-		
-		if (suiteContinuationToken) {
-			allSuitesUrl += `&continuationToken=${encodeURIComponent(suiteContinuationToken)}`;
-		}
-
-		const allSuitesRes = await fetch(allSuitesUrl, {
-			headers: {
-				'Authorization': `Basic ${btoa(':' + pat)}`,
-				'Content-Type': 'application/json',
-			},
-		});
-
-		if (allSuitesRes.ok) {
-			const allSuitesData = await allSuitesRes.json();
-			
-			if (Array.isArray(allSuitesData.value)) {
-				allSuites.push(...allSuitesData.value);
-			}
-
-			suiteContinuationToken = allSuitesRes.headers.get('x-ms-continuationtoken');
-		} else {
-			break;
-		}
-		
-	} while (suiteContinuationToken);
+	let allSuites: Array<{ id: number; parentSuite?: { id: number } }> = [];
+	try {
+		allSuites = await ado.listTestSuites(testPlanId);
+	} catch (e) {
+		if (!isAdoRequestError(e)) throw e;
+	}
 
 	// Recursively find all child suite IDs
 	const findChildSuites = (parentId: number): number[] => {
@@ -788,6 +678,4 @@ async function fetchAllTestCasesFromSuite(
 	}
 	
 	return allTestCases;
-}
-
-
+}
\ No newline at end of file
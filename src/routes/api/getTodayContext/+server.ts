@@ -1,8 +1,15 @@
 import { json } from '@sveltejs/kit';
-import { env } from '$env/dynamic/public';
-import { getPipelineConfig } from '$lib/utils';
+import { getPipelineConfigService } from '$lib/server/pipelineConfig';
+import { connectionQuery } from '$lib/utils/connections';
+import { getReleaseDefinitionId, isPipelineConfigError } from '$lib/utils/pipelineConfig';
 import { determineOverallDayQuality } from '$lib/utils/getOverallDayQuality';
 import { getOrSetDailyTestCache } from '$lib/utils/dailyTestCache';
+import { isThrottlingError, throttledResponse, throttlingErrorFromResponse } from '$lib/server/ado';
+import { getRequestTimeZone } from '$lib/server/timezone';
+import { todayContextCacheKey } from '$lib/utils/cacheKeys';
+import { buildFiltersQuery, resolveBuildFilters } from '$lib/utils/pipelineFilters';
+import type { PipelineEntry } from '$lib/types/pipelineConfig';
+import type { LinkedRun } from '$lib/types/linkedRun';
 
 // Returns per-pipeline context for a given date, including today's run IDs.
 // Used by PTAChat to inject context and generate suggestion chips.
@@ -12,14 +19,18 @@ function errorJson(error: string, status = 500) {
 }
 
 // Helper to fetch release pipeline data with run ID and name
-async function fetchReleasePipeline(baseUrl: string, pipelineId: string, date: string): Promise<{
+async function fetchReleasePipeline(baseUrl: string, pipeline: PipelineEntry, date: string, timeZone: string): Promise<{
   status: string;
   todayRunId: number | null;
   todayRunName: string | null;
 }> {
+  const pipelineId = pipeline.id;
   try {
-    const response = await fetch(`${baseUrl}/api/constructRelease?date=${date}&releaseDefinitionId=${pipelineId}`);
+    const url = `${baseUrl}/api/constructRelease?date=${date}&releaseDefinitionId=${pipelineId}&tz=${encodeURIComponent(timeZone)}${connectionQuery(pipeline.connection)}`;
+    const response = await fetch(url);
     if (!response.ok) {
+      const throttled = throttlingErrorFromResponse(response, url);
+      if (throttled) throw throttled;
       return { status: 'unknown', todayRunId: null, todayRunName: null };
     }
 
@@ -35,20 +46,26 @@ async function fetchReleasePipeline(baseUrl: string, pipelineId: string, date: s
       todayRunName: releaseData.name ?? null,
     };
   } catch (error) {
+    if (isThrottlingError(error)) throw error;
     console.error(`[getTodayContext] Error fetching release pipeline ${pipelineId}:`, error);
     return { status: 'unknown', todayRunId: null, todayRunName: null };
   }
 }
 
 // Helper to fetch build pipeline data with run ID and name (uses first/latest build)
-async function fetchBuildPipeline(baseUrl: string, pipelineId: string, date: string): Promise<{
+async function fetchBuildPipeline(baseUrl: string, pipeline: PipelineEntry, date: string, timeZone: string): Promise<{
   status: string;
   todayRunId: number | null;
   todayRunName: string | null;
 }> {
+  const pipelineId = pipeline.id;
   try {
-    const response = await fetch(`${baseUrl}/api/constructBuild?date=${date}&buildDefinitionId=${pipelineId}`);
+    const filters = buildFiltersQuery(resolveBuildFilters(pipeline));
+    const url = `${baseUrl}/api/constructBuild?date=${date}&buildDefinitionId=${pipelineId}&tz=${encodeURIComponent(timeZone)}${filters}${connectionQuery(pipeline.connection)}`;
+    const response = await fetch(url);
     if (!response.ok) {
+      const throttled = throttlingErrorFromResponse(response, url);
+      if (throttled) throw throttled;
       return { status: 'unknown', todayRunId: null, todayRunName: null };
     }
 
@@ -65,10 +82,55 @@ async function fetchBuildPipeline(baseUrl: string, pipelineId: string, date: str
       todayRunName: first.name ?? null,
     };
   } catch (error) {
+    if (isThrottlingError(error)) throw error;
     console.error(`[getTodayContext] Error fetching build pipeline ${pipelineId}:`, error);
     return { status: 'unknown', todayRunId: null, todayRunName: null };
   }
 }
+// Helper to fetch build/release pipeline data: the latest build, named together with the release it triggered
+async function fetchLinkedPipeline(baseUrl: string, pipeline: PipelineEntry, date: string, timeZone: string): Promise<{
+  status: string;
+  todayRunId: number | null;
+  todayRunName: string | null;
+}> {
+  const pipelineId = pipeline.id;
+  try {
+    const filters = buildFiltersQuery(resolveBuildFilters(pipeline));
+    const url = `${baseUrl}/api/constructBuildRelease?date=${date}&buildDefinitionId=${pipelineId}&releaseDefinitionId=${getReleaseDefinitionId(pipeline)}&tz=${encodeURIComponent(timeZone)}${filters}${connectionQuery(pipeline.connection)}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      const throttled = throttlingErrorFromResponse(response, url);
+      if (throttled) throw throttled;
+      return { status: 'unknown', todayRunId: null, todayRunName: null };
+    }
+
+    const runs = await response.json();
+
+    if (!Array.isArray(runs) || runs.length === 0) {
+      return { status: 'unknown', todayRunId: null, todayRunName: null };
+    }
+
+    const first = runs[0] as LinkedRun;
+    const buildName = first.builds[0]?.name ?? null;
+    return {
+      status: first.status || 'unknown',
+      todayRunId: first.buildId,
+      todayRunName: first.release && buildName ? `${buildName} (release ${first.release.name})` : buildName,
+    };
+  } catch (error) {
+    if (isThrottlingError(error)) throw error;
+    console.error(`[getTodayContext] Error fetching build/release pipeline ${pipelineId}:`, error);
+    return { status: 'unknown', todayRunId: null, todayRunName: null };
+  }
+}
+
+function fetchPipelineContext(baseUrl: string, pipeline: PipelineEntry, date: string, timeZone: string) {
+  switch (pipeline.type) {
+    case 'build/release': return fetchLinkedPipeline(baseUrl, pipeline, date, timeZone);
+    case 'build': return fetchBuildPipeline(baseUrl, pipeline, date, timeZone);
+    default: return fetchReleasePipeline(baseUrl, pipeline, date, timeZone);
+  }
+}
 
 // --- Main Handler ---
 export async function GET({ url, request }: { url: URL; request: Request }) {
@@ -79,25 +141,31 @@ export async function GET({ url, request }: { url: URL; request: Request }) {
       return errorJson('Invalid date format. Expected YYYY-MM-DD', 400);
     }
 
-    const pipelineConfig = getPipelineConfig(env.PUBLIC_AZURE_PIPELINE_CONFIG);
+    const timeZone = getRequestTimeZone(url);
+    if (!timeZone) {
+      return errorJson('Invalid tz (IANA time zone required)', 400);
+    }
+
+    const pipelineConfig = await getPipelineConfigService().getActive('daily');
     const baseUrl = `http://${request.headers.get('host')}`;
 
-    const response = await getOrSetDailyTestCache(`todaycontext:${date}`, async () => {
+    const response = await getOrSetDailyTestCache(todayContextCacheKey(date, timeZone, pipelineConfig.pipelines), async () => {
       const settled = await Promise.allSettled(
         pipelineConfig.pipelines.map(pipeline =>
-          pipeline.type === 'build'
-            ? fetchBuildPipeline(baseUrl, pipeline.id, date)
-                .then(result => ({ pipeline, result }))
-            : fetchReleasePipeline(baseUrl, pipeline.id, date)
-                .then(result => ({ pipeline, result }))
+          fetchPipelineContext(baseUrl, pipeline, date, timeZone)
+            .then(result => ({ pipeline, result }))
         )
       );
 
+      // A throttled pipeline would otherwise be cached as 'unknown' for the whole TTL
+      const throttled = settled.find(o => o.status === 'rejected' && isThrottlingError(o.reason));
+      if (throttled) throw (throttled as PromiseRejectedResult).reason;
+
       const pipelines = settled
         .filter(o => o.status === 'fulfilled')
         .map(o => {
           const { pipeline, result } = (o as PromiseFulfilledResult<{
-            pipeline: { id: string; displayName: string; type: string };
+            pipeline: PipelineEntry;
             result: { status: string; todayRunId: number | null; todayRunName: string | null };
           }>).value;
 
@@ -107,6 +175,7 @@ export async function GET({ url, request }: { url: URL; request: Request }) {
             id: pipeline.id,
             displayName: pipeline.displayName,
             type: pipeline.type,
+            ...(pipeline.connection ? { connection: pipeline.connection } : {}),
             quality,
             todayRunId: result.todayRunId,
             todayRunName: result.todayRunName,
@@ -119,6 +188,12 @@ export async function GET({ url, request }: { url: URL; request: Request }) {
     return json(response);
   } catch (e: any) {
     console.error(`[getTodayContext] Error:`, e);
+    if (isThrottlingError(e)) {
+      return throttledResponse(e);
+    }
+    if (isPipelineConfigError(e)) {
+      return json({ error: 'Invalid pipeline config', issues: e.issues, details: e.message }, { status: 500 });
+    }
     if (e && typeof e === 'object' && 'error' in e && 'status' in e) {
       return errorJson(e.error, e.status);
     }
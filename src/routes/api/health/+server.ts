@@ -0,0 +1,43 @@
+// Reports the Azure DevOps credential of every connection: its kind, whether a token
+// can be obtained and whether a PAT or client secret expires soon. Never returns secrets.
+// 503 when a connection cannot authenticate, 200 otherwise (with warnings for expiring ones).
+
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { getAdoConnection, listAdoConnectionNames, type AdoCredentialStatus } from '$lib/server/ado';
+
+type ConnectionHealth = {
+    organization?: string;
+    project?: string;
+    credential?: AdoCredentialStatus;
+    error?: string;
+};
+
+export async function GET() {
+    let names: string[];
+    try {
+        names = listAdoConnectionNames(env);
+    } catch (e) {
+        return json({ healthy: false, error: e instanceof Error ? e.message : String(e), connections: {} }, { status: 503 });
+    }
+
+    const connections: Record<string, ConnectionHealth> = {};
+    const warnings: string[] = [];
+    await Promise.all(names.map(async (name) => {
+        try {
+            const { organization, project, credential } = getAdoConnection(env, name);
+            // Fetching a header refreshes an expired token and records why it failed
+            await credential.getAuthorizationHeader().catch(() => undefined);
+            const status = credential.status();
+            connections[name] = { organization, project, credential: status };
+            if (status.expiresSoon && status.expiresOn) {
+                warnings.push(`${name}: ${status.kind} credential expires on ${status.expiresOn}`);
+            }
+        } catch (e) {
+            connections[name] = { error: e instanceof Error ? e.message : String(e) };
+        }
+    }));
+
+    const healthy = names.length > 0 && Object.values(connections).every((c) => c.credential?.healthy);
+    return json({ healthy, connections, warnings }, { status: healthy ? 200 : 503 });
+}
@@ -0,0 +1,133 @@
+// Long-range history of the configured pipelines, from the history store (see $lib/server/history)
+// GET ?pipelineId=&from=&to=&granularity=day|week|month returns the pipeline's runs added up per bucket
+// (from defaults to 90 days before to, to to the latest finalized day; granularity to day) and the tests that failed most
+// Optional connection query param picks between pipelines with the same id; optional tz, the configured one by default
+// POST { pipelineId?, from? } ingests finalized days for one or every pipeline, carrying on from the last day ingested
+// (from ingests again from that day on). Each call adds at most HISTORY_MAX_INGEST_DAYS per pipeline; call it daily
+// POST needs Authorization: Bearer <CACHE_ADMIN_TOKEN> (see adminTokenProblem)
+
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { adminTokenProblem } from '$lib/server/cacheAdmin';
+import { getHistoryStore, ingestPipelineHistory, type HistoryIngestResult } from '$lib/server/history';
+import { getPipelineConfigService } from '$lib/server/pipelineConfig';
+import { getRequestTimeZone } from '$lib/server/timezone';
+import type { HistoryRange } from '$lib/types/history';
+import type { PipelineEntry } from '$lib/types/pipelineConfig';
+import { historyKey } from '$lib/utils/cacheKeys';
+import { isDefaultConnection } from '$lib/utils/connections';
+import { MAX_HISTORY_RANGE_DAYS, aggregateHistory, isHistoryGranularity, topFailingTests } from '$lib/utils/history';
+import { latestFinalizedDay, snapshotDates } from '$lib/utils/snapshots';
+import { addDaysToDateString } from '$lib/utils/timezone';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 90;
+
+function findPipeline(pipelines: PipelineEntry[], pipelineId: string, connection: string | null): PipelineEntry | undefined {
+    return pipelines.find((p) => String(p.id) === pipelineId && (connection === null || (isDefaultConnection(connection) ? isDefaultConnection(p.connection) : p.connection === connection)));
+}
+
+export async function GET({ url }: { url: URL }) {
+    const pipelineId = url.searchParams.get('pipelineId');
+    if (!pipelineId) {
+        return json({ error: 'Missing pipelineId' }, { status: 400 });
+    }
+    const timeZone = getRequestTimeZone(url);
+    if (!timeZone) {
+        return json({ error: 'Invalid tz (IANA time zone required)' }, { status: 400 });
+    }
+    const granularity = url.searchParams.get('granularity') || 'day';
+    if (!isHistoryGranularity(granularity)) {
+        return json({ error: 'Invalid granularity (day, week or month required)' }, { status: 400 });
+    }
+    const to = url.searchParams.get('to') || latestFinalizedDay(timeZone);
+    // Checked before the default from is counted back from it
+    const from = DATE_PATTERN.test(to) ? url.searchParams.get('from') || addDaysToDateString(to, 1 - DEFAULT_RANGE_DAYS) : null;
+    if (from === null || !DATE_PATTERN.test(from) || from > to) {
+        return json({ error: 'Invalid from or to (YYYY-MM-DD required, from not after to)' }, { status: 400 });
+    }
+    if (snapshotDates(from, to).length > MAX_HISTORY_RANGE_DAYS) {
+        return json({ error: `At most ${MAX_HISTORY_RANGE_DAYS} days per request` }, { status: 400 });
+    }
+
+    const store = getHistoryStore();
+    if (!store) {
+        return json({ error: 'History is disabled (no history store configured)' }, { status: 409 });
+    }
+    const pipelineConfig = await getPipelineConfigService().getActive('daily');
+    const pipeline = findPipeline(pipelineConfig.pipelines, pipelineId, url.searchParams.get('connection'));
+    if (!pipeline) {
+        return json({ error: `Pipeline ${pipelineId} is not in the pipeline config` }, { status: 404 });
+    }
+
+    try {
+        const key = historyKey(timeZone, pipeline);
+        const [runs, ingestedThrough] = await Promise.all([store.listRuns(key, from, to), store.getIngestedThrough(key)]);
+        const range: HistoryRange = {
+            pipelineId: pipeline.id,
+            type: pipeline.type,
+            timeZone,
+            from,
+            to,
+            granularity,
+            ingestedThrough,
+            buckets: aggregateHistory(runs, from, to, granularity),
+            topFailingTests: topFailingTests(runs)
+        };
+        return json(range);
+    } catch (e) {
+        console.error(`[history] Could not read the history of pipeline ${pipelineId} from ${store.description}:`, e);
+        return json({ error: 'Failed to read history' }, { status: 500 });
+    }
+}
+
+export async function POST({ url, request }: { url: URL; request: Request }) {
+    const denied = adminTokenProblem(request, env.CACHE_ADMIN_TOKEN);
+    if (denied) {
+        return json({ error: denied.error }, { status: denied.status });
+    }
+
+    const timeZone = getRequestTimeZone(url);
+    if (!timeZone) {
+        return json({ error: 'Invalid tz (IANA time zone required)' }, { status: 400 });
+    }
+    const store = getHistoryStore();
+    if (!store) {
+        return json({ error: 'History is disabled (no history store configured)' }, { status: 409 });
+    }
+
+    let body: { pipelineId?: unknown; from?: unknown } = {};
+    const text = await request.text();
+    if (text.trim() !== '') {
+        try {
+            body = JSON.parse(text);
+        } catch {
+            return json({ error: 'Request body must be JSON' }, { status: 400 });
+        }
+    }
+    if (body.from !== undefined && (typeof body.from !== 'string' || !DATE_PATTERN.test(body.from))) {
+        return json({ error: 'Invalid from (YYYY-MM-DD required)' }, { status: 400 });
+    }
+
+    const pipelineConfig = await getPipelineConfigService().getActive('daily');
+    const pipelines = body.pipelineId === undefined
+        ? pipelineConfig.pipelines
+        : pipelineConfig.pipelines.filter((p) => String(p.id) === String(body.pipelineId));
+    if (pipelines.length === 0) {
+        return json({ error: `Pipeline ${body.pipelineId} is not in the pipeline config` }, { status: 404 });
+    }
+
+    // One pipeline at a time to spare Azure DevOps
+    // The origin the adapter is configured with (ORIGIN), not a Host header the caller picked
+    const baseUrl = url.origin;
+    const results: HistoryIngestResult[] = [];
+    for (const pipeline of pipelines) {
+        try {
+            results.push(await ingestPipelineHistory(store, pipeline, { baseUrl, timeZone, from: body.from as string | undefined }));
+        } catch (e) {
+            console.error(`[history] Could not ingest pipeline ${pipeline.id} into ${store.description}:`, e);
+            results.push({ pipelineId: pipeline.id, days: 0, runs: 0, ingestedThrough: null, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+    return json({ store: store.description, timeZone, pipelines: results });
+}
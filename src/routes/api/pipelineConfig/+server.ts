@@ -0,0 +1,86 @@
+// Reads and saves the pipeline config edited on the settings page
+// ?scope=daily (default) is the dashboard, ?scope=weekly the sprint test results
+// GET returns the config with where it came from and the connections pipelines can use; PUT takes the whole config as the body
+// and needs Authorization: Bearer <CACHE_ADMIN_TOKEN> (see adminTokenProblem)
+
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { adminTokenProblem } from '$lib/server/cacheAdmin';
+import { getPipelineConfigService, PIPELINE_CONFIG_ENV_VARS } from '$lib/server/pipelineConfig';
+import { getConnectionNames } from '$lib/server/connection';
+import { findUnknownConnections, isPipelineConfigError, PIPELINE_CONFIG_VERSION, validatePipelineConfig } from '$lib/utils/pipelineConfig';
+import type { PipelineConfigScope } from '$lib/types/pipelineConfig';
+
+function parseScope(url: URL): PipelineConfigScope | null {
+    const scope = url.searchParams.get('scope') || 'daily';
+    return scope === 'daily' || scope === 'weekly' ? scope : null;
+}
+
+export async function GET({ url }: { url: URL }) {
+    const scope = parseScope(url);
+    if (!scope) {
+        return json({ error: 'Invalid scope (daily or weekly required)' }, { status: 400 });
+    }
+
+    const service = getPipelineConfigService();
+    const store = service.store?.description ?? null;
+    const connections = getConnectionNames();
+    try {
+        return json({ ...(await service.load(scope)), store, envVar: PIPELINE_CONFIG_ENV_VARS[scope], connections });
+    } catch (e) {
+        if (!isPipelineConfigError(e)) throw e;
+        // Nothing saved and no usable env var: start the settings page from an empty list
+        return json({
+            scope,
+            source: 'env',
+            config: { version: PIPELINE_CONFIG_VERSION, pipelines: [] },
+            store,
+            envVar: PIPELINE_CONFIG_ENV_VARS[scope],
+            connections,
+            error: e.message,
+            issues: e.issues
+        });
+    }
+}
+
+export async function PUT({ url, request }: { url: URL; request: Request }) {
+    const denied = adminTokenProblem(request, env.CACHE_ADMIN_TOKEN);
+    if (denied) {
+        return json({ error: denied.error }, { status: denied.status });
+    }
+
+    const scope = parseScope(url);
+    if (!scope) {
+        return json({ error: 'Invalid scope (daily or weekly required)' }, { status: 400 });
+    }
+
+    const service = getPipelineConfigService();
+    if (!service.store) {
+        return json({ error: 'Saving is disabled (no pipeline config store configured)' }, { status: 409 });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    try {
+        // Connections are server env, so the shared validation cannot check the names
+        const connections = getConnectionNames();
+        const unknown = findUnknownConnections(validatePipelineConfig(body), connections);
+        if (unknown.length > 0) {
+            return json({ error: 'Invalid pipeline config', issues: unknown }, { status: 400 });
+        }
+
+        const saved = await service.save(scope, body);
+        return json({ ...saved, store: service.store.description, envVar: PIPELINE_CONFIG_ENV_VARS[scope], connections });
+    } catch (e) {
+        if (isPipelineConfigError(e)) {
+            return json({ error: 'Invalid pipeline config', issues: e.issues }, { status: 400 });
+        }
+        console.error(`[pipelineConfig] Failed to save the ${scope} config:`, e);
+        return json({ error: 'Failed to save pipeline config' }, { status: 500 });
+    }
+}
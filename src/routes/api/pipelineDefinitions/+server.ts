@@ -0,0 +1,47 @@
+// Looks up build or release definitions by name for the pipeline settings page
+// ?type=build|release&name=<part of the name>[&connection=<name>]
+
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { getAdoClient, isAdoRequestError, isThrottlingError, throttledResponse, type AdoClient, type AdoDefinition } from '$lib/server/ado';
+import { getRequestConnection } from '$lib/server/connection';
+
+const MAX_RESULTS = 25;
+
+export async function GET({ url }: { url: URL }) {
+    const type = url.searchParams.get('type') || 'build';
+    const name = url.searchParams.get('name')?.trim() ?? '';
+
+    if (type !== 'build' && type !== 'release') {
+        return json({ error: 'Invalid type (build or release required)' }, { status: 400 });
+    }
+    if (name.length < 2) {
+        return json({ error: 'Search for at least 2 characters of the definition name' }, { status: 400 });
+    }
+    const connection = getRequestConnection(url);
+    if (!connection) {
+        return json({ error: 'Unknown connection (not defined in AZURE_DEVOPS_CONNECTIONS)' }, { status: 400 });
+    }
+
+    let ado: AdoClient;
+    try {
+        ado = getAdoClient(env, { connection });
+    } catch (e: any) {
+        return json({ error: 'Missing Azure DevOps environment variables' }, { status: 500 });
+    }
+
+    let definitions: AdoDefinition[];
+    try {
+        definitions = type === 'build'
+            ? await ado.listBuildDefinitions({ name, top: MAX_RESULTS })
+            : await ado.listReleaseDefinitions({ name, top: MAX_RESULTS });
+    } catch (e) {
+        if (isThrottlingError(e)) return throttledResponse(e);
+        if (!isAdoRequestError(e)) throw e;
+        return json({ error: 'Failed to search definitions', details: e.details }, { status: e.status });
+    }
+
+    return json({
+        definitions: definitions.map(({ id, name, path }) => ({ id: String(id), name, path, type, connection }))
+    });
+}
@@ -1,5 +1,14 @@
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
+import { withStorageFixture } from '$lib/server/fixtures';
+
+type Rca = {
+    summary?: string;
+    environment?: string;
+    timestamp?: string;
+    pipeline_name?: string;
+    fullContent: string | null;
+};
 
 export async function GET({ url }: { url: URL }) {
     const releaseId = url.searchParams.get('releaseId');
@@ -8,12 +17,18 @@ export async function GET({ url }: { url: URL }) {
         return json({ error: 'Invalid or missing releaseId' }, { status: 400 });
     }
 
+    // Storage is reached through the Azure SDKs, so fixture sessions replay the looked up analysis as a whole
+    const rca = await withStorageFixture(env, `rca/${releaseId}`, () => fetchRca(releaseId), null);
+    return json({ rca });
+}
+
+async function fetchRca(releaseId: string): Promise<Rca | null> {
     const connectionString = env.AZURE_STORAGE_CONNECTION_STRING;
     const tableName = env.AZURE_STORAGE_TABLE_NAME ?? 'ptaanalyses';
     const containerName = env.AZURE_STORAGE_CONTAINER_NAME ?? 'pta-analyses';
 
     if (!connectionString) {
-        return json({ rca: null });
+        return null;
     }
 
     try {
@@ -33,7 +48,7 @@ export async function GET({ url }: { url: URL }) {
         }
 
         if (!entity) {
-            return json({ rca: null });
+            return null;
         }
 
         // Fetch full markdown content from blob storage
@@ -60,17 +75,15 @@ export async function GET({ url }: { url: URL }) {
             }
         }
 
-        return json({
-            rca: {
-                summary: entity.summary as string | undefined,
-                environment: entity.environment as string | undefined,
-                timestamp: entity.timestamp as string | undefined,
-                pipeline_name: entity.pipeline_name as string | undefined,
-                fullContent
-            }
-        });
+        return {
+            summary: entity.summary as string | undefined,
+            environment: entity.environment as string | undefined,
+            timestamp: entity.timestamp as string | undefined,
+            pipeline_name: entity.pipeline_name as string | undefined,
+            fullContent
+        };
     } catch (e: unknown) {
         console.error('RCA fetch error:', e instanceof Error ? e.message : e);
-        return json({ rca: null });
+        return null;
     }
 }
@@ -0,0 +1,101 @@
+// Freezes finalized days into the day snapshot store (see $lib/server/snapshots), for the daily job and backfills
+// POST takes { from?, to? } (YYYY-MM-DD, both included); without them it freezes the latest finalized day
+// Optional tz query param, the configured dashboard time zone by default
+// Each day is asked of getDayQuality, which freezes it and the construct answers behind it; days are done one at a time
+// to spare Azure DevOps. Returns, per day, its quality and whether it is now frozen (incomplete answers are not)
+// Needs Authorization: Bearer <CACHE_ADMIN_TOKEN> (see adminTokenProblem), since a backfill fans out that far
+
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { adminTokenProblem } from '$lib/server/cacheAdmin';
+import { getDaySnapshotService } from '$lib/server/snapshots';
+import { getPipelineConfigService } from '$lib/server/pipelineConfig';
+import { getRequestTimeZone } from '$lib/server/timezone';
+import { isThrottlingError, throttlingErrorFromResponse } from '$lib/server/ado';
+import { dayQualityCacheKey } from '$lib/utils/cacheKeys';
+import { getDayQualityMode } from '$lib/utils/pipelineConfig';
+import { MAX_SNAPSHOT_BACKFILL_DAYS, isFinalizedDay, latestFinalizedDay, snapshotDates } from '$lib/utils/snapshots';
+
+type DayResult = {
+    date: string;
+    quality?: string;
+    frozen: boolean;
+    error?: string;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function POST({ url, request }: { url: URL; request: Request }) {
+    const denied = adminTokenProblem(request, env.CACHE_ADMIN_TOKEN);
+    if (denied) {
+        return json({ error: denied.error }, { status: denied.status });
+    }
+
+    const timeZone = getRequestTimeZone(url);
+    if (!timeZone) {
+        return json({ error: 'Invalid tz (IANA time zone required)' }, { status: 400 });
+    }
+
+    const service = getDaySnapshotService();
+    if (!service.store) {
+        return json({ error: 'Snapshots are disabled (no snapshot store configured)' }, { status: 409 });
+    }
+
+    let body: { from?: unknown; to?: unknown } = {};
+    const text = await request.text();
+    if (text.trim() !== '') {
+        try {
+            body = JSON.parse(text);
+        } catch {
+            return json({ error: 'Request body must be JSON' }, { status: 400 });
+        }
+    }
+
+    const latest = latestFinalizedDay(timeZone);
+    const to = body.to ?? body.from ?? latest;
+    const from = body.from ?? to;
+    if (typeof from !== 'string' || !DATE_PATTERN.test(from) || typeof to !== 'string' || !DATE_PATTERN.test(to) || from > to) {
+        return json({ error: 'Invalid from or to (YYYY-MM-DD required, from not after to)' }, { status: 400 });
+    }
+    if (!isFinalizedDay(to, timeZone)) {
+        return json({ error: `Only finalized days can be frozen; the latest is ${latest}` }, { status: 400 });
+    }
+    const dates = snapshotDates(from, to);
+    if (dates.length > MAX_SNAPSHOT_BACKFILL_DAYS) {
+        return json({ error: `At most ${MAX_SNAPSHOT_BACKFILL_DAYS} days per request` }, { status: 400 });
+    }
+
+    const pipelineConfig = await getPipelineConfigService().getActive('daily');
+    const mode = getDayQualityMode(pipelineConfig);
+    // The origin the adapter is configured with (ORIGIN), not a Host header the caller picked
+    const baseUrl = url.origin;
+
+    const days: DayResult[] = [];
+    for (const date of dates) {
+        const dayUrl = `${baseUrl}/api/getDayQuality?date=${date}&tz=${encodeURIComponent(timeZone)}`;
+        try {
+            const response = await fetch(dayUrl);
+            const throttled = throttlingErrorFromResponse(response, dayUrl);
+            if (throttled) throw throttled;
+            const day = await response.json();
+            const frozen = await service.isFrozen(date, dayQualityCacheKey(date, timeZone, pipelineConfig.pipelines, mode));
+            days.push(response.ok ? { date, quality: day.quality, frozen } : { date, frozen, error: day.error ?? `HTTP ${response.status}` });
+        } catch (e) {
+            // Throttled: stop here, the rest of the range can be asked for again later
+            if (isThrottlingError(e)) {
+                days.push({ date, frozen: false, error: 'Throttled by Azure DevOps; stopped here' });
+                break;
+            }
+            days.push({ date, frozen: false, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+
+    return json({
+        store: service.store.description,
+        timeZone,
+        from,
+        to,
+        frozen: days.filter((day) => day.frozen).length,
+        days
+    });
+}
@@ -1,7 +1,10 @@
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { getAzureDevOpsEnvVars } from '$lib/utils';
-import { env as publicEnv } from '$env/dynamic/public';
+import { getAdoClient, isAdoRequestError, type AdoClassificationNode, type AdoClient, type AdoRelease, type AdoTestRun } from '$lib/server/ado';
+import { getPipelineConfigService } from '$lib/server/pipelineConfig';
+import { getPipelineDisplayName, isPipelineConfigError } from '$lib/utils/pipelineConfig';
+import { judgeTestCounts, resolveNotRunPolicy } from '$lib/utils/statusScoring';
+import type { PipelineConfig } from '$lib/types/pipelineConfig';
 
 /**
  * GET /api/sprint-test-results
@@ -24,51 +27,39 @@ interface SprintTestResult {
 
 export async function GET() {
     try {
-        let AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT;
+        let ado: AdoClient;
         try {
-            ({ AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT } = getAzureDevOpsEnvVars(env));
+            ado = getAdoClient(env);
         } catch (e: any) {
             return json({ error: e.message || 'Missing Azure DevOps environment variables' }, { status: 500 });
         }
 
-        // Parse the weekly pipeline config
-        const weeklyConfigStr = publicEnv.PUBLIC_AZURE_PIPELINE_CONFIG_WEEKLY;
-        if (!weeklyConfigStr) {
-            return json({ error: 'PUBLIC_AZURE_PIPELINE_CONFIG_WEEKLY not configured' }, { status: 500 });
-        }
-
-        let weeklyConfig: { pipelines: Array<{ id: number; displayName: string; type: string }> };
+        // Weekly pipelines from the saved config (PUBLIC_AZURE_PIPELINE_CONFIG_WEEKLY until one is saved)
+        let weeklyConfig: PipelineConfig;
         try {
-            weeklyConfig = JSON.parse(weeklyConfigStr);
+            weeklyConfig = await getPipelineConfigService().getActive('weekly');
         } catch (e) {
-            return json({ error: 'Invalid PUBLIC_AZURE_PIPELINE_CONFIG_WEEKLY format' }, { status: 500 });
+            if (!isPipelineConfigError(e)) throw e;
+            return json({ error: `Weekly pipeline config: ${e.message}`, issues: e.issues }, { status: 500 });
         }
 
-        if (!weeklyConfig.pipelines || weeklyConfig.pipelines.length === 0) {
-            return json({ error: 'No pipelines configured in PUBLIC_AZURE_PIPELINE_CONFIG_WEEKLY' }, { status: 500 });
+        if (weeklyConfig.pipelines.length === 0) {
+            return json({ error: 'No weekly pipelines configured' }, { status: 500 });
         }
 
         // Fetch ALL iterations from classification nodes (not just team-configured ones)
-        const iterationsUrl = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/wit/classificationnodes/iterations?$depth=2&api-version=7.1`;
-        
-        const iterationsRes = await fetch(iterationsUrl, {
-            headers: {
-                'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-                'Content-Type': 'application/json',
-            },
-        });
-
-        if (!iterationsRes.ok) {
-            const errorText = await iterationsRes.text();
-            return json({ error: 'Failed to fetch iterations', details: errorText }, { status: iterationsRes.status });
+        let iterationsData: AdoClassificationNode;
+        try {
+            iterationsData = await ado.getIterations(2);
+        } catch (e) {
+            if (!isAdoRequestError(e)) throw e;
+            return json({ error: 'Failed to fetch iterations', details: e.details }, { status: e.status });
         }
-
-        const iterationsData = await iterationsRes.json();
         
         // Flatten nested iteration structure
-        const allIterations: any[] = [];
+        const allIterations: Array<{ id: number; name: string; path: string; startDate: string; finishDate: string }> = [];
         
-        function flattenIterations(node: any, parentPath: string = '') {
+        function flattenIterations(node: AdoClassificationNode, parentPath: string = '') {
             if (node.children) {
                 for (const child of node.children) {
                     const path = parentPath ? `${parentPath}\\${child.name}` : child.name;
@@ -91,8 +82,8 @@ export async function GET() {
         // Filter to only sprints that have started (don't show future sprints)
         const today = new Date();
         const sprints = allIterations
-            .filter((iteration: any) => new Date(iteration.startDate) <= today)
-            .sort((a: any, b: any) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())
+            .filter((iteration) => new Date(iteration.startDate) <= today)
+            .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())
             .slice(0, 10);
 
 
@@ -100,46 +91,56 @@ export async function GET() {
         const pipelineResults: Array<{
             pipelineName: string;
             pipelineId: number;
+            organization: string;
+            project: string;
             sprints: SprintTestResult[];
         }> = [];
 
         for (const pipeline of weeklyConfig.pipelines) {
             const sprintResults: SprintTestResult[] = [];
+            // Tests that did not run count as the pipeline's thresholds.notRunPolicy says, as they do on the daily dashboard
+            const notRunPolicy = resolveNotRunPolicy(pipeline.thresholds);
+
+            // Sprints come from the default project; each pipeline's runs from its own connection
+            let pipelineAdo: AdoClient;
+            try {
+                pipelineAdo = getAdoClient(env, { connection: pipeline.connection });
+            } catch (e) {
+                console.error(`Skipping weekly pipeline ${pipeline.id}: ${e instanceof Error ? e.message : e}`);
+                continue;
+            }
 
             for (const sprint of sprints) {
                 
                 if (pipeline.type === 'release') {
                 // Query releases for this sprint date range
-                const releasesUrl = `https://vsrm.dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/release/releases?definitionId=${pipeline.id}&minCreatedTime=${encodeURIComponent(sprint.startDate)}&maxCreatedTime=${encodeURIComponent(sprint.finishDate)}&api-version=7.1-preview.8`;
-                
-                const releasesRes = await fetch(releasesUrl, {
-                    headers: {
-                        'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-                    },
-                });
+                let releases: AdoRelease[] | null = null;
+                try {
+                    releases = await pipelineAdo.listReleases({
+                        definitionId: pipeline.id,
+                        minCreatedTime: sprint.startDate,
+                        maxCreatedTime: sprint.finishDate
+                    });
+                } catch (e) {
+                    if (!isAdoRequestError(e)) throw e;
+                    console.error(`    Failed to fetch releases: ${e.status}`);
+                }
 
-                if (releasesRes.ok) {
-                    const releasesData = await releasesRes.json();
-                    const releases = releasesData.value || [];
-                    
+                if (releases) {
                     if (releases.length > 0) {
                         // Get the latest release (most recent createdOn)
-                        const latestRelease = releases.sort((a: any, b: any) => 
+                        const latestRelease = releases.sort((a, b) => 
                             new Date(b.createdOn).getTime() - new Date(a.createdOn).getTime()
                         )[0];
 
 
                         // Fetch full release details to get environments
-                        const releaseDetailsUrl = `https://vsrm.dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/release/releases/${latestRelease.id}?api-version=7.1-preview.8`;
-                        
-                        const releaseDetailsRes = await fetch(releaseDetailsUrl, {
-                            headers: {
-                                'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-                            },
+                        const releaseDetails = await pipelineAdo.getRelease(latestRelease.id).catch((e) => {
+                            if (!isAdoRequestError(e)) throw e;
+                            return null;
                         });
 
-                        if (releaseDetailsRes.ok) {
-                            const releaseDetails = await releaseDetailsRes.json();
+                        if (releaseDetails) {
 
                             // Fetch test runs for this release
                             const releaseCreationDate = new Date(releaseDetails.createdOn);
@@ -148,58 +149,58 @@ export async function GET() {
 
                             const minLastUpdatedDate = releaseCreationDate.toISOString();
                             const maxLastUpdatedDate = maxDate.toISOString();
-                            const testRunUrl = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/runs?releaseIds=${latestRelease.id}&minLastUpdatedDate=${encodeURIComponent(minLastUpdatedDate)}&maxLastUpdatedDate=${encodeURIComponent(maxLastUpdatedDate)}&api-version=7.1`;
-                            
-                            const testRunRes = await fetch(testRunUrl, {
-                                headers: {
-                                    'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-                                },
+                            const testRuns = await pipelineAdo.listTestRuns({
+                                releaseIds: latestRelease.id,
+                                minLastUpdatedDate,
+                                maxLastUpdatedDate
+                            }).catch((e) => {
+                                if (!isAdoRequestError(e)) throw e;
+                                return null;
                             });
 
                             let passedTests = 0;
                             let failedTests = 0;
+                            let notExecutedTests = 0;
                             let totalTests = 0;
 
-                            if (testRunRes.ok) {
-                                const testRunData = await testRunRes.json();
-                                
-                                if (Array.isArray(testRunData.value)) {
-                                    // Filter test runs to only include those from stages with 'tests' in the name
-                                    const filteredRuns = testRunData.value.filter((run: any) => {
-                                        const envId = run.release?.environmentId;
-                                        const environment = releaseDetails.environments?.find((env: any) => env.id === envId);
-                                        const stageName = environment?.name || '';
-                                        return stageName.toLowerCase().includes('tests') || stageName.toLowerCase().includes('checks');
-                                    });
+                            if (testRuns) {
+                                // Filter test runs to only include those from stages with 'tests' in the name
+                                const filteredRuns = testRuns.filter((run) => {
+                                    const envId = run.release?.environmentId;
+                                    const environment = releaseDetails.environments?.find((env) => env.id === envId);
+                                    const stageName = environment?.name || '';
+                                    return stageName.toLowerCase().includes('tests') || stageName.toLowerCase().includes('checks');
+                                });
 
-                                    // Deduplicate test runs by name, keeping only the latest run for each unique test run name
-                                    const uniqueRuns: Record<string, any> = {};
-                                    for (const run of filteredRuns) {
-                                        const runName = run.name;
-                                        if (!runName) continue;
-                                        
-                                        if (!uniqueRuns[runName] || new Date(run.createdDate) > new Date(uniqueRuns[runName].createdDate)) {
-                                            uniqueRuns[runName] = run;
-                                        }
-                                    }
-
-                                    // Aggregate test results from all unique test runs
-                                    for (const runName in uniqueRuns) {
-                                        const run = uniqueRuns[runName];
-                                        passedTests += run.passedTests ?? 0;
-                                        failedTests += (run.failedTests ?? 0) + (run.unanalyzedTests ?? 0);
+                                // Deduplicate test runs by name, keeping only the latest run for each unique test run name
+                                const uniqueRuns: Record<string, AdoTestRun> = {};
+                                for (const run of filteredRuns) {
+                                    const runName = run.name;
+                                    if (!runName) continue;
+                                    
+                                    if (!uniqueRuns[runName] || new Date(run.createdDate ?? 0) > new Date(uniqueRuns[runName].createdDate ?? 0)) {
+                                        uniqueRuns[runName] = run;
                                     }
+                                }
 
-                                    totalTests = passedTests + failedTests;
+                                // Aggregate test results from all unique test runs
+                                for (const runName in uniqueRuns) {
+                                    const run = uniqueRuns[runName];
+                                    passedTests += run.passedTests ?? 0;
+                                    failedTests += (run.failedTests ?? 0) + (run.unanalyzedTests ?? 0);
+                                    notExecutedTests += run.notApplicableTests ?? 0;
                                 }
+
+                                totalTests = passedTests + failedTests;
                             }
 
 
                             // Determine status
                             let status = 'unknown';
-                            if (totalTests > 0) {
-                                const passRate = (passedTests / totalTests) * 100;
-                                if (passRate >= 90) status = 'good';
+                            const judged = judgeTestCounts(passedTests, failedTests, notExecutedTests, notRunPolicy);
+                            if (judged.total > 0) {
+                                const passRate = (judged.passed / judged.total) * 100;
+                                if (passRate >= 90) status = judged.capped ? 'ok' : 'good';
                                 else if (passRate >= 70) status = 'ok';
                                 else status = 'bad';
                             }
@@ -214,7 +215,7 @@ export async function GET() {
                                 totalTests,
                                 passedTests,
                                 failedTests,
-                                notExecutedTests: 0,
+                                notExecutedTests,
                                 status,
                             });
                         }
@@ -234,8 +235,6 @@ export async function GET() {
                             status: 'not run',
                         });
                     }
-                } else {
-                    console.error(`    Failed to fetch releases: ${releasesRes.status}`);
                 }
                 } else {
                     // Handle build pipelines if needed
@@ -257,16 +256,18 @@ export async function GET() {
             }
 
             pipelineResults.push({
-                pipelineName: pipeline.displayName,
-                pipelineId: pipeline.id,
+                pipelineName: getPipelineDisplayName(pipeline),
+                pipelineId: Number(pipeline.id),
+                organization: pipelineAdo.organization,
+                project: pipelineAdo.project,
                 sprints: sprintResults,
             });
         }
 
         return json({ 
             pipelines: pipelineResults,
-            organization: AZURE_DEVOPS_ORGANIZATION,
-            project: AZURE_DEVOPS_PROJECT
+            organization: ado.organization,
+            project: ado.project
         });
 
     } catch (error: any) {
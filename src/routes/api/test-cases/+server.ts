@@ -1,18 +1,60 @@
 
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { getAzureDevOpsEnvVars } from '$lib/utils';
+import { getAdoClient, isAdoRequestError, type AdoClient, type AdoTestResult, type AdoTestRun } from '$lib/server/ado';
+import { getRequestConnection } from '$lib/server/connection';
+
+function toTestCase(tc: AdoTestResult) {
+    return {
+        id: tc.id,
+        name: tc.testCase?.name || tc.testCaseTitle || '',
+        outcome: tc.outcome,
+        associatedBugs: tc.associatedBugs || [],
+    };
+}
+
+async function listTestRunsOrError(
+    ado: AdoClient,
+    query: { buildIds?: string; releaseIds?: string; minLastUpdatedDate: string; maxLastUpdatedDate: string }
+): Promise<AdoTestRun[] | Response> {
+    try {
+        return await ado.listTestRuns(query);
+    } catch (e) {
+        if (!isAdoRequestError(e)) throw e;
+        return json({ error: 'Failed to fetch test runs', details: e.details }, { status: e.status });
+    }
+}
+
+// Fetches all results of the given runs; runs whose results cannot be fetched are skipped
+async function collectTestCases(ado: AdoClient, runIds: number[]) {
+    const allTestCases: ReturnType<typeof toTestCase>[] = [];
+    for (const runId of runIds) {
+        try {
+            const results = await ado.listTestResults(runId);
+            allTestCases.push(...results.map(toTestCase));
+        } catch (e) {
+            if (!isAdoRequestError(e)) throw e;
+        }
+    }
+    return allTestCases;
+}
 
 /**
- * GET /api/test-cases?releaseId=123&date=YYYY-MM-DD
+ * GET /api/test-cases?releaseId=123&date=YYYY-MM-DD[&attempt=first|last]
  * Returns all test cases for all latest test runs (per environment) for a given release and date window.
+ * With attempt=first a release's earliest run of each name is used instead, to see what failed before a retry.
  */
 
 export async function GET({ url }: { url: URL }) {
     try {
-        let AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT;
+        const connection = getRequestConnection(url);
+        if (!connection) {
+            return json({ error: 'Unknown connection (not defined in AZURE_DEVOPS_CONNECTIONS)' }, { status: 400 });
+        }
+
+        let ado: AdoClient;
         try {
-            ({ AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT } = getAzureDevOpsEnvVars(env));
+            ado = getAdoClient(env, { connection });
         } catch (e: any) {
             return json({ error: e.message || 'Missing Azure DevOps environment variables' }, { status: 500 });
         }
@@ -26,6 +68,10 @@ export async function GET({ url }: { url: URL }) {
         if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
             return json({ error: 'Missing or invalid date (YYYY-MM-DD required)' }, { status: 400 });
         }
+        const attempt = url.searchParams.get('attempt') ?? 'last';
+        if (attempt !== 'first' && attempt !== 'last') {
+            return json({ error: 'Invalid attempt parameter (first or last)' }, { status: 400 });
+        }
 
         if (pipelineType === 'release') {
             // Use a window of -1 to +5 days around the given date (same as test-run)
@@ -38,60 +84,30 @@ export async function GET({ url }: { url: URL }) {
             const maxLastUpdatedDate = maxDateObj.toISOString().split("T")[0] + "T23:59:59Z";
 
             // 1. Get all test runs for this release in the date window
-            const runsUrl = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/runs?releaseIds=${pipelineId}&minLastUpdatedDate=${encodeURIComponent(minLastUpdatedDate)}&maxLastUpdatedDate=${encodeURIComponent(maxLastUpdatedDate)}&api-version=7.1`;
-            const runsRes = await fetch(runsUrl, {
-                headers: {
-                    'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-                    'Content-Type': 'application/json',
-                },
-            });
-            if (!runsRes.ok) {
-                return json({ error: 'Failed to fetch test runs', details: await runsRes.text() }, { status: runsRes.status });
-            }
-            const runsData = await runsRes.json();
-            if (!Array.isArray(runsData.value)) {
-                return json({ testCases: [] });
+            const runs = await listTestRunsOrError(ado, { releaseIds: pipelineId, minLastUpdatedDate, maxLastUpdatedDate });
+            if (runs instanceof Response) {
+                return runs;
             }
 
-            // 2. For each unique test run name, get the latest test run
+            // 2. For each unique test run name, get the latest test run (the earliest one for attempt=first)
             // This allows multiple test suites (different names) in the same environment to all be counted
-            const uniqueRuns: Record<string, any> = {};
-            for (const run of runsData.value) {
+            const uniqueRuns: Record<string, AdoTestRun> = {};
+            for (const run of runs) {
                 const runName = run.name;
                 if (!runName) continue;
-                if (!uniqueRuns[runName] || new Date(run.createdDate) > new Date(uniqueRuns[runName].createdDate)) {
+                const kept = uniqueRuns[runName];
+                const created = new Date(run.createdDate ?? 0);
+                if (!kept || (attempt === 'first' ? created < new Date(kept.createdDate ?? 0) : created > new Date(kept.createdDate ?? 0))) {
                     uniqueRuns[runName] = run;
                 }
             }
-            const testRunIds = Object.values(uniqueRuns).map((run: any) => run.id);
+            const testRunIds = Object.values(uniqueRuns).map((run) => run.id);
             if (testRunIds.length === 0) {
                 return json({ testCases: [] });
             }
 
             // 3. For each test run ID, fetch all test case results
-            let allTestCases = [];
-            for (const runId of testRunIds) {
-                const endpoint = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/Runs/${runId}/results?api-version=7.1`;
-                const res = await fetch(endpoint, {
-                    headers: {
-                        'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-                        'Content-Type': 'application/json',
-                    },
-                });
-                if (!res.ok) {
-                    // Skip failed runs, but log error
-                    continue;
-                }
-                const data = await res.json();
-                if (Array.isArray(data.value)) {
-                    allTestCases.push(...data.value.map((tc: any) => ({
-                        id: tc.id,
-                        name: tc.testCase?.name || tc.testCaseTitle || '',
-                        outcome: tc.outcome,
-                        associatedBugs: tc.associatedBugs || [],
-                    })));
-                }
-            }
+            const allTestCases = await collectTestCases(ado, testRunIds);
             return json({ testCases: allTestCases });
         } else if (pipelineType === 'build') {
             // Build pipeline: fetch test runs for the buildId, then fetch test case results for each run
@@ -104,56 +120,13 @@ export async function GET({ url }: { url: URL }) {
             const maxLastUpdatedDate = maxDateObj.toISOString().split("T")[0] + "T23:59:59Z";
 
             // 1. Get all test runs for this build in the date window
-            const runsUrl = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/runs?buildIds=${pipelineId}&minLastUpdatedDate=${encodeURIComponent(minLastUpdatedDate)}&maxLastUpdatedDate=${encodeURIComponent(maxLastUpdatedDate)}&api-version=7.1`;
-            const runsRes = await fetch(runsUrl, {
-                headers: {
-                    'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-                    'Content-Type': 'application/json',
-                },
-            });
-            if (!runsRes.ok) {
-                return json({ error: 'Failed to fetch test runs', details: await runsRes.text() }, { status: runsRes.status });
-            }
-            const runsData = await runsRes.json();
-            if (!Array.isArray(runsData.value)) {
-                return json({ testCases: [] });
+            const runs = await listTestRunsOrError(ado, { buildIds: pipelineId, minLastUpdatedDate, maxLastUpdatedDate });
+            if (runs instanceof Response) {
+                return runs;
             }
 
             // 2. For each test run ID, fetch all test case results
-            let allTestCases = [];
-            for (const runId of runsData.value.map((r: any) => r.id)) {
-                let skip = 0;
-                const top = 1000;
-                let hasMore = true;
-                while (hasMore) {
-                    const endpoint = `https://dev.azure.com/${AZURE_DEVOPS_ORGANIZATION}/${AZURE_DEVOPS_PROJECT}/_apis/test/Runs/${runId}/results?$top=${top}&$skip=${skip}&api-version=7.1`;
-                    const res = await fetch(endpoint, {
-                        headers: {
-                            'Authorization': `Basic ${btoa(':' + AZURE_DEVOPS_PAT)}`,
-                            'Content-Type': 'application/json',
-                        },
-                    });
-                    if (!res.ok) {
-                        break;
-                    }
-                    const data = await res.json();
-                    if (Array.isArray(data.value)) {
-                        allTestCases.push(...data.value.map((tc: any) => ({
-                            id: tc.id,
-                            name: tc.testCase?.name || tc.testCaseTitle || '',
-                            outcome: tc.outcome,
-                            associatedBugs: tc.associatedBugs || [],
-                        })));
-                        if (data.value.length < top) {
-                            hasMore = false;
-                        } else {
-                            skip += top;
-                        }
-                    } else {
-                        hasMore = false;
-                    }
-                }
-            }
+            const allTestCases = await collectTestCases(ado, runs.map((r) => r.id));
             return json({ testCases: allTestCases });
         } else {
             return json({ error: 'Invalid pipelineType parameter' }, { status: 400 });
@@ -164,3 +137,4 @@ export async function GET({ url }: { url: URL }) {
         return json({ error: 'Error fetching test cases', details: err.message }, { status: 500 });
     }
 }
+
@@ -1,16 +1,15 @@
 import { json } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { getAzureDevOpsEnvVars } from '$lib/utils';
+import { getAdoClient, type AdoClient } from '$lib/server/ado';
 import { env as publicEnv } from '$env/dynamic/public';
 import { fetchTestRunsForPlan, filterAndMapTestRuns, groupTestRuns } from '$lib/utils/testPlanRuns';
-import type { AzureEnv } from '$lib/utils/testPlanRuns';
 import type { TestRun, TestRunGroup } from '$lib/types/testRuns';
 
 export async function GET({ url }: { url: URL }) {
     try {
-        let AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT;
+        let ado: AdoClient;
         try {
-            ({ AZURE_DEVOPS_ORGANIZATION, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_PAT } = getAzureDevOpsEnvVars(env));
+            ado = getAdoClient(env);
         } catch (e: any) {
             return json({ error: e.message || 'Missing Azure DevOps environment variables' }, { status: 500 });
         }
@@ -27,13 +26,7 @@ export async function GET({ url }: { url: URL }) {
         const twelveMonthsAgo = new Date();
         twelveMonthsAgo.setMonth(now.getMonth() - 12);
 
-        const azureEnv: AzureEnv = {
-            organization: AZURE_DEVOPS_ORGANIZATION,
-            project: AZURE_DEVOPS_PROJECT,
-            pat: AZURE_DEVOPS_PAT,
-        };
-
-        const allRuns = await fetchTestRunsForPlan(azureEnv, testPlanId, twelveMonthsAgo, now);
+        const allRuns = await fetchTestRunsForPlan(ado, testPlanId, twelveMonthsAgo, now);
 
         if (!Array.isArray(allRuns) || allRuns.length === 0) {
             return json({ groups: [] });
@@ -44,8 +37,8 @@ export async function GET({ url }: { url: URL }) {
 
         return json({ 
             groups,
-            organization: AZURE_DEVOPS_ORGANIZATION,
-            project: AZURE_DEVOPS_PROJECT
+            organization: ado.organization,
+            project: ado.project
         });
 
     } catch (error: any) {
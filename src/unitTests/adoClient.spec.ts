@@ -0,0 +1,245 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AdoClient, AdoRequestError, ADO_API_VERSIONS, ConcurrencyLimiter, TEST_RESULTS_PAGE_SIZE, backoffDelayMs, getThrottleDelayMs, isAdoRequestError, isThrottlingError, parseRetryAfter, type AdoClientOptions } from '$lib/server/ado';
+
+// Helper to create a fake fetch Response
+function makeResponse(body: any, headers: Record<string, string> = {}, ok = true, status = 200) {
+  return {
+    ok,
+    status,
+    statusText: ok ? 'OK' : 'Error',
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null
+    },
+    json: async () => body,
+    text: async () => typeof body === 'string' ? body : JSON.stringify(body),
+  } as any;
+}
+
+function makeClient(f: any, options: Partial<AdoClientOptions> = {}) {
+  const noWait = async () => {};
+  return new AdoClient(
+    { organization: 'org', project: 'proj', pat: 'pat' },
+    { fetch: f, sleep: noWait, limiter: new ConcurrencyLimiter(8, noWait), ...options }
+  );
+}
+
+describe('AdoClient url building', () => {
+  const ado = makeClient(vi.fn());
+
+  it('appends the pinned api-version last', () => {
+    const url = ado.url('build', 'build/builds', { definitions: 5 });
+    expect(url).toBe(`https://dev.azure.com/org/proj/_apis/build/builds?definitions=5&api-version=${ADO_API_VERSIONS.build}`);
+  });
+
+  it('uses the vsrm host for releases', () => {
+    expect(ado.url('release', 'release/releases')).toMatch(/^https:\/\/vsrm\.dev\.azure\.com\/org\/proj\/_apis\/release\/releases\?/);
+  });
+
+  it('keeps $ keys literal, encodes values and drops empty ones', () => {
+    const url = ado.url('test', 'test/runs', { $top: 10, minLastUpdatedDate: '2024-01-01T00:00:00.000Z', branchName: undefined, planId: '' });
+    expect(url).toContain('$top=10');
+    expect(url).toContain('minLastUpdatedDate=2024-01-01T00%3A00%3A00.000Z');
+    expect(url).not.toContain('branchName');
+    expect(url).not.toContain('planId');
+  });
+
+  it('sends a basic auth header built from the PAT', async () => {
+    const f = vi.fn().mockResolvedValue(makeResponse({ id: 1 }));
+    await makeClient(f).getBuild(1);
+    const init = f.mock.calls[0][1];
+    expect(init.headers.Authorization).toBe(`Basic ${Buffer.from(':pat').toString('base64')}`);
+  });
+});
+
+describe('AdoClient paging', () => {
+  it('follows the continuation token from the header', async () => {
+    const f = vi.fn()
+      .mockResolvedValueOnce(makeResponse({ value: [{ id: 1 }] }, { 'x-ms-continuationtoken': 'abc' }))
+      .mockResolvedValueOnce(makeResponse({ value: [{ id: 2 }] }));
+
+    const builds = await makeClient(f).listBuilds({ definitions: 7 });
+    expect(builds.map(b => b.id)).toEqual([1, 2]);
+    expect(f.mock.calls[1][0]).toContain('continuationToken=abc');
+  });
+
+  it('follows the continuation token from the body', async () => {
+    const f = vi.fn()
+      .mockResolvedValueOnce(makeResponse({ value: [{ id: 1 }], continuationToken: 'next' }))
+      .mockResolvedValueOnce(makeResponse({ value: [{ id: 2 }], continuationToken: null }));
+
+    const runs = await makeClient(f).listTestRuns({ buildIds: 3 });
+    expect(runs).toHaveLength(2);
+  });
+
+  it('walks test results with $top/$skip until a short page', async () => {
+    const fullPage = Array.from({ length: TEST_RESULTS_PAGE_SIZE }, (_, i) => ({ id: i }));
+    const f = vi.fn()
+      .mockResolvedValueOnce(makeResponse({ value: fullPage }))
+      .mockResolvedValueOnce(makeResponse({ value: [{ id: -1 }] }));
+
+    const results = await makeClient(f).listTestResults(42);
+    expect(results).toHaveLength(TEST_RESULTS_PAGE_SIZE + 1);
+    expect(f.mock.calls[0][0]).toContain('/Runs/42/results?$top=1000&$skip=0');
+    expect(f.mock.calls[1][0]).toContain('$skip=1000');
+  });
+});
+
+describe('AdoClient definition lookup', () => {
+  it('searches build definitions by name with wildcards and reads a single page', async () => {
+    const f = vi.fn().mockResolvedValue(makeResponse({ value: [{ id: 3, name: 'Nightly' }] }, { 'x-ms-continuationtoken': 'more' }));
+    const definitions = await makeClient(f).listBuildDefinitions({ name: 'Night', top: 25 });
+
+    expect(definitions).toEqual([{ id: 3, name: 'Nightly' }]);
+    expect(f).toHaveBeenCalledTimes(1);
+    expect(f.mock.calls[0][0]).toContain('name=*Night*');
+    expect(f.mock.calls[0][0]).toContain('$top=25');
+  });
+
+  it('searches release definitions on the vsrm host', async () => {
+    const f = vi.fn().mockResolvedValue(makeResponse({ value: [] }));
+    await makeClient(f).listReleaseDefinitions({ name: 'Deploy' });
+
+    expect(f.mock.calls[0][0]).toMatch(/^https:\/\/vsrm\.dev\.azure\.com\/org\/proj\/_apis\/release\/definitions\?searchText=Deploy/);
+  });
+});
+
+describe('AdoClient errors', () => {
+  it('maps non-ok responses to AdoRequestError', async () => {
+    const f = vi.fn().mockResolvedValue(makeResponse('not found', {}, false, 404));
+
+    const error = await makeClient(f).getRelease(9).catch(e => e);
+    expect(isAdoRequestError(error)).toBe(true);
+    expect(error).toBeInstanceOf(AdoRequestError);
+    expect(error.status).toBe(404);
+    expect(error.isNotFound).toBe(true);
+    expect(error.details).toBe('not found');
+    expect(error.url).toContain('release/releases/9');
+  });
+
+  it('tolerates responses without a body reader', async () => {
+    const f = vi.fn().mockResolvedValue({ ok: false, status: 401 });
+
+    const error = await makeClient(f).getBuild(1).catch(e => e);
+    expect(error.isUnauthorized).toBe(true);
+    expect(error.details).toBe('');
+  });
+});
+
+describe('throttling headers', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+  const headers = (h: Record<string, string>) => ({ get: (name: string) => h[name.toLowerCase()] ?? null });
+
+  it('parses Retry-After in seconds and as an HTTP date', () => {
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it('falls back to X-RateLimit-Reset once the budget is exhausted', () => {
+    const reset = String(now / 1000 + 20);
+    expect(getThrottleDelayMs(headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }), now)).toBe(20_000);
+    expect(getThrottleDelayMs(headers({ 'x-ratelimit-remaining': '5', 'x-ratelimit-reset': reset }), now)).toBeNull();
+    expect(getThrottleDelayMs(headers({ 'retry-after': '1', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }), now)).toBe(1000);
+  });
+
+  it('caps jittered backoff at the policy maximum', () => {
+    const policy = { maxRetries: 4, baseDelayMs: 500, maxDelayMs: 3000 };
+    expect(backoffDelayMs(0, policy, () => 1)).toBe(500);
+    expect(backoffDelayMs(2, policy, () => 0.5)).toBe(1000);
+    expect(backoffDelayMs(10, policy, () => 1)).toBe(3000);
+  });
+});
+
+describe('AdoClient retries', () => {
+  it('retries 429 after the Retry-After delay', async () => {
+    const sleep = vi.fn(async () => {});
+    const f = vi.fn()
+      .mockResolvedValueOnce(makeResponse('slow down', { 'retry-after': '2' }, false, 429))
+      .mockResolvedValueOnce(makeResponse({ id: 5 }));
+
+    const build = await makeClient(f, { sleep }).getBuild(5);
+    expect(build.id).toBe(5);
+    expect(f).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(2000);
+  });
+
+  it('uses jittered backoff for 503 without Retry-After', async () => {
+    const sleep = vi.fn(async () => {});
+    const f = vi.fn()
+      .mockResolvedValueOnce(makeResponse('busy', {}, false, 503))
+      .mockResolvedValueOnce(makeResponse('busy', {}, false, 503))
+      .mockResolvedValueOnce(makeResponse({ id: 1 }));
+
+    await makeClient(f, { sleep, random: () => 1 }).getBuild(1);
+    expect(sleep.mock.calls.map(c => (c as any[])[0])).toEqual([500, 1000]);
+  });
+
+  it('gives up after maxRetries with a throttling error', async () => {
+    const f = vi.fn().mockResolvedValue(makeResponse('slow down', { 'retry-after': '1' }, false, 429));
+
+    const error = await makeClient(f, { retry: { maxRetries: 2 } }).getBuild(1).catch(e => e);
+    expect(f).toHaveBeenCalledTimes(3);
+    expect(isThrottlingError(error)).toBe(true);
+    expect(error.attempts).toBe(3);
+    expect(error.retryAfterMs).toBe(1000);
+  });
+
+  it('fails fast when Retry-After exceeds the longest allowed wait', async () => {
+    const f = vi.fn().mockResolvedValue(makeResponse('slow down', { 'retry-after': '600' }, false, 429));
+
+    const error = await makeClient(f).getBuild(1).catch(e => e);
+    expect(f).toHaveBeenCalledTimes(1);
+    expect(error.isThrottled).toBe(true);
+  });
+
+  it('does not retry other failures', async () => {
+    const f = vi.fn().mockResolvedValue(makeResponse('boom', {}, false, 500));
+
+    await expect(makeClient(f).getBuild(1)).rejects.toBeInstanceOf(AdoRequestError);
+    expect(f).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries dropped connections', async () => {
+    const f = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(makeResponse({ id: 1 }));
+
+    await makeClient(f).getBuild(1);
+    expect(f).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('never runs more tasks than its budget', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(r => setTimeout(r, 5));
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+    expect(peak).toBe(2);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it('is shared by clients using the same PAT', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    let running = 0;
+    let peak = 0;
+    const f = vi.fn(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(r => setTimeout(r, 5));
+      running--;
+      return makeResponse({ id: 1 });
+    });
+
+    await Promise.all([makeClient(f, { limiter }).getBuild(1), makeClient(f, { limiter }).getBuild(2)]);
+    expect(peak).toBe(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+    AdoConnectionError,
+    getAdoClient,
+    getAdoConnection,
+    getNamedAdoConnections,
+    listAdoConnectionNames
+} from '$lib/server/ado';
+import { buildCacheKey, dayQualityCacheKey, releaseCacheKey } from '$lib/utils/cacheKeys';
+import { connectionQuery } from '$lib/utils/connections';
+import { resolveBuildFilters } from '$lib/utils/pipelineFilters';
+import { PipelineConfigError, findUnknownConnections, validatePipelineConfig } from '$lib/utils/pipelineConfig';
+
+const ENV = {
+    AZURE_DEVOPS_ORGANIZATION: 'main-org',
+    AZURE_DEVOPS_PROJECT: 'Product',
+    AZURE_DEVOPS_PAT: 'main-pat',
+    PARTNER_PAT: 'partner-pat',
+    AZURE_DEVOPS_CONNECTIONS: JSON.stringify({
+        platform: { organization: 'main-org', project: 'Platform' },
+        partner: { organization: 'partner-org', project: 'Shop', patEnv: 'PARTNER_PAT' }
+    })
+};
+
+describe('Azure DevOps connections', () => {
+    it('reads named connections, sharing AZURE_DEVOPS_PAT unless patEnv says otherwise', () => {
+        const { platform, partner } = getNamedAdoConnections(ENV);
+        expect([platform.organization, platform.project, platform.credential.limiterKey]).toEqual(['main-org', 'Platform', 'main-pat']);
+        expect([partner.organization, partner.project, partner.credential.limiterKey]).toEqual(['partner-org', 'Shop', 'partner-pat']);
+    });
+
+    it('uses the AZURE_DEVOPS_* variables for the default connection', () => {
+        const connection = getAdoConnection(ENV);
+        expect([connection.organization, connection.project, connection.credential.kind]).toEqual(['main-org', 'Product', 'pat']);
+        expect(connection.credential.limiterKey).toBe('main-pat');
+        expect(getAdoConnection(ENV, 'default')).toEqual(connection);
+    });
+
+    it('lists the default connection first when it is configured', () => {
+        expect(listAdoConnectionNames(ENV)).toEqual(['default', 'platform', 'partner']);
+        expect(listAdoConnectionNames({ ...ENV, AZURE_DEVOPS_ORGANIZATION: '' })).toEqual(['platform', 'partner']);
+    });
+
+    it('rejects unknown names and malformed connections', () => {
+        expect(() => getAdoConnection(ENV, 'nope')).toThrow(AdoConnectionError);
+        expect(() => getNamedAdoConnections({ AZURE_DEVOPS_CONNECTIONS: '{' })).toThrow('Failed to parse AZURE_DEVOPS_CONNECTIONS');
+        expect(() => getNamedAdoConnections({ AZURE_DEVOPS_CONNECTIONS: '{"x":{"organization":"o"}}' }))
+            .toThrow('organization and project are required');
+        expect(() => getNamedAdoConnections({ AZURE_DEVOPS_CONNECTIONS: '{"x":{"organization":"o","project":"p","patEnv":"MISSING"}}' }))
+            .toThrow('MISSING is not set');
+        expect(() => getNamedAdoConnections({ ...ENV, AZURE_DEVOPS_CONNECTIONS: '{"default":{"organization":"o","project":"p"}}' }))
+            .toThrow('not a usable connection name');
+    });
+
+    it('builds clients and links for the named connection', () => {
+        const ado = getAdoClient(ENV, { connection: 'partner' });
+        expect(ado.organization).toBe('partner-org');
+        expect(ado.releaseLink(5)).toBe('https://dev.azure.com/partner-org/Shop/_releaseProgress?_a=release-pipeline-progress&releaseId=5');
+        expect(ado.url('build', 'build/builds')).toContain('https://dev.azure.com/partner-org/Shop/_apis/build/builds');
+    });
+});
+
+describe('Connection scoped cache keys', () => {
+    const filters = resolveBuildFilters(undefined);
+
+    it('keeps the keys of the default connection as they were', () => {
+        expect(releaseCacheKey('2026-03-10', 12, 'UTC')).toBe('release:2026-03-10:12:UTC');
+        expect(releaseCacheKey('2026-03-10', 12, 'UTC', 'default')).toBe('release:2026-03-10:12:UTC');
+        expect(buildCacheKey('2026-03-10', 12, 'UTC', filters, null)).toBe(buildCacheKey('2026-03-10', 12, 'UTC', filters));
+    });
+
+    it('tells the same definition id in two connections apart', () => {
+        expect(releaseCacheKey('2026-03-10', 12, 'UTC', 'partner')).toBe('release:2026-03-10:partner/12:UTC');
+        expect(buildCacheKey('2026-03-10', 12, 'UTC', filters, 'partner')).not.toBe(buildCacheKey('2026-03-10', 12, 'UTC', filters));
+        expect(dayQualityCacheKey('2026-03-10', 'UTC', [{ id: '12', type: 'build', connection: 'partner' }]))
+            .not.toBe(dayQualityCacheKey('2026-03-10', 'UTC', [{ id: '12', type: 'build' }]));
+    });
+
+    it('only adds the connection query param for named connections', () => {
+        expect(connectionQuery(undefined)).toBe('');
+        expect(connectionQuery('default')).toBe('');
+        expect(connectionQuery('partner')).toBe('&connection=partner');
+    });
+});
+
+describe('Pipeline config connections', () => {
+    it('allows the same definition id once per connection', () => {
+        const config = validatePipelineConfig({
+            pipelines: [
+                { id: '12', type: 'build' },
+                { id: '12', type: 'build', connection: 'partner' }
+            ]
+        });
+        expect(config.pipelines.map((p) => p.connection)).toEqual([undefined, 'partner']);
+    });
+
+    it('rejects malformed connection names', () => {
+        expect(() => validatePipelineConfig({ pipelines: [{ id: '12', type: 'build', connection: 'not a name' }] }))
+            .toThrow(PipelineConfigError);
+    });
+
+    it('reports connections the server does not know', () => {
+        const config = validatePipelineConfig({
+            pipelines: [
+                { id: '1', type: 'build' },
+                { id: '2', type: 'release', connection: 'default' },
+                { id: '3', type: 'release', connection: 'gone' }
+            ]
+        });
+        expect(findUnknownConnections(config, ['default', 'partner'])).toEqual([
+            'pipelines[2].connection: unknown connection "gone" (known: default, partner)'
+        ]);
+    });
+});
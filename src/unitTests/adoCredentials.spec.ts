@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+    AdoClient,
+    AdoCredentialError,
+    AZURE_DEVOPS_RESOURCE,
+    ClientCredentialsCredential,
+    ConcurrencyLimiter,
+    ManagedIdentityCredential,
+    PatCredential,
+    TOKEN_REFRESH_MARGIN_MS,
+    createAdoCredential,
+    getAdoConnection,
+    type AdoCredential
+} from '$lib/server/ado';
+import { getAzureDevOpsEnvVars } from '$lib/utils';
+
+type TokenRequest = { method: string; url: string; headers: IncomingMessage['headers']; body: string };
+
+// Local stand-in for the Microsoft Entra token endpoint and the managed identity endpoint
+let server: Server;
+let baseUrl: string;
+let requests: TokenRequest[];
+let answer: () => { status: number; body: unknown };
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+            requests.push({ method: req.method ?? '', url: req.url ?? '', headers: req.headers, body });
+            const { status, body: payload } = answer();
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    requests = [];
+    let issued = 0;
+    answer = () => ({ status: 200, body: { token_type: 'Bearer', access_token: `token-${++issued}`, expires_in: 3600 } });
+});
+
+const NOW = new Date('2026-03-10T12:00:00Z').getTime();
+
+describe('Service principal credential', () => {
+    it('requests an Azure DevOps token with the client credentials grant', async () => {
+        const credential = new ClientCredentialsCredential('tenant-1', 'client-1', 's3cret', baseUrl);
+
+        expect(await credential.getAuthorizationHeader()).toBe('Bearer token-1');
+
+        expect(requests).toHaveLength(1);
+        expect(requests[0].method).toBe('POST');
+        expect(requests[0].url).toBe('/tenant-1/oauth2/v2.0/token');
+        expect(Object.fromEntries(new URLSearchParams(requests[0].body))).toEqual({
+            grant_type: 'client_credentials',
+            client_id: 'client-1',
+            client_secret: 's3cret',
+            scope: `${AZURE_DEVOPS_RESOURCE}/.default`
+        });
+    });
+
+    it('reuses the token until it is about to expire', async () => {
+        let now = NOW;
+        const credential = new ClientCredentialsCredential('t', 'c', 's', baseUrl, { now: () => now });
+
+        await credential.getAuthorizationHeader();
+        now += 3600 * 1000 - TOKEN_REFRESH_MARGIN_MS - 1000;
+        expect(await credential.getAuthorizationHeader()).toBe('Bearer token-1');
+        now += 2000;
+        expect(await credential.getAuthorizationHeader()).toBe('Bearer token-2');
+        expect(requests).toHaveLength(2);
+    });
+
+    it('shares one token request between concurrent callers', async () => {
+        const credential = new ClientCredentialsCredential('t', 'c', 's', baseUrl);
+        const headers = await Promise.all([1, 2, 3].map(() => credential.getAuthorizationHeader()));
+        expect(new Set(headers)).toEqual(new Set(['Bearer token-1']));
+        expect(requests).toHaveLength(1);
+    });
+
+    it('reports a refused token request and recovers on the next one', async () => {
+        const credential = new ClientCredentialsCredential('t', 'c', 'wrong', baseUrl);
+        answer = () => ({ status: 401, body: { error: 'invalid_client' } });
+
+        await expect(credential.getAuthorizationHeader()).rejects.toThrow(AdoCredentialError);
+        expect(credential.status()).toMatchObject({ kind: 'servicePrincipal', healthy: false, lastError: expect.stringContaining('invalid_client') });
+
+        answer = () => ({ status: 200, body: { access_token: 'fresh', expires_in: 3600 } });
+        expect(await credential.getAuthorizationHeader()).toBe('Bearer fresh');
+        expect(credential.status()).toMatchObject({ healthy: true, lastError: null });
+    });
+
+    it('keeps using a still valid token when an early refresh fails', async () => {
+        let now = NOW;
+        const credential = new ClientCredentialsCredential('t', 'c', 's', baseUrl, { now: () => now });
+        await credential.getAuthorizationHeader();
+
+        answer = () => ({ status: 500, body: {} });
+        now += 3600 * 1000 - 60 * 1000;
+        expect(await credential.getAuthorizationHeader()).toBe('Bearer token-1');
+    });
+});
+
+describe('Managed identity credential', () => {
+    it('asks the App Service identity endpoint for an Azure DevOps token', async () => {
+        answer = () => ({ status: 200, body: { access_token: 'mi-token', expires_on: String(Math.floor(Date.now() / 1000) + 3600) } });
+        const credential = new ManagedIdentityCredential('user-assigned', { endpoint: `${baseUrl}/msi/token`, secretHeader: 'header-secret' });
+
+        expect(await credential.getAuthorizationHeader()).toBe('Bearer mi-token');
+
+        const url = new URL(requests[0].url, baseUrl);
+        expect(url.pathname).toBe('/msi/token');
+        expect(url.searchParams.get('resource')).toBe(AZURE_DEVOPS_RESOURCE);
+        expect(url.searchParams.get('client_id')).toBe('user-assigned');
+        expect(requests[0].headers['x-identity-header']).toBe('header-secret');
+        expect(credential.status().tokenExpiresOn).not.toBeNull();
+    });
+});
+
+describe('Credential configuration', () => {
+    const SP_ENV = {
+        AZURE_DEVOPS_ORGANIZATION: 'org',
+        AZURE_DEVOPS_PROJECT: 'proj',
+        AZURE_DEVOPS_AUTH: 'servicePrincipal',
+        AZURE_TENANT_ID: 'tenant',
+        AZURE_CLIENT_ID: 'client',
+        AZURE_CLIENT_SECRET: 'secret'
+    };
+
+    it('only requires a PAT for PAT auth', () => {
+        expect(getAzureDevOpsEnvVars(SP_ENV)).toEqual({ AZURE_DEVOPS_ORGANIZATION: 'org', AZURE_DEVOPS_PROJECT: 'proj', AZURE_DEVOPS_AUTH: 'servicePrincipal' });
+        expect(() => getAzureDevOpsEnvVars({ ...SP_ENV, AZURE_DEVOPS_AUTH: 'kerberos' })).toThrow('AZURE_DEVOPS_AUTH must be one of');
+    });
+
+    it('builds one shared service principal credential from env', () => {
+        const env = { ...SP_ENV, AZURE_AUTHORITY_HOST: baseUrl };
+        const connection = getAdoConnection(env);
+        expect(connection.credential.kind).toBe('servicePrincipal');
+        expect(getAdoConnection(env).credential).toBe(connection.credential);
+        expect(() => getAdoConnection({ ...SP_ENV, AZURE_CLIENT_SECRET: '' })).toThrow('AZURE_CLIENT_SECRET');
+    });
+
+    it('lets a named connection use a managed identity', () => {
+        const env = {
+            AZURE_DEVOPS_CONNECTIONS: JSON.stringify({ ops: { organization: 'o', project: 'p', auth: 'managedIdentity', clientId: 'mi' } })
+        };
+        expect(getAdoConnection(env, 'ops').credential.kind).toBe('managedIdentity');
+    });
+
+    it('reports a PAT that expires soon', () => {
+        const env = { AZURE_DEVOPS_ORGANIZATION: 'org', AZURE_DEVOPS_PROJECT: 'proj', AZURE_DEVOPS_PAT: 'pat' };
+        const soon = new Date(NOW + 3 * 24 * 60 * 60 * 1000).toISOString();
+        const credential = getAdoConnection({ ...env, AZURE_DEVOPS_PAT_EXPIRES_ON: soon }).credential;
+
+        expect(credential.status(NOW)).toMatchObject({ kind: 'pat', healthy: true, expiresOn: soon, expiresSoon: true });
+        expect(credential.status(NOW + 4 * 24 * 60 * 60 * 1000)).toMatchObject({ healthy: false });
+        expect(new PatCredential('pat').status(NOW)).toMatchObject({ expiresOn: null, expiresSoon: false });
+        expect(createAdoCredential({ AZURE_DEVOPS_CREDENTIAL_WARNING_DAYS: '1' }, { kind: 'pat', pat: 'pat', expiresOn: new Date(soon) })
+            .status(NOW).expiresSoon).toBe(false);
+    });
+});
+
+describe('AdoClient with a token credential', () => {
+    it('retries a rejected token once with a fresh one', async () => {
+        let issued = 0;
+        let cached = false;
+        const credential: AdoCredential = {
+            kind: 'servicePrincipal',
+            limiterKey: 'sp',
+            getAuthorizationHeader: async () => {
+                if (!cached) issued++;
+                cached = true;
+                return `Bearer token-${issued}`;
+            },
+            invalidate: () => {
+                const had = cached;
+                cached = false;
+                return had;
+            },
+            status: () => ({ kind: 'servicePrincipal', healthy: true, expiresOn: null, expiresSoon: false, tokenExpiresOn: null, lastError: null })
+        };
+        const f = vi.fn()
+            .mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized', headers: { get: () => null }, text: async () => '' })
+            .mockResolvedValueOnce({ ok: true, status: 200, headers: { get: () => null }, json: async () => ({ id: 1 }) });
+        const ado = new AdoClient({ organization: 'org', project: 'proj', credential }, { fetch: f, limiter: new ConcurrencyLimiter(1) });
+
+        expect(await ado.getBuild(1)).toEqual({ id: 1 });
+        expect(f.mock.calls.map(([, init]) => init.headers.Authorization)).toEqual(['Bearer token-1', 'Bearer token-2']);
+    });
+});
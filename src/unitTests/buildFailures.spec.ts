@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { AdoTimelineRecord } from '$lib/server/ado';
+import defaultRules from '$lib/constants/failureRules.json';
+import {
+    classifyBuildFailure,
+    countDaysLostByCategory,
+    dayFailureCategories,
+    failingLogId,
+    logTail,
+    parseFailureRules
+} from '$lib/utils/buildFailures';
+
+const rules = parseFailureRules(defaultRules);
+
+function record(type: string, name: string, result: AdoTimelineRecord['result'], extra: Partial<AdoTimelineRecord> = {}): AdoTimelineRecord {
+    return { id: `${type}-${name}`, type, name, state: 'completed', result, ...extra };
+}
+
+describe('Build failure classification', () => {
+    it('matches the failing records\' error issues against the rules in order', () => {
+        const records = [
+            record('Stage', 'Build', 'failed'),
+            record('Task', 'Compile', 'failed', { issues: [
+                { type: 'warning', message: 'Request timed out once, retrying' },
+                { type: 'error', message: "src/app.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'." }
+            ] })
+        ];
+        expect(classifyBuildFailure(records, rules)).toMatchObject({ category: 'compileError', source: 'issue', task: 'Compile' });
+        expect(classifyBuildFailure([record('Stage', 'Build', 'succeeded')], rules)).toBeNull();
+    });
+
+    it('reads the failing task\'s log tail when no issue matches, last line first', () => {
+        const records = [record('Task', 'Restore', 'failed', { log: { id: 7 }, issues: [{ type: 'error', message: 'Process completed with exit code 1.' }] })];
+        const tail = logTail('npm install\n\nnpm ERR! code ETIMEDOUT\nnpm ERR! network request to https://registry.npmjs.org failed\n');
+        expect(failingLogId(records)).toBe(7);
+        expect(tail).toHaveLength(3);
+        expect(classifyBuildFailure(records, rules, tail)).toMatchObject({
+            category: 'dependencyDownload',
+            source: 'log',
+            message: 'npm ERR! network request to https://registry.npmjs.org failed',
+            task: 'Restore'
+        });
+    });
+
+    it('falls back on the failing record\'s result when no rule matches', () => {
+        expect(classifyBuildFailure([record('Job', 'Agent job 1', 'canceled')], rules)).toMatchObject({ category: 'canceledByUser', source: 'result' });
+        expect(classifyBuildFailure([record('Job', 'Agent job 1', 'abandoned')], rules)).toMatchObject({ category: 'agentLost' });
+        expect(classifyBuildFailure([record('Task', 'Script', 'failed', { issues: [{ type: 'error', message: 'exit code 2' }] })], rules))
+            .toEqual({ category: 'other', source: 'result', message: 'exit code 2', task: 'Script' });
+    });
+
+    it('rejects rules with unknown categories or broken patterns', () => {
+        expect(() => parseFailureRules({ rules: [{ category: 'flaky', pattern: '(' }] })).toThrow(/rules\[0\]\.category[\s\S]*rules\[0\]\.pattern/);
+        expect(() => parseFailureRules([])).toThrow('expected an object with a rules array');
+    });
+});
+
+describe('Days lost per failure category', () => {
+    it('counts bad and interrupted days once per category', () => {
+        expect(dayFailureCategories([{ failureCategory: 'timeout' }, {}, { failureCategory: 'compileError' }, { failureCategory: 'timeout' }]))
+            .toEqual(['compileError', 'timeout']);
+        expect(countDaysLostByCategory([
+            { quality: 'bad', failureCategories: ['timeout', 'compileError'] },
+            { quality: 'interrupted', failureCategories: ['timeout'] },
+            { quality: 'good', failureCategories: ['agentLost'] },
+            { quality: 'bad' }
+        ])).toEqual([{ category: 'timeout', days: 2 }, { category: 'compileError', days: 1 }]);
+    });
+});
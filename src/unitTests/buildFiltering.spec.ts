@@ -1,4 +1,14 @@
 import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_BUILD_FILTERS,
+    buildFiltersQuery,
+    matchesBranch,
+    matchesBuildFilters,
+    normalizeBranch,
+    parseBuildFilters,
+    resolveBuildFilters
+} from '$lib/utils/pipelineFilters';
+import { buildCacheKey, dayQualityCacheKey } from '$lib/utils/cacheKeys';
 
 // Test the build filtering logic
 describe('Build Filtering - Schedule Reason', () => {
@@ -119,3 +129,65 @@ describe('Build Filtering - Schedule Reason', () => {
         expect(filtered.every(b => b.reason === 'schedule')).toBe(true);
     });
 });
+
+describe('Build Filtering - Pipeline config filters', () => {
+    it('keeps scheduled trunk builds when a pipeline declares no filters', () => {
+        expect(resolveBuildFilters({})).toEqual(DEFAULT_BUILD_FILTERS);
+        expect(resolveBuildFilters(undefined)).toEqual(DEFAULT_BUILD_FILTERS);
+    });
+
+    it('normalizes short branch names to full refs', () => {
+        expect(normalizeBranch('main')).toBe('refs/heads/main');
+        expect(normalizeBranch('heads/release/1.0')).toBe('refs/heads/release/1.0');
+        expect(normalizeBranch('refs/tags/v1')).toBe('refs/tags/v1');
+    });
+
+    it('resolves branches, reasons and tags from a config entry', () => {
+        const filters = resolveBuildFilters({
+            branches: ['release/*', 'trunk', 'trunk'],
+            reasons: ['manual', 'individualCI'],
+            tags: 'nightly, gated'
+        });
+        expect(filters).toEqual({
+            branches: ['refs/heads/release/*', 'refs/heads/trunk'],
+            reasons: ['individualCI', 'manual'],
+            tags: ['gated', 'nightly']
+        });
+    });
+
+    it('rejects reasons Azure DevOps does not know', () => {
+        expect(() => resolveBuildFilters({ reasons: ['nightly'] })).toThrow(/Unknown build reason/);
+    });
+
+    it('matches wildcard branch patterns', () => {
+        expect(matchesBranch('refs/heads/release/2024.1', ['refs/heads/release/*'])).toBe(true);
+        expect(matchesBranch('refs/heads/release-notes', ['refs/heads/release/*'])).toBe(false);
+        expect(matchesBranch(undefined, ['refs/heads/*'])).toBe(false);
+    });
+
+    it('requires branch, reason and every tag to match', () => {
+        const filters = resolveBuildFilters({ branches: ['release/*'], reasons: ['manual'], tags: ['nightly'] });
+        const build = { sourceBranch: 'refs/heads/release/1', reason: 'manual', tags: ['nightly', 'x'] };
+
+        expect(matchesBuildFilters(build, filters)).toBe(true);
+        expect(matchesBuildFilters({ ...build, reason: 'schedule' }, filters)).toBe(false);
+        expect(matchesBuildFilters({ ...build, tags: ['x'] }, filters)).toBe(false);
+        expect(matchesBuildFilters({ ...build, sourceBranch: 'refs/heads/trunk' }, filters)).toBe(false);
+    });
+
+    it('round-trips filters through the route query string', () => {
+        const filters = resolveBuildFilters({ branches: ['main', 'release/*'], reasons: ['schedule', 'manual'], tags: ['nightly'] });
+        const params = new URLSearchParams(buildFiltersQuery(filters).slice(1));
+        expect(parseBuildFilters(params)).toEqual(filters);
+    });
+
+    it('gives each branch selection its own cache entry', () => {
+        const trunk = buildCacheKey('2026-01-31', 5, 'UTC', DEFAULT_BUILD_FILTERS);
+        const release = buildCacheKey('2026-01-31', 5, 'UTC', resolveBuildFilters({ branches: ['release/*'] }));
+        expect(trunk).not.toBe(release);
+
+        const before = dayQualityCacheKey('2026-01-31', 'UTC', [{ id: 5, type: 'build' }]);
+        const after = dayQualityCacheKey('2026-01-31', 'UTC', [{ id: 5, type: 'build', branches: ['release/*'] }]);
+        expect(before).not.toBe(after);
+    });
+});
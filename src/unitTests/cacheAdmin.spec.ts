@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type Redis from 'ioredis';
+import { MemoryRedis } from '$lib/server/fixtures/memoryRedis';
+import {
+    adminTokenProblem,
+    cacheAdminRole,
+    cachePatternProblem,
+    escapeCachePattern,
+    invalidateCachePattern
+} from '$lib/server/cacheAdmin';
+import { recentCachePatterns } from '$lib/utils/cacheKeys';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function request(authorization?: string): Request {
+    return new Request('http://localhost/api/cache/invalidate', { method: 'POST', headers: authorization ? { authorization } : {} });
+}
+
+async function seeded(keys: string[]): Promise<MemoryRedis> {
+    const redis = new MemoryRedis();
+    for (const key of keys) await redis.set(key, '{}', 'EX', 600);
+    return redis;
+}
+
+describe('Cache admin authorization', () => {
+    it('makes only the configured bearer token an admin', () => {
+        expect(cacheAdminRole(request('Bearer s3cret'), 's3cret')).toBe('admin');
+        expect(cacheAdminRole(request('Bearer guess'), 's3cret')).toBe('dashboard');
+        expect(cacheAdminRole(request(), 's3cret')).toBe('dashboard');
+        expect(cacheAdminRole(request('Bearer s3cret'), undefined)).toBe('dashboard');
+    });
+
+    it('lets only the admin through to admin-only routes', () => {
+        expect(adminTokenProblem(request('Bearer s3cret'), 's3cret')).toBeNull();
+        expect(adminTokenProblem(request(), 's3cret')?.status).toBe(401);
+        expect(adminTokenProblem(request('Bearer guess'), 's3cret')?.status).toBe(403);
+        expect(adminTokenProblem(request('Bearer s3cret'), undefined)?.status).toBe(403);
+    });
+
+    it('keeps patterns in the cache namespaces', () => {
+        expect(cachePatternProblem('dayquality:*', 'admin', NOW)).toBeNull();
+        expect(cachePatternProblem('build:2026-10-*', 'admin', NOW)).toBeNull();
+        expect(cachePatternProblem('*', 'admin', NOW)).toMatch(/namespaces/);
+        expect(cachePatternProblem('session:abc', 'admin', NOW)).toMatch(/namespaces/);
+        expect(cachePatternProblem('dayquality', 'admin', NOW)).toMatch(/namespaces/);
+    });
+
+    it('lets the dashboard invalidate only the recent days', () => {
+        expect(cachePatternProblem('build:2026-10-19:101:UTC:*', 'dashboard', NOW)).toBeNull();
+        expect(cachePatternProblem('dayquality:2026-10-17:*', 'dashboard', NOW)).toBeNull();
+        expect(cachePatternProblem('dayquality:2026-10-16:*', 'dashboard', NOW)).toMatch(/cache admin token/);
+        expect(cachePatternProblem('build:2026-10-*', 'dashboard', NOW)).toMatch(/cache admin token/);
+        expect(cachePatternProblem('buildTimeline:5001', 'dashboard', NOW)).toMatch(/cache admin token/);
+        expect(recentCachePatterns(NOW).every((pattern) => cachePatternProblem(pattern, 'dashboard', NOW) === null)).toBe(true);
+    });
+});
+
+describe('Cache invalidation', () => {
+    it('counts on a dry run and deletes otherwise', async () => {
+        const redis = await seeded(['build:2026-10-01:101:UTC:', 'build:2026-10-02:101:UTC:', 'build:2026-09-30:101:UTC:', 'testvolume:build:101:']);
+
+        expect(await invalidateCachePattern(redis as unknown as Redis, 'build:2026-10-*', true)).toEqual({ matched: 2, deleted: 0 });
+        expect(await invalidateCachePattern(redis as unknown as Redis, 'build:2026-10-*', false)).toEqual({ matched: 2, deleted: 2 });
+        expect(await redis.get('build:2026-09-30:101:UTC:')).not.toBeNull();
+        expect(await redis.get('testvolume:build:101:')).not.toBeNull();
+    });
+
+    it('matches an escaped key only, wildcard branches and all', async () => {
+        const key = 'build:2026-10-19:101:UTC:refs/heads/release/*|schedule|';
+        const redis = await seeded([key, 'build:2026-10-19:101:UTC:refs/heads/release/1.0|schedule|']);
+
+        expect(await invalidateCachePattern(redis as unknown as Redis, escapeCachePattern(key), false)).toEqual({ matched: 1, deleted: 1 });
+        expect(await redis.get('build:2026-10-19:101:UTC:refs/heads/release/1.0|schedule|')).not.toBeNull();
+    });
+});
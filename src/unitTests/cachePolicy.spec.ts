@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('$lib/utils/redisClient', async () => {
+    const { MemoryRedis } = await import('$lib/server/fixtures/memoryRedis');
+    return { default: new MemoryRedis() };
+});
+
+import redis from '$lib/utils/redisClient';
+import {
+    CONFIG_ERROR_TTL_SECONDS,
+    FINAL_TTL_SECONDS,
+    IN_PROGRESS_TTL_SECONDS,
+    RUNNING_TIMELINE_TTL_SECONDS,
+    SETTLING_TTL_SECONDS,
+    TODAY_TTL_SECONDS,
+    TRANSIENT_ERROR_TTL_SECONDS,
+    dayAnswerTtlSeconds,
+    timelineTtlSeconds
+} from '$lib/utils/cachePolicy';
+import { buildCacheKey, linkedRunCacheKey, pipelineDayCacheKeys, releaseCacheKey } from '$lib/utils/cacheKeys';
+import { forgetLocalCache, getOrSetDailyTestCache, recordCacheDependencies } from '$lib/utils/dailyTestCache';
+import { resolveBuildFilters } from '$lib/utils/pipelineFilters';
+import { configError, resultKind, resultKindLabel, transientError } from '$lib/utils/resultKinds';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('Cache TTL policy', () => {
+    it('keeps finalized days, lets recent ones settle and today expire soon', () => {
+        const good = [{ status: 'good' }];
+        expect(dayAnswerTtlSeconds(good, '2026-10-01', 'UTC', NOW)).toBe(FINAL_TTL_SECONDS);
+        expect(dayAnswerTtlSeconds(good, '2026-10-18', 'UTC', NOW)).toBe(SETTLING_TTL_SECONDS);
+        expect(dayAnswerTtlSeconds(good, '2026-10-19', 'UTC', NOW)).toBe(TODAY_TTL_SECONDS);
+    });
+
+    it('asks again soon while something runs, however old the day', () => {
+        expect(dayAnswerTtlSeconds([{ status: 'inProgress' }], '2026-10-19', 'UTC', NOW)).toBe(IN_PROGRESS_TTL_SECONDS);
+        expect(dayAnswerTtlSeconds({ complete: false }, '2026-10-01', 'UTC', NOW, (a) => a.complete)).toBe(IN_PROGRESS_TTL_SECONDS);
+    });
+
+    it('keeps errors briefly, by kind, and empty days like any other answer', () => {
+        expect(dayAnswerTtlSeconds(transientError('Failed to fetch build ID'), '2026-10-01', 'UTC', NOW)).toBe(TRANSIENT_ERROR_TTL_SECONDS);
+        // Cached before errors had a kind
+        expect(dayAnswerTtlSeconds({ error: 'Failed to fetch build ID' }, '2026-10-01', 'UTC', NOW)).toBe(TRANSIENT_ERROR_TTL_SECONDS);
+        expect(dayAnswerTtlSeconds(configError('Missing Azure DevOps environment variables'), '2026-10-01', 'UTC', NOW)).toBe(CONFIG_ERROR_TTL_SECONDS);
+        expect(dayAnswerTtlSeconds([], '2026-10-01', 'UTC', NOW)).toBe(FINAL_TTL_SECONDS);
+        expect(dayAnswerTtlSeconds({ buildId: null }, '2026-10-19', 'UTC', NOW)).toBe(TODAY_TTL_SECONDS);
+    });
+
+    it('tells empty answers from failed ones', () => {
+        expect(resultKind([])).toBe('empty');
+        expect(resultKind({ buildId: null })).toBe('empty');
+        expect(resultKind([{ status: 'good' }])).toBe('ok');
+        expect(resultKind({ error: 'Failed' })).toBe('transientError');
+        expect(resultKind(configError('Invalid build filters'))).toBe('configError');
+        expect(resultKindLabel('empty')).toBe('No run scheduled');
+        expect(resultKindLabel('ok')).toBeNull();
+    });
+
+    it('keeps a timeline once the build finished', () => {
+        expect(timelineTtlSeconds({ completed: false, failure: null })).toBe(RUNNING_TIMELINE_TTL_SECONDS);
+        expect(timelineTtlSeconds({ completed: true, failure: null })).toBe(FINAL_TTL_SECONDS);
+        expect(timelineTtlSeconds({ completed: true, failure: { category: 'test' } })).toBe(SETTLING_TTL_SECONDS);
+    });
+});
+
+describe('Day quality dependencies', () => {
+    beforeEach(async () => {
+        await redis.del('build:k', 'dayquality:k', 'cachever:build:k', 'cachedeps:build:k');
+        forgetLocalCache(/^(build|dayquality):k$/);
+    });
+
+    it('keys a pipeline by the construct answers its day is computed from', () => {
+        const filters = resolveBuildFilters({});
+        expect(pipelineDayCacheKeys('2026-10-19', 'UTC', { id: '101', type: 'build' })).toEqual([buildCacheKey('2026-10-19', '101', 'UTC', filters)]);
+        expect(pipelineDayCacheKeys('2026-10-19', 'UTC', { id: '201', type: 'release' })).toEqual([releaseCacheKey('2026-10-19', '201', 'UTC')]);
+        expect(pipelineDayCacheKeys('2026-10-19', 'UTC', { id: '101', type: 'build/release', releaseDefinitionId: '201' })).toEqual([
+            linkedRunCacheKey('2026-10-19', '101', '201', 'UTC', filters),
+            buildCacheKey('2026-10-19', '101', 'UTC', filters)
+        ]);
+        expect(pipelineDayCacheKeys('2026-10-19', 'UTC', { id: '101', type: 'build', reasons: ['nope'] })).toEqual([]);
+    });
+
+    it('drops the day when a construct answer is cached again with a different value', async () => {
+        await getOrSetDailyTestCache('build:k', async () => [{ status: 'inProgress' }], 60);
+        await getOrSetDailyTestCache('dayquality:k', async () => {
+            await recordCacheDependencies('dayquality:k', ['build:k']);
+            return { quality: 'inProgress' };
+        }, 60);
+
+        // The same value again leaves the day alone
+        await redis.del('build:k');
+        forgetLocalCache(/^build:k$/);
+        await getOrSetDailyTestCache('build:k', async () => [{ status: 'inProgress' }], 60);
+        expect(await redis.get('dayquality:k')).not.toBeNull();
+
+        await redis.del('build:k');
+        forgetLocalCache(/^build:k$/);
+        await getOrSetDailyTestCache('build:k', async () => [{ status: 'good' }], 60);
+        expect(await redis.get('dayquality:k')).toBeNull();
+    });
+});
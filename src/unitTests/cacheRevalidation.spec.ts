@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('$lib/utils/redisClient', async () => {
+    const { MemoryRedis } = await import('$lib/server/fixtures/memoryRedis');
+    return { default: new MemoryRedis() };
+});
+
+import redis from '$lib/utils/redisClient';
+import { forgetLocalCache, getCacheMetrics, getOrSetDailyTestCache, resetCacheMetrics } from '$lib/utils/dailyTestCache';
+import { transientError } from '$lib/utils/resultKinds';
+
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>((r) => (resolve = r));
+    return { promise, resolve };
+}
+
+describe('Stale-while-revalidate cache', () => {
+    beforeEach(async () => {
+        await redis.del('k', 'cachefresh:k', 'cachelock:k', 'cachever:k');
+        forgetLocalCache(/^k$/);
+        resetCacheMetrics();
+    });
+
+    it('serves an expired value at once and refreshes it in the background', async () => {
+        await getOrSetDailyTestCache('k', async () => ({ v: 1 }), 60);
+        // Expired, as another instance without a local copy sees it
+        await redis.del('cachefresh:k');
+        forgetLocalCache(/^k$/);
+
+        const refresh = deferred<{ v: number }>();
+        expect(await getOrSetDailyTestCache('k', () => refresh.promise, 60)).toEqual({ v: 1 });
+        refresh.resolve({ v: 2 });
+        await vi.waitFor(async () => expect(await redis.get('cachefresh:k')).not.toBeNull());
+
+        expect(await getOrSetDailyTestCache('k', async () => ({ v: 3 }), 60)).toEqual({ v: 2 });
+        expect(getCacheMetrics()).toMatchObject({ hits: 1, misses: 1, staleServes: 1, refreshes: 1 });
+    });
+
+    it('keeps serving the stale value when the refresh fails', async () => {
+        await getOrSetDailyTestCache('k', async () => ({ v: 1 }), 60);
+        await redis.del('cachefresh:k');
+        forgetLocalCache(/^k$/);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await getOrSetDailyTestCache('k', async () => { throw new Error('429'); }, 60)).toEqual({ v: 1 });
+        await vi.waitFor(() => expect(getCacheMetrics().refreshFailures).toBe(1));
+        expect(await getOrSetDailyTestCache('k', async () => ({ v: 2 }), 60)).toEqual({ v: 1 });
+    });
+
+    it('keeps the stale value when the refresh answers with an error', async () => {
+        await getOrSetDailyTestCache('k', async () => ({ v: 1 }), 60);
+        await redis.del('cachefresh:k');
+        forgetLocalCache(/^k$/);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await getOrSetDailyTestCache('k', async () => transientError('Failed to fetch builds'), 60)).toEqual({ v: 1 });
+        await vi.waitFor(() => expect(getCacheMetrics().refreshFailures).toBe(1));
+        expect(JSON.parse((await redis.get('k'))!)).toEqual({ v: 1 });
+    });
+
+    it('caches an error without a stale window', async () => {
+        const set = vi.spyOn(redis, 'set');
+        await getOrSetDailyTestCache('k', async () => transientError('Failed to fetch builds'), 10);
+        expect(set).toHaveBeenCalledWith('k', expect.any(String), 'EX', 10);
+    });
+
+    it('computes a missing key once for concurrent requests', async () => {
+        const fetchFn = vi.fn(async () => ({ v: 1 }));
+
+        const answers = await Promise.all([1, 2, 3].map(() => getOrSetDailyTestCache('k', fetchFn, 60)));
+
+        expect(answers).toEqual([{ v: 1 }, { v: 1 }, { v: 1 }]);
+        expect(fetchFn).toHaveBeenCalledTimes(1);
+        expect(await redis.get('cachelock:k')).toBeNull();
+    });
+
+    it('waits for another instance holding the lock instead of computing', async () => {
+        await redis.set('cachelock:k', 'other-instance', 'PX', 60_000, 'NX');
+        const fetchFn = vi.fn(async () => ({ v: 'mine' }));
+
+        const answer = getOrSetDailyTestCache('k', fetchFn, 60);
+        setTimeout(() => void redis.set('k', JSON.stringify({ v: 'theirs' }), 'EX', 60), 50);
+
+        expect(await answer).toEqual({ v: 'theirs' });
+        expect(fetchFn).not.toHaveBeenCalled();
+        expect(getCacheMetrics().lockWaits).toBe(1);
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Redis is down: every command fails, as it does once the circuit is open
+vi.mock('$lib/utils/redisClient', () => {
+    const down = vi.fn(async () => { throw new Error('connect ECONNREFUSED 127.0.0.1:6379'); });
+    return { default: { get: down, set: down, del: down, expire: down, sadd: down, smembers: down } };
+});
+
+import { CircuitBreaker, CircuitOpenError } from '$lib/server/circuitBreaker';
+import { LruCache } from '$lib/server/lruCache';
+import { forgetLocalCache, getCacheMetrics, getOrSetDailyTestCache, recordCacheDependencies, resetCacheMetrics } from '$lib/utils/dailyTestCache';
+
+const failing = async () => { throw new Error('ECONNREFUSED'); };
+const working = async () => 'OK';
+
+describe('LRU cache', () => {
+    it('evicts the least recently used entry', () => {
+        const lru = new LruCache<number>(2);
+        lru.set('a', 1);
+        lru.set('b', 2);
+        lru.get('a');
+        lru.set('c', 3);
+
+        expect(lru.get('b')).toBeUndefined();
+        expect(lru.get('a')).toBe(1);
+        expect(lru.size).toBe(2);
+        expect(lru.deleteMatching(/^[ac]$/)).toBe(2);
+    });
+});
+
+describe('Circuit breaker', () => {
+    let now: number;
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+        now = 0;
+        breaker = new CircuitBreaker('Redis', { failureThreshold: 2, baseBackoffMs: 1000, maxBackoffMs: 3000, now: () => now });
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'info').mockImplementation(() => {});
+    });
+
+    it('opens after failures in a row and then fails fast', async () => {
+        await expect(breaker.run(failing)).rejects.toThrow('ECONNREFUSED');
+        expect(breaker.state).toBe('closed');
+        await expect(breaker.run(failing)).rejects.toThrow('ECONNREFUSED');
+        expect(breaker.state).toBe('open');
+
+        const fn = vi.fn(working);
+        await expect(breaker.run(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(fn).not.toHaveBeenCalled();
+        expect(breaker.status()).toMatchObject({ state: 'open', consecutiveFailures: 2, retryAt: new Date(1000).toISOString(), opened: 1 });
+    });
+
+    it('lets a trial call through after a backoff that doubles while it keeps failing', async () => {
+        await breaker.run(failing).catch(() => {});
+        await breaker.run(failing).catch(() => {});
+
+        now = 1000;
+        expect(breaker.state).toBe('halfOpen');
+        await expect(breaker.run(failing)).rejects.toThrow('ECONNREFUSED');
+        expect(breaker.status().retryAt).toBe(new Date(3000).toISOString());
+
+        now = 3000;
+        await breaker.run(failing).catch(() => {});
+        // Capped at maxBackoffMs
+        expect(breaker.status().retryAt).toBe(new Date(6000).toISOString());
+
+        now = 6000;
+        expect(await breaker.run(working)).toBe('OK');
+        expect(breaker.status()).toMatchObject({ state: 'closed', consecutiveFailures: 0, retryAt: null });
+    });
+});
+
+describe('Cache without Redis', () => {
+    beforeEach(() => {
+        forgetLocalCache(/.*/);
+        resetCacheMetrics();
+    });
+
+    it('still memoizes answers in process', async () => {
+        const fetchFn = vi.fn(async () => ({ ok: 1 }));
+
+        expect(await getOrSetDailyTestCache('k', fetchFn, 60)).toEqual({ ok: 1 });
+        expect(await getOrSetDailyTestCache('k', fetchFn, 60)).toEqual({ ok: 1 });
+        expect(fetchFn).toHaveBeenCalledTimes(1);
+        expect(getCacheMetrics()).toMatchObject({ misses: 1, hits: 1, localHits: 1 });
+    });
+
+    it('counts and logs dependencies it could not keep up to date', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        await recordCacheDependencies('dayquality:k', ['build:k']);
+        await getOrSetDailyTestCache('build:k', async () => [{ status: 'good' }], 60);
+
+        expect(getCacheMetrics().dependencyFailures).toBe(2);
+        expect(error).toHaveBeenCalledWith(expect.stringContaining('[cache] Could not invalidate what depends on build:k'));
+    });
+
+    it('serves the local copy when it expired and refreshes it', async () => {
+        vi.useFakeTimers();
+        try {
+            await getOrSetDailyTestCache('k', async () => ({ v: 1 }), 60);
+            vi.advanceTimersByTime(61_000);
+
+            expect(await getOrSetDailyTestCache('k', async () => ({ v: 2 }), 60)).toEqual({ v: 1 });
+            await vi.waitFor(async () => expect(await getOrSetDailyTestCache('k', async () => ({ v: 3 }), 60)).toEqual({ v: 2 }));
+            expect(getCacheMetrics().refreshes).toBe(1);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -17,6 +17,7 @@ describe('Color Constants', () => {
       expect(BUILD_STATUS_COLORS.bad).toBe('bg-[var(--failure)] text-white');
       expect(BUILD_STATUS_COLORS.inProgress).toBe('bg-[var(--in-progress)] text-white');
       expect(BUILD_STATUS_COLORS.interrupted).toBe('bg-[var(--interrupted)] text-white');
+      expect(BUILD_STATUS_COLORS.incomplete).toBe('bg-[var(--incomplete)] text-white');
       expect(BUILD_STATUS_COLORS.unknown).toBe('bg-zinc-700 text-white');
       expect(BUILD_STATUS_COLORS.default).toBe('bg-zinc-700 text-white');
     });
@@ -115,6 +116,7 @@ describe('getPipelineBadgeColor', () => {
     expect(getPipelineBadgeColor('inProgress')).toBe('bg-[var(--in-progress)] text-white');
     expect(getPipelineBadgeColor('in progress')).toBe('bg-[var(--in-progress)] text-white');
     expect(getPipelineBadgeColor('interrupted')).toBe('bg-[var(--interrupted)] text-white');
+    expect(getPipelineBadgeColor('incomplete')).toBe('bg-[var(--incomplete)] text-white');
     expect(getPipelineBadgeColor('unknown')).toBe('bg-zinc-700 text-white');
   });
 
@@ -142,6 +144,7 @@ describe('getPipelineBadgeText', () => {
     expect(getPipelineBadgeText('inProgress')).toBe('In Progress');
     expect(getPipelineBadgeText('in progress')).toBe('In Progress');
     expect(getPipelineBadgeText('interrupted')).toBe('Interrupted');
+    expect(getPipelineBadgeText('incomplete')).toBe('Incomplete');
     expect(getPipelineBadgeText('unknown')).toBe('Unknown');
   });
 
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AdoBuild } from '$lib/server/ado';
+
+vi.mock('$lib/utils/redisClient', async () => {
+    const { MemoryRedis } = await import('$lib/server/fixtures/memoryRedis');
+    return { default: new MemoryRedis() };
+});
+
+const ado = vi.hoisted(() => ({
+    completed: [] as AdoBuild[],
+    running: [] as AdoBuild[],
+    listBuilds: vi.fn()
+}));
+
+vi.mock('$lib/server/ado', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('$lib/server/ado')>();
+    const all = () => [...ado.completed, ...ado.running];
+    return {
+        ...actual,
+        getAdoClient: () => ({
+            listBuilds: ado.listBuilds.mockImplementation(async (query: { queryOrder: string }) =>
+                query.queryOrder === 'finishTimeDescending' ? ado.completed : ado.running
+            ),
+            getBuild: async (id: number) => all().find((build) => build.id === id) ?? null,
+            listTestRuns: async () => [],
+            buildLink: (definitionId: string, id: number) => `https://dev.azure.com/org/project/_build/results?buildId=${id}`
+        })
+    };
+});
+
+import { GET } from '../routes/api/constructBuild/+server';
+import { forgetLocalCache } from '$lib/utils/dailyTestCache';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function build(id: number, sourceBranch: string, finishTime?: string): AdoBuild {
+    return {
+        id,
+        buildNumber: `20261019.${id}`,
+        sourceBranch,
+        reason: 'schedule',
+        status: finishTime ? 'completed' : 'inProgress',
+        result: finishTime ? 'succeeded' : undefined,
+        startTime: '2026-10-19T08:00:00Z',
+        finishTime,
+        definition: { id: 101, name: 'Nightly' }
+    } as AdoBuild;
+}
+
+async function constructBuild(branches: string) {
+    const url = new URL(`http://localhost/api/constructBuild?date=2026-10-19&buildDefinitionId=101&tz=UTC&branches=${encodeURIComponent(branches)}`);
+    return (await GET({ url })).json();
+}
+
+describe('constructBuild - Branches', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+        forgetLocalCache(/.*/);
+        ado.listBuilds.mockClear();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('shows a branch still running next to one that finished', async () => {
+        ado.completed = [build(1, 'refs/heads/main', '2026-10-19T09:00:00Z')];
+        ado.running = [build(2, 'refs/heads/release/1.0'), build(3, 'refs/heads/main')];
+
+        const builds = await constructBuild('main,release/*');
+
+        expect(builds.map((b: { id: number; branch: string }) => [b.id, b.branch])).toEqual([[1, 'main'], [2, 'release/1.0']]);
+        expect(builds[1].status).toBe('inProgress');
+    });
+
+    it('does not look for running builds once every named branch finished', async () => {
+        ado.completed = [build(4, 'refs/heads/main', '2026-10-19T09:00:00Z'), build(5, 'refs/heads/develop', '2026-10-19T10:00:00Z')];
+        ado.running = [build(6, 'refs/heads/main')];
+
+        const builds = await constructBuild('main,develop');
+
+        expect(builds.map((b: { id: number }) => b.id).sort()).toEqual([4, 5]);
+        expect(ado.listBuilds).toHaveBeenCalledTimes(1);
+    });
+});
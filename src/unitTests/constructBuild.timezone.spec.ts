@@ -1,4 +1,18 @@
 import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_DASHBOARD_TIMEZONE,
+  getDayQueryWindow,
+  getDayWindow,
+  getInProgressQueryWindow,
+  getTestRunLookupWindow,
+  getTodayInTimeZone,
+  isOnDashboardDate,
+  resolveTimeZone,
+} from '$lib/utils/timezone'
+import { buildCacheKey, releaseCacheKey } from '$lib/utils/cacheKeys'
+import { DEFAULT_BUILD_FILTERS } from '$lib/utils/pipelineFilters'
+
+const HOUR_MS = 60 * 60 * 1000
 
 describe('constructBuild - Timezone Handling', () => {
   describe('CST Date Handling', () => {
@@ -138,4 +152,79 @@ describe('constructBuild - Timezone Handling', () => {
       expect(endDate.getUTCFullYear()).toBe(2027);
     });
   });
+
+  describe('Configurable dashboard time zone', () => {
+    const spanHours = ({ start, end }: { start: Date; end: Date }) => (end.getTime() - start.getTime()) / HOUR_MS
+
+    it('starts a Central day at local midnight in both standard and daylight time', () => {
+      expect(getDayWindow('2026-01-31', 'America/Chicago').start.toISOString()).toBe('2026-01-31T06:00:00.000Z')
+      expect(getDayWindow('2026-07-04', 'America/Chicago').start.toISOString()).toBe('2026-07-04T05:00:00.000Z')
+    })
+
+    it('is 23 hours long on spring-forward day and 25 on fall-back day', () => {
+      const springForward = getDayWindow('2026-03-08', 'America/Chicago')
+      expect(springForward.end.toISOString()).toBe('2026-03-09T05:00:00.000Z')
+      expect(spanHours(springForward)).toBe(23)
+
+      const fallBack = getDayWindow('2026-11-01', 'America/Chicago')
+      expect(fallBack.start.toISOString()).toBe('2026-11-01T05:00:00.000Z')
+      expect(spanHours(fallBack)).toBe(25)
+    })
+
+    it('handles zones east of UTC and half-hour offsets', () => {
+      expect(getDayWindow('2026-03-29', 'Europe/Berlin').start.toISOString()).toBe('2026-03-28T23:00:00.000Z')
+      expect(spanHours(getDayWindow('2026-03-29', 'Europe/Berlin'))).toBe(23)
+      expect(getDayWindow('2026-01-31', 'Asia/Kolkata').start.toISOString()).toBe('2026-01-30T18:30:00.000Z')
+    })
+
+    it('pads the Azure DevOps query window around the zoned day', () => {
+      expect(getDayQueryWindow('2026-01-31', 'America/Chicago')).toEqual({
+        minTime: '2026-01-31T00:00:00.000Z',
+        maxTime: '2026-02-01T12:00:00.000Z',
+      })
+      expect(getDayQueryWindow('2026-01-31', 'UTC')).toEqual({
+        minTime: '2026-01-30T18:00:00.000Z',
+        maxTime: '2026-02-01T06:00:00.000Z',
+      })
+    })
+
+    it('looks back to the previous day for runs still in progress', () => {
+      expect(getInProgressQueryWindow('2026-03-09', 'America/Chicago')).toEqual({
+        minTime: '2026-03-08T06:00:00.000Z',
+        maxTime: '2026-03-10T05:00:00.000Z',
+      })
+    })
+
+    it('looks up test runs for five days after the run started', () => {
+      expect(getTestRunLookupWindow(new Date('2026-01-31T14:30:00Z'))).toEqual({
+        minLastUpdatedDate: '2026-01-31T14:30:00.000Z',
+        maxLastUpdatedDate: '2026-02-05T14:30:00.000Z',
+      })
+    })
+
+    it('assigns runs near midnight to the day of the chosen zone', () => {
+      const lateEvening = '2026-02-01T04:00:00Z' // 10 PM Jan 31 in Chicago
+      expect(isOnDashboardDate(lateEvening, '2026-01-31', 'America/Chicago')).toBe(true)
+      expect(isOnDashboardDate(lateEvening, '2026-02-01', 'UTC')).toBe(true)
+      expect(isOnDashboardDate('2026-01-31T18:29:59Z', '2026-01-31', 'Asia/Kolkata')).toBe(true)
+      expect(isOnDashboardDate('2026-01-31T18:30:00Z', '2026-01-31', 'Asia/Kolkata')).toBe(false)
+    })
+
+    it('computes today in the dashboard zone rather than the host zone', () => {
+      const now = new Date('2026-02-01T03:00:00Z')
+      expect(getTodayInTimeZone('America/Chicago', now)).toBe('2026-01-31')
+      expect(getTodayInTimeZone('Asia/Tokyo', now)).toBe('2026-02-01')
+    })
+
+    it('falls back to the default zone when the configured one is missing or invalid', () => {
+      expect(resolveTimeZone(undefined, '')).toBe(DEFAULT_DASHBOARD_TIMEZONE)
+      expect(resolveTimeZone('Not/AZone', 'Europe/Berlin')).toBe('Europe/Berlin')
+      expect(resolveTimeZone(null, 'Mars/Olympus')).toBe(DEFAULT_DASHBOARD_TIMEZONE)
+    })
+
+    it('keeps results for different zones under different cache keys', () => {
+      expect(buildCacheKey('2026-01-31', 42, 'America/Chicago', DEFAULT_BUILD_FILTERS)).not.toBe(buildCacheKey('2026-01-31', 42, 'UTC', DEFAULT_BUILD_FILTERS))
+      expect(releaseCacheKey('2026-01-31', '7', 'UTC')).toBe('release:2026-01-31:7:UTC')
+    })
+  })
 });
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AdoRequestError } from '$lib/server/ado';
+
+const store = new Map<string, string>();
+
+vi.mock('$lib/utils/redisClient', () => ({
+  default: {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => { store.set(key, value); return 'OK'; }),
+    expire: vi.fn(async () => 1)
+  }
+}));
+
+import redis from '$lib/utils/redisClient';
+import { STALE_WINDOW_SECONDS, forgetLocalCache, getOrSetDailyTestCache } from '$lib/utils/dailyTestCache';
+
+describe('getOrSetDailyTestCache', () => {
+  beforeEach(() => {
+    store.clear();
+    forgetLocalCache(/.*/);
+    vi.clearAllMocks();
+  });
+
+  it('caches fresh data and serves it on the next call', async () => {
+    const fetchFn = vi.fn(async () => ({ ok: 1 }));
+
+    expect(await getOrSetDailyTestCache('k', fetchFn, 60)).toEqual({ ok: 1 });
+    expect(await getOrSetDailyTestCache('k', fetchFn, 60)).toEqual({ ok: 1 });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(redis.set).toHaveBeenCalledWith('k', JSON.stringify({ ok: 1 }), 'EX', 60 + STALE_WINDOW_SECONDS);
+    expect(redis.set).toHaveBeenCalledWith('cachefresh:k', '1', 'EX', 60);
+  });
+
+  it('never writes a throttling failure to the cache', async () => {
+    const throttled = new AdoRequestError(429, 'Too Many Requests', 'https://dev.azure.com/x', '', 5000);
+
+    await expect(getOrSetDailyTestCache('k', async () => { throw throttled; })).rejects.toBe(throttled);
+    // Only the lock of the request that computed it
+    expect(vi.mocked(redis.set).mock.calls.map(([key]) => key)).toEqual(['cachelock:k']);
+
+    const fetchFn = vi.fn(async () => ({ ok: 2 }));
+    expect(await getOrSetDailyTestCache('k', fetchFn)).toEqual({ ok: 2 });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AdoClient, ConcurrencyLimiter } from '$lib/server/ado';
+import {
+    FIXTURE_PTA_API_BASE,
+    FixtureStore,
+    MemoryRedis,
+    createFixtureFetch,
+    fixtureClientEnv,
+    fixtureKeyFor,
+    getFixtureMode,
+    withStorageFixture,
+    type FixtureTargets
+} from '$lib/server/fixtures';
+import { getAdoConnection } from '$lib/server/ado';
+import { getAzureDevOpsEnvVars } from '$lib/utils';
+
+const TARGETS: FixtureTargets = { ptaBase: 'http://pta.local:8000', authorityHost: 'https://login.microsoftonline.com' };
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fixtures-'));
+});
+
+afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+function jsonAnswer(body: unknown, headers: Record<string, string> = {}) {
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json', ...headers } });
+}
+
+function client(doFetch: typeof fetch, organization = 'contoso') {
+    return new AdoClient({ organization, project: 'Shop', pat: 'live-pat-value' }, { fetch: doFetch, limiter: new ConcurrencyLimiter(1) });
+}
+
+describe('Fixture keys', () => {
+    it('keys Azure DevOps requests by API path and query, whatever the organization', () => {
+        const a = fixtureKeyFor('GET', new URL('https://dev.azure.com/contoso/Shop/_apis/build/builds?definitions=1&api-version=7.1'), '', TARGETS);
+        const b = fixtureKeyFor('GET', new URL('https://dev.azure.com/fabrikam/Web/_apis/build/builds?api-version=7.0&definitions=1'), '', TARGETS);
+        expect(a).toMatchObject({ service: 'ado', path: 'build/builds' });
+        expect(a!.variant).toBe(b!.variant);
+        expect(a!.url).toBe('https://dev.azure.com/{organization}/{project}/_apis/build/builds?definitions=1&api-version=7.1');
+    });
+
+    it('recognises Azure OpenAI and PTA, and leaves other requests alone', () => {
+        expect(fixtureKeyFor('POST', new URL('https://x.openai.azure.com/openai/deployments/gpt/chat/completions?api-version=1'), '{}', TARGETS))
+            .toMatchObject({ service: 'openai', path: 'chat/completions' });
+        expect(fixtureKeyFor('POST', new URL('http://pta.local:8000/api/chat'), '{}', TARGETS)).toMatchObject({ service: 'pta', path: 'api/chat' });
+        expect(fixtureKeyFor('GET', new URL('http://localhost:5173/api/constructBuild?date=2026-03-10'), '', TARGETS)).toBeNull();
+    });
+});
+
+describe('Recording and replaying', () => {
+    it('records a live answer with secrets scrubbed and replays it offline', async () => {
+        const live = vi.fn().mockResolvedValue(jsonAnswer({ id: 5, buildNumber: '1', token: 'abc', note: 'uses live-pat-value' }));
+        const recorder = createFixtureFetch(live, { mode: 'record', store: new FixtureStore(dir), targets: TARGETS, secrets: ['live-pat-value'] });
+        expect(await client(recorder).getBuild(5)).toMatchObject({ id: 5, token: 'abc' });
+
+        const saved = await readFile(join(dir, 'ado', 'build', 'builds', '5', 'default.json'), 'utf-8');
+        expect(saved).not.toContain('live-pat-value');
+        expect(saved).not.toContain('contoso');
+        expect(JSON.parse(saved).response.body).toEqual({ id: 5, buildNumber: '1', token: '***', note: 'uses ***' });
+
+        const offline = vi.fn();
+        const player = createFixtureFetch(offline, { mode: 'replay', store: new FixtureStore(dir), targets: TARGETS, secrets: [] });
+        expect(await client(player, 'elsewhere').getBuild(5)).toMatchObject({ id: 5, buildNumber: '1' });
+        expect(offline).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the path default without following its continuation token', async () => {
+        const live = vi.fn()
+            .mockResolvedValueOnce(jsonAnswer({ value: [{ id: 1 }] }, { 'x-ms-continuationtoken': 'next' }))
+            .mockResolvedValueOnce(jsonAnswer({ value: [{ id: 2 }] }));
+        const recorder = createFixtureFetch(live, { mode: 'record', store: new FixtureStore(dir), targets: TARGETS, secrets: [] });
+        expect((await client(recorder).listBuilds({ definitions: 1 })).map((b) => b.id)).toEqual([1, 2]);
+
+        const player = createFixtureFetch(vi.fn(), { mode: 'replay', store: new FixtureStore(dir), targets: TARGETS, secrets: [] });
+        expect((await client(player).listBuilds({ definitions: 1 })).map((b) => b.id)).toEqual([1, 2]);
+        expect((await client(player).listBuilds({ definitions: 99 })).map((b) => b.id)).toEqual([1]);
+    });
+
+    it('answers missing fixtures with a 404 and token requests with a dummy token', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const player = createFixtureFetch(vi.fn(), { mode: 'replay', store: new FixtureStore(dir), targets: TARGETS, secrets: [] });
+
+        await expect(client(player).getRelease(1)).rejects.toMatchObject({ status: 404 });
+        const token = await player('https://login.microsoftonline.com/tenant/oauth2/v2.0/token', { method: 'POST', body: 'x' });
+        expect(await token.json()).toMatchObject({ access_token: 'fixture-token' });
+        expect(await readdir(dir)).toEqual([]);
+    });
+
+    it('replays the sample fixtures shipped with the repo', async () => {
+        const player = createFixtureFetch(vi.fn(), { mode: 'replay', store: new FixtureStore('fixtures'), targets: TARGETS, secrets: [] });
+        const ado = client(player);
+        expect((await ado.getBuild(5001)).definition?.id).toBe(101);
+        expect((await ado.getBuildTimeline(5001)).records.length).toBeGreaterThan(0);
+        const [release] = await ado.listReleases({ definitionId: 201 });
+        const runs = await ado.listTestRuns({ releaseIds: release.id, minLastUpdatedDate: '2026-03-10T04:00:00.000Z', maxLastUpdatedDate: '2026-03-15T04:00:00.000Z' });
+        expect(runs.map((r) => r.release?.id)).toEqual([release.id]);
+    });
+
+    it('passes requests to other hosts through untouched', async () => {
+        const live = vi.fn().mockResolvedValue(jsonAnswer({ ok: true }));
+        const player = createFixtureFetch(live, { mode: 'replay', store: new FixtureStore(dir), targets: TARGETS, secrets: [] });
+        await player('http://localhost:5173/api/constructBuild?date=2026-03-10');
+        expect(live).toHaveBeenCalledWith('http://localhost:5173/api/constructBuild?date=2026-03-10', {});
+    });
+});
+
+describe('Fixture mode helpers', () => {
+    it('reads FIXTURES_MODE, treating anything unknown as off', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        expect(getFixtureMode({})).toBe('off');
+        expect(getFixtureMode({ FIXTURES_MODE: 'replay' })).toBe('replay');
+        expect(getFixtureMode({ FIXTURES_MODE: 'rewind' })).toBe('off');
+    });
+
+    it('lets a replay run without Azure DevOps settings, but nothing else', () => {
+        expect(getAdoConnection({ FIXTURES_MODE: 'replay' })).toMatchObject({ organization: 'fixtures', project: 'fixtures' });
+        expect(getAdoConnection({ FIXTURES_MODE: 'replay', AZURE_DEVOPS_ORGANIZATION: 'contoso' }).organization).toBe('contoso');
+        expect(() => getAdoConnection({})).toThrow('Missing Azure DevOps environment variables');
+        expect(() => getAzureDevOpsEnvVars({ FIXTURES_MODE: 'replay' })).toThrow('Missing Azure DevOps environment variables');
+    });
+
+    it('sends the PTA chat through the replayed proxy unless told otherwise', () => {
+        expect(fixtureClientEnv({ FIXTURES_MODE: 'replay' })).toEqual({ VITE_PTA_API_BASE: FIXTURE_PTA_API_BASE });
+        expect(fixtureClientEnv({ FIXTURES_MODE: 'replay', VITE_PTA_API_BASE: 'http://pta:8000' })).toEqual({});
+        expect(fixtureClientEnv({})).toEqual({});
+    });
+
+    it('records and replays storage lookups as a whole', async () => {
+        const live = vi.fn().mockResolvedValue({ summary: 'flaky mock' });
+        expect(await withStorageFixture({ FIXTURES_MODE: 'record', FIXTURES_DIR: dir }, 'rca/7', live, null)).toEqual({ summary: 'flaky mock' });
+        expect(await withStorageFixture({ FIXTURES_MODE: 'replay', FIXTURES_DIR: dir }, 'rca/7', live, null)).toEqual({ summary: 'flaky mock' });
+        expect(await withStorageFixture({ FIXTURES_MODE: 'replay', FIXTURES_DIR: join(dir, 'empty') }, 'rca/7', live, null)).toBeNull();
+        expect(live).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps cache entries in memory until their TTL passes', async () => {
+        let now = 0;
+        const redis = new MemoryRedis(() => now);
+        await redis.set('k', 'v', 'EX', 10);
+        expect(await redis.get('k')).toBe('v');
+        await redis.expire('k', 1);
+        now = 1500;
+        expect(await redis.get('k')).toBeNull();
+    });
+});
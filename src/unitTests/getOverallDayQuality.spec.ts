@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { determineOverallDayQuality } from '$lib/utils/getOverallDayQuality';
+import { determineOverallDayQuality, explainOverallDayQuality, scoreDay, type DayPipelineResults } from '$lib/utils/getOverallDayQuality';
+import { resolveThresholds } from '$lib/utils/statusScoring';
+import type { PipelineThresholds } from '$lib/types/pipelineConfig';
 
 describe('determineOverallDayQuality', () => {
   describe('Priority Order - "inProgress" status', () => {
@@ -44,6 +46,14 @@ describe('determineOverallDayQuality', () => {
     });
   });
 
+  describe('Priority Order - "incomplete" status', () => {
+    it('should return "incomplete" over bad and ok, but not over interrupted', () => {
+      expect(determineOverallDayQuality(['good', 'incomplete', 'bad'])).toBe('incomplete');
+      expect(determineOverallDayQuality(['incomplete', 'interrupted'])).toBe('interrupted');
+      expect(explainOverallDayQuality(['incomplete', 'good'])).toMatchObject({ rule: 'anyIncomplete', reason: '1 of 2 runs is incomplete' });
+    });
+  });
+
   describe('Priority Order - "bad" status', () => {
     it('should return "bad" when any status is "bad" and no higher priority statuses', () => {
       const testCases = [
@@ -301,3 +311,121 @@ describe('determineOverallDayQuality', () => {
   });
 });
 
+describe('scoreDay', () => {
+  const run = (status: string, passCount: number, failCount: number, notRunCount = 0) => ({ status, passCount, failCount, notRunCount });
+  const day: DayPipelineResults[] = [
+    { pipeline: { id: '1', type: 'build', critical: true, weight: 2 }, results: [run('good', 990, 10), run('good', 99, 1)] },
+    { pipeline: { id: '2', type: 'release', critical: true }, results: [run('ok', 90, 10)] },
+    { pipeline: { id: '3', type: 'build' }, results: [run('bad', 1, 9)] },
+    { pipeline: { id: '4', type: 'build' }, results: [run('inProgress', 0, 0)] }
+  ];
+
+  it('weights pipelines by configured weight and test volume, leaving running ones out', () => {
+    const { score, contributions } = scoreDay(day);
+    expect(contributions.map(c => [c.pipelineId, c.status, c.score])).toEqual([
+      ['1', 'good', 99],
+      ['2', 'ok', 90],
+      ['3', 'bad', 10],
+      ['4', 'inProgress', null]
+    ]);
+    expect(contributions[3].share).toBe(0);
+    expect(contributions.reduce((sum, c) => sum + c.share, 0)).toBeCloseTo(100, 0);
+    // The big critical suite outweighs the flaky ten-test pipeline
+    expect(contributions[0].share).toBeGreaterThan(60);
+    expect(score).toBeGreaterThan(80);
+  });
+
+  it('keeps worst-status-wins unless the config asks for weighting', () => {
+    expect(scoreDay(day).quality).toBe('inProgress');
+    expect(scoreDay(day, 'weighted').quality).toBe('ok');
+  });
+
+  it('waits for critical pipelines, and for every pipeline when none is marked critical', () => {
+    const running: DayPipelineResults[] = [
+      { pipeline: { id: '1', type: 'build', critical: true }, results: [run('inProgress', 0, 0)] },
+      { pipeline: { id: '2', type: 'build' }, results: [run('good', 100, 0)] }
+    ];
+    expect(scoreDay(running, 'weighted')).toMatchObject({ quality: 'inProgress', score: 100 });
+    const unmarked = day.map(d => ({ ...d, pipeline: { ...d.pipeline, critical: undefined } }));
+    expect(scoreDay(unmarked, 'weighted').quality).toBe('inProgress');
+  });
+
+  it('scores interrupted runs as zero and has no score without results', () => {
+    const interrupted: DayPipelineResults[] = [
+      { pipeline: { id: '1', type: 'release', critical: true }, results: [run('interrupted', 0, 0)] },
+      { pipeline: { id: '2', type: 'build' }, results: [run('good', 100, 0)] }
+    ];
+    expect(scoreDay(interrupted, 'weighted')).toMatchObject({ quality: 'interrupted' });
+    expect(scoreDay(interrupted).contributions[0].score).toBe(0);
+    expect(scoreDay([{ pipeline: { id: '1', type: 'build' }, results: [run('unknown', 0, 0)] }], 'weighted'))
+      .toMatchObject({ quality: 'unknown', score: null });
+  });
+
+  it('scores incomplete runs as zero and lets an incomplete critical pipeline decide', () => {
+    const incomplete: DayPipelineResults[] = [
+      { pipeline: { id: '1', type: 'build', critical: true }, results: [run('incomplete', 40, 0)] },
+      { pipeline: { id: '2', type: 'build' }, results: [run('good', 100, 0)] }
+    ];
+    expect(scoreDay(incomplete, 'weighted')).toMatchObject({ quality: 'incomplete', explanation: { rule: 'criticalIncomplete' } });
+    expect(scoreDay(incomplete).contributions[0].score).toBe(0);
+  });
+
+  it('scores tests that did not run by the pipeline\'s not-run policy', () => {
+    const skipped = (thresholds?: PipelineThresholds): DayPipelineResults[] =>
+      [{ pipeline: { id: '1', type: 'build', thresholds }, results: [run('good', 90, 0, 10)] }];
+    expect(scoreDay(skipped()).contributions[0].score).toBe(100);
+    expect(scoreDay(skipped({ notRunPolicy: 'fail' })).contributions[0].score).toBe(90);
+    expect(scoreDay(skipped({ notRunPolicy: 'cap', maxNotRun: 0.05 })).contributions[0].score).toBe(90);
+    expect(scoreDay(skipped({ notRunPolicy: 'cap', maxNotRun: 0.2 })).contributions[0].score).toBe(100);
+  });
+});
+
+describe('Day quality explanations', () => {
+  it('names the rule that decided and the statuses behind it', () => {
+    expect(explainOverallDayQuality(['good', 'bad', 'failed', 'ok'])).toEqual({
+      quality: 'bad',
+      rule: 'anyBad',
+      reason: '2 of 4 runs are bad',
+      decidingStatuses: ['bad', 'failed']
+    });
+    expect(explainOverallDayQuality(['good', 'unknown'])).toMatchObject({ quality: 'ok', rule: 'someGood', decidingStatuses: ['unknown'] });
+    expect(explainOverallDayQuality(['good'])).toMatchObject({ rule: 'allGood', reason: 'The run is good' });
+  });
+
+  const passRate = (status: string, rate: number) => ({
+    status, rule: 'passRate', reason: `${rate}% passed`, passRate: rate, thresholds: resolveThresholds({ good: 99 })
+  });
+  const day: DayPipelineResults[] = [
+    { pipeline: { id: '1', type: 'build' }, results: [
+      { status: 'good', passCount: 100, failCount: 0, notRunCount: 0, name: 'Unit', explanation: passRate('good', 100) },
+      { status: 'bad', passCount: 40, failCount: 60, notRunCount: 0, name: 'E2E', explanation: passRate('bad', 40) }
+    ] },
+    { pipeline: { id: '2', type: 'release' }, results: [{ status: 'unknown', passCount: 0, failCount: 0, notRunCount: 0 }] }
+  ];
+
+  it('lists the runs that drove the day, with their rule, thresholds and pass rate', () => {
+    expect(scoreDay(day).explanation).toEqual({
+      quality: 'bad',
+      mode: 'worst',
+      rule: 'anyBad',
+      reason: '1 of 3 runs is bad',
+      drivers: [{
+        pipelineId: '1', type: 'build', name: 'E2E', status: 'bad', rule: 'passRate', reason: '40% passed', passRate: 40,
+        thresholds: { good: 99, ok: 70, envNotStarted: 0.3, source: 'pipeline' }
+      }]
+    });
+  });
+
+  it('explains weighted days by their score', () => {
+    expect(scoreDay(day, 'weighted').explanation).toMatchObject({
+      quality: 'ok',
+      rule: 'score',
+      reason: 'The weighted day score is 70/100, below 95 but at least 70',
+      drivers: [{ name: 'E2E' }]
+    });
+    expect(scoreDay([day[1]], 'weighted').explanation).toMatchObject({
+      rule: 'noScore',
+      drivers: [{ pipelineId: '2', rule: 'noResult', reason: 'No run found for the day' }]
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileHistoryStore, createHistoryStore } from '$lib/server/history';
+import type { Build } from '$lib/types/build';
+import type { HistoryRun } from '$lib/types/history';
+import type { LinkedRun } from '$lib/types/linkedRun';
+import type { Release } from '$lib/types/release';
+import { historyKey } from '$lib/utils/cacheKeys';
+import {
+    aggregateHistory,
+    historyBucketStart,
+    historyRunsFromBuilds,
+    historyRunsFromLinkedRuns,
+    historyRunsFromRelease,
+    topFailingTests
+} from '$lib/utils/history';
+import { GET, POST } from '../routes/api/history/+server';
+
+function run(date: string, status: string, passed: number, failed: number, failedTests: string[] = []): HistoryRun {
+    return {
+        runId: Number(date.replaceAll('-', '')),
+        date,
+        status,
+        passed,
+        failed,
+        notRun: 0,
+        testRuns: [],
+        outcomes: failedTests.map((test) => ({ test, outcome: 'Failed' }))
+    };
+}
+
+function build(id: number, testRunName: string | undefined, status: string, passed: number, failed: number): Build {
+    return { id, name: `${id}`, status, result: 'succeeded', startTime: '', modifiedOn: '', testRunName, passedTestCount: passed, failedTestCount: failed, notRunTestCount: 0 };
+}
+
+describe('History buckets', () => {
+    it('start on the day, the Monday or the first of the month', () => {
+        expect(historyBucketStart('2026-03-11', 'day')).toBe('2026-03-11');
+        expect(historyBucketStart('2026-03-11', 'week')).toBe('2026-03-09');
+        expect(historyBucketStart('2026-03-09', 'week')).toBe('2026-03-09');
+        expect(historyBucketStart('2026-03-08', 'week')).toBe('2026-03-02');
+        expect(historyBucketStart('2026-03-31', 'month')).toBe('2026-03-01');
+    });
+
+    it('add runs up per bucket, keeping empty buckets and cutting the edges to the range', () => {
+        const buckets = aggregateHistory([
+            run('2026-01-30', 'good', 90, 10),
+            run('2026-01-30', 'bad', 50, 50),
+            run('2026-03-02', 'good', 100, 0)
+        ], '2026-01-15', '2026-03-10', 'month');
+
+        expect(buckets.map((b) => [b.from, b.to, b.runs])).toEqual([
+            ['2026-01-15', '2026-01-31', 2],
+            ['2026-02-01', '2026-02-28', 0],
+            ['2026-03-01', '2026-03-10', 1]
+        ]);
+        expect(buckets[0]).toMatchObject({ daysWithRuns: 1, passed: 140, failed: 60, passRate: 70, statuses: { good: 1, bad: 1 } });
+        expect(buckets[1].passRate).toBeNull();
+    });
+
+    it('rank the tests that failed in the most runs', () => {
+        expect(topFailingTests([
+            run('2026-03-01', 'bad', 1, 2, ['Login', 'Checkout', 'Login']),
+            run('2026-03-02', 'bad', 2, 1, ['Login']),
+            run('2026-03-03', 'bad', 2, 1, ['Search'])
+        ], 2)).toEqual([{ test: 'Login', failures: 2 }, { test: 'Checkout', failures: 1 }]);
+    });
+});
+
+describe('History runs from construct answers', () => {
+    it('make one run per build out of its test runs', () => {
+        const runs = historyRunsFromBuilds('2026-03-10', [
+            build(5001, 'Unit', 'good', 100, 0),
+            build(5001, 'E2E', 'bad', 10, 10),
+            build(5002, undefined, 'unknown', 0, 0)
+        ]);
+
+        expect(runs).toHaveLength(2);
+        expect(runs[0]).toMatchObject({ runId: 5001, status: 'bad', passed: 110, failed: 10 });
+        expect(runs[0].testRuns.map((t) => t.name)).toEqual(['Unit', 'E2E']);
+        expect(runs[1]).toMatchObject({ runId: 5002, passed: 0, testRuns: [] });
+    });
+
+    it('count a build and its release as one run', () => {
+        const release = { id: 7001, name: 'Release-42', status: 'good', passedTestCount: 40, failedTestCount: 0, notRunTestCount: 2 } as Release;
+        const linked: LinkedRun = { buildId: 5001, builds: [build(5001, 'Unit', 'good', 100, 0)], release, status: 'good' };
+
+        expect(historyRunsFromLinkedRuns('2026-03-10', [linked])[0]).toMatchObject({ runId: 5001, name: '5001 → Release-42', passed: 140, notRun: 2 });
+        expect(historyRunsFromRelease('2026-03-10', release)[0]).toMatchObject({ runId: 7001, passed: 40 });
+        expect(historyRunsFromRelease('2026-03-10', null)).toEqual([]);
+    });
+});
+
+describe('History store', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'history-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('keeps days per pipeline, replaces a day ingested again and tracks the last day', async () => {
+        const store = new FileHistoryStore(dir);
+        const key = historyKey('UTC', { id: '101', type: 'build' });
+
+        expect(await store.getIngestedThrough(key)).toBeNull();
+        await store.putDay(key, '2026-03-01', [run('2026-03-01', 'good', 1, 0)]);
+        await store.putDay(key, '2026-03-02', [run('2026-03-02', 'bad', 0, 1)]);
+        await store.putDay(key, '2026-03-01', [run('2026-03-01', 'ok', 9, 1)]);
+
+        expect((await store.listRuns(key, '2026-03-01', '2026-03-31')).map((r) => r.status)).toEqual(['ok', 'bad']);
+        expect(await store.listRuns(historyKey('UTC', { id: '101', type: 'release' }), '2026-03-01', '2026-03-31')).toEqual([]);
+        expect(await store.getIngestedThrough(key)).toBe('2026-03-02');
+    });
+
+    it('keys pipelines by the runs they record, not by how they are scored', () => {
+        const pipeline = { id: '101', type: 'build', branches: ['main'] };
+        expect(historyKey('UTC', { ...pipeline, thresholds: { good: 95 } })).toBe(historyKey('UTC', pipeline));
+        expect(historyKey('UTC', { ...pipeline, branches: ['release/*'] })).not.toBe(historyKey('UTC', pipeline));
+        expect(historyKey('Europe/Amsterdam', pipeline)).not.toBe(historyKey('UTC', pipeline));
+    });
+
+    it('is off while replaying fixtures unless asked for', () => {
+        expect(createHistoryStore({ FIXTURES_MODE: 'replay' })).toBeNull();
+        expect(createHistoryStore({ FIXTURES_MODE: 'replay', HISTORY_STORE: 'file' })).toBeInstanceOf(FileHistoryStore);
+    });
+});
+
+describe('History API', () => {
+    it('answers 400 for a malformed to instead of counting back from it', async () => {
+        const response = await GET({ url: new URL('http://localhost/api/history?pipelineId=1&to=garbage&tz=UTC') });
+        expect(response.status).toBe(400);
+    });
+
+    it('ingests only for the admin', async () => {
+        const request = new Request('http://localhost/api/history', { method: 'POST' });
+        const response = await POST({ url: new URL(request.url), request });
+        expect([401, 403]).toContain(response.status);
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AdoClient } from '$lib/server/ado';
+import { findTriggeredRelease, isReleaseOfBuild } from '$lib/server/releases';
+import type { Build } from '$lib/types/build';
+import type { LinkedRun } from '$lib/types/linkedRun';
+import type { Release } from '$lib/types/release';
+import { LINKED_RELEASE_GRACE_MS, explainLinkedRunStatus, getLinkedRunCounts, getLinkedRunStatus, linkedRunStages } from '$lib/utils/linkedRuns';
+import { explainReleasePipelineStatus } from '$lib/utils/getReleasePipelineStatus';
+import { PipelineConfigError, getReleaseDefinitionId, validatePipelineConfig } from '$lib/utils/pipelineConfig';
+
+const NOW = new Date('2026-03-10T12:00:00Z').getTime();
+
+function build(overrides: Partial<Build> = {}): Build {
+    return {
+        id: 100,
+        name: '20260310.1',
+        status: 'good',
+        result: 'succeeded',
+        startTime: '2026-03-10T10:00:00Z',
+        modifiedOn: '2026-03-10T11:00:00Z',
+        completedTime: '2026-03-10T11:00:00Z',
+        passedTestCount: 10,
+        failedTestCount: 0,
+        notRunTestCount: 1,
+        ...overrides
+    };
+}
+
+function release(overrides: Partial<Release> = {}): Release {
+    return {
+        id: 7,
+        name: 'Release-7',
+        status: 'good',
+        createdOn: '2026-03-10T11:05:00Z',
+        modifiedOn: '2026-03-10T11:30:00Z',
+        passedTestCount: 5,
+        failedTestCount: 2,
+        notRunTestCount: 0,
+        envs: [],
+        ...overrides
+    } as Release;
+}
+
+function buildArtifact(buildId: string) {
+    return { type: 'Build', definitionReference: { version: { id: buildId } } };
+}
+
+describe('Linked runs - status', () => {
+    it('takes the worse of the build and its release', () => {
+        expect(getLinkedRunStatus([build()], release({ status: 'bad' }), NOW)).toBe('bad');
+        expect(getLinkedRunStatus([build({ status: 'ok' })], release(), NOW)).toBe('ok');
+        expect(getLinkedRunStatus([build()], release({ status: 'inProgress' }), NOW)).toBe('inProgress');
+    });
+
+    it('waits for the release of a good build that just finished', () => {
+        const justFinished = new Date(NOW - 5 * 60 * 1000).toISOString();
+        expect(getLinkedRunStatus([build({ completedTime: justFinished })], null, NOW)).toBe('inProgress');
+    });
+
+    it('stops waiting once the grace period is over', () => {
+        const longAgo = new Date(NOW - LINKED_RELEASE_GRACE_MS - 1000).toISOString();
+        expect(getLinkedRunStatus([build({ completedTime: longAgo })], null, NOW)).toBe('good');
+    });
+
+    it('does not wait for a release after a bad build', () => {
+        const justFinished = new Date(NOW - 5 * 60 * 1000).toISOString();
+        expect(getLinkedRunStatus([build({ status: 'bad', completedTime: justFinished })], null, NOW)).toBe('bad');
+    });
+});
+
+describe('Linked runs - explanation', () => {
+    it('passes on the explanation of the half that decided', () => {
+        const bad = release({ status: 'bad', passedTestCount: 5, failedTestCount: 5, envs: [{ id: 1, name: 'Tests', status: 'succeeded' }] });
+        bad.statusExplanation = explainReleasePipelineStatus(bad);
+        expect(explainLinkedRunStatus([build()], bad, NOW)).toMatchObject({ status: 'bad', rule: 'passRate', passRate: 50 });
+    });
+
+    it('says when it is waiting for the release, and falls back to the overall rule', () => {
+        const justFinished = new Date(NOW - 5 * 60 * 1000).toISOString();
+        expect(explainLinkedRunStatus([build({ completedTime: justFinished })], null, NOW)).toMatchObject({ status: 'inProgress', rule: 'awaitingRelease' });
+        expect(explainLinkedRunStatus([build()], release({ status: 'interrupted' }), NOW))
+            .toMatchObject({ status: 'interrupted', rule: 'anyInterrupted', reason: '1 of 2 runs is interrupted', thresholds: { source: 'default' } });
+    });
+});
+
+describe('Linked runs - cards', () => {
+    it('adds up the counts of the build runs and the release', () => {
+        const run: LinkedRun = { buildId: 100, builds: [build(), build({ passedTestCount: 3 })], release: release(), status: 'bad' };
+        expect(getLinkedRunCounts(run)).toEqual({ passCount: 18, failCount: 2, notRunCount: 2 });
+    });
+
+    it('shows the build, then the release environments without PTA', () => {
+        const run: LinkedRun = {
+            buildId: 100,
+            builds: [build()],
+            release: release({ envs: [{ name: 'QA', status: 'succeeded' }, { name: 'PTA', status: 'succeeded' }] }),
+            status: 'good'
+        };
+        expect(linkedRunStages(run).map((s) => [s.name, s.status])).toEqual([
+            ['Build 20260310.1', 'succeeded'],
+            ['QA', 'succeeded']
+        ]);
+    });
+
+    it('shows a pending release stage until the release exists', () => {
+        const run: LinkedRun = { buildId: 100, builds: [build({ status: 'inProgress' })], release: null, status: 'inProgress' };
+        expect(linkedRunStages(run).map((s) => [s.name, s.status])).toEqual([
+            ['Build 20260310.1', 'inProgress'],
+            ['Release', 'notStarted']
+        ]);
+    });
+});
+
+describe('Linked runs - finding the triggered release', () => {
+    it('matches a release by the build id of its build artifact', () => {
+        expect(isReleaseOfBuild({ artifacts: [buildArtifact('100')] } as any, 100)).toBe(true);
+        expect(isReleaseOfBuild({ artifacts: [buildArtifact('101')] } as any, 100)).toBe(false);
+        expect(isReleaseOfBuild({ artifacts: [{ type: 'Git', definitionReference: { version: { id: '100' } } }] } as any, 100)).toBe(false);
+        expect(isReleaseOfBuild({} as any, 100)).toBe(false);
+    });
+
+    it('picks the latest release of the build, listed from the build start', async () => {
+        const listReleases = vi.fn().mockResolvedValue([
+            { id: 1, createdOn: '2026-03-10T11:05:00Z', artifacts: [buildArtifact('100')] },
+            { id: 2, createdOn: '2026-03-10T15:00:00Z', artifacts: [buildArtifact('100')] },
+            { id: 3, createdOn: '2026-03-10T16:00:00Z', artifacts: [buildArtifact('101')] }
+        ]);
+        const ado = { listReleases } as unknown as AdoClient;
+
+        const found = await findTriggeredRelease(ado, '55', { id: 100, startTime: '2026-03-10T10:00:00Z' });
+
+        expect(found?.id).toBe(2);
+        expect(listReleases).toHaveBeenCalledWith(expect.objectContaining({
+            definitionId: '55',
+            minCreatedTime: '2026-03-10T10:00:00.000Z',
+            expand: 'artifacts'
+        }));
+    });
+
+    it('returns null while the build has no release', async () => {
+        const ado = { listReleases: vi.fn().mockResolvedValue([]) } as unknown as AdoClient;
+        expect(await findTriggeredRelease(ado, '55', { id: 100, startTime: '2026-03-10T10:00:00Z' })).toBeNull();
+    });
+});
+
+describe('Linked runs - release definition config', () => {
+    it('defaults the release definition to the build definition id', () => {
+        expect(getReleaseDefinitionId({ id: '12' })).toBe('12');
+        expect(getReleaseDefinitionId({ id: '12', releaseDefinitionId: '34' })).toBe('34');
+    });
+
+    it('accepts a release definition id on build/release pipelines only', () => {
+        const config = validatePipelineConfig({ pipelines: [{ id: '12', type: 'build/release', releaseDefinitionId: 34 }] });
+        expect(config.pipelines[0].releaseDefinitionId).toBe('34');
+
+        expect(() => validatePipelineConfig({ pipelines: [{ id: '12', type: 'build', releaseDefinitionId: '34' }] }))
+            .toThrow(PipelineConfigError);
+        expect(() => validatePipelineConfig({ pipelines: [{ id: '12', type: 'build/release', releaseDefinitionId: 'abc' }] }))
+            .toThrow(PipelineConfigError);
+    });
+});
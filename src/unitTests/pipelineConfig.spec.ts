@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+    PipelineConfigError,
+    getPipelineDisplayName,
+    getPipelineWeight,
+    includesBuild,
+    includesRelease,
+    isCronExpression,
+    parsePipelineConfig,
+    validatePipelineConfig
+} from '$lib/utils/pipelineConfig';
+
+function issuesOf(value: unknown): string[] {
+    try {
+        validatePipelineConfig(value);
+    } catch (e) {
+        if (e instanceof PipelineConfigError) return e.issues;
+        throw e;
+    }
+    return [];
+}
+
+describe('Pipeline config - parsing', () => {
+    it('rejects a missing config', () => {
+        expect(() => parsePipelineConfig(undefined)).toThrow('Missing pipeline config');
+        expect(() => parsePipelineConfig('   ')).toThrow('Missing pipeline config');
+    });
+
+    it('rejects invalid JSON', () => {
+        expect(() => parsePipelineConfig('{ pipelines: [')).toThrow('Failed to parse pipeline config');
+    });
+
+    it('rejects a config without a pipelines array', () => {
+        expect(() => parsePipelineConfig('{"pipelines": {}}')).toThrow('No pipelines configured');
+    });
+
+    it('accepts a full entry and keeps unknown keys', () => {
+        const config = parsePipelineConfig(JSON.stringify({
+            version: 1,
+            team: 'platform',
+            pipelines: [{
+                id: 42,
+                type: 'build',
+                displayName: 'Nightly',
+                group: 'Core',
+                owner: 'platform-team',
+                weight: 2,
+                expectedTests: 1200,
+                schedule: '0 3 * * 1-5',
+                branches: ['refs/heads/trunk'],
+                reasons: ['schedule'],
+                futureField: true
+            }]
+        }));
+
+        expect(config.team).toBe('platform');
+        expect(config.pipelines[0]).toMatchObject({ id: '42', type: 'build', group: 'Core', weight: 2, futureField: true });
+    });
+
+    it('treats configs without a version as version 1', () => {
+        const config = parsePipelineConfig('{"pipelines": [{"id": "1", "type": "release"}]}');
+        expect(config.pipelines).toHaveLength(1);
+    });
+});
+
+describe('Pipeline config - validation issues', () => {
+    it('lists every problem with its path', () => {
+        const issues = issuesOf({
+            pipelines: [
+                { id: 'abc', type: 'deploy' },
+                { id: '2', type: 'build', weight: 0, expectedTests: 1.5, schedule: 'nightly' },
+                { id: '3', type: 'build', reasons: ['schedule', 'cron'] }
+            ]
+        });
+
+        expect(issues).toEqual([
+            'pipelines[0].id: expected a numeric definition id, got "abc"',
+            'pipelines[0].type: expected one of "build", "release", "build/release", got "deploy"',
+            'pipelines[1].weight: expected a positive number, got 0',
+            'pipelines[1].expectedTests: expected a whole number of tests, got 1.5',
+            'pipelines[1].schedule: expected a cron expression like "0 3 * * 1-5", got "nightly"',
+            'pipelines[2].reasons: unknown reason(s) "cron" (expected schedule, individualCI, batchedCI, manual, pullRequest)'
+        ]);
+    });
+
+    it('puts the issues in the error message', () => {
+        expect(() => parsePipelineConfig('{"pipelines": [{"type": "build"}]}'))
+            .toThrow('Invalid pipeline config:\n  - pipelines[0].id: expected a numeric definition id, got nothing');
+    });
+
+    it('rejects run filters on release pipelines', () => {
+        expect(issuesOf({ pipelines: [{ id: '5', type: 'release', branches: ['refs/heads/trunk'] }] }))
+            .toEqual(['pipelines[0].branches: only build and build/release pipelines can filter runs']);
+    });
+
+    it('rejects duplicate entries but allows the same definition for other branches', () => {
+        expect(issuesOf({
+            pipelines: [
+                { id: '7', type: 'build' },
+                { id: '7', type: 'build', branches: ['refs/heads/release/*'] },
+                { id: 7, type: 'build' }
+            ]
+        })).toEqual(['pipelines[2]: duplicates pipelines[0] (same id, type and branches)']);
+    });
+
+    it('checks threshold overrides, filling in inherited values before comparing', () => {
+        expect(issuesOf({
+            pipelines: [{
+                id: '8',
+                type: 'build/release',
+                thresholds: { good: 99, envNotStarted: 0.5, testRuns: { 'E2E*': { good: 85 }, Unit: { ok: 99.5 } } }
+            }]
+        })).toEqual(['pipelines[0].thresholds.testRuns["Unit"]: ok (99.5) must not be above good (99)']);
+        expect(issuesOf({ pipelines: [{ id: '8', type: 'build', thresholds: { good: 60, ok: 120, envNotStarted: 0.2 } }] })).toEqual([
+            'pipelines[0].thresholds.ok: expected a pass rate between 0 and 100, got 120',
+            'pipelines[0].thresholds.envNotStarted: only release and build/release pipelines have environments'
+        ]);
+        expect(issuesOf({ pipelines: [{ id: '8', type: 'build', thresholds: { good: 60 } }] }))
+            .toEqual(['pipelines[0].thresholds: ok (70) must not be above good (60)']);
+    });
+
+    it('checks the day quality mode and critical flags', () => {
+        expect(issuesOf({ dayQualityMode: 'average', pipelines: [{ id: '1', type: 'build', critical: 'yes' }] })).toEqual([
+            'dayQualityMode: expected one of "worst", "weighted", got "average"',
+            'pipelines[0].critical: expected true or false, got "yes"'
+        ]);
+    });
+
+    it('checks the minimum test volume share', () => {
+        expect(issuesOf({ pipelines: [{ id: '1', type: 'build', thresholds: { minTestVolume: 2 } }] }))
+            .toEqual(['pipelines[0].thresholds.minTestVolume: expected a share between 0 and 1, got 2']);
+    });
+
+    it('checks the not-run policy and its cap', () => {
+        expect(issuesOf({ pipelines: [
+            { id: '1', type: 'build', thresholds: { notRunPolicy: 'skip' } },
+            { id: '2', type: 'build', thresholds: { notRunPolicy: 'cap', maxNotRun: 1.5 } },
+            { id: '3', type: 'release', thresholds: { notRunPolicy: 'fail', maxNotRun: 0.2 } }
+        ] })).toEqual([
+            'pipelines[0].thresholds.notRunPolicy: expected one of "ignore", "fail", "cap", got "skip"',
+            'pipelines[1].thresholds.maxNotRun: expected a share between 0 and 1, got 1.5',
+            'pipelines[2].thresholds.maxNotRun: only the "cap" notRunPolicy has a limit'
+        ]);
+    });
+
+    it('checks the attempt policy', () => {
+        expect(issuesOf({ pipelines: [{ id: '1', type: 'release', attemptPolicy: 'best' }, { id: '2', type: 'build', attemptPolicy: 'first' }] })).toEqual([
+            'pipelines[0].attemptPolicy: expected one of "first", "last", "worst", got "best"',
+            'pipelines[1].attemptPolicy: only release and build/release pipelines have deployment attempts'
+        ]);
+    });
+
+    it('rejects versions newer than supported', () => {
+        expect(issuesOf({ version: 2, pipelines: [] }))
+            .toEqual(['version: config version 2 is newer than the supported version 1']);
+    });
+});
+
+describe('Pipeline config - helpers', () => {
+    it('recognises cron expressions', () => {
+        expect(isCronExpression('0 3 * * 1-5')).toBe(true);
+        expect(isCronExpression('*/15 0,12 * * MON')).toBe(true);
+        expect(isCronExpression('0 3 * *')).toBe(false);
+    });
+
+    it('treats build/release pipelines as both', () => {
+        expect(includesBuild({ type: 'build/release' })).toBe(true);
+        expect(includesRelease({ type: 'build/release' })).toBe(true);
+        expect(includesBuild({ type: 'release' })).toBe(false);
+        expect(includesRelease({ type: 'build' })).toBe(false);
+    });
+
+    it('falls back to defaults for display name and weight', () => {
+        expect(getPipelineDisplayName({ id: '9' })).toBe('Pipeline 9');
+        expect(getPipelineWeight({})).toBe(1);
+        expect(getPipelineWeight({ weight: 3 })).toBe(3);
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    FilePipelineConfigStore,
+    PipelineConfigService,
+    TablePipelineConfigStore,
+    createPipelineConfigStore,
+    type PipelineConfigStore
+} from '$lib/server/pipelineConfig';
+import { PipelineConfigError } from '$lib/utils/pipelineConfig';
+
+const SEED = JSON.stringify({ pipelines: [{ id: '1', type: 'build', displayName: 'From env' }] });
+
+describe('Pipeline config service', () => {
+    let dir: string;
+    let store: FilePipelineConfigStore;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'pipeline-config-'));
+        store = new FilePipelineConfigStore(join(dir, 'nested', 'pipeline-config.json'));
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('uses the env var until a config is saved', async () => {
+        const service = new PipelineConfigService(store, { daily: SEED });
+        const loaded = await service.load('daily');
+
+        expect(loaded.source).toBe('env');
+        expect(loaded.config.pipelines[0].displayName).toBe('From env');
+    });
+
+    it('saves to the store and serves the saved config from then on', async () => {
+        const service = new PipelineConfigService(store, { daily: SEED });
+        await service.save('daily', { pipelines: [{ id: '2', type: 'release' }] });
+
+        // A fresh service has no cache, so this reads the file
+        const loaded = await new PipelineConfigService(store, { daily: SEED }).load('daily');
+        expect(loaded.source).toBe('store');
+        expect(loaded.updatedAt).toBeDefined();
+        expect(loaded.config.pipelines).toEqual([{ id: '2', type: 'release' }]);
+    });
+
+    it('keeps the scopes apart in the file', async () => {
+        const service = new PipelineConfigService(store, {});
+        await service.save('daily', { pipelines: [{ id: '1', type: 'build' }] });
+        await service.save('weekly', { pipelines: [{ id: '9', type: 'release' }] });
+
+        const file = JSON.parse(await readFile(join(dir, 'nested', 'pipeline-config.json'), 'utf-8'));
+        expect(Object.keys(file).sort()).toEqual(['daily', 'weekly']);
+        expect((await service.load('weekly')).config.pipelines[0].id).toBe('9');
+    });
+
+    it('rejects an invalid config without touching the store', async () => {
+        const service = new PipelineConfigService(store, { daily: SEED });
+
+        await expect(service.save('daily', { pipelines: [{ id: 'x', type: 'build' }] })).rejects.toBeInstanceOf(PipelineConfigError);
+        expect(await store.read('daily')).toBeNull();
+    });
+
+    it('falls back to the env var when the store cannot be read', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const broken: PipelineConfigStore = {
+            description: 'broken store',
+            read: async () => { throw new Error('unreachable'); },
+            write: async () => { throw new Error('unreachable'); }
+        };
+        const loaded = await new PipelineConfigService(broken, { daily: SEED }).load('daily');
+
+        expect(loaded.source).toBe('env');
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining('broken store'));
+    });
+
+    it('throws when there is neither a saved config nor an env var', async () => {
+        await expect(new PipelineConfigService(store, {}).load('weekly')).rejects.toThrow('Missing pipeline config');
+    });
+
+    it('leaves disabled pipelines out of the active config', async () => {
+        const service = new PipelineConfigService(store, {});
+        await service.save('daily', {
+            pipelines: [
+                { id: '1', type: 'build' },
+                { id: '2', type: 'build', enabled: false }
+            ]
+        });
+
+        expect((await service.getActive('daily')).pipelines.map((p) => p.id)).toEqual(['1']);
+        expect((await service.load('daily')).config.pipelines).toHaveLength(2);
+    });
+
+    it('refuses to save without a store', async () => {
+        await expect(new PipelineConfigService(null, { daily: SEED }).save('daily', { pipelines: [] }))
+            .rejects.toThrow('No pipeline config store is configured');
+    });
+});
+
+describe('Pipeline config store selection', () => {
+    it('uses Azure Table storage when a connection string is set', () => {
+        const store = createPipelineConfigStore({ AZURE_STORAGE_CONNECTION_STRING: 'UseDevelopmentStorage=true' });
+        expect(store).toBeInstanceOf(TablePipelineConfigStore);
+    });
+
+    it('uses a local file otherwise', () => {
+        const store = createPipelineConfigStore({ PIPELINE_CONFIG_FILE: '/tmp/config.json' });
+        expect(store).toBeInstanceOf(FilePipelineConfigStore);
+        expect(store?.description).toBe('local file /tmp/config.json');
+    });
+
+    it('can be turned off', () => {
+        expect(createPipelineConfigStore({ PIPELINE_CONFIG_STORE: 'none', AZURE_STORAGE_CONNECTION_STRING: 'x' })).toBeNull();
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AdoClient } from '$lib/server/ado';
+import { constructReleaseById } from '$lib/server/releases';
+import type { Release } from '$lib/types/release';
+import { explainReleasePipelineStatus } from '$lib/utils/getReleasePipelineStatus';
+import { judgedAttemptCounts, summarizeAttempts } from '$lib/utils/releaseAttempts';
+import { getLinkedRunInitialCounts } from '$lib/utils/linkedRuns';
+import { releaseCacheKey } from '$lib/utils/cacheKeys';
+
+// Tests environment 1 was redeployed: 80 of 100 passed at first with 10 more not run, 98 of 100 on the retry; environment 2 ran once
+const RUNS = [
+    { environmentId: 1, attempt: 1, passed: 80, failed: 20, notRun: 10 },
+    { environmentId: 1, attempt: 2, passed: 98, failed: 2, notRun: 0 },
+    { environmentId: 2, attempt: 1, passed: 50, failed: 0, notRun: 0 }
+];
+
+function fakeAdo(runs: typeof RUNS): AdoClient {
+    return {
+        getRelease: vi.fn().mockResolvedValue({
+            id: 7,
+            name: 'Release-7',
+            status: 'active',
+            createdOn: '2026-03-10T04:00:00Z',
+            modifiedOn: '2026-03-10T06:00:00Z',
+            environments: [
+                { id: 1, name: 'EU Tests', status: 'succeeded', deploySteps: [{ attempt: 1 }, { attempt: 2 }] },
+                { id: 2, name: 'US Tests', status: 'succeeded', deploySteps: [{ attempt: 1 }] }
+            ]
+        }),
+        listTestRuns: vi.fn().mockResolvedValue(runs.map((run, i) => ({
+            id: i + 1,
+            name: `Run ${run.environmentId}`,
+            passedTests: run.passed,
+            failedTests: run.failed,
+            notApplicableTests: run.notRun,
+            release: { id: 7, environmentId: run.environmentId, attempt: run.attempt }
+        }))),
+        releaseLink: (id: number) => `https://example.test/release/${id}`
+    } as unknown as AdoClient;
+}
+
+describe('Release attempts - summary', () => {
+    it('adds up the first, last and worst attempt of each environment', () => {
+        const { attempts, lastByEnvironment } = summarizeAttempts(RUNS);
+        expect(attempts).toEqual({
+            first: { passedTestCount: 130, failedTestCount: 20, notRunTestCount: 10 },
+            last: { passedTestCount: 148, failedTestCount: 2, notRunTestCount: 0 },
+            worst: { passedTestCount: 130, failedTestCount: 20, notRunTestCount: 10 },
+            initialPassRate: 86.67,
+            finalPassRate: 98.67,
+            recoveredByRetry: 18,
+            retried: true
+        });
+        expect(lastByEnvironment.get(1)).toEqual({ passedTestCount: 98, failedTestCount: 2, notRunTestCount: 0 });
+    });
+
+    it('never picks an attempt without tests as the worst', () => {
+        const { attempts } = summarizeAttempts([
+            { environmentId: 1, attempt: 1, passed: 0, failed: 0, notRun: 0 },
+            { environmentId: 1, attempt: 2, passed: 9, failed: 1, notRun: 0 }
+        ]);
+        expect(attempts.worst).toEqual({ passedTestCount: 9, failedTestCount: 1, notRunTestCount: 0 });
+        expect(summarizeAttempts([]).attempts).toMatchObject({ retried: false, recoveredByRetry: 0, initialPassRate: undefined });
+    });
+});
+
+describe('Release attempts - status policy', () => {
+    const release: Release = {
+        id: 7,
+        name: 'Release-7',
+        status: 'active',
+        createdOn: '2026-03-10T04:00:00Z',
+        modifiedOn: '2026-03-10T06:00:00Z',
+        envs: [{ id: 1, name: 'EU Tests', status: 'succeeded' }],
+        passedTestCount: 148,
+        failedTestCount: 2,
+        attempts: summarizeAttempts(RUNS).attempts
+    };
+
+    it('judges on the last attempt unless the pipeline says otherwise', () => {
+        expect(explainReleasePipelineStatus(release)).toMatchObject({ status: 'good', passRate: 148 / 150 * 100 });
+        expect(explainReleasePipelineStatus(release, { attemptPolicy: 'first' })).toMatchObject({
+            status: 'ok',
+            reason: '130 of 150 tests passed (86.7%), below 95% but at least 70% with the default thresholds, judged on the first attempt'
+        });
+        expect(explainReleasePipelineStatus(release, { attemptPolicy: 'worst', thresholds: { ok: 90 } }).status).toBe('bad');
+    });
+
+    it('falls back to the release counts when it has no attempts', () => {
+        const { attempts: _, ...withoutAttempts } = release;
+        expect(judgedAttemptCounts(withoutAttempts, 'first')).toEqual({ passedTestCount: 148, failedTestCount: 2 });
+        expect(explainReleasePipelineStatus(withoutAttempts, { attemptPolicy: 'first' }).reason).not.toContain('attempt');
+    });
+
+    it('keys cached releases by the policy only when it is not the last attempt', () => {
+        expect(releaseCacheKey('2026-03-10', '7', 'UTC', null, null, null, 'last')).toBe(releaseCacheKey('2026-03-10', '7', 'UTC'));
+        expect(releaseCacheKey('2026-03-10', '7', 'UTC', null, null, null, 'first')).not.toBe(releaseCacheKey('2026-03-10', '7', 'UTC', null, null, null, 'worst'));
+    });
+});
+
+describe('Release attempts - constructed release', () => {
+    it('counts the last attempt and keeps the first and worst ones alongside', async () => {
+        const release = await constructReleaseById(fakeAdo(RUNS), 7) as Release;
+        expect(release).toMatchObject({ passedTestCount: 148, failedTestCount: 2, status: 'good' });
+        expect(release.attempts).toMatchObject({ initialPassRate: 86.67, finalPassRate: 98.67, recoveredByRetry: 18 });
+        expect(release.environments?.map((env) => env.passedTestCount)).toEqual([98, 50]);
+
+        const judgedOnFirst = await constructReleaseById(fakeAdo(RUNS), 7, { attemptPolicy: 'first' }) as Release;
+        expect(judgedOnFirst).toMatchObject({ passedTestCount: 148, status: 'ok' });
+    });
+
+    it('counts the tests that did not run on the attempt it is judged on', async () => {
+        const release = await constructReleaseById(fakeAdo(RUNS), 7) as Release;
+        expect(release.notRunTestCount).toBe(0);
+        expect(explainReleasePipelineStatus(release, { attemptPolicy: 'first', thresholds: { notRunPolicy: 'fail' } }).reason)
+            .toBe('130 of 160 tests passed (81.3%), below 95% but at least 70% with the default thresholds, counting the 10 that did not run as failed, judged on the first attempt');
+        expect(explainReleasePipelineStatus(release, { thresholds: { notRunPolicy: 'fail' } }).reason).not.toContain('did not run');
+    });
+
+    it('holds the release to its learned volume and learns from it', async () => {
+        const history = { learned: vi.fn().mockResolvedValue(1000), record: vi.fn().mockResolvedValue(undefined) };
+        const subject = { kind: 'release' as const, definitionId: '201' };
+        const release = await constructReleaseById(fakeAdo(RUNS), 7, {}, { history, subject }) as Release;
+        expect(release.statusExplanation).toMatchObject({ status: 'incomplete', reason: 'Only 150 of the usual 1000 tests ran, below 50%' });
+        expect(history.learned).toHaveBeenCalledWith(subject, '2026-03-10');
+        expect(history.record).toHaveBeenCalledWith(subject, '2026-03-10', 150);
+    });
+
+    it('adds a linked build to the release\'s first attempt', () => {
+        const release = { passedTestCount: 148, failedTestCount: 2, attempts: summarizeAttempts(RUNS).attempts } as Release;
+        const build = { passedTestCount: 10, failedTestCount: 0 } as any;
+        expect(getLinkedRunInitialCounts({ buildId: 1, builds: [build], release, status: 'ok' }))
+            .toEqual({ initialPassCount: 140, initialFailCount: 20 });
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AdoClient, AdoReleaseEnvironment } from '$lib/server/ado';
+import { constructReleaseById } from '$lib/server/releases';
+import type { Release } from '$lib/types/release';
+import { explainReleasePipelineStatus } from '$lib/utils/getReleasePipelineStatus';
+import { filterReleaseEnvironments, getEnvironmentStatus, isEnvironmentIncluded } from '$lib/utils/releaseEnvironments';
+import { releaseEnvironmentStages } from '$lib/utils/linkedRuns';
+import { resolveThresholds } from '$lib/utils/statusScoring';
+import { releaseCacheKey } from '$lib/utils/cacheKeys';
+import { PipelineConfigError, validatePipelineConfig } from '$lib/utils/pipelineConfig';
+
+function environment(id: number, name: string, status: string, attempts = 1): AdoReleaseEnvironment {
+    return {
+        id,
+        name,
+        status,
+        deploySteps: Array.from({ length: attempts }, (_, i) => ({
+            attempt: i + 1,
+            status,
+            queuedOn: '2026-03-10T04:00:00Z',
+            lastModifiedOn: '2026-03-10T04:30:00Z'
+        }))
+    };
+}
+
+function fakeAdo(environments: AdoReleaseEnvironment[], runs: Array<{ envId: number; attempt: number; passed: number; failed: number }>): AdoClient {
+    return {
+        getRelease: vi.fn().mockResolvedValue({
+            id: 7,
+            name: 'Release-7',
+            status: 'active',
+            createdOn: '2026-03-10T04:00:00Z',
+            modifiedOn: '2026-03-10T06:00:00Z',
+            environments
+        }),
+        listTestRuns: vi.fn().mockResolvedValue(runs.map((run, i) => ({
+            id: i + 1,
+            name: `Run ${i + 1}`,
+            state: 'Completed',
+            totalTests: run.passed + run.failed,
+            passedTests: run.passed,
+            failedTests: run.failed,
+            release: { id: 7, environmentId: run.envId, attempt: run.attempt }
+        }))),
+        releaseLink: (id: number) => `https://example.test/release/${id}`
+    } as unknown as AdoClient;
+}
+
+describe('Release environments - filter', () => {
+    it('leaves out PTA unless the pipeline sets its own exclude list', () => {
+        expect(isEnvironmentIncluded('QA')).toBe(true);
+        expect(isEnvironmentIncluded('PTA')).toBe(false);
+        expect(isEnvironmentIncluded('PTA', { exclude: [] })).toBe(true);
+    });
+
+    it('keeps only included environments, minus the excluded ones', () => {
+        const envs = [{ name: 'EU Tests' }, { name: 'US Tests' }, { name: 'EU Canary' }, { name: 'PTA' }];
+        expect(filterReleaseEnvironments(envs, { include: ['* Tests', 'EU *'], exclude: ['US *'] }).map((e) => e.name))
+            .toEqual(['EU Tests', 'EU Canary']);
+    });
+});
+
+describe('Release environments - quality', () => {
+    const thresholds = resolveThresholds({ good: 99 });
+
+    it('scores environments that ran tests by pass rate, the others by deployment', () => {
+        expect(getEnvironmentStatus('succeeded', 98, 2, thresholds)).toBe('ok');
+        expect(getEnvironmentStatus('rejected', 100, 0, thresholds)).toBe('good');
+        expect(getEnvironmentStatus('succeeded', 0, 0, thresholds)).toBe('good');
+        expect(getEnvironmentStatus('rejected', 0, 0, thresholds)).toBe('bad');
+        expect(getEnvironmentStatus('canceled', 0, 0, thresholds)).toBe('interrupted');
+        expect(getEnvironmentStatus('inProgress', 5, 0, thresholds)).toBe('inProgress');
+        expect(getEnvironmentStatus('notStarted', 0, 0, thresholds)).toBe('unknown');
+    });
+
+    it('scores the release on the environments the pipeline picks', () => {
+        const release = {
+            id: 7, name: 'Release-7', status: 'active', createdOn: '', modifiedOn: '', passedTestCount: 10, failedTestCount: 0,
+            envs: [{ name: 'Tests', status: 'succeeded' }, { name: 'Canary', status: 'notStarted' }]
+        } as Release;
+        expect(explainReleasePipelineStatus(release)).toMatchObject({ status: 'interrupted', rule: 'envsNotStarted' });
+        expect(explainReleasePipelineStatus(release, { environments: { exclude: ['Canary'] } })).toMatchObject({ status: 'good' });
+    });
+});
+
+describe('Release environments - constructing a release', () => {
+    const environments = [
+        environment(1, 'Deploy', 'succeeded'),
+        environment(2, 'EU Tests', 'succeeded', 2),
+        environment(3, 'US Tests', 'rejected'),
+        environment(4, 'PTA', 'queued')
+    ];
+    const runs = [
+        { envId: 2, attempt: 1, passed: 10, failed: 10 },
+        { envId: 2, attempt: 2, passed: 19, failed: 1 },
+        { envId: 3, attempt: 1, passed: 5, failed: 5 }
+    ];
+
+    it('returns each environment with its own pass rate, duration and attempts', async () => {
+        const release = await constructReleaseById(fakeAdo(environments, runs), 7) as Release;
+
+        expect(release.environments?.map((e) => [e.name, e.deployStatus, e.status, e.passRate])).toEqual([
+            ['Deploy', 'succeeded', 'good', undefined],
+            ['EU Tests', 'succeeded', 'good', 95],
+            ['US Tests', 'rejected', 'bad', 50]
+        ]);
+        expect(release.environments?.[1]).toMatchObject({ passedTestCount: 19, failedTestCount: 1, durationMs: 30 * 60 * 1000, attempts: 2 });
+        expect(release).toMatchObject({ passedTestCount: 24, failedTestCount: 6, status: 'ok' });
+        expect(releaseEnvironmentStages(release).map((s) => [s.name, s.attempts])).toEqual([['Deploy', null], ['EU Tests', 2], ['US Tests', null]]);
+    });
+
+    it('leaves excluded environments out of the counts and the status', async () => {
+        const release = await constructReleaseById(fakeAdo(environments, runs), 7, { environments: { exclude: ['US *', 'PTA'] } }) as Release;
+
+        expect(release.environments?.map((e) => e.name)).toEqual(['Deploy', 'EU Tests']);
+        expect(release).toMatchObject({ passedTestCount: 19, failedTestCount: 1, status: 'good' });
+    });
+
+    it('keys cached releases by their environments only when a pipeline picks them', () => {
+        expect(releaseCacheKey('2026-03-10', '7', 'UTC', null, null, {})).toBe(releaseCacheKey('2026-03-10', '7', 'UTC'));
+        expect(releaseCacheKey('2026-03-10', '7', 'UTC', null, null, { exclude: [] })).not.toBe(releaseCacheKey('2026-03-10', '7', 'UTC'));
+    });
+});
+
+describe('Release environments - config', () => {
+    it('accepts include and exclude lists on pipelines with releases', () => {
+        const config = validatePipelineConfig({ pipelines: [{ id: '7', type: 'release', environments: { include: ['* Tests'], exclude: [] } }] });
+        expect(config.pipelines[0].environments).toEqual({ include: ['* Tests'], exclude: [] });
+
+        expect(() => validatePipelineConfig({ pipelines: [{ id: '7', type: 'build', environments: { exclude: ['PTA'] } }] }))
+            .toThrow(PipelineConfigError);
+        expect(() => validatePipelineConfig({ pipelines: [{ id: '7', type: 'release', environments: { include: 'QA' } }] }))
+            .toThrow(/environments\.include: expected an array of non-empty strings/);
+    });
+});
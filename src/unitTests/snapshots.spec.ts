@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    DaySnapshotService,
+    FileDaySnapshotStore,
+    TableDaySnapshotStore,
+    createDaySnapshotStore
+} from '$lib/server/snapshots';
+import { isFinalizedDay, isFreezableAnswer, latestFinalizedDay, snapshotDates } from '$lib/utils/snapshots';
+
+// 2026-03-12 01:00 in Amsterdam, still 2026-03-11 in Chicago
+const NOW = new Date('2026-03-12T00:00:00Z');
+
+describe('Finalized days', () => {
+    it('are the days that ended at least a full day ago in the zone', () => {
+        expect(latestFinalizedDay('Europe/Amsterdam', NOW)).toBe('2026-03-10');
+        expect(latestFinalizedDay('America/Chicago', NOW)).toBe('2026-03-09');
+        expect(isFinalizedDay('2026-03-10', 'Europe/Amsterdam', NOW)).toBe(true);
+        expect(isFinalizedDay('2026-03-10', 'America/Chicago', NOW)).toBe(false);
+    });
+
+    it('only freeze answers without errors or running runs', () => {
+        expect(isFreezableAnswer([{ status: 'good', failure: { category: 'timeout' } }])).toBe(true);
+        expect(isFreezableAnswer({ buildId: null, message: 'No build found for this day' })).toBe(true);
+        expect(isFreezableAnswer(null)).toBe(true);
+        expect(isFreezableAnswer({ error: 'Failed to fetch build details' })).toBe(false);
+        expect(isFreezableAnswer([{ status: 'good' }, { status: 'inProgress' }])).toBe(false);
+        expect(isFreezableAnswer({ quality: 'bad', contributions: [{ status: 'inProgress' }] })).toBe(false);
+    });
+
+    it('list every date of a range', () => {
+        expect(snapshotDates('2026-02-27', '2026-03-02')).toEqual(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02']);
+        expect(snapshotDates('2026-03-02', '2026-03-01')).toEqual([]);
+    });
+});
+
+describe('Day snapshot service', () => {
+    let dir: string;
+    let service: DaySnapshotService;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'day-snapshots-'));
+        service = new DaySnapshotService(new FileDaySnapshotStore(dir), () => NOW);
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('freezes a finalized day once and answers from the snapshot from then on', async () => {
+        const compute = vi.fn().mockResolvedValueOnce({ quality: 'good' }).mockResolvedValue({ quality: 'unknown' });
+
+        expect(await service.getOrFreeze('dayquality:2026-03-01', '2026-03-01', 'UTC', compute)).toEqual({ quality: 'good' });
+        expect(await service.getOrFreeze('dayquality:2026-03-01', '2026-03-01', 'UTC', compute)).toEqual({ quality: 'good' });
+        expect(compute).toHaveBeenCalledTimes(1);
+        expect(await service.isFrozen('2026-03-01', 'dayquality:2026-03-01')).toBe(true);
+        expect(await service.isFrozen('2026-03-01', 'dayquality:2026-03-01:weighted')).toBe(false);
+    });
+
+    it('reads a snapshot from the store once, and a missing one again after a while', async () => {
+        let now = NOW;
+        const store = new FileDaySnapshotStore(dir);
+        const read = vi.spyOn(store, 'read');
+        const cached = new DaySnapshotService(store, () => now);
+        const compute = vi.fn().mockResolvedValue({ quality: 'good', contributions: [{ status: 'inProgress' }] });
+
+        await cached.getOrFreeze('dayquality:2026-03-01', '2026-03-01', 'UTC', compute);
+        await cached.getOrFreeze('dayquality:2026-03-01', '2026-03-01', 'UTC', compute);
+        expect(read).toHaveBeenCalledTimes(1);
+        now = new Date(NOW.getTime() + 61_000);
+        await cached.getOrFreeze('dayquality:2026-03-01', '2026-03-01', 'UTC', compute);
+        expect(read).toHaveBeenCalledTimes(2);
+
+        compute.mockResolvedValue({ quality: 'good' });
+        now = new Date(NOW.getTime() + 122_000);
+        await cached.getOrFreeze('dayquality:2026-03-01', '2026-03-01', 'UTC', compute);
+        expect(await cached.getOrFreeze('dayquality:2026-03-01', '2026-03-01', 'UTC', compute)).toEqual({ quality: 'good' });
+        expect(await cached.isFrozen('2026-03-01', 'dayquality:2026-03-01')).toBe(true);
+        expect(read).toHaveBeenCalledTimes(3);
+        expect(compute).toHaveBeenCalledTimes(4);
+    });
+
+    it('never replaces a snapshot', async () => {
+        const store = new FileDaySnapshotStore(dir);
+        const snapshot = { key: 'build:1', date: '2026-03-01', data: [{ status: 'good' }], frozenAt: NOW.toISOString() };
+
+        expect(await store.writeOnce(snapshot)).toBe(true);
+        expect(await store.writeOnce({ ...snapshot, data: [] })).toBe(false);
+        expect((await store.read('2026-03-01', 'build:1'))?.data).toEqual([{ status: 'good' }]);
+    });
+
+    it('does not freeze recent days or answers that are not final', async () => {
+        const compute = vi.fn().mockResolvedValue([{ status: 'inProgress' }]);
+        await service.getOrFreeze('build:1', '2026-03-01', 'UTC', compute);
+        await service.getOrFreeze('build:1', '2026-03-11', 'UTC', async () => [{ status: 'good' }]);
+        await service.getOrFreeze('dayquality:2026-03-02', '2026-03-02', 'UTC', async () => ({ quality: 'good', complete: false }), (answer) => answer.complete);
+
+        expect(await service.isFrozen('2026-03-01', 'build:1')).toBe(false);
+        expect(await service.isFrozen('2026-03-11', 'build:1')).toBe(false);
+        expect(await service.isFrozen('2026-03-02', 'dayquality:2026-03-02')).toBe(false);
+    });
+
+    it('still answers when the store fails', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const broken = new DaySnapshotService({
+            description: 'broken',
+            read: () => Promise.reject(new Error('unreachable')),
+            writeOnce: () => Promise.reject(new Error('unreachable'))
+        }, () => NOW);
+
+        expect(await broken.getOrFreeze('build:1', '2026-03-01', 'UTC', async () => [{ status: 'good' }])).toEqual([{ status: 'good' }]);
+        expect(console.error).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('Day snapshot store selection', () => {
+    it('follows SNAPSHOT_STORE, then the storage connection string', () => {
+        expect(createDaySnapshotStore({ SNAPSHOT_DIR: '/tmp/snapshots' })).toBeInstanceOf(FileDaySnapshotStore);
+        expect(createDaySnapshotStore({ AZURE_STORAGE_CONNECTION_STRING: 'UseDevelopmentStorage=true' })).toBeInstanceOf(TableDaySnapshotStore);
+        expect(createDaySnapshotStore({ SNAPSHOT_STORE: 'none' })).toBeNull();
+        expect(createDaySnapshotStore({ FIXTURES_MODE: 'replay' })).toBeNull();
+    });
+});
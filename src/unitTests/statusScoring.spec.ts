@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import type { Build } from '$lib/types/build';
+import type { Release } from '$lib/types/release';
+import type { PipelineConfig, PipelineThresholds } from '$lib/types/pipelineConfig';
+import { explainBuildPipelineStatus, getBuildPipelineStatus } from '$lib/utils/getBuildPipelineStatus';
+import { explainReleasePipelineStatus, getReleasePipelineStatus } from '$lib/utils/getReleasePipelineStatus';
+import { judgeTestCounts, resolveNotRunPolicy, resolveTestVolume, resolveThresholds, scoreStatus } from '$lib/utils/statusScoring';
+import { findPipelineThresholds } from '$lib/utils/pipelineConfig';
+import { buildCacheKey, dayQualityCacheKey, releaseCacheKey } from '$lib/utils/cacheKeys';
+import { DEFAULT_BUILD_FILTERS } from '$lib/utils/pipelineFilters';
+
+const UNIT_AND_E2E: PipelineThresholds = { good: 99, ok: 90, testRuns: { 'E2E *': { good: 85, ok: 60 }, 'E2E Smoke': { good: 100 } } };
+
+function build(testRunName: string, passed: number, failed: number): Build {
+    return {
+        id: 1,
+        name: '20260310.1',
+        status: 'completed',
+        result: 'succeeded',
+        startTime: '2026-03-10T03:00:00Z',
+        modifiedOn: '2026-03-10T04:00:00Z',
+        testRunName,
+        passedTestCount: passed,
+        failedTestCount: failed
+    };
+}
+
+function release(envs: Array<{ name: string; status: string }>, passed?: number, failed?: number): Release {
+    return {
+        id: 9,
+        name: 'Release-9',
+        status: 'active',
+        createdOn: '2026-03-10T05:00:00Z',
+        modifiedOn: '2026-03-10T06:00:00Z',
+        envs: envs.map((env, index) => ({ id: index + 1, ...env })),
+        passedTestCount: passed,
+        failedTestCount: failed
+    };
+}
+
+describe('Threshold resolution', () => {
+    it('uses the defaults without overrides', () => {
+        expect(resolveThresholds(undefined)).toEqual({ good: 95, ok: 70, envNotStarted: 0.3, source: 'default' });
+    });
+
+    it('layers pipeline, then test run overrides, an exact name ahead of a wildcard', () => {
+        expect(resolveThresholds(UNIT_AND_E2E, 'Unit tests')).toMatchObject({ good: 99, ok: 90, source: 'pipeline' });
+        expect(resolveThresholds(UNIT_AND_E2E, 'E2E Checkout')).toMatchObject({ good: 85, ok: 60, source: 'testRun', testRun: 'E2E *' });
+        expect(resolveThresholds(UNIT_AND_E2E, 'E2E Smoke')).toMatchObject({ good: 100, ok: 90, testRun: 'E2E Smoke' });
+    });
+});
+
+describe('Build status with thresholds', () => {
+    it('holds unit tests to 99% while the E2E suite is fine at 85%', async () => {
+        expect(await getBuildPipelineStatus(build('Unit tests', 985, 15), false, UNIT_AND_E2E)).toBe('ok');
+        expect(await getBuildPipelineStatus(build('E2E Checkout', 86, 14), false, UNIT_AND_E2E)).toBe('good');
+        // Without overrides both are scored against 95/70
+        expect(await getBuildPipelineStatus(build('Unit tests', 985, 15))).toBe('good');
+        expect(await getBuildPipelineStatus(build('E2E Checkout', 86, 14))).toBe('ok');
+    });
+
+    it('explains which rule decided and with which thresholds', () => {
+        expect(explainBuildPipelineStatus(build('E2E Checkout', 50, 50), { thresholds: UNIT_AND_E2E })).toMatchObject({
+            status: 'bad',
+            rule: 'passRate',
+            passRate: 50,
+            reason: '50 of 100 tests passed (50%), below 60% with the test run "E2E *" thresholds',
+            thresholds: { good: 85, ok: 60, source: 'testRun' }
+        });
+        expect(explainBuildPipelineStatus({ ...build('Unit tests', 0, 0), status: 'inProgress' })).toMatchObject({ status: 'inProgress', rule: 'inProgress' });
+        expect(explainBuildPipelineStatus(build('Unit tests', 0, 0))).toMatchObject({ status: 'unknown', rule: 'noTests' });
+    });
+
+    it('runs the rules it is given', () => {
+        const rules = [{ name: 'alwaysGood', evaluate: () => ({ status: 'good', reason: 'Trusted' }) }];
+        expect(explainBuildPipelineStatus(build('Unit tests', 0, 10), { rules })).toMatchObject({ status: 'good', rule: 'alwaysGood' });
+        expect(scoreStatus([], {}, { thresholds: resolveThresholds(null), considerAutomationStatus: false }))
+            .toMatchObject({ status: 'unknown', rule: 'none' });
+    });
+});
+
+describe('Release status with thresholds', () => {
+    const envs = [
+        { name: 'Deploy', status: 'succeeded' },
+        { name: 'Tests', status: 'succeeded' },
+        { name: 'Canary', status: 'notStarted' },
+        { name: 'PTA', status: 'notStarted' }
+    ];
+
+    it('lets a pipeline tolerate more environments not starting', async () => {
+        expect(explainReleasePipelineStatus(release(envs, 97, 3))).toMatchObject({
+            status: 'interrupted',
+            rule: 'envsNotStarted',
+            reason: '1 of 3 environments did not start, more than 30%'
+        });
+        expect(await getReleasePipelineStatus(release(envs, 97, 3), true, { envNotStarted: 0.5 })).toBe('good');
+        expect(await getReleasePipelineStatus(release(envs, 97, 3), true, { envNotStarted: 0.5, good: 98 })).toBe('ok');
+    });
+
+    it('keeps explaining automation failures when no tests ran', () => {
+        expect(explainReleasePipelineStatus(release([{ name: 'Tests', status: 'rejected' }], 0, 0)))
+            .toMatchObject({ status: 'interrupted', rule: 'automationFailed' });
+    });
+});
+
+describe('Test volume', () => {
+    it('holds runs to the configured expectedTests ahead of the learned volume', () => {
+        expect(resolveTestVolume({ expectedTests: 4000 }, 3000)).toEqual({ expected: 4000, minShare: 0.5, source: 'config' });
+        expect(resolveTestVolume({ thresholds: { minTestVolume: 0.9 } }, 3000)).toEqual({ expected: 3000, minShare: 0.9, source: 'history' });
+        expect(resolveTestVolume(undefined, null)).toBeNull();
+    });
+
+    it('marks a finished run with far fewer tests than usual incomplete, whatever its pass rate', async () => {
+        const testVolume = resolveTestVolume({ expectedTests: 4000 });
+        expect(explainBuildPipelineStatus(build('Unit tests', 40, 0), { testVolume })).toMatchObject({
+            status: 'incomplete',
+            rule: 'incomplete',
+            reason: 'Only 40 of the expected 4000 tests ran, below 50%'
+        });
+        expect(explainBuildPipelineStatus(build('Unit tests', 2000, 0), { testVolume }).status).toBe('good');
+        expect(explainBuildPipelineStatus({ ...build('Unit tests', 40, 0), status: 'inProgress' }, { testVolume }).status).toBe('inProgress');
+        expect(explainReleasePipelineStatus(release([{ name: 'Tests', status: 'succeeded' }], 10, 0), { testVolume: resolveTestVolume(null, 300) }))
+            .toMatchObject({ status: 'incomplete', reason: 'Only 10 of the usual 300 tests ran, below 50%' });
+    });
+
+    it('marks a finished run without any test runs incomplete once its volume is known', () => {
+        const noTestRuns: Build = { ...build('Unit tests', 0, 0), testRunName: undefined, passedTestCount: undefined, failedTestCount: undefined };
+        expect(explainBuildPipelineStatus(noTestRuns, { testVolume: resolveTestVolume({ expectedTests: 4000 }) })).toMatchObject({
+            status: 'incomplete',
+            rule: 'noTestRuns',
+            reason: 'Only 0 of the expected 4000 tests ran, below 50%'
+        });
+        expect(explainBuildPipelineStatus(noTestRuns).status).toBe('unknown');
+        expect(explainBuildPipelineStatus({ ...noTestRuns, status: 'inProgress' }, { testVolume: resolveTestVolume({ expectedTests: 4000 }) }).status).toBe('inProgress');
+        expect(explainReleasePipelineStatus(release([{ name: 'Tests', status: 'succeeded' }]), { testVolume: resolveTestVolume({ expectedTests: 300 }) }).status)
+            .toBe('incomplete');
+        expect(explainReleasePipelineStatus(release([{ name: 'Tests', status: 'notStarted' }]), { testVolume: resolveTestVolume({ expectedTests: 300 }) }).status)
+            .toBe('unknown');
+    });
+});
+
+describe('Tests that did not run', () => {
+    const halfSkipped = { ...build('Unit tests', 99, 1), notRunTestCount: 100 };
+
+    it('ignores them by default', () => {
+        expect(resolveNotRunPolicy(undefined)).toEqual({ policy: 'ignore', maxShare: 0.1 });
+        expect(explainBuildPipelineStatus(halfSkipped)).toMatchObject({ status: 'good', passRate: 99 });
+    });
+
+    it('counts them as failures under the fail policy', () => {
+        expect(explainBuildPipelineStatus(halfSkipped, { thresholds: { notRunPolicy: 'fail' } })).toMatchObject({
+            status: 'bad',
+            rule: 'passRate',
+            passRate: 49.5,
+            reason: '99 of 200 tests passed (49.5%), below 70% with the default thresholds, counting the 100 that did not run as failed'
+        });
+        expect(explainBuildPipelineStatus({ ...build('Unit tests', 0, 0), notRunTestCount: 10 }, { thresholds: { notRunPolicy: 'fail' } }).status).toBe('bad');
+    });
+
+    it('caps a good run at ok once more than the allowed share did not run', async () => {
+        const thresholds: PipelineThresholds = { notRunPolicy: 'cap', maxNotRun: 0.6 };
+        expect(explainBuildPipelineStatus(halfSkipped, { thresholds: { notRunPolicy: 'cap' } })).toMatchObject({
+            status: 'ok',
+            reason: '99 of 100 tests passed (99%), at least 95% with the default thresholds, but 100 of 200 tests did not run (50%), more than 10%'
+        });
+        expect(explainBuildPipelineStatus(halfSkipped, { thresholds }).status).toBe('good');
+        expect(await getReleasePipelineStatus({ ...release([{ name: 'Tests', status: 'succeeded' }], 99, 1), notRunTestCount: 100 }, true, { notRunPolicy: 'cap' }))
+            .toBe('ok');
+        expect(judgeTestCounts(99, 1, 100, resolveNotRunPolicy(thresholds))).toEqual({ passed: 99, total: 100, notRun: 100, notRunShare: 0.5, capped: false });
+    });
+});
+
+describe('Finding a pipeline\'s thresholds', () => {
+    const config: PipelineConfig = {
+        pipelines: [
+            { id: '10', type: 'build', thresholds: { good: 99 } },
+            { id: '10', type: 'build', branches: ['release/*'], thresholds: { good: 90 } },
+            { id: '20', type: 'build/release', releaseDefinitionId: '30', connection: 'emea', thresholds: { ok: 50 } },
+            { id: '30', type: 'release', connection: 'emea', thresholds: { ok: 40 } },
+            { id: '40', type: 'release' }
+        ]
+    };
+
+    it('matches builds on id, connection and run filters', () => {
+        expect(findPipelineThresholds(config, { kind: 'build', id: '10', filters: DEFAULT_BUILD_FILTERS })).toEqual({ good: 99 });
+        expect(findPipelineThresholds(config, { kind: 'build', id: '10', filters: { ...DEFAULT_BUILD_FILTERS, branches: ['refs/heads/release/*'] } }))
+            .toEqual({ good: 90 });
+        expect(findPipelineThresholds(config, { kind: 'build', id: '20', connection: 'emea' })).toEqual({ ok: 50 });
+        expect(findPipelineThresholds(config, { kind: 'build', id: '20' })).toBeUndefined();
+    });
+
+    it('prefers release entries over the release half of a build/release entry', () => {
+        expect(findPipelineThresholds(config, { kind: 'release', id: '30', connection: 'emea' })).toEqual({ ok: 40 });
+        expect(findPipelineThresholds({ pipelines: config.pipelines.slice(0, 3) }, { kind: 'release', id: '30', connection: 'emea' })).toEqual({ ok: 50 });
+        expect(findPipelineThresholds(config, { kind: 'release', id: '40' })).toBeUndefined();
+    });
+
+    it('keys cached answers by thresholds only when a pipeline overrides them', () => {
+        expect(releaseCacheKey('2026-03-10', '40', 'UTC', null, {})).toBe(releaseCacheKey('2026-03-10', '40', 'UTC'));
+        expect(buildCacheKey('2026-03-10', '10', 'UTC', DEFAULT_BUILD_FILTERS, null, { good: 99 }))
+            .not.toBe(buildCacheKey('2026-03-10', '10', 'UTC', DEFAULT_BUILD_FILTERS, null, { good: 90 }));
+        expect(dayQualityCacheKey('2026-03-10', 'UTC', [{ id: '10', type: 'build', thresholds: { good: 99 } }]))
+            .not.toBe(dayQualityCacheKey('2026-03-10', 'UTC', [{ id: '10', type: 'build' }]));
+    });
+});
@@ -212,6 +212,44 @@ describe('test-cases API', () => {
             // Should have fetched from run 101 (latest by createdDate), not 100 or 102
         });
 
+        it('should keep the earliest run of each name with attempt=first', async () => {
+            const url = new URL('http://localhost/api/test-cases?pipelineType=release&pipelineId=123&date=2025-12-17&attempt=first');
+
+            const mockTestRuns = {
+                value: [
+                    { id: 100, name: 'SameTestRun', createdDate: '2025-12-17T10:00:00.000Z', release: { environmentId: 1 } },
+                    { id: 101, name: 'SameTestRun', createdDate: '2025-12-17T11:00:00.000Z', release: { environmentId: 1 } }
+                ]
+            };
+
+            global.fetch = vi.fn(async (url: string | URL | Request) => {
+                const urlString = typeof url === 'string' ? url : url.toString();
+                if (urlString.includes('/_apis/test/runs?releaseIds=')) {
+                    return { ok: true, json: async () => mockTestRuns } as any;
+                }
+                if (urlString.includes('/Runs/100/results')) {
+                    return {
+                        ok: true,
+                        json: async () => ({ value: [{ id: 1, testCase: { name: 'Test 1' }, outcome: 'Failed', associatedBugs: [] }] })
+                    } as any;
+                }
+                return { ok: false } as any;
+            });
+
+            const response = await GET({ url } as any);
+            const data = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(data.testCases).toEqual([{ id: 1, name: 'Test 1', outcome: 'Failed', associatedBugs: [] }]);
+        });
+
+        it('should return 400 for an unknown attempt', async () => {
+            const url = new URL('http://localhost/api/test-cases?pipelineType=release&pipelineId=123&date=2025-12-17&attempt=worst');
+            const response = await GET({ url } as any);
+
+            expect(response.status).toBe(400);
+        });
+
         it('should return empty array if no test runs found', async () => {
             const url = new URL('http://localhost/api/test-cases?pipelineType=release&pipelineId=123&date=2025-12-17');
             
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { fetchTestRunsForPlan, filterAndMapTestRuns, groupTestRuns } from '$lib/utils/testPlanRuns';
-import type { AzureEnv } from '$lib/utils/testPlanRuns';
+import { AdoClient } from '$lib/server/ado';
 
 // Helper to create a fake fetch Response
 function makeResponse(body: any, headers: Record<string,string> = {}, ok = true) {
@@ -15,7 +15,7 @@ function makeResponse(body: any, headers: Record<string,string> = {}, ok = true)
 }
 
 describe('fetchTestRunsForPlan pagination and error handling', () => {
-  const azureEnv: AzureEnv = { organization: 'org', project: 'proj', pat: 'pat' };
+  const ado = new AdoClient({ organization: 'org', project: 'proj', pat: 'pat' });
 
   beforeEach(() => {
     vi.restoreAllMocks();
@@ -35,7 +35,7 @@ describe('fetchTestRunsForPlan pagination and error handling', () => {
     const from = new Date('2024-01-01');
     const to = new Date('2024-01-08');
 
-    const runs = await fetchTestRunsForPlan(azureEnv, '123', from, to);
+    const runs = await fetchTestRunsForPlan(ado, '123', from, to);
     expect(runs).toHaveLength(2);
     expect(runs.find((r:any)=>r.id===1)).toBeTruthy();
     expect(runs.find((r:any)=>r.id===2)).toBeTruthy();
@@ -52,7 +52,7 @@ describe('fetchTestRunsForPlan pagination and error handling', () => {
     // @ts-ignore
     vi.stubGlobal('fetch', f);
 
-    const runs = await fetchTestRunsForPlan(azureEnv, '123', new Date('2024-02-01'), new Date('2024-02-08'));
+    const runs = await fetchTestRunsForPlan(ado, '123', new Date('2024-02-01'), new Date('2024-02-08'));
     expect(runs).toHaveLength(2);
   });
 
@@ -61,7 +61,7 @@ describe('fetchTestRunsForPlan pagination and error handling', () => {
     // @ts-ignore
     vi.stubGlobal('fetch', f);
 
-    await expect(fetchTestRunsForPlan(azureEnv, '123', new Date('2024-03-01'), new Date('2024-03-08'))).rejects.toThrow();
+    await expect(fetchTestRunsForPlan(ado, '123', new Date('2024-03-01'), new Date('2024-03-08'))).rejects.toThrow();
   });
 });
 
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('$lib/utils/redisClient', async () => {
+    const { MemoryRedis } = await import('$lib/server/fixtures/memoryRedis');
+    return { default: new MemoryRedis() };
+});
+
+import redis from '$lib/utils/redisClient';
+import { redisTestVolumeHistory } from '$lib/server/testVolume';
+import { testVolumeDay, testVolumeKey, typicalTestVolume, TEST_VOLUME_HISTORY_DAYS } from '$lib/utils/testVolume';
+
+describe('Learned test volume', () => {
+    it('takes the median of the days before the run, once there are enough of them', () => {
+        const samples = { '2026-03-01': 4000, '2026-03-02': 3900, '2026-03-03': 4100, '2026-03-04': 40 };
+        expect(typicalTestVolume(samples, '2026-03-04')).toBe(4000);
+        expect(typicalTestVolume(samples, '2026-03-05')).toBe(3950);
+        expect(typicalTestVolume(samples, '2026-03-03')).toBeNull();
+    });
+
+    it('keeps the latest days only and replaces a day that is recorded again', async () => {
+        const subject = { kind: 'build' as const, definitionId: 10, testRunName: 'Unit' };
+        for (let day = 1; day <= TEST_VOLUME_HISTORY_DAYS + 2; day++) {
+            await redisTestVolumeHistory.record(subject, `2026-03-${String(day).padStart(2, '0')}`, 100);
+        }
+        const samples = await redis.hgetall(testVolumeKey(subject));
+        expect(Object.keys(samples)).toHaveLength(TEST_VOLUME_HISTORY_DAYS);
+        expect(Object.keys(samples).sort()[0]).toBe('2026-03-03');
+
+        await redisTestVolumeHistory.record(subject, '2026-03-16', 50);
+        expect((await redis.hgetall(testVolumeKey(subject)))['2026-03-16']).toBe('50');
+    });
+
+    it('keeps every day recorded at once', async () => {
+        const subject = { kind: 'release' as const, definitionId: 20 };
+        await Promise.all(['2026-03-01', '2026-03-02', '2026-03-03'].map((day) => redisTestVolumeHistory.record(subject, day, 300)));
+        expect(await redisTestVolumeHistory.learned(subject, '2026-03-04')).toBe(300);
+    });
+
+    it('keys volumes per definition, connection and test run', () => {
+        expect(testVolumeKey({ kind: 'build', definitionId: 10, testRunName: 'Unit' }))
+            .not.toBe(testVolumeKey({ kind: 'build', definitionId: 10, connection: 'emea', testRunName: 'Unit' }));
+        expect(testVolumeDay('2026-03-10T23:30:00Z')).toBe('2026-03-10');
+    });
+});